@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import api from '../../services/api';
+import type { RestartHistory as History, SupervisorState } from '../../types/account';
+
+interface RestartHistoryProps {
+  accountId: string;
+}
+
+const STATE_STYLES: Record<SupervisorState, string> = {
+  running: 'bg-green-100 dark:bg-green-800/30 text-green-800 dark:text-green-200',
+  restarting: 'bg-yellow-100 dark:bg-yellow-800/30 text-yellow-800 dark:text-yellow-200',
+  degraded: 'bg-red-100 dark:bg-red-800/30 text-red-800 dark:text-red-200',
+  stopped: 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200',
+};
+
+const REASONS = {
+  crashed: 'Crashed',
+  exited: 'Exited',
+  stalled: 'Never connected',
+  unresponsive: 'Stopped responding',
+};
+
+/**
+ * Worker restarts of an account, newest first
+ */
+const RestartHistory = ({ accountId }: RestartHistoryProps) => {
+  const [history, setHistory] = useState<History | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setHistory(await api.accounts.getRestarts(accountId));
+        setError(null);
+      } catch (err) {
+        console.error('Failed to fetch restart history:', err);
+        setError('Failed to load restart history.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [accountId]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading restart history...</p>;
+  }
+  if (error || !history) {
+    return <p className="text-sm text-red-500 dark:text-red-400">{error}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+        <span className="mr-2">Worker</span>
+        <span
+          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATE_STYLES[history.state]}`}
+        >
+          {history.state}
+        </span>
+      </div>
+
+      {history.restarts.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No restarts recorded.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-gray-200 dark:divide-gray-700">
+          {history.restarts.map(restart => (
+            <li key={restart._id} className="py-2 text-sm">
+              <div className="flex justify-between">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {REASONS[restart.reason]}
+                  {restart.exitCode !== undefined && ` (exit code ${restart.exitCode})`}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {new Date(restart.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {restart.action === 'degrade'
+                  ? `Crash loop after ${restart.attempt} attempts, restarts paused`
+                  : `Attempt ${restart.attempt}, restarted after ${Math.round(restart.delayMs / 1000)}s`}
+              </div>
+              {restart.error && (
+                <div className="text-xs text-red-500 dark:text-red-400">{restart.error}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RestartHistory;
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import api from '../../services/api';
+import type { ClusterAccount, ClusterOverview } from '../../types/cluster';
+
+/**
+ * Server nodes sharing the Discord accounts and the accounts each of them runs
+ */
+const ClusterNodes = () => {
+  const [overview, setOverview] = useState<ClusterOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverview = async () => {
+    try {
+      setLoading(true);
+      setOverview(await api.cluster.getOverview());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch cluster overview:', err);
+      setError('Failed to load cluster nodes.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOverview();
+  }, []);
+
+  const renderAccounts = (accounts: ClusterAccount[]) =>
+    accounts.length === 0 ? (
+      <span className="text-gray-500 dark:text-gray-400">No accounts</span>
+    ) : (
+      accounts.map(account => account.name).join(', ')
+    );
+
+  return (
+    <div className="mt-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-md font-medium text-gray-900 dark:text-white">Cluster Nodes</h3>
+        <button
+          onClick={fetchOverview}
+          className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Refresh"
+        >
+          <ArrowPathIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Loading cluster nodes...</p>
+      ) : error || !overview ? (
+        <p className="mt-1 text-sm text-red-500 dark:text-red-400">{error}</p>
+      ) : !overview.enabled ? (
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Clustering is disabled, this server runs every account.
+        </p>
+      ) : (
+        <ul className="mt-2 divide-y divide-gray-200 dark:divide-gray-700">
+          {overview.nodes.map(node => (
+            <li key={node.nodeId} className="py-3 text-sm">
+              <div className="flex justify-between items-center">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {node.nodeId}
+                  {node.nodeId === overview.nodeId && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      (this node)
+                    </span>
+                  )}
+                </span>
+                <span
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    node.alive
+                      ? 'bg-green-100 dark:bg-green-800/30 text-green-800 dark:text-green-200'
+                      : 'bg-red-100 dark:bg-red-800/30 text-red-800 dark:text-red-200'
+                  }`}
+                >
+                  {node.alive ? 'Alive' : 'Gone'}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {node.workerCount} workers · last seen{' '}
+                {new Date(node.lastSeenAt).toLocaleTimeString()}
+              </div>
+              <div className="mt-1 text-gray-700 dark:text-gray-300">
+                {renderAccounts(node.accounts)}
+              </div>
+            </li>
+          ))}
+          {overview.unassigned.length > 0 && (
+            <li className="py-3 text-sm">
+              <div className="font-medium text-yellow-700 dark:text-yellow-300">
+                Waiting for a node
+              </div>
+              <div className="mt-1 text-gray-700 dark:text-gray-300">
+                {renderAccounts(overview.unassigned)}
+              </div>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ClusterNodes;
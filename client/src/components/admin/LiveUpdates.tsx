@@ -2,6 +2,7 @@ import React, { useContext, useEffect } from 'react';
 import NotificationContext from '../../context/NotificationContext';
 import useSocket from '../../hooks/useSocket';
 import { SocketEventData } from '../../hooks/useSocket';
+import type { WorkerHeartbeat } from '../../types/account';
 
 interface SystemStatus extends SocketEventData {
   cpuUsage: number;
@@ -23,6 +24,7 @@ interface SystemAlert extends Record<string, unknown> {
 interface LiveUpdatesProps {
   onStatusUpdate?: (status: SystemStatus) => void;
   onAlert?: (alert: SystemAlert) => void;
+  onWorkerHeartbeat?: (heartbeat: WorkerHeartbeat) => void;
 }
 
 /**
@@ -30,7 +32,11 @@ interface LiveUpdatesProps {
  * This component doesn't render anything visible, it just manages the WebSocket connection
  * and dispatches updates to the provided callbacks
  */
-const LiveUpdates: React.FC<LiveUpdatesProps> = ({ onStatusUpdate, onAlert }) => {
+const LiveUpdates: React.FC<LiveUpdatesProps> = ({
+  onStatusUpdate,
+  onAlert,
+  onWorkerHeartbeat,
+}) => {
   const { addNotification } = useContext(NotificationContext);
   const { isConnected, on } = useSocket({
     autoConnect: true,
@@ -62,16 +68,34 @@ const LiveUpdates: React.FC<LiveUpdatesProps> = ({ onStatusUpdate, onAlert }) =>
       });
     };
 
+    // Handler for worker heartbeats, which also arrive when a worker stops sending them
+    const handleWorkerHeartbeat = (heartbeat: WorkerHeartbeat) => {
+      if (onWorkerHeartbeat) {
+        onWorkerHeartbeat(heartbeat);
+      }
+
+      if (!heartbeat.responsive) {
+        addNotification({
+          title: 'Worker unresponsive',
+          message: `The worker of account ${heartbeat.accountId} stopped sending heartbeats`,
+          type: 'warning',
+          data: heartbeat,
+        });
+      }
+    };
+
     // Subscribe to events
     const unsubscribeStatus = on<SystemStatus>('system_status', handleStatusUpdate);
     const unsubscribeAlert = on<SystemAlert>('system_alert', handleSystemAlert);
+    const unsubscribeHeartbeat = on<WorkerHeartbeat>('worker_heartbeat', handleWorkerHeartbeat);
 
     // Clean up subscriptions
     return () => {
       unsubscribeStatus();
       unsubscribeAlert();
+      unsubscribeHeartbeat();
     };
-  }, [isConnected, on, onStatusUpdate, onAlert, addNotification]);
+  }, [isConnected, on, onStatusUpdate, onAlert, onWorkerHeartbeat, addNotification]);
 
   // Component doesn't render anything visible
   return null;
@@ -0,0 +1,91 @@
+import type { WorkerHeartbeat } from '../../types/account';
+
+interface WorkerHeartbeatsProps {
+  heartbeats: WorkerHeartbeat[];
+}
+
+const formatMemory = (bytes?: number) =>
+  bytes === undefined ? '-' : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatUptime = (seconds?: number) => {
+  if (seconds === undefined) return '-';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatMs = (ms?: number) => (ms === undefined ? '-' : `${ms} ms`);
+
+/**
+ * Latest heartbeat of every worker seen since the page opened
+ */
+const WorkerHeartbeats = ({ heartbeats }: WorkerHeartbeatsProps) => {
+  const renderState = ({ responsive, isConnected }: WorkerHeartbeat) => {
+    if (!responsive) {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 dark:bg-red-800/30 text-red-800 dark:text-red-200">
+          Unresponsive
+        </span>
+      );
+    }
+    if (!isConnected) {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 dark:bg-yellow-800/30 text-yellow-800 dark:text-yellow-200">
+          Connecting
+        </span>
+      );
+    }
+    return (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 dark:bg-green-800/30 text-green-800 dark:text-green-200">
+        Alive
+      </span>
+    );
+  };
+
+  return (
+    <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white">Worker Heartbeats</h2>
+
+      {heartbeats.length === 0 ? (
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Waiting for workers to report in...
+        </p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-2 pr-4">Account</th>
+                <th className="py-2 pr-4">State</th>
+                <th className="py-2 pr-4">Last heartbeat</th>
+                <th className="py-2 pr-4">Memory</th>
+                <th className="py-2 pr-4">Uptime</th>
+                <th className="py-2 pr-4">Event loop lag</th>
+                <th className="py-2">Gateway ping</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+              {heartbeats.map(heartbeat => (
+                <tr key={heartbeat.accountId}>
+                  <td className="py-2 pr-4 font-mono text-xs">{heartbeat.accountId}</td>
+                  <td className="py-2 pr-4">{renderState(heartbeat)}</td>
+                  <td className="py-2 pr-4">
+                    {heartbeat.lastHeartbeatAt
+                      ? new Date(heartbeat.lastHeartbeatAt).toLocaleTimeString()
+                      : '-'}
+                  </td>
+                  <td className="py-2 pr-4">{formatMemory(heartbeat.memoryUsage)}</td>
+                  <td className="py-2 pr-4">{formatUptime(heartbeat.uptime)}</td>
+                  <td className="py-2 pr-4">{formatMs(heartbeat.eventLoopLagMs)}</td>
+                  <td className="py-2">{formatMs(heartbeat.gatewayPingMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkerHeartbeats;
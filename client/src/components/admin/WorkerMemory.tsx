@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import api from '../../services/api';
+import type { WorkerMemoryComparison, WorkerMemoryUsage } from '../../types/account';
+
+const MODE_LABELS: Record<WorkerMemoryUsage['mode'], string> = {
+  dedicated: 'One thread per account',
+  pooled: 'Pooled threads',
+};
+
+/**
+ * Worker memory per account now, next to what each worker mode averaged over the last week
+ */
+const WorkerMemory = () => {
+  const [current, setCurrent] = useState<WorkerMemoryUsage | null>(null);
+  const [comparison, setComparison] = useState<WorkerMemoryComparison[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMemory = async () => {
+    try {
+      setLoading(true);
+      const metrics = await api.dashboard.getSystemMetrics();
+      setCurrent(metrics.workerMemory?.current || null);
+      setComparison(metrics.workerMemory?.comparison || []);
+    } catch (error) {
+      console.error('Failed to fetch worker memory:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMemory();
+  }, []);
+
+  const largest = Math.max(...comparison.map(mode => mode.perAccount), 1);
+
+  return (
+    <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">Worker Memory</h2>
+        <button
+          onClick={fetchMemory}
+          className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Refresh"
+        >
+          <ArrowPathIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Loading worker memory...</p>
+      ) : (
+        <>
+          {current && (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {MODE_LABELS[current.mode]}: {current.accounts}{' '}
+              {current.accounts === 1 ? 'account' : 'accounts'} on {current.threads}{' '}
+              {current.threads === 1 ? 'thread' : 'threads'} using {current.heapUsed} MB,{' '}
+              {current.perAccount} MB per account
+            </p>
+          )}
+
+          {comparison.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+              No worker memory samples recorded yet
+            </p>
+          ) : (
+            <ul className="mt-4 space-y-3">
+              {comparison.map(mode => (
+                <li key={mode.mode}>
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {MODE_LABELS[mode.mode]}
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {mode.perAccount} MB per account · {mode.accounts} accounts on average
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-2 rounded-full ${mode.mode === 'pooled' ? 'bg-green-500' : 'bg-blue-500'}`}
+                      style={{ width: `${(mode.perAccount / largest) * 100}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WorkerMemory;
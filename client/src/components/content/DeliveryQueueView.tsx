@@ -0,0 +1,236 @@
+import { useState, useEffect, useContext, useCallback } from 'react';
+import { ArrowPathIcon, XMarkIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { NotificationContext } from '../../context';
+import api from '../../services/api';
+import type { DeliveryJob, DeliveryJobStatus, DeliveryQueueStats } from '../../types/delivery';
+
+const STATUSES: DeliveryJobStatus[] = [
+  'queued',
+  'dispatched',
+  'delivered',
+  'failed',
+  'dead',
+  'cancelled',
+];
+
+const STATUS_STYLES: Record<DeliveryJobStatus, string> = {
+  queued: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  dispatched: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  delivered: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  failed: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  dead: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+// Jobs in these states can be queued again
+const RETRYABLE: DeliveryJobStatus[] = ['failed', 'dead', 'cancelled'];
+
+const PAGE_SIZE = 20;
+
+const DeliveryQueueView = () => {
+  const { showNotification } = useContext(NotificationContext);
+  const [jobs, setJobs] = useState<DeliveryJob[]>([]);
+  const [stats, setStats] = useState<DeliveryQueueStats | null>(null);
+  const [status, setStatus] = useState<DeliveryJobStatus | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [list, queueStats] = await Promise.all([
+        api.deliveries.getAll({
+          status: status === 'all' ? undefined : status,
+          page,
+          limit: PAGE_SIZE,
+        }),
+        api.deliveries.getStats(),
+      ]);
+      setJobs(list.jobs);
+      setPages(Math.max(1, list.pagination.pages));
+      setStats(queueStats);
+    } catch (error) {
+      console.error('Failed to fetch delivery queue:', error);
+      showNotification('error', 'Error Loading Queue', 'Failed to load queued deliveries.');
+    } finally {
+      setLoading(false);
+    }
+  }, [showNotification, status, page]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const handleAction = async (job: DeliveryJob, action: 'retry' | 'cancel') => {
+    try {
+      setBusyJobId(job._id);
+      await api.deliveries[action](job._id);
+      showNotification(
+        'success',
+        action === 'retry' ? 'Delivery Queued' : 'Delivery Cancelled',
+        action === 'retry' ? 'The delivery was queued again.' : 'The delivery will not be sent.',
+      );
+      await fetchJobs();
+    } catch (error) {
+      console.error(`Failed to ${action} delivery:`, error);
+      showNotification(
+        'error',
+        'Action Failed',
+        error instanceof Error ? error.message : `Failed to ${action} delivery.`,
+      );
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const friendName = (job: DeliveryJob) =>
+    typeof job.friendId === 'string' ? job.friendId : job.friendId.username;
+
+  const accountName = (job: DeliveryJob) =>
+    typeof job.discordAccountId === 'string' ? job.discordAccountId : job.discordAccountId.name;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">Delivery Queue</h2>
+        <div className="flex items-center space-x-2">
+          <select
+            value={status}
+            onChange={e => {
+              setStatus(e.target.value as DeliveryJobStatus | 'all');
+              setPage(1);
+            }}
+            className="rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm"
+          >
+            <option value="all">All Statuses</option>
+            {STATUSES.map(value => (
+              <option key={value} value={value}>
+                {value.charAt(0).toUpperCase() + value.slice(1)}
+                {stats ? ` (${stats[value]})` : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={fetchJobs}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Refresh"
+          >
+            <ArrowPathIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center my-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : jobs.length === 0 ? (
+        <div className="text-center py-10 text-gray-500 dark:text-gray-400">
+          No deliveries found.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {jobs.map(job => (
+            <li key={job._id} className="p-4 flex items-start justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[job.status]}`}
+                  >
+                    {job.status}
+                  </span>
+                  <a
+                    href={job.payload.content.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm font-medium text-gray-900 dark:text-white truncate hover:underline"
+                  >
+                    {job.payload.content.title}
+                  </a>
+                </div>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {accountName(job)} → {friendName(job)} · {job.payload.context.trigger}
+                </p>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 flex items-center">
+                  <ClockIcon className="h-4 w-4 mr-1" />
+                  {job.status === 'queued'
+                    ? `Scheduled for ${formatDate(job.scheduledFor)}`
+                    : `Updated ${formatDate(job.completedAt || job.dispatchedAt || job.updatedAt)}`}
+                  {' · '}
+                  Attempt {job.attempts}/{job.maxAttempts}
+                </p>
+                {job.status === 'queued' && job.deferredReason && (
+                  <p className="mt-1 text-xs text-blue-600 dark:text-blue-400">
+                    {job.deferredReason}
+                  </p>
+                )}
+                {job.lastError && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400">{job.lastError}</p>
+                )}
+              </div>
+
+              <div className="ml-4 flex-shrink-0 flex space-x-2">
+                {RETRYABLE.includes(job.status) && (
+                  <button
+                    onClick={() => handleAction(job, 'retry')}
+                    disabled={busyJobId === job._id}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <ArrowPathIcon className="h-4 w-4 mr-1" />
+                    Retry
+                  </button>
+                )}
+                {job.status === 'queued' && (
+                  <button
+                    onClick={() => handleAction(job, 'cancel')}
+                    disabled={busyJobId === job._id}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-xs font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    <XMarkIcon className="h-4 w-4 mr-1" />
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pages > 1 && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center text-sm text-gray-500 dark:text-gray-400">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {pages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pages}
+            className="px-3 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryQueueView;
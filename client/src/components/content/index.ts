@@ -1,5 +1,6 @@
 import ContentHistoryView from './ContentHistoryView';
 import ContentSettings from './ContentSettings';
 import ContentPreview from './ContentPreview';
+import DeliveryQueueView from './DeliveryQueueView';
 
-export { ContentHistoryView, ContentSettings, ContentPreview };
+export { ContentHistoryView, ContentSettings, ContentPreview, DeliveryQueueView };
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import api from '../../services/api';
+import type { RateLimitUsage } from '../../types/account';
+
+interface AccountPressure {
+  id: string;
+  name: string;
+  rateLimits: RateLimitUsage;
+}
+
+/**
+ * Discord rate limit pressure of each account, as reported by its worker
+ */
+const RateLimitPanel = () => {
+  const [accounts, setAccounts] = useState<AccountPressure[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPressure = async () => {
+    try {
+      setLoading(true);
+      const stats = await api.dashboard.getAccountsStats();
+      setAccounts(
+        stats.accounts
+          .filter(account => account.rateLimits)
+          .map(account => ({
+            id: account.id,
+            name: account.name,
+            rateLimits: account.rateLimits as RateLimitUsage,
+          })),
+      );
+    } catch (error) {
+      console.error('Failed to fetch rate limit pressure:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPressure();
+  }, []);
+
+  const renderState = ({ globalLimited, limitedRoutes, resetAt }: RateLimitUsage) => {
+    if (globalLimited) {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 dark:bg-red-800/30 text-red-800 dark:text-red-200">
+          Globally limited
+        </span>
+      );
+    }
+    if (limitedRoutes > 0) {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 dark:bg-yellow-800/30 text-yellow-800 dark:text-yellow-200">
+          {limitedRoutes} {limitedRoutes === 1 ? 'route' : 'routes'} limited
+          {resetAt && ` until ${new Date(resetAt).toLocaleTimeString()}`}
+        </span>
+      );
+    }
+    return (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 dark:bg-green-800/30 text-green-800 dark:text-green-200">
+        Clear
+      </span>
+    );
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Rate Limits</h3>
+          <button
+            onClick={fetchPressure}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Refresh"
+          >
+            <ArrowPathIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Loading rate limits...</p>
+        ) : accounts.length === 0 ? (
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            No running accounts are reporting rate limits
+          </p>
+        ) : (
+          <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700">
+            {accounts.map(({ id, name, rateLimits }) => (
+              <li key={id} className="py-3 flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">{name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {rateLimits.hitsLastHour} rate limits in the last hour
+                    {rateLimits.queued > 0 && ` · ${rateLimits.queued} requests waiting`}
+                  </div>
+                </div>
+                {renderState(rateLimits)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RateLimitPanel;
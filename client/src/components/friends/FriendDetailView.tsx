@@ -9,6 +9,8 @@ import {
   CalendarIcon,
 } from '@heroicons/react/24/outline';
 import FriendActivityTimeline from './FriendActivityTimeline';
+import api from '../../services/api';
+import type { FriendActivitySummary, FriendNextDelivery } from '../../types/friend';
 
 interface ActivityPattern {
   dayOfWeek: number; // 0 = Sunday, 6 = Saturday
@@ -72,6 +74,22 @@ const FriendDetailView = ({
   const [savingSuccess, setSavingSuccess] = useState(false);
   const mockDataGeneratedRef = useRef(false);
   const [timeRange, setTimeRange] = useState<'1d' | '7d' | '30d'>('7d');
+  const [activitySummary, setActivitySummary] = useState<FriendActivitySummary | null>(null);
+  const [nextDelivery, setNextDelivery] = useState<FriendNextDelivery | null>(null);
+
+  // Real activity sessions for stored friends, over the last 30 days
+  useEffect(() => {
+    if (!friendId || !/^[a-f\d]{24}$/i.test(friendId)) return;
+
+    api.friends
+      .getActivity(friendId, 30)
+      .then(setActivitySummary)
+      .catch(error => console.error('Failed to load friend activity:', error));
+    api.friends
+      .getNextDelivery(friendId)
+      .then(setNextDelivery)
+      .catch(error => console.error('Failed to load next delivery:', error));
+  }, [friendId]);
 
   // Mock data for development
   useEffect(() => {
@@ -207,6 +225,45 @@ const FriendDetailView = ({
     return ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][day];
   };
 
+  const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  };
+
+  const getNextDeliveryLabel = (delivery: FriendNextDelivery) => {
+    if (delivery.reason === 'optedOut') return 'Opted out';
+    if (!delivery.nextDeliveryAt) return 'Now';
+    const at = new Date(delivery.nextDeliveryAt);
+    const time = at.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+    return at.toDateString() === new Date().toDateString()
+      ? time
+      : `${at.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} ${time}`;
+  };
+
+  const getNextDeliveryReason = (delivery: FriendNextDelivery) => {
+    if (delivery.reason === 'cooldown' && delivery.cooldown) {
+      const { cooldown } = delivery;
+      return `Cooldown after ${cooldown.activityName || cooldown.activityType.toLowerCase()}`;
+    }
+    return 'Next Delivery';
+  };
+
+  // 0-10 scale, from the friend's sessions when they are loaded
+  const getFrequency = (day: number, hour: number) => {
+    if (activitySummary) {
+      const maxMinutes = Math.max(0, ...activitySummary.heatmap.map(cell => cell.minutes));
+      const cell = activitySummary.heatmap.find(c => c.dayOfWeek === day && c.hourOfDay === hour);
+      return cell && maxMinutes > 0 ? Math.ceil((cell.minutes / maxMinutes) * 10) : 0;
+    }
+
+    const pattern = friendData?.activityPatterns.find(
+      p => p.dayOfWeek === day && p.hourOfDay === hour,
+    );
+    return pattern ? pattern.frequency : 0;
+  };
+
   const getHeatmapColor = (frequency: number) => {
     if (frequency <= 0) return 'bg-gray-200 dark:bg-gray-700';
     if (frequency <= 2) return 'bg-blue-100 dark:bg-blue-900';
@@ -382,6 +439,26 @@ const FriendDetailView = ({
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400">Response Rate</p>
           </div>
+          {nextDelivery && (
+            <div className="text-center" title={getNextDeliveryReason(nextDelivery)}>
+              <p
+                className={`text-2xl font-bold ${
+                  nextDelivery.reason === 'optedOut'
+                    ? 'text-red-600 dark:text-red-400'
+                    : nextDelivery.nextDeliveryAt
+                      ? 'text-yellow-600 dark:text-yellow-400'
+                      : 'text-green-600 dark:text-green-400'
+                }`}
+              >
+                {getNextDeliveryLabel(nextDelivery)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {nextDelivery.nextDeliveryAt
+                  ? getNextDeliveryReason(nextDelivery)
+                  : 'Next Delivery'}
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -479,10 +556,7 @@ const FriendDetailView = ({
                         {getDayName(day)}
                       </div>
                       {Array.from({ length: 24 }).map((_, hour) => {
-                        const pattern = friendData.activityPatterns.find(
-                          p => p.dayOfWeek === day && p.hourOfDay === hour,
-                        );
-                        const frequency = pattern ? pattern.frequency : 0;
+                        const frequency = getFrequency(day, hour);
 
                         return (
                           <div
@@ -513,6 +587,69 @@ const FriendDetailView = ({
               </div>
             </div>
 
+            {activitySummary && (
+              <div className="mt-6">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Active in the last {activitySummary.days} days
+                    </p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-white">
+                      {formatDuration(activitySummary.totalMs)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {activitySummary.sessions} sessions
+                    </p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Longest session</p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-white">
+                      {activitySummary.longestSession
+                        ? formatDuration(activitySummary.longestSession.durationMs)
+                        : '-'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {activitySummary.longestSession?.name}
+                    </p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Streak</p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-white">
+                      {activitySummary.streaks.currentDays} days
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Longest {activitySummary.streaks.longestDays} days
+                    </p>
+                  </div>
+                </div>
+
+                {activitySummary.activities.length > 0 && (
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 mt-4">
+                    <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2 flex items-center">
+                      <ClockIcon className="h-4 w-4 mr-1 text-blue-500" />
+                      Time Spent
+                    </h4>
+                    <ul className="space-y-1">
+                      {activitySummary.activities.map(activity => (
+                        <li
+                          key={`${activity.type}:${activity.name}`}
+                          className="text-sm text-gray-600 dark:text-gray-300 flex items-center justify-between"
+                        >
+                          <span className="truncate">
+                            {activity.name || activity.type.toLowerCase()}
+                          </span>
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                            {formatDuration(activity.totalMs)} · {activity.sessions} sessions ·
+                            longest {formatDuration(activity.longestMs)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
               {friendData.favoriteGames && friendData.favoriteGames.length > 0 && (
                 <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
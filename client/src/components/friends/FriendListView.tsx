@@ -22,6 +22,9 @@ interface Friend {
   lastSeen?: string;
   contentSent: number;
   contentReacted: number;
+  // Set when the friend asked by DM not to receive anything
+  optedOut?: boolean;
+  optedOutAt?: string;
 }
 
 interface FriendListViewProps {
@@ -40,7 +43,9 @@ const FriendListView = ({
   const [friends, setFriends] = useState<Friend[]>(initialFriends);
   const [filteredFriends, setFilteredFriends] = useState<Friend[]>(initialFriends);
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'online' | 'offline'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'online' | 'offline' | 'optedOut'>(
+    'all',
+  );
   const mockDataGeneratedRef = useRef(false);
 
   // Mock data for development
@@ -64,6 +69,7 @@ const FriendListView = ({
         const activityType = activityTypes[Math.floor(Math.random() * activityTypes.length)];
         const lastSeen = new Date();
         lastSeen.setHours(lastSeen.getHours() - Math.floor(Math.random() * 48));
+        const optedOut = i % 7 === 3;
 
         // Activity details based on type
         let activityDetails = '';
@@ -110,6 +116,8 @@ const FriendListView = ({
           lastSeen: status === 'offline' ? lastSeen.toISOString() : undefined,
           contentSent: Math.floor(Math.random() * 100),
           contentReacted: Math.floor(Math.random() * 50),
+          optedOut,
+          optedOutAt: optedOut ? lastSeen.toISOString() : undefined,
         };
       });
 
@@ -130,7 +138,9 @@ const FriendListView = ({
     }
 
     // Apply status filter
-    if (statusFilter !== 'all') {
+    if (statusFilter === 'optedOut') {
+      filtered = filtered.filter(friend => friend.optedOut);
+    } else if (statusFilter !== 'all') {
       filtered = filtered.filter(friend =>
         statusFilter === 'online'
           ? friend.status === 'online' || friend.status === 'idle' || friend.status === 'dnd'
@@ -282,11 +292,14 @@ const FriendListView = ({
               id="status-filter"
               className="block w-full pl-3 pr-10 py-2 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md shadow-sm"
               value={statusFilter}
-              onChange={e => setStatusFilter(e.target.value as 'all' | 'online' | 'offline')}
+              onChange={e =>
+                setStatusFilter(e.target.value as 'all' | 'online' | 'offline' | 'optedOut')
+              }
             >
               <option value="all">All Friends</option>
               <option value="online">Online</option>
               <option value="offline">Offline</option>
+              <option value="optedOut">Opted Out</option>
             </select>
           </div>
         </div>
@@ -329,6 +342,18 @@ const FriendListView = ({
                         <h3 className="text-sm font-medium text-gray-900 dark:text-white truncate">
                           {friend.name}
                         </h3>
+                        {friend.optedOut && (
+                          <span
+                            className="ml-2 flex-shrink-0 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                            title={
+                              friend.optedOutAt
+                                ? `Asked by DM to receive nothing ${formatTimeSince(friend.optedOutAt)}`
+                                : 'Asked by DM to receive nothing'
+                            }
+                          >
+                            Opted out
+                          </span>
+                        )}
                         {friend.status === 'offline' && friend.lastSeen && (
                           <span className="ml-2 flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
                             Last seen {formatTimeSince(friend.lastSeen)}
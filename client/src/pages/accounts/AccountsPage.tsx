@@ -1,14 +1,24 @@
 import { useState, useEffect, useContext } from 'react';
 import { Link } from 'react-router-dom';
-import { PlusIcon, PencilIcon, TrashIcon, PlayIcon, StopIcon } from '@heroicons/react/24/outline';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  PlayIcon,
+  StopIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
 import { NotificationContext } from '../../context';
-import { DiscordAccount } from '../../types/account';
+import { DiscordAccount, PacingBudget, PacingUsage } from '../../types/account';
+import api from '../../services/api';
 import WarningBanner from '../../components/common/WarningBanner';
+import RestartHistory from '../../components/accounts/RestartHistory';
 
 const AccountsPage = () => {
   const { showNotification } = useContext(NotificationContext);
   const [accounts, setAccounts] = useState<DiscordAccount[]>([]);
   const [loading, setLoading] = useState(true);
+  const [historyAccountId, setHistoryAccountId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchAccounts = async () => {
@@ -16,7 +26,17 @@ const AccountsPage = () => {
         setLoading(true);
         // For now, we'll use mock data until the API is connected
         const mockAccounts: DiscordAccount[] = [];
-        setAccounts(mockAccounts);
+
+        // Pacing comes from the running workers, accounts without it are shown without budgets
+        const pacing = await Promise.allSettled(
+          mockAccounts.map(account => api.accounts.getPacing(account.id)),
+        );
+        setAccounts(
+          mockAccounts.map((account, index) => {
+            const result = pacing[index];
+            return result.status === 'fulfilled' ? { ...account, pacing: result.value } : account;
+          }),
+        );
       } catch (error) {
         console.error('Failed to fetch accounts:', error);
         showNotification(
@@ -102,6 +122,7 @@ const AccountsPage = () => {
         textColor = 'text-yellow-800 dark:text-yellow-200';
         break;
       case 'error':
+      case 'degraded':
         bgColor = 'bg-red-100 dark:bg-red-800/30';
         textColor = 'text-red-800 dark:text-red-200';
         break;
@@ -119,6 +140,49 @@ const AccountsPage = () => {
     );
   };
 
+  const renderBudget = (label: string, budget: PacingBudget) => {
+    const percent = budget.limit ? Math.min(100, (budget.used / budget.limit) * 100) : 0;
+    const barColor =
+      percent >= 100 ? 'bg-red-500' : percent >= 75 ? 'bg-yellow-500' : 'bg-green-500';
+
+    return (
+      <div className="w-40">
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{label}</span>
+          <span>
+            {budget.used}/{budget.limit || '∞'}
+          </span>
+        </div>
+        <div className="mt-1 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700">
+          <div className={`h-1.5 rounded-full ${barColor}`} style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  };
+
+  const renderPacing = (pacing: PacingUsage) => {
+    if (!pacing.enabled) {
+      return <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">Pacing disabled</p>;
+    }
+
+    return (
+      <div className="mt-3 flex flex-wrap items-center gap-4">
+        {renderBudget('Hourly sends', pacing.hourly)}
+        {renderBudget('Daily sends', pacing.daily)}
+        {pacing.inQuietHours && (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 dark:bg-indigo-800/30 text-indigo-800 dark:text-indigo-200">
+            Quiet hours
+          </span>
+        )}
+        {pacing.nextAvailableAt && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Next send after {new Date(pacing.nextAvailableAt).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+    );
+  };
+
   return (
     <>
       <div className="flex justify-between items-center mb-6">
@@ -216,6 +280,16 @@ const AccountsPage = () => {
                             </>
                           )}
                         </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setHistoryAccountId(historyAccountId === account.id ? null : account.id)
+                          }
+                          className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+                        >
+                          <ClockIcon className="mr-1 h-4 w-4" />
+                          Restarts
+                        </button>
                         <Link
                           to={`/accounts/${account.id}/edit`}
                           className="inline-flex items-center px-3 py-1 border border-transparent text-sm leading-4 font-medium rounded-md text-blue-700 dark:text-blue-200 bg-blue-100 dark:bg-blue-900/30 hover:bg-blue-200 dark:hover:bg-blue-800/40"
@@ -233,6 +307,12 @@ const AccountsPage = () => {
                         </button>
                       </div>
                     </div>
+                    {account.pacing && renderPacing(account.pacing)}
+                    {historyAccountId === account.id && (
+                      <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+                        <RestartHistory accountId={account.id} />
+                      </div>
+                    )}
                   </div>
                 </li>
               ))}
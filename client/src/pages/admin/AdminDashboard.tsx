@@ -1,10 +1,14 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Helmet } from 'react-helmet';
 import { ChartBarIcon, UsersIcon, ServerIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
 import PerformanceMonitoring from '../../components/admin/PerformanceMonitoring';
 import UserManagement from '../../components/admin/UserManagement';
 import LogViewer from '../../components/admin/LogViewer';
 import LiveUpdates from '../../components/admin/LiveUpdates';
+import WorkerHeartbeats from '../../components/admin/WorkerHeartbeats';
+import WorkerMemory from '../../components/admin/WorkerMemory';
+import ClusterNodes from '../../components/admin/ClusterNodes';
+import type { WorkerHeartbeat } from '../../types/account';
 
 // Import the SystemAlert interface from LiveUpdates component
 // This would typically be in a shared types file
@@ -22,6 +26,7 @@ type TabType = 'performance' | 'users' | 'logs' | 'system';
 
 const AdminDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('performance');
+  const [heartbeats, setHeartbeats] = useState<Record<string, WorkerHeartbeat>>({});
 
   // Handle tab change
   const changeTab = (tab: TabType) => {
@@ -35,6 +40,11 @@ const AdminDashboard: React.FC = () => {
     console.log('System alert received:', alert);
   };
 
+  // Keep the latest heartbeat of each worker
+  const handleWorkerHeartbeat = useCallback((heartbeat: WorkerHeartbeat) => {
+    setHeartbeats(current => ({ ...current, [heartbeat.accountId]: heartbeat }));
+  }, []);
+
   return (
     <>
       <Helmet>
@@ -42,7 +52,7 @@ const AdminDashboard: React.FC = () => {
       </Helmet>
 
       {/* Invisible component for WebSocket connection management */}
-      <LiveUpdates onAlert={handleSystemAlert} />
+      <LiveUpdates onAlert={handleSystemAlert} onWorkerHeartbeat={handleWorkerHeartbeat} />
 
       <div className="container mx-auto px-4 py-6">
 
@@ -97,7 +107,13 @@ const AdminDashboard: React.FC = () => {
 
         {/* Tab content */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
-          {activeTab === 'performance' && <PerformanceMonitoring />}
+          {activeTab === 'performance' && (
+            <>
+              <WorkerHeartbeats heartbeats={Object.values(heartbeats)} />
+              <WorkerMemory />
+              <PerformanceMonitoring />
+            </>
+          )}
           {activeTab === 'users' && <UserManagement />}
           {activeTab === 'logs' && <LogViewer />}
           {activeTab === 'system' && (
@@ -113,6 +129,8 @@ const AdminDashboard: React.FC = () => {
               <div className="mt-6 bg-gray-50 dark:bg-gray-700 rounded-md p-4 text-gray-500 dark:text-gray-400 text-sm">
                 This feature is coming soon.
               </div>
+
+              <ClusterNodes />
             </div>
           )}
         </div>
@@ -5,10 +5,18 @@ import {
   ArrowDownIcon,
   CogIcon,
   ClockIcon,
+  QueueListIcon,
 } from '@heroicons/react/24/outline';
 import { NotificationContext } from '../../context';
-import { ContentHistoryView, ContentSettings, ContentPreview } from '../../components/content';
+import {
+  ContentHistoryView,
+  ContentSettings,
+  ContentPreview,
+  DeliveryQueueView,
+} from '../../components/content';
 import { Tab } from '@headlessui/react';
+import api from '../../services/api';
+import type { FeedbackSentiment, FriendFeedbackStats } from '../../types/content';
 
 // Import the ContentSettingsData type from the ContentSettings component
 import type { ContentSettingsData } from '../../components/content/ContentSettings';
@@ -17,6 +25,8 @@ interface ContentStats {
   totalDelivered: number;
   totalFavorites: number;
   totalReactions: number;
+  // Share of deliveries that repeated media the friend had already received
+  repeatRate: number;
   topChannels: {
     id: string;
     name: string;
@@ -50,6 +60,12 @@ interface ContentItem {
   thumbnail?: string;
 }
 
+const SENTIMENT_STYLES: Record<FeedbackSentiment, string> = {
+  positive: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  negative: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  neutral: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+};
+
 const ContentPage = () => {
   const { showNotification } = useContext(NotificationContext);
   const [stats, setStats] = useState<ContentStats | null>(null);
@@ -57,6 +73,7 @@ const ContentPage = () => {
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
   const [previewContent, setPreviewContent] = useState<ContentItem | null>(null);
   const [friends, setFriends] = useState<Friend[]>([]);
+  const [feedback, setFeedback] = useState<FriendFeedbackStats | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -71,6 +88,7 @@ const ContentPage = () => {
           totalDelivered: 487,
           totalFavorites: 124,
           totalReactions: 322,
+          repeatRate: 1.8,
           topChannels: [
             { id: 'chan1', name: 'memes', count: 210, percentage: 43.1 },
             { id: 'chan2', name: 'random', count: 98, percentage: 20.1 },
@@ -102,7 +120,11 @@ const ContentPage = () => {
           avatarUrl: `https://randomuser.me/api/portraits/${i % 2 === 0 ? 'men' : 'women'}/${i + 1}.jpg`,
         }));
 
-        setStats(mockStats);
+        // Reactions and replies friends sent back on delivered content
+        const feedbackStats = await api.content.getFeedbackStats(parseInt(timeRange, 10));
+
+        setStats({ ...mockStats, totalReactions: feedbackStats.reactions });
+        setFeedback(feedbackStats);
         setFriends(mockFriends);
       } catch (error) {
         console.error('Failed to fetch content stats:', error);
@@ -119,12 +141,13 @@ const ContentPage = () => {
     fetchData();
   }, [showNotification, timeRange]);
 
-  const renderStat = (title: string, value: number, change?: number) => {
+  const renderStat = (title: string, value: number, change?: number, suffix = '') => {
     return (
       <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg p-5">
         <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">{title}</dt>
         <dd className="mt-1 text-3xl font-semibold text-gray-900 dark:text-white">
           {value.toLocaleString()}
+          {suffix}
         </dd>
         {change !== undefined && (
           <dd
@@ -268,6 +291,21 @@ const ContentPage = () => {
                 History
               </span>
             </Tab>
+            <Tab
+              className={({ selected }) =>
+                `w-full rounded-lg py-2.5 text-sm font-medium leading-5 
+                ${
+                  selected
+                    ? 'bg-white dark:bg-gray-800 shadow text-blue-600 dark:text-blue-400'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-white/[0.12] hover:text-gray-800 dark:hover:text-white'
+                }`
+              }
+            >
+              <span className="flex items-center justify-center">
+                <QueueListIcon className="h-5 w-5 mr-2" />
+                Queue
+              </span>
+            </Tab>
             <Tab
               className={({ selected }) =>
                 `w-full rounded-lg py-2.5 text-sm font-medium leading-5 
@@ -294,10 +332,11 @@ const ContentPage = () => {
               ) : stats ? (
                 <div>
                   {/* Key Metrics */}
-                  <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
+                  <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
                     {renderStat('Total Content Delivered', stats.totalDelivered, 12)}
                     {renderStat('Total Favorites', stats.totalFavorites, 8)}
                     {renderStat('Total Reactions', stats.totalReactions, -3)}
+                    {renderStat('Repeat Rate', stats.repeatRate, undefined, '%')}
                   </div>
 
                   {/* Charts */}
@@ -395,6 +434,67 @@ const ContentPage = () => {
                     </div>
                   </div>
 
+                  {/* Friend Feedback */}
+                  {feedback && (
+                    <div className="mt-5 bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
+                      <div className="px-4 py-5 sm:p-6">
+                        <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+                          Friend Feedback
+                        </h3>
+                        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                          {feedback.withFeedback} of {feedback.delivered} deliveries got a reaction
+                          or reply ({feedback.feedbackRate}%).
+                        </p>
+                        <div className="mt-4 flex flex-wrap gap-2">
+                          {(['positive', 'negative', 'neutral'] as const).map(sentiment => (
+                            <span
+                              key={sentiment}
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${SENTIMENT_STYLES[sentiment]}`}
+                            >
+                              {sentiment}: {feedback[sentiment]}
+                            </span>
+                          ))}
+                          {feedback.topEmojis.map(({ emoji, count }) => (
+                            <span
+                              key={emoji}
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                            >
+                              {emoji} {count}
+                            </span>
+                          ))}
+                        </div>
+                        {feedback.recentReplies.length > 0 ? (
+                          <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700">
+                            {feedback.recentReplies.map(reply => (
+                              <li key={`${reply.historyId}-${reply.repliedAt}`} className="py-3">
+                                <div className="flex items-center justify-between text-sm">
+                                  <span className="font-medium text-gray-900 dark:text-white">
+                                    {reply.friendName}
+                                    <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                                      on {reply.title}
+                                    </span>
+                                  </span>
+                                  <span
+                                    className={`px-2 py-0.5 rounded-full text-xs capitalize ${SENTIMENT_STYLES[reply.sentiment]}`}
+                                  >
+                                    {reply.sentiment}
+                                  </span>
+                                </div>
+                                <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                                  {reply.text}
+                                </p>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+                            No replies from friends yet.
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Manual Content Delivery */}
                   <div className="mt-5 bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
                     <div className="px-4 py-5 sm:p-6">
@@ -427,6 +527,10 @@ const ContentPage = () => {
               <ContentHistoryView />
             </Tab.Panel>
 
+            <Tab.Panel>
+              <DeliveryQueueView />
+            </Tab.Panel>
+
             <Tab.Panel>
               <ContentSettings onSave={handleSaveSettings} />
             </Tab.Panel>
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { AuthContext } from '../../context';
 import { DiscordAccount } from '../../types/account';
 import WarningBanner from '../../components/common/WarningBanner';
+import RateLimitPanel from '../../components/dashboard/RateLimitPanel';
 import { NotificationContext } from '../../context';
 
 const Dashboard = () => {
@@ -131,6 +132,8 @@ const Dashboard = () => {
           </div>
         </div>
       </div>
+
+      {!hasNoAccounts && <RateLimitPanel />}
     </>
   );
 };
@@ -1,6 +1,24 @@
 import axios, { AxiosRequestConfig, AxiosResponse, AxiosError, AxiosHeaders } from 'axios';
 import { LoginRequest, LoginResponse, RegisterRequest, User } from '../types/auth';
-import { DiscordAccount, CreateAccountRequest, UpdateAccountRequest } from '../types/account';
+import {
+  DiscordAccount,
+  CreateAccountRequest,
+  UpdateAccountRequest,
+  PacingUsage,
+  RateLimitUsage,
+  RestartHistory,
+  WorkerMemoryComparison,
+  WorkerMemoryUsage,
+} from '../types/account';
+import {
+  DeliveryJob,
+  DeliveryJobList,
+  DeliveryJobStatus,
+  DeliveryQueueStats,
+} from '../types/delivery';
+import { ClusterOverview } from '../types/cluster';
+import { FriendFeedbackStats } from '../types/content';
+import { ActivitySession, FriendActivitySummary, FriendNextDelivery } from '../types/friend';
 import { PerformanceAlertConfig } from './socketService';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
@@ -32,6 +50,7 @@ interface AccountStats {
     name: string;
     status: string;
     isActive: boolean;
+    rateLimits?: RateLimitUsage | null;
   }>;
 }
 
@@ -81,6 +100,21 @@ interface SystemMetrics {
     threadCount: number;
     activeWorkers: number;
   }>;
+  contentCache?: {
+    enabled: boolean;
+    since: string;
+    l1Hits: number;
+    l2Hits: number;
+    misses: number;
+    coalesced: number;
+    writes: number;
+    hitRate: number;
+    entries: number;
+  };
+  workerMemory?: {
+    current: WorkerMemoryUsage;
+    comparison: WorkerMemoryComparison[];
+  };
 }
 
 interface SetupStep {
@@ -278,6 +312,12 @@ const api = {
       handleRequest<{ history: Array<{ timestamp: string; status: string }> }>(
         axiosInstance.get(`/accounts/${id}/status/history`),
       ),
+
+    getPacing: (id: string) =>
+      handleRequest<PacingUsage>(axiosInstance.get(`/accounts/${id}/pacing`)),
+
+    getRestarts: (id: string, limit = 50) =>
+      handleRequest<RestartHistory>(axiosInstance.get(`/accounts/${id}/restarts?limit=${limit}`)),
   },
 
   // Dashboard endpoints
@@ -293,6 +333,53 @@ const api = {
     getSystemMetrics: () => handleRequest<SystemMetrics>(axiosInstance.get('/dashboard/system')),
   },
 
+  // Content endpoints
+  content: {
+    getFeedbackStats: (days = 7) =>
+      handleRequest<FriendFeedbackStats>(
+        axiosInstance.get('/content/feedback', { params: { days } }),
+      ),
+  },
+
+  // Friend endpoints
+  friends: {
+    getActivity: (id: string, days = 30) =>
+      handleRequest<FriendActivitySummary>(
+        axiosInstance.get(`/friends/${id}/activity`, { params: { days } }),
+      ),
+
+    getSessions: (id: string, limit = 50) =>
+      handleRequest<{ sessions: ActivitySession[] }>(
+        axiosInstance.get(`/friends/${id}/sessions`, { params: { limit } }),
+      ),
+
+    getNextDelivery: (id: string) =>
+      handleRequest<FriendNextDelivery>(axiosInstance.get(`/friends/${id}/next-delivery`)),
+  },
+
+  // Delivery queue endpoints
+  deliveries: {
+    getAll: (params: {
+      status?: DeliveryJobStatus;
+      accountId?: string;
+      page?: number;
+      limit?: number;
+    }) => handleRequest<DeliveryJobList>(axiosInstance.get('/deliveries', { params })),
+
+    getStats: () => handleRequest<DeliveryQueueStats>(axiosInstance.get('/deliveries/stats')),
+
+    retry: (id: string) =>
+      handleRequest<DeliveryJob>(axiosInstance.post(`/deliveries/${id}/retry`)),
+
+    cancel: (id: string) =>
+      handleRequest<DeliveryJob>(axiosInstance.post(`/deliveries/${id}/cancel`)),
+  },
+
+  // Cluster endpoints
+  cluster: {
+    getOverview: () => handleRequest<ClusterOverview>(axiosInstance.get('/cluster')),
+  },
+
   // Setup endpoints
   setup: {
     getStatus: () =>
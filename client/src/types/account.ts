@@ -2,7 +2,7 @@ export interface DiscordAccount {
   id: string;
   userId: string;
   name: string;
-  status: 'online' | 'offline' | 'connecting' | 'error';
+  status: 'online' | 'offline' | 'connecting' | 'error' | 'degraded';
   token: string;
   isActive: boolean;
   friendCount: number;
@@ -10,6 +10,89 @@ export interface DiscordAccount {
   createdAt: string;
   updatedAt: string;
   error?: string;
+  pacing?: PacingUsage;
+}
+
+export interface PacingBudget {
+  used: number;
+  /** 0 means unlimited */
+  limit: number;
+}
+
+export interface PacingUsage {
+  enabled: boolean;
+  hourly: PacingBudget;
+  daily: PacingBudget;
+  inQuietHours: boolean;
+  nextAvailableAt?: string;
+}
+
+export interface RateLimitUsage {
+  /** 429 responses in the last hour */
+  hitsLastHour: number;
+  limitedRoutes: number;
+  globalLimited: boolean;
+  /** Requests waiting for a bucket to reset */
+  queued: number;
+  resetAt?: string;
+  lastLimitedAt?: string;
+}
+
+export type SupervisorState = 'running' | 'restarting' | 'degraded' | 'stopped';
+
+export interface WorkerRestart {
+  _id: string;
+  reason: 'crashed' | 'exited' | 'stalled' | 'unresponsive';
+  exitCode?: number;
+  error?: string;
+  /** Consecutive restarts without the worker connecting in between */
+  attempt: number;
+  delayMs: number;
+  action: 'restart' | 'degrade';
+  createdAt: string;
+}
+
+/**
+ * Liveness of a running worker, streamed over the socket on every heartbeat
+ */
+export interface WorkerHeartbeat extends Record<string, unknown> {
+  accountId: string;
+  /** False once the worker stopped sending heartbeats */
+  responsive: boolean;
+  isConnected: boolean;
+  lastHeartbeatAt?: string;
+  /** Heap of the worker thread in bytes */
+  memoryUsage?: number;
+  /** Seconds since the worker thread started */
+  uptime?: number;
+  eventLoopLagMs?: number;
+  gatewayPingMs?: number;
+}
+
+/**
+ * Worker thread heap in MB and its share per hosted account
+ */
+export interface WorkerMemoryUsage {
+  mode: 'dedicated' | 'pooled';
+  threads: number;
+  accounts: number;
+  heapUsed: number;
+  perAccount: number;
+}
+
+/**
+ * Average memory per account over the recent samples of one worker mode
+ */
+export interface WorkerMemoryComparison {
+  mode: WorkerMemoryUsage['mode'];
+  perAccount: number;
+  accounts: number;
+  samples: number;
+}
+
+export interface RestartHistory {
+  state: SupervisorState;
+  restarts: WorkerRestart[];
 }
 
 export interface AccountStatus {
@@ -0,0 +1,25 @@
+export interface ClusterAccount {
+  id: string;
+  name: string;
+}
+
+export interface ClusterNode {
+  nodeId: string;
+  hostname: string;
+  pid: number;
+  startedAt: string;
+  lastSeenAt: string;
+  /** False once the node stopped renewing its leases */
+  alive: boolean;
+  workerCount: number;
+  accounts: ClusterAccount[];
+}
+
+export interface ClusterOverview {
+  enabled: boolean;
+  /** Node that answered the request */
+  nodeId?: string;
+  nodes: ClusterNode[];
+  /** Active accounts no node has claimed yet */
+  unassigned: ClusterAccount[];
+}
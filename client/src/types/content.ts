@@ -0,0 +1,23 @@
+export type FeedbackSentiment = 'positive' | 'negative' | 'neutral';
+
+export interface FriendFeedbackStats {
+  delivered: number;
+  // Deliveries the friend reacted or replied to
+  withFeedback: number;
+  // Percentage of deliveries with feedback
+  feedbackRate: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  reactions: number;
+  replies: number;
+  topEmojis: { emoji: string; count: number }[];
+  recentReplies: {
+    historyId: string;
+    title: string;
+    friendName: string;
+    text: string;
+    sentiment: FeedbackSentiment;
+    repliedAt: string;
+  }[];
+}
@@ -0,0 +1,42 @@
+export type DeliveryJobStatus =
+  | 'queued'
+  | 'dispatched'
+  | 'delivered'
+  | 'failed'
+  | 'dead'
+  | 'cancelled';
+
+export interface DeliveryJob {
+  _id: string;
+  historyId: string;
+  discordAccountId: { _id: string; name: string } | string;
+  friendId: { _id: string; username: string; userId: string } | string;
+  payload: {
+    content: { url: string; title: string; source: string; type?: string };
+    context: { type: string; trigger: string };
+    message?: { text: string; mode: 'embed' | 'link' };
+  };
+  status: DeliveryJobStatus;
+  scheduledFor: string;
+  deferredReason?: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+  dispatchedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeliveryJobList {
+  jobs: DeliveryJob[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    pages: number;
+  };
+}
+
+export type DeliveryQueueStats = Record<DeliveryJobStatus, number>;
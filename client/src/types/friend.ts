@@ -0,0 +1,60 @@
+export type ActivityType = 'GAME' | 'MUSIC' | 'STREAMING' | 'WATCHING' | 'CUSTOM' | 'COMPETING';
+
+export interface ActivitySession {
+  _id: string;
+  type: ActivityType;
+  name?: string;
+  details: {
+    startedAt: string;
+    // Missing while the friend is still at it
+    endedAt?: string;
+    durationMs?: number;
+  };
+}
+
+export interface FriendActivitySummary {
+  days: number;
+  totalMs: number;
+  sessions: number;
+  activities: {
+    type: ActivityType;
+    name: string;
+    totalMs: number;
+    sessions: number;
+    longestMs: number;
+    lastSeenAt: string;
+  }[];
+  longestSession: {
+    type: ActivityType;
+    name: string;
+    startedAt: string;
+    endedAt: string | null;
+    durationMs: number;
+  } | null;
+  streaks: {
+    currentDays: number;
+    longestDays: number;
+  };
+  // Minutes of activity by weekday and hour, in timeZone
+  heatmap: { dayOfWeek: number; hourOfDay: number; minutes: number }[];
+  // The friend's, the account's or the server's time zone, null for the server's clock
+  timeZone: string | null;
+}
+
+export interface FriendCooldown {
+  _id: string;
+  activityType: ActivityType;
+  activityName?: string;
+  // Settings the duration came from
+  scope: 'friend' | 'account' | 'server';
+  level: 'activity' | 'activityType' | 'default';
+  startedAt: string;
+  expiresAt: string;
+}
+
+export interface FriendNextDelivery {
+  // null for right away, or never when the friend opted out
+  nextDeliveryAt: string | null;
+  reason: 'cooldown' | 'optedOut' | null;
+  cooldown: FriendCooldown | null;
+}
@@ -90,6 +90,8 @@ describe("Dashboard API Routes", () => {
       requestCount: 120,
       errorCount: 2,
       presenceUpdatesPerMinute: 10,
+      deliveriesPerMinute: 0,
+      deliveryFailuresPerMinute: 0,
     });
 
     // Generate JWT token for authentication
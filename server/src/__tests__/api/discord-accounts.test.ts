@@ -36,6 +36,7 @@ describe("Discord Account API", () => {
           quotes: true,
           news: true,
           jokes: true,
+          providers: [],
         },
         deliveryPreferences: {
           frequency: 3600000,
@@ -1,22 +1,70 @@
 import { ActivityService } from "../../services/ActivityService";
 import { Friend } from "../../models/Friend";
 import { ActivityHistory } from "../../models/ActivityHistory";
+import { DiscordAccount } from "../../models/DiscordAccount";
 import { WorkerPresenceEvent } from "../../types/worker";
+import { zonedTime } from "../../utils/timeWindows";
 
 jest.mock("../../models/Friend");
 jest.mock("../../models/ActivityHistory");
 
+const handleActivityTrigger = jest.fn();
+jest.mock("../../services/ContentService", () => ({
+  ContentService: { getInstance: () => ({ handleActivityTrigger }) },
+}));
+
+const evaluateRules = jest.fn();
+jest.mock("../../services/TriggerRuleService", () => ({
+  TriggerRuleService: { getInstance: () => ({ evaluate: evaluateRules }) },
+}));
+
+// Cooldown ends by "accountId:friendId"
+const cooldownEnds = new Map<string, number>();
+jest.mock("../../services/CooldownService", () => ({
+  CooldownService: {
+    getInstance: () => ({
+      getRemaining: (accountId: string, friendId: unknown) =>
+        Promise.resolve(
+          Math.max(0, (cooldownEnds.get(`${accountId}:${friendId}`) || 0) - Date.now()),
+        ),
+      claim: (accountId: string, friend: { _id: unknown }) => {
+        const key = `${accountId}:${friend._id}`;
+        if ((cooldownEnds.get(key) || 0) > Date.now()) {
+          return Promise.resolve({ claimed: false, cooldown: null });
+        }
+        cooldownEnds.set(key, Date.now() + 30 * 60 * 1000);
+        return Promise.resolve({ claimed: true, cooldown: { key } });
+      },
+      release: (cooldown: { key: string }) => {
+        cooldownEnds.delete(cooldown.key);
+        return Promise.resolve();
+      },
+    }),
+  },
+}));
+
 describe("ActivityService", () => {
   let service: ActivityService;
+  const friendId = "64b7f0c2a1b2c3d4e5f60719";
+  const session = { _id: "session123", markProcessed: jest.fn() };
 
   beforeEach(() => {
     jest.clearAllMocks();
+    cooldownEnds.clear();
+    evaluateRules.mockResolvedValue({ action: "send", delayMs: 0, trace: [] });
+    handleActivityTrigger.mockResolvedValue(true);
+    (ActivityHistory.findOne as jest.Mock).mockReturnValue({
+      sort: jest.fn().mockResolvedValue(session),
+    });
+    jest.spyOn(DiscordAccount, "findById").mockReturnValue({
+      select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue({ settings: {} }) }),
+    } as never);
     service = ActivityService.getInstance();
   });
 
   describe("processActivity", () => {
     const mockEvent: WorkerPresenceEvent = {
-      accountId: "account123",
+      accountId: "64b7f0c2a1b2c3d4e5f60718",
       friendId: "friend123",
       oldActivity: null,
       newActivity: {
@@ -31,6 +79,7 @@ describe("ActivityService", () => {
 
     it("should process new game activity", async () => {
       (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
         contentPreferences: {
           enabledTypes: ["GAME"],
           timeRestrictions: {
@@ -63,6 +112,7 @@ describe("ActivityService", () => {
       };
 
       (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
         contentPreferences: {
           enabledTypes: ["MUSIC"],
           timeRestrictions: {
@@ -95,6 +145,7 @@ describe("ActivityService", () => {
       };
 
       (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
         contentPreferences: {
           enabledTypes: ["STREAMING"],
           timeRestrictions: {
@@ -112,6 +163,7 @@ describe("ActivityService", () => {
 
     it("should respect cooldown", async () => {
       (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
         contentPreferences: {
           enabledTypes: ["GAME"],
           timeRestrictions: {
@@ -134,6 +186,7 @@ describe("ActivityService", () => {
     it("should respect time restrictions", async () => {
       const currentHour = new Date().getHours();
       (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
         contentPreferences: {
           enabledTypes: ["GAME"],
           timeRestrictions: {
@@ -147,8 +200,30 @@ describe("ActivityService", () => {
       expect(result.shouldSendContent).toBe(false);
     });
 
+    it("should read time windows in the friend's time zone", async () => {
+      const hour = zonedTime(new Date(), "Asia/Tokyo").hour;
+      const at = (offset: number) => `${String((hour + offset) % 24).padStart(2, "0")}:00`;
+      const friend = (start: string, end: string) => ({
+        _id: friendId,
+        timeZone: "Asia/Tokyo",
+        contentPreferences: {
+          enabledTypes: ["GAME"],
+          timeRestrictions: { startHour: 0, endHour: 24 },
+          timeWindows: [{ start, end }],
+        },
+      });
+
+      (Friend.findOne as jest.Mock).mockResolvedValue(friend(at(1), at(2)));
+      expect((await service.processActivity(mockEvent)).shouldSendContent).toBe(false);
+
+      (Friend.findOne as jest.Mock).mockResolvedValue(friend(at(0), at(1)));
+      expect((await service.processActivity(mockEvent)).shouldSendContent).toBe(true);
+      expect(DiscordAccount.findById).not.toHaveBeenCalled();
+    });
+
     it("should respect friend preferences", async () => {
       (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
         contentPreferences: {
           enabledTypes: ["MUSIC"], // Only music enabled, not games
           timeRestrictions: {
@@ -169,8 +244,100 @@ describe("ActivityService", () => {
       expect(result.shouldSendContent).toBe(false);
     });
 
-    it("should log activity", async () => {
+    it("should skip activities a trigger rule skips", async () => {
+      evaluateRules.mockResolvedValue({
+        action: "skip",
+        delayMs: 0,
+        rule: { id: "rule1", name: "No Minecraft" },
+        trace: [],
+      });
+
+      const result = await service.processActivity(mockEvent);
+      expect(result).toEqual({
+        shouldSendContent: false,
+        rule: { id: "rule1", name: "No Minecraft" },
+      });
+      expect(Friend.findOne).not.toHaveBeenCalled();
+    });
+
+    it("should pass on what the deciding rule asked for", async () => {
+      evaluateRules.mockResolvedValue({
+        action: "delay",
+        delayMs: 600000,
+        provider: "giphy",
+        rule: { id: "rule2", name: "Later" },
+        trace: [],
+      });
       (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
+        contentPreferences: {
+          enabledTypes: ["GAME"],
+          timeRestrictions: {
+            startHour: 0,
+            endHour: 24,
+          },
+        },
+      });
+
+      const result = await service.processActivity({
+        ...mockEvent,
+        accountId: "64b7f0c2a1b2c3d4e5f6071a",
+      });
+      expect(result).toMatchObject({ shouldSendContent: true, delayMs: 600000, provider: "giphy" });
+      expect(handleActivityTrigger).toHaveBeenCalledWith(
+        "64b7f0c2a1b2c3d4e5f6071a",
+        friendId,
+        "session123",
+        "GAME",
+        "Minecraft",
+        mockEvent.newActivity,
+        { delayMs: 600000, provider: "giphy", templateId: undefined },
+      );
+    });
+
+    it("should leave the cooldown alone when no content was queued", async () => {
+      handleActivityTrigger.mockResolvedValue(false);
+      (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
+        contentPreferences: {
+          enabledTypes: ["GAME"],
+          timeRestrictions: {
+            startHour: 0,
+            endHour: 24,
+          },
+        },
+      });
+
+      expect((await service.processActivity(mockEvent)).shouldSendContent).toBe(false);
+      expect(session.markProcessed).not.toHaveBeenCalled();
+
+      handleActivityTrigger.mockResolvedValue(true);
+      expect((await service.processActivity(mockEvent)).shouldSendContent).toBe(true);
+    });
+
+    it("should send content for only one of two updates close together", async () => {
+      (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
+        contentPreferences: {
+          enabledTypes: ["GAME"],
+          timeRestrictions: {
+            startHour: 0,
+            endHour: 24,
+          },
+        },
+      });
+
+      const results = await Promise.all([
+        service.processActivity(mockEvent),
+        service.processActivity(mockEvent),
+      ]);
+      expect(results.filter(result => result.shouldSendContent)).toHaveLength(1);
+      expect(handleActivityTrigger).toHaveBeenCalledTimes(1);
+    });
+
+    it("should mark the friend's open session as processed", async () => {
+      (Friend.findOne as jest.Mock).mockResolvedValue({
+        _id: friendId,
         contentPreferences: {
           enabledTypes: ["GAME"],
           timeRestrictions: {
@@ -182,7 +349,64 @@ describe("ActivityService", () => {
 
       await service.processActivity(mockEvent);
 
-      expect(ActivityHistory.prototype.save).toHaveBeenCalled();
+      expect(ActivityHistory.prototype.save).not.toHaveBeenCalled();
+      expect(session.markProcessed).toHaveBeenCalled();
+    });
+  });
+
+  describe("presence persistence", () => {
+    const accountId = "64b7f0c2a1b2c3d4e5f60718";
+    const startedAt = new Date("2024-05-01T18:00:00Z");
+
+    it("saves a friend's activity in the shape of Friend.lastActivity", async () => {
+      await service.savePresence(accountId, "friend-1", {
+        type: "MUSIC",
+        details: { musicDetails: { artist: "Daft Punk", song: "One More Time" }, startedAt },
+      });
+
+      expect(Friend.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "friend-1" }),
+        {
+          $set: {
+            lastActivity: expect.objectContaining({
+              type: "MUSIC",
+              artistName: "Daft Punk",
+              songName: "One More Time",
+              timestamp: startedAt,
+            }),
+          },
+        },
+      );
+    });
+
+    it("clears the activity once the friend stopped", async () => {
+      await service.savePresence(accountId, "friend-1", null);
+
+      expect(Friend.updateOne).toHaveBeenCalledWith(expect.anything(), {
+        $unset: { lastActivity: 1 },
+      });
+    });
+
+    it("loads saved activities back as worker presence", async () => {
+      (Friend.find as jest.Mock).mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          lean: jest
+            .fn()
+            .mockResolvedValue([
+              {
+                userId: "friend-1",
+                lastActivity: { type: "GAME", gameName: "Minecraft", timestamp: startedAt },
+              },
+            ]),
+        }),
+      });
+
+      await expect(service.loadLastActivities(accountId)).resolves.toEqual([
+        {
+          userId: "friend-1",
+          activity: { type: "GAME", details: { gameName: "Minecraft", startedAt } },
+        },
+      ]);
     });
   });
 });
@@ -0,0 +1,208 @@
+import cache from "../../utils/cache";
+import { ContentCacheService } from "../../services/ContentCacheService";
+import { ContentSearchCache } from "../../models/ContentSearchCache";
+import { ContentSearchParams, ContentSearchResult } from "../../types/content";
+
+jest.mock("../../models/ContentSearchCache", () => ({
+  ContentSearchCache: {
+    findOneAndUpdate: jest.fn(),
+    deleteMany: jest.fn(),
+    countDocuments: jest.fn(),
+  },
+}));
+jest.mock("../../utils/logger", () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const mockedModel = ContentSearchCache as jest.Mocked<typeof ContentSearchCache>;
+
+describe("ContentCacheService", () => {
+  const service = ContentCacheService.getInstance();
+  const params: ContentSearchParams = {
+    type: "GAME",
+    query: "Minecraft",
+    count: 5,
+    providers: ["serpapi", "reddit"],
+  };
+  const result: ContentSearchResult = {
+    content: [
+      { url: "https://example.com/a.png", title: "A", source: "example.com", type: "image/png" },
+    ],
+    provider: "serpapi",
+    attempts: [{ provider: "serpapi", outcome: "success" }],
+  };
+
+  // findOneAndUpdate is awaited directly on writes and chained with .lean() on reads
+  const mockRead = (entry: unknown) =>
+    mockedModel.findOneAndUpdate.mockReturnValueOnce({
+      lean: jest.fn().mockResolvedValue(entry),
+    } as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache.clear();
+  });
+
+  describe("buildKey", () => {
+    it("should ignore case, punctuation and extra whitespace in the query", () => {
+      expect(service.buildKey({ ...params, query: "  MINECRAFT!! " })).toBe(
+        service.buildKey(params),
+      );
+    });
+
+    it("should ignore keyword order in filters", () => {
+      expect(service.buildKey({ ...params, filters: { includeKeywords: ["funny", "Epic"] } })).toBe(
+        service.buildKey({ ...params, filters: { includeKeywords: ["epic", "funny"] } }),
+      );
+    });
+
+    it("should treat all media types the same as no restriction", () => {
+      expect(service.buildKey({ ...params, mediaTypes: ["video", "gif", "image"] })).toBe(
+        service.buildKey(params),
+      );
+      expect(service.buildKey({ ...params, mediaTypes: ["gif"] })).not.toBe(
+        service.buildKey(params),
+      );
+    });
+
+    it("should separate activity types and provider chains", () => {
+      expect(service.buildKey({ ...params, type: "MUSIC" })).not.toBe(service.buildKey(params));
+      expect(service.buildKey({ ...params, providers: ["reddit"] })).not.toBe(
+        service.buildKey(params),
+      );
+    });
+  });
+
+  describe("getOrSearch", () => {
+    it("should search on a miss and store the result in both layers", async () => {
+      mockRead(null);
+      mockedModel.findOneAndUpdate.mockResolvedValueOnce(null as any);
+      const search = jest.fn().mockResolvedValue(result);
+
+      await expect(service.getOrSearch(params, search)).resolves.toBe(result);
+
+      expect(search).toHaveBeenCalledTimes(1);
+      expect(mockedModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { key: service.buildKey(params) },
+        expect.objectContaining({
+          $set: expect.objectContaining({ query: "minecraft", provider: "serpapi" }),
+        }),
+        { upsert: true },
+      );
+      expect(cache.get(service.buildKey(params))).toEqual({
+        content: result.content,
+        provider: "serpapi",
+      });
+    });
+
+    it("should serve from memory without touching MongoDB", async () => {
+      cache.set(service.buildKey(params), { content: result.content, provider: "serpapi" });
+      const search = jest.fn();
+
+      const cached = await service.getOrSearch(params, search);
+
+      expect(cached).toMatchObject({ provider: "serpapi", cacheHit: "l1", attempts: [] });
+      expect(search).not.toHaveBeenCalled();
+      expect(mockedModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should serve from MongoDB and populate memory", async () => {
+      mockRead({
+        results: result.content,
+        provider: "reddit",
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+      const search = jest.fn();
+
+      const cached = await service.getOrSearch(params, search);
+
+      expect(cached).toMatchObject({ provider: "reddit", cacheHit: "l2" });
+      expect(search).not.toHaveBeenCalled();
+      expect(cache.has(service.buildKey(params))).toBe(true);
+    });
+
+    it("should share one search between concurrent lookups", async () => {
+      mockRead(null);
+      mockedModel.findOneAndUpdate.mockResolvedValueOnce(null as any);
+      let resolveSearch: (value: ContentSearchResult) => void = () => {};
+      const search = jest
+        .fn()
+        .mockReturnValue(new Promise<ContentSearchResult>(resolve => (resolveSearch = resolve)));
+
+      const first = service.getOrSearch(params, search);
+      const second = service.getOrSearch({ ...params, query: "minecraft" }, search);
+      resolveSearch(result);
+
+      await expect(Promise.all([first, second])).resolves.toEqual([result, result]);
+      expect(search).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not cache empty results", async () => {
+      mockRead(null);
+      const search = jest.fn().mockResolvedValue({ content: [], provider: null, attempts: [] });
+
+      await service.getOrSearch(params, search);
+
+      expect(mockedModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(cache.has(service.buildKey(params))).toBe(false);
+    });
+
+    it("should still search when MongoDB is unavailable", async () => {
+      mockedModel.findOneAndUpdate.mockReturnValueOnce({
+        lean: jest.fn().mockRejectedValue(new Error("connection refused")),
+      } as any);
+      mockedModel.findOneAndUpdate.mockRejectedValueOnce(new Error("connection refused"));
+      const search = jest.fn().mockResolvedValue(result);
+
+      await expect(service.getOrSearch(params, search)).resolves.toBe(result);
+    });
+
+    it("should skip cached entries when refreshing", async () => {
+      cache.set(service.buildKey(params), { content: [], provider: "stale" });
+      mockedModel.findOneAndUpdate.mockResolvedValueOnce(null as any);
+      const search = jest.fn().mockResolvedValue(result);
+
+      await service.getOrSearch({ ...params, cacheMode: "refresh" }, search);
+
+      expect(search).toHaveBeenCalledTimes(1);
+      expect(cache.get(service.buildKey(params))).toMatchObject({ provider: "serpapi" });
+    });
+  });
+
+  describe("purge", () => {
+    it("should purge MongoDB and memory entries for a query", async () => {
+      mockedModel.deleteMany.mockResolvedValueOnce({ deletedCount: 2 } as any);
+      cache.set(service.buildKey(params), { content: [], provider: "serpapi" });
+      cache.set(service.buildKey({ ...params, query: "Terraria" }), {
+        content: [],
+        provider: "serpapi",
+      });
+
+      const purged = await service.purge({ activityType: "GAME", query: "Minecraft!" });
+
+      expect(purged).toBe(2);
+      expect(mockedModel.deleteMany).toHaveBeenCalledWith({
+        activityType: "GAME",
+        query: "minecraft",
+      });
+      expect(cache.has(service.buildKey(params))).toBe(false);
+      expect(cache.has(service.buildKey({ ...params, query: "Terraria" }))).toBe(true);
+    });
+  });
+
+  describe("getStats", () => {
+    it("should report hit rate and entry count", async () => {
+      mockedModel.countDocuments.mockResolvedValueOnce(7 as any);
+
+      const stats = await service.getStats();
+
+      expect(stats.entries).toBe(7);
+      expect(stats.hitRate).toBeGreaterThanOrEqual(0);
+      expect(stats.hitRate).toBeLessThanOrEqual(100);
+      expect(stats.l1Hits + stats.l2Hits + stats.misses).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { Types } from "mongoose";
+import { PNG } from "pngjs";
+import cache from "../../utils/cache";
+import { ContentHistory } from "../../models/ContentHistory";
+import {
+  ContentFingerprintService,
+  DeduplicationScope,
+} from "../../services/ContentFingerprintService";
+import { ContentItem } from "../../types/content";
+
+jest.mock("../../models/ContentHistory", () => ({
+  ContentHistory: { find: jest.fn() },
+}));
+jest.mock("../../utils/logger", () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const mockedFind = ContentHistory.find as jest.Mock;
+
+const mockHistory = (entries: unknown[]) =>
+  mockedFind.mockReturnValueOnce({
+    select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(entries) }),
+  });
+
+// Horizontal gradient, optionally mirrored so the hash differs
+const writePng = (file: string, width: number, mirrored = false) => {
+  const png = new PNG({ width, height: width });
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const value = Math.round(((mirrored ? width - x : x) / width) * 255);
+      png.data[offset] = png.data[offset + 1] = png.data[offset + 2] = value;
+      png.data[offset + 3] = 255;
+    }
+  }
+  fs.writeFileSync(file, PNG.sync.write(png));
+  return pathToFileURL(file).toString();
+};
+
+describe("ContentFingerprintService", () => {
+  const service = ContentFingerprintService.getInstance();
+  const scope: DeduplicationScope = {
+    discordAccountId: new Types.ObjectId(),
+    friendId: new Types.ObjectId(),
+    scope: "friend",
+    lookbackDays: 30,
+  };
+  let directory: string;
+  let gradient: ContentItem;
+  let gradientCopy: ContentItem;
+  let mirrored: ContentItem;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "fingerprint-"));
+    const item = (url: string, title: string) => ({
+      url,
+      title,
+      source: "test",
+      type: "image/png",
+    });
+    gradient = item(writePng(path.join(directory, "gradient.png"), 64), "Gradient");
+    gradientCopy = item(writePng(path.join(directory, "gradient-small.png"), 32), "Copy");
+    mirrored = item(writePng(path.join(directory, "mirrored.png"), 64, true), "Mirrored");
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache.clear();
+  });
+
+  it("should fingerprint local images with a URL and perceptual hash", async () => {
+    const fingerprint = await service.fingerprint(gradient);
+
+    expect(fingerprint.urlHash).toMatch(/^[0-9a-f]{40}$/);
+    expect(fingerprint.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("should only fingerprint the URL when the media cannot be read", async () => {
+    const fingerprint = await service.fingerprint({
+      ...gradient,
+      url: pathToFileURL(path.join(directory, "missing.png")).toString(),
+    });
+
+    expect(fingerprint.perceptualHash).toBeUndefined();
+  });
+
+  it("should return the top candidate when nothing was sent before", async () => {
+    mockHistory([]);
+
+    const selection = await service.selectFresh([gradient, mirrored], scope);
+
+    expect(selection).toMatchObject({ item: gradient, skipped: 0 });
+    expect(mockedFind).toHaveBeenCalledWith(
+      expect.objectContaining({ friendId: scope.friendId, status: { $ne: "FAILED" } }),
+    );
+  });
+
+  it("should skip candidates whose URL was already sent", async () => {
+    mockHistory([{ content: { url: gradient.url } }]);
+
+    const selection = await service.selectFresh([gradient, mirrored], scope);
+
+    expect(selection).toMatchObject({ item: mirrored, skipped: 1 });
+  });
+
+  it("should skip re-hosted copies of an image that was already sent", async () => {
+    const sent = await service.fingerprint(gradient);
+    mockHistory([{ content: { url: "https://elsewhere.example/old.png" }, fingerprint: sent }]);
+
+    const selection = await service.selectFresh([gradientCopy, mirrored], scope);
+
+    expect(selection?.item).toBe(mirrored);
+  });
+
+  it("should return null when every candidate was already sent", async () => {
+    mockHistory([{ content: { url: gradient.url } }, { content: { url: mirrored.url } }]);
+
+    await expect(service.selectFresh([gradient, mirrored], scope)).resolves.toBeNull();
+  });
+
+  it("should look across the whole account when scoped to the account", async () => {
+    mockHistory([]);
+
+    await service.selectFresh([gradient], { ...scope, scope: "account" });
+
+    const filter = mockedFind.mock.calls[0][0];
+    expect(filter.discordAccountId).toBe(scope.discordAccountId);
+    expect(filter.friendId).toBeUndefined();
+  });
+});
@@ -0,0 +1,414 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import config from "../../config";
+import { ContentProviderRegistry } from "../../services/ContentProviderRegistry";
+import { ContentService } from "../../services/ContentService";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import {
+  CuratedCatalogProvider,
+  GifApiProvider,
+  LocalLibraryProvider,
+  RedditFeedProvider,
+} from "../../services/providers";
+import { ContentProvider } from "../../types/content";
+
+jest.mock("axios");
+jest.mock("../../workers/WorkerManager", () => ({
+  WorkerManager: { getInstance: jest.fn().mockReturnValue({ sendToWorker: jest.fn() }) },
+}));
+jest.mock("../../utils/logger", () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const FIXTURES = path.join(__dirname, "..", "fixtures", "content");
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const loadFixture = (name: string): unknown =>
+  JSON.parse(fs.readFileSync(path.join(FIXTURES, name), "utf8"));
+
+const createProvider = (id: string, overrides: Partial<ContentProvider> = {}) =>
+  ({
+    id,
+    displayName: id,
+    activityTypes: ["GAME"],
+    capabilities: {
+      mediaTypes: ["image"],
+      supportsSearch: true,
+      safeSearch: true,
+      requiresNetwork: false,
+    },
+    rateBudget: { requests: 2, windowMs: 60 * 1000 },
+    search: jest.fn().mockResolvedValue([]),
+    healthCheck: jest.fn().mockResolvedValue({ healthy: true, configured: true }),
+    ...overrides,
+  }) as ContentProvider;
+
+describe("Content providers", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("LocalLibraryProvider", () => {
+    const provider = new LocalLibraryProvider({ directory: path.join(FIXTURES, "library") });
+
+    it("should match files by folder and file name", async () => {
+      const results = await provider.search({ type: "GAME", query: "Minecraft", count: 5 });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].title).toBe("creeper surprise");
+      expect(results[0].type).toBe("image/png");
+      expect(results[0].url).toMatch(/^file:\/\//);
+    });
+
+    it("should keep activity type folders to their own type", async () => {
+      const results = await provider.search({ type: "MUSIC", query: "Minecraft", count: 5 });
+      expect(results).toHaveLength(0);
+    });
+
+    it("should share files outside activity type folders", async () => {
+      const results = await provider.search({ type: "MUSIC", query: "cat vibing", count: 5 });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].metadata?.mediaType).toBe("gif");
+    });
+
+    it("should build public URLs when a base URL is configured", async () => {
+      const publicProvider = new LocalLibraryProvider({
+        directory: path.join(FIXTURES, "library"),
+        publicBaseUrl: "https://memes.example.com/library/",
+      });
+
+      const results = await publicProvider.search({ type: "GAME", query: "creeper", count: 5 });
+      expect(results[0].url).toBe(
+        "https://memes.example.com/library/GAME/minecraft/creeper-surprise.png",
+      );
+    });
+
+    it("should report unconfigured when no directory is set", async () => {
+      const health = await new LocalLibraryProvider({ directory: "" }).healthCheck();
+      expect(health).toMatchObject({ healthy: false, configured: false });
+    });
+  });
+
+  describe("CuratedCatalogProvider", () => {
+    const provider = new CuratedCatalogProvider({ path: path.join(FIXTURES, "catalog.json") });
+
+    it("should return entries for the activity type ordered by tag matches", async () => {
+      const results = await provider.search({
+        type: "GAME",
+        query: "minecraft diamonds",
+        count: 5,
+      });
+
+      expect(results.map(result => result.url)).toEqual([
+        "https://cdn.example.com/memes/minecraft-diamonds.png",
+        "https://cdn.example.com/memes/minecraft-any.jpg",
+      ]);
+      expect(results[0].source).toBe("curated-catalog");
+    });
+
+    it("should skip entries restricted to other activity types", async () => {
+      const results = await provider.search({ type: "MUSIC", query: "minecraft", count: 5 });
+      expect(results.map(result => result.title)).toEqual(["Minecraft on a Monday"]);
+    });
+
+    it("should report the number of loaded entries", async () => {
+      const health = await provider.healthCheck();
+      expect(health).toMatchObject({ healthy: true, message: "3 catalog entries" });
+    });
+  });
+
+  describe("RedditFeedProvider", () => {
+    const provider = new RedditFeedProvider({
+      baseUrl: "https://reddit.test",
+      userAgent: "test-agent",
+      subreddits: { GAME: ["gaming"], MUSIC: [] },
+      timeoutMs: 1000,
+    });
+
+    it("should only serve activity types with subreddits", () => {
+      expect(provider.activityTypes).toEqual(["GAME"]);
+    });
+
+    it("should return safe image posts sorted by upvotes", async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: loadFixture("reddit-search.json") });
+
+      const results = await provider.search({ type: "GAME", query: "minecraft", count: 5 });
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        "https://reddit.test/r/gaming/search.json",
+        expect.objectContaining({ headers: { "User-Agent": "test-agent" } }),
+      );
+      expect(results.map(result => result.url)).toEqual([
+        "https://i.redd.it/top.jpg",
+        "https://i.redd.it/creeper.png",
+      ]);
+      expect(results[1].metadata).toMatchObject({ width: 640, height: 480, upvotes: 120 });
+    });
+
+    it("should throw when every feed fails", async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error("503"));
+
+      await expect(provider.search({ type: "GAME", query: "minecraft", count: 5 })).rejects.toThrow(
+        "503",
+      );
+    });
+  });
+
+  describe("GifApiProvider", () => {
+    it("should map Tenor results", async () => {
+      const provider = new GifApiProvider({
+        flavor: "tenor",
+        apiKey: "key",
+        baseUrl: "https://tenor.test/v2",
+        timeoutMs: 1000,
+      });
+      mockedAxios.get.mockResolvedValueOnce({ data: loadFixture("tenor-search.json") });
+
+      const results = await provider.search({ type: "GAME", query: "dance", count: 5 });
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          url: "https://media.tenor.com/dancing-cat.gif",
+          title: "Dancing cat",
+          source: "tenor.com",
+          metadata: expect.objectContaining({ width: 220, height: 180, mediaType: "gif" }),
+        }),
+      ]);
+    });
+
+    it("should map Giphy results", async () => {
+      const provider = new GifApiProvider({
+        flavor: "giphy",
+        apiKey: "key",
+        baseUrl: "https://giphy.test/v1",
+        timeoutMs: 1000,
+      });
+      mockedAxios.get.mockResolvedValueOnce({ data: loadFixture("giphy-search.json") });
+
+      const results = await provider.search({ type: "GAME", query: "victory", count: 5 });
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        "https://giphy.test/v1/gifs/search",
+        expect.anything(),
+      );
+      expect(results[0]).toMatchObject({
+        url: "https://media.giphy.com/victory.gif",
+        source: "giphy.com",
+        metadata: { width: 480, height: 270 },
+      });
+    });
+
+    it("should not call the API without a key", async () => {
+      const provider = new GifApiProvider({
+        flavor: "tenor",
+        apiKey: "",
+        baseUrl: "https://tenor.test/v2",
+        timeoutMs: 1000,
+      });
+
+      await expect(provider.search({ type: "GAME", query: "dance", count: 5 })).resolves.toEqual(
+        [],
+      );
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("ContentProviderRegistry", () => {
+    const registry = ContentProviderRegistry.getInstance();
+
+    beforeEach(() => {
+      registry.list().forEach(provider => registry.unregister(provider.id));
+    });
+
+    it("should resolve providers in preference order", () => {
+      registry.register(createProvider("first"));
+      registry.register(createProvider("second"));
+      registry.register(createProvider("music-only", { activityTypes: ["MUSIC"] }));
+
+      const resolved = registry.resolve("GAME", ["second", "unknown", "music-only", "first"]);
+      expect(resolved.map(provider => provider.id)).toEqual(["second", "first"]);
+    });
+
+    it("should skip providers without an allowed media type", () => {
+      registry.register(createProvider("images"));
+      registry.register(
+        createProvider("gifs", {
+          capabilities: {
+            mediaTypes: ["gif"],
+            supportsSearch: true,
+            safeSearch: true,
+            requiresNetwork: true,
+          },
+        }),
+      );
+
+      const resolved = registry.resolve("GAME", ["images", "gifs"], ["gif"]);
+      expect(resolved.map(provider => provider.id)).toEqual(["gifs"]);
+    });
+
+    it("should enforce the rate budget", () => {
+      registry.register(createProvider("limited"));
+
+      expect(registry.tryConsume("limited")).toBe(true);
+      expect(registry.tryConsume("limited")).toBe(true);
+      expect(registry.tryConsume("limited")).toBe(false);
+      expect(registry.getInfo()[0].rateBudget).toMatchObject({ used: 2, remaining: 0 });
+    });
+
+    it("should report failing health checks as unhealthy", async () => {
+      registry.register(
+        createProvider("broken", {
+          healthCheck: jest.fn().mockRejectedValue(new Error("boom")),
+        }),
+      );
+
+      const health = await registry.checkHealth();
+      expect(health.broken).toMatchObject({ healthy: false, message: "boom" });
+    });
+  });
+
+  describe("ContentService fallback chain", () => {
+    const registry = ContentProviderRegistry.getInstance();
+    const contentService = ContentService.getInstance();
+    const meme = {
+      url: "https://cdn.example.com/meme.png",
+      title: "Minecraft meme",
+      source: "example.com",
+      type: "image/png",
+    };
+
+    beforeAll(() => {
+      config.content.cache.enabled = false;
+    });
+
+    afterAll(() => {
+      config.content.cache.enabled = true;
+    });
+
+    beforeEach(() => {
+      registry.list().forEach(provider => registry.unregister(provider.id));
+    });
+
+    it("should fall back to the next provider when one fails", async () => {
+      registry.register(
+        createProvider("broken", { search: jest.fn().mockRejectedValue(new Error("down")) }),
+      );
+      registry.register(createProvider("working", { search: jest.fn().mockResolvedValue([meme]) }));
+
+      const result = await contentService.searchWithFallback({
+        type: "GAME",
+        query: "minecraft",
+        providers: ["broken", "working"],
+      });
+
+      expect(result.provider).toBe("working");
+      expect(result.content[0]).toMatchObject({ url: meme.url, metadata: { provider: "working" } });
+      expect(result.attempts.map(attempt => [attempt.provider, attempt.outcome])).toEqual([
+        ["broken", "error"],
+        ["working", "success"],
+      ]);
+    });
+
+    it("should move on when a provider returns nothing", async () => {
+      registry.register(createProvider("empty"));
+      registry.register(createProvider("working", { search: jest.fn().mockResolvedValue([meme]) }));
+
+      const result = await contentService.searchWithFallback({
+        type: "GAME",
+        query: "minecraft",
+        providers: ["empty", "working"],
+      });
+
+      expect(result.provider).toBe("working");
+      expect(result.attempts[0]).toMatchObject({ provider: "empty", outcome: "empty" });
+    });
+
+    it("should time out slow providers", async () => {
+      const timeout = config.content.requestTimeoutMs;
+      config.content.requestTimeoutMs = 20;
+      registry.register(
+        createProvider("slow", { search: jest.fn().mockReturnValue(new Promise(() => {})) }),
+      );
+
+      try {
+        const result = await contentService.searchWithFallback({
+          type: "GAME",
+          query: "minecraft",
+          providers: ["slow"],
+        });
+
+        expect(result).toMatchObject({ content: [], provider: null });
+        expect(result.attempts[0]).toMatchObject({ provider: "slow", outcome: "timeout" });
+      } finally {
+        config.content.requestTimeoutMs = timeout;
+      }
+    });
+
+    it("should skip providers with an open circuit", async () => {
+      const search = jest.fn().mockRejectedValue(new Error("down"));
+      registry.register(
+        createProvider("flaky", { search, rateBudget: { requests: 100, windowMs: 1000 } }),
+      );
+
+      for (let i = 0; i < config.content.circuitBreaker.failureThreshold; i++) {
+        await contentService.searchWithFallback({ type: "GAME", query: "x", providers: ["flaky"] });
+      }
+      const result = await contentService.searchWithFallback({
+        type: "GAME",
+        query: "x",
+        providers: ["flaky"],
+      });
+
+      expect(search).toHaveBeenCalledTimes(config.content.circuitBreaker.failureThreshold);
+      expect(result.attempts).toEqual([{ provider: "flaky", outcome: "circuit-open" }]);
+      expect(registry.getInfo()[0].circuit.state).toBe("open");
+    });
+
+    it("should warm the cache the way each account's triggers search", async () => {
+      const preferences = (providers: string[], gifs: boolean) => ({
+        settings: { contentPreferences: { memes: true, gifs, providers } },
+      });
+      jest.spyOn(DiscordAccount, "find").mockReturnValue({
+        select: () => ({
+          lean: () =>
+            Promise.resolve([
+              preferences(["giphy"], true),
+              preferences(["giphy"], true),
+              preferences(["reddit"], false),
+            ]),
+        }),
+      } as never);
+      const search = jest
+        .spyOn(contentService, "searchWithFallback")
+        .mockResolvedValueOnce({ content: [], provider: "giphy", attempts: [] })
+        .mockResolvedValue({ content: [meme as never], provider: "reddit", attempts: [] });
+
+      try {
+        // Counted per entry, however many setups found content for it
+        await expect(
+          contentService.warmSearchCache([{ type: "GAME", query: "minecraft" }]),
+        ).resolves.toBe(1);
+
+        const count = config.content.dedup.enabled
+          ? config.content.dedup.candidateCount
+          : undefined;
+        expect(search.mock.calls.map(([params]) => params)).toEqual([
+          expect.objectContaining({
+            providers: ["giphy"],
+            mediaTypes: ["image", "video", "gif"],
+            count,
+            cacheMode: "refresh",
+          }),
+          expect.objectContaining({ providers: ["reddit"], mediaTypes: ["image", "video"], count }),
+        ]);
+      } finally {
+        search.mockRestore();
+      }
+    });
+  });
+});
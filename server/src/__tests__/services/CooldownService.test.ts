@@ -0,0 +1,82 @@
+import { Types } from "mongoose";
+import { Cooldown } from "../../models/Cooldown";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import { IFriend } from "../../models/Friend";
+import { CooldownService } from "../../services/CooldownService";
+
+jest.mock("../../models/Cooldown", () => ({
+  Cooldown: { findOne: jest.fn(), findOneAndUpdate: jest.fn(), deleteOne: jest.fn() },
+}));
+jest.mock("../../models/DiscordAccount", () => ({
+  DiscordAccount: { findById: jest.fn() },
+}));
+
+const mockedFindOne = Cooldown.findOne as jest.Mock;
+const mockedFindOneAndUpdate = Cooldown.findOneAndUpdate as jest.Mock;
+const mockedFindAccount = DiscordAccount.findById as jest.Mock;
+
+const accountId = new Types.ObjectId().toString();
+const friend = { _id: new Types.ObjectId() } as IFriend;
+const minecraft = { type: "GAME" as const, name: "Minecraft" };
+
+const mockAccountCooldowns = (cooldowns?: Record<string, unknown>) =>
+  mockedFindAccount.mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve({ settings: { cooldowns } }) }),
+  });
+
+describe("CooldownService", () => {
+  const service = CooldownService.getInstance();
+  const now = new Date("2026-03-01T12:00:00Z");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAccountCooldowns();
+  });
+
+  describe("claim", () => {
+    it("starts the cooldown unless a live one is in the way", async () => {
+      const cooldown = { _id: new Types.ObjectId() };
+      mockedFindOneAndUpdate.mockReturnValue({ exec: () => Promise.resolve(cooldown) });
+
+      await expect(service.claim(accountId, friend, minecraft, now)).resolves.toEqual({
+        claimed: true,
+        cooldown,
+      });
+      expect(mockedFindOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ friendId: friend._id, expiresAt: { $lte: now } }),
+        expect.anything(),
+        { upsert: true, new: true },
+      );
+    });
+
+    it("is refused while the friend is on cooldown", async () => {
+      mockedFindOneAndUpdate.mockReturnValue({
+        exec: () => Promise.reject(Object.assign(new Error("duplicate key"), { code: 11000 })),
+      });
+
+      await expect(service.claim(accountId, friend, minecraft, now)).resolves.toEqual({
+        claimed: false,
+        cooldown: null,
+      });
+    });
+
+    it("only checks for a live cooldown when the settings ask for none", async () => {
+      mockAccountCooldowns({ minutes: 0 });
+      mockedFindOne.mockReturnValue({ exec: () => Promise.resolve(null) });
+
+      await expect(service.claim(accountId, friend, minecraft, now)).resolves.toEqual({
+        claimed: true,
+        cooldown: null,
+      });
+      expect(mockedFindOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  it("releases a cooldown only if it was not claimed again", async () => {
+    const cooldown = { _id: new Types.ObjectId(), startedAt: now };
+
+    await service.release(cooldown as never);
+
+    expect(Cooldown.deleteOne).toHaveBeenCalledWith({ _id: cooldown._id, startedAt: now });
+  });
+});
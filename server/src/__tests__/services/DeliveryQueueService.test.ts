@@ -0,0 +1,423 @@
+import { Types } from "mongoose";
+import config from "../../config";
+import { DeliveryJob } from "../../models/DeliveryJob";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import { ContentHistory } from "../../models/ContentHistory";
+import { Friend } from "../../models/Friend";
+import { DeliveryQueueService } from "../../services/DeliveryQueueService";
+
+const mockWorkerManager = {
+  getWorkerStatus: jest.fn(),
+  sendToWorker: jest.fn(),
+  getRemoteAccountIds: jest.fn(),
+};
+
+jest.mock("../../workers/WorkerManager", () => ({
+  WorkerManager: { getInstance: () => mockWorkerManager },
+}));
+jest.mock("../../models/DeliveryJob", () => ({
+  DeliveryJob: {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  },
+}));
+jest.mock("../../models/DiscordAccount", () => ({
+  DiscordAccount: { findById: jest.fn() },
+}));
+jest.mock("../../models/ContentHistory", () => ({
+  ContentHistory: { updateOne: jest.fn(), updateMany: jest.fn() },
+}));
+jest.mock("../../models/Friend", () => ({
+  Friend: { findById: jest.fn(), updateOne: jest.fn() },
+}));
+jest.mock("../../utils/logger", () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const mockedFindOneAndUpdate = DeliveryJob.findOneAndUpdate as jest.Mock;
+const mockedUpdateOne = DeliveryJob.updateOne as jest.Mock;
+const mockedFindOne = DeliveryJob.findOne as jest.Mock;
+const mockedFindAccount = DiscordAccount.findById as jest.Mock;
+const mockedHistoryUpdate = ContentHistory.updateOne as jest.Mock;
+const mockedFindFriend = Friend.findById as jest.Mock;
+
+const accountId = new Types.ObjectId();
+const historyId = new Types.ObjectId();
+
+const payload = {
+  friendId: "123456789",
+  content: { url: "https://example.com/meme.png", title: "meme", source: "example.com" },
+  historyId: historyId.toString(),
+  context: { type: "GAME" as const, trigger: "Minecraft" },
+};
+
+const makeJob = (overrides: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  historyId,
+  discordAccountId: accountId,
+  payload,
+  status: "queued",
+  attempts: 0,
+  maxAttempts: 3,
+  ...overrides,
+});
+
+const mockAccount = (timeWindows: Array<{ start: string; end: string }> = []) =>
+  mockedFindAccount.mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      lean: jest.fn().mockResolvedValue({ settings: { deliveryPreferences: { timeWindows } } }),
+    }),
+  });
+
+const mockFriend = (optedOut = false) =>
+  mockedFindFriend.mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      lean: jest.fn().mockResolvedValue({ contentPreferences: { optedOut } }),
+    }),
+  });
+
+// Hand out the given jobs from the claim query, then report the queue as empty
+const queueJobs = (...jobs: unknown[]) => {
+  jobs.forEach(job => mockedFindOneAndUpdate.mockReturnValueOnce({ exec: () => job }));
+  mockedFindOneAndUpdate.mockReturnValue({ exec: () => null });
+};
+
+describe("DeliveryQueueService", () => {
+  const queue = DeliveryQueueService.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedFindOneAndUpdate.mockReset();
+    mockedUpdateOne.mockResolvedValue({ modifiedCount: 1 });
+    mockWorkerManager.getWorkerStatus.mockReturnValue({ isConnected: true });
+    mockWorkerManager.getRemoteAccountIds.mockReturnValue([]);
+    mockAccount();
+    mockFriend();
+    config.delivery.backoffBaseMs = 30000;
+    config.delivery.backoffMaxMs = 1800000;
+  });
+
+  describe("enqueue", () => {
+    it("inserts the job only once per history entry", async () => {
+      mockedFindOneAndUpdate.mockResolvedValue(makeJob());
+
+      await queue.enqueue({
+        historyId,
+        accountId: accountId.toString(),
+        friendId: new Types.ObjectId().toString(),
+        payload,
+      });
+
+      const [filter, update, options] = mockedFindOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ historyId });
+      expect(update.$setOnInsert).toMatchObject({ status: "queued", attempts: 0 });
+      expect(options).toMatchObject({ upsert: true });
+    });
+
+    it("defers jobs queued outside the delivery time windows", async () => {
+      const now = new Date();
+      const start = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+      const end = new Date(now.getTime() + 3 * 60 * 60 * 1000);
+      const hhmm = (date: Date) =>
+        `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+      mockAccount([{ start: hhmm(start), end: hhmm(end) }]);
+      mockedFindOneAndUpdate.mockResolvedValue(makeJob());
+
+      await queue.enqueue({
+        historyId,
+        accountId: accountId.toString(),
+        friendId: new Types.ObjectId().toString(),
+        payload,
+      });
+
+      const { $setOnInsert } = mockedFindOneAndUpdate.mock.calls[0][1];
+      expect($setOnInsert.scheduledFor.getTime()).toBeGreaterThan(now.getTime());
+      expect($setOnInsert.deferredReason).toBe("Outside delivery time windows");
+    });
+  });
+
+  describe("processDueJobs", () => {
+    it("hands due jobs to the worker and marks them dispatched", async () => {
+      const job = makeJob();
+      queueJobs(job);
+
+      const handled = await queue.processDueJobs();
+
+      expect(handled).toBe(1);
+      expect(mockWorkerManager.sendToWorker).toHaveBeenCalledWith(accountId.toString(), {
+        type: "CONTENT_DELIVERY",
+        data: payload,
+      });
+      expect(mockedUpdateOne).toHaveBeenCalledWith(
+        { _id: job._id, status: "queued", lockedBy: expect.any(String) },
+        expect.objectContaining({
+          $set: expect.objectContaining({ status: "dispatched" }),
+          $inc: { attempts: 1 },
+        }),
+      );
+      // A result reported right away must find the job dispatched already
+      expect(mockedUpdateOne.mock.invocationCallOrder[0]).toBeLessThan(
+        mockWorkerManager.sendToWorker.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("leaves jobs alone that another poller took over meanwhile", async () => {
+      mockedUpdateOne.mockResolvedValueOnce({ modifiedCount: 0 });
+      queueJobs(makeJob());
+
+      await queue.processDueJobs();
+
+      expect(mockWorkerManager.sendToWorker).not.toHaveBeenCalled();
+    });
+
+    it("waits for a worker that is not connected without counting an attempt", async () => {
+      mockWorkerManager.getWorkerStatus.mockReturnValue({ isConnected: false });
+      queueJobs(makeJob({ attempts: 7 }));
+      const before = Date.now();
+
+      await queue.processDueJobs();
+
+      expect(mockWorkerManager.sendToWorker).not.toHaveBeenCalled();
+      const { $set } = mockedUpdateOne.mock.calls[0][1];
+      expect($set).toMatchObject({ status: "queued", deferredReason: "Worker is not connected" });
+      expect($set.attempts).toBeUndefined();
+      expect($set.scheduledFor.getTime()).toBeGreaterThanOrEqual(
+        before + config.delivery.backoffBaseMs,
+      );
+    });
+
+    it("dead-letters the job after the last attempt and fails the history entry", async () => {
+      mockWorkerManager.sendToWorker.mockImplementation(() => {
+        throw new Error("No worker found for account");
+      });
+      queueJobs(makeJob({ attempts: 2 }));
+
+      await queue.processDueJobs();
+
+      expect(mockedUpdateOne.mock.calls[1][1].$set).toMatchObject({ status: "dead", attempts: 3 });
+      expect(mockedHistoryUpdate).toHaveBeenCalledWith(
+        { _id: historyId },
+        { $set: { status: "FAILED", error: "No worker found for account" } },
+      );
+    });
+
+    it("defers instead of sending when the time windows changed", async () => {
+      const now = new Date();
+      const start = new Date(now.getTime() + 60 * 60 * 1000);
+      const hhmm = (date: Date) =>
+        `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+      mockAccount([{ start: hhmm(start), end: hhmm(new Date(start.getTime() + 60000 * 30)) }]);
+      queueJobs(makeJob());
+
+      await queue.processDueJobs();
+
+      expect(mockWorkerManager.sendToWorker).not.toHaveBeenCalled();
+      const { $set } = mockedUpdateOne.mock.calls[0][1];
+      expect($set).toMatchObject({
+        status: "queued",
+        deferredReason: "Outside delivery time windows",
+      });
+      expect($set.attempts).toBeUndefined();
+    });
+
+    it("cancels instead of sending when the friend opted out", async () => {
+      const job = makeJob({ friendId: new Types.ObjectId() });
+      mockFriend(true);
+      queueJobs(job);
+      (DeliveryJob.find as jest.Mock).mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          lean: jest.fn().mockResolvedValue([{ _id: job._id, historyId }]),
+        }),
+      });
+      (DeliveryJob.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+
+      await queue.processDueJobs();
+
+      expect(mockWorkerManager.sendToWorker).not.toHaveBeenCalled();
+      expect((DeliveryJob.updateMany as jest.Mock).mock.calls[0][1].$set).toMatchObject({
+        status: "cancelled",
+        lastError: "Friend opted out",
+      });
+      expect(ContentHistory.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [historyId] } },
+        { $set: { status: "FAILED", error: "Friend opted out" } },
+      );
+    });
+
+    it("leaves the jobs of accounts running on other nodes to those nodes", async () => {
+      const remoteAccountId = new Types.ObjectId();
+      mockWorkerManager.getRemoteAccountIds.mockReturnValue([remoteAccountId.toString()]);
+      queueJobs();
+
+      await queue.processDueJobs();
+
+      expect(mockedFindOneAndUpdate.mock.calls[0][0].discordAccountId).toEqual({
+        $nin: [remoteAccountId],
+      });
+    });
+  });
+
+  describe("requeueStaleDispatched", () => {
+    it("queues jobs again that were dispatched too long ago", async () => {
+      (DeliveryJob.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 2 });
+      const now = new Date();
+
+      await expect(queue.requeueStaleDispatched(now)).resolves.toBe(2);
+      expect(DeliveryJob.updateMany).toHaveBeenCalledWith(
+        {
+          status: "dispatched",
+          dispatchedAt: { $lt: new Date(now.getTime() - config.delivery.dispatchTimeoutMs) },
+        },
+        { $set: expect.objectContaining({ status: "queued", scheduledFor: now }) },
+      );
+    });
+  });
+
+  describe("pause", () => {
+    afterEach(() => {
+      queue["paused"] = false;
+    });
+
+    it("waits for the batch being dispatched and dispatches nothing afterwards", async () => {
+      queueJobs(makeJob());
+
+      const processing = queue.processDueJobs();
+      await queue.pause();
+
+      expect(mockWorkerManager.sendToWorker).toHaveBeenCalledTimes(1);
+      await expect(processing).resolves.toBe(1);
+
+      queueJobs(makeJob());
+      await expect(queue.processDueJobs()).resolves.toBe(0);
+    });
+  });
+
+  describe("recordResult", () => {
+    const result = {
+      historyId: historyId.toString(),
+      friendId: "123456789",
+      startedAt: new Date().toISOString(),
+      completedAt: new Date().toISOString(),
+    };
+
+    it("marks the job delivered", async () => {
+      const job = makeJob({ status: "dispatched", attempts: 1 });
+      mockedFindOne.mockReturnValue({ exec: () => job });
+
+      const outcome = await queue.recordResult({ ...result, success: true, messageId: "m1" });
+
+      expect(outcome).toBe("delivered");
+      expect(mockedUpdateOne.mock.calls[0][1].$set).toMatchObject({ status: "delivered" });
+    });
+
+    it("counts a repeated delivery report once", async () => {
+      const job = makeJob({ status: "delivered", attempts: 1 });
+      mockedFindOne.mockReturnValue({ exec: () => job });
+      mockedUpdateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      const outcome = await queue.recordResult({ ...result, success: true, messageId: "m1" });
+
+      expect(outcome).toBe("delivered");
+      expect(mockedUpdateOne.mock.calls[0][0]).toMatchObject({ status: { $ne: "delivered" } });
+      expect(Friend.updateOne).not.toHaveBeenCalled();
+    });
+
+    it("requeues retryable failures no sooner than the rate limit allows", async () => {
+      mockedFindOne.mockReturnValue({
+        exec: () => makeJob({ status: "dispatched", attempts: 1 }),
+      });
+      const before = Date.now();
+
+      const outcome = await queue.recordResult({
+        ...result,
+        success: false,
+        error: { type: "RATE_LIMITED", message: "Slow down", retryable: true, retryAfterMs: 90000 },
+      });
+
+      expect(outcome).toBe("retrying");
+      const { $set } = mockedUpdateOne.mock.calls[0][1];
+      expect($set).toMatchObject({ status: "queued", lastError: "Slow down" });
+      expect($set.scheduledFor.getTime()).toBeGreaterThanOrEqual(before + 90000);
+    });
+
+    it("defers paced deliveries without using up an attempt", async () => {
+      mockedFindOne.mockReturnValue({
+        exec: () => makeJob({ status: "dispatched", attempts: 3 }),
+      });
+
+      const outcome = await queue.recordResult({
+        ...result,
+        success: false,
+        error: {
+          type: "PACED",
+          message: "Hourly send budget used up",
+          retryable: true,
+          retryAfterMs: 600000,
+        },
+      });
+
+      expect(outcome).toBe("retrying");
+      expect(mockedUpdateOne.mock.calls[0][1].$set).toMatchObject({
+        status: "queued",
+        attempts: 2,
+        deferredReason: "Hourly send budget used up",
+      });
+    });
+
+    it("fails the job when the error is permanent", async () => {
+      mockedFindOne.mockReturnValue({
+        exec: () => makeJob({ status: "dispatched", attempts: 1 }),
+      });
+
+      const outcome = await queue.recordResult({
+        ...result,
+        success: false,
+        error: { type: "DM_BLOCKED", message: "Cannot send messages", retryable: false },
+      });
+
+      expect(outcome).toBe("failed");
+      expect(mockedUpdateOne.mock.calls[0][1].$set).toMatchObject({
+        status: "failed",
+        lastError: "Cannot send messages",
+      });
+    });
+  });
+
+  describe("getBackoffDelay", () => {
+    it("doubles the delay per attempt up to the maximum", () => {
+      expect(queue.getBackoffDelay(1)).toBe(30000);
+      expect(queue.getBackoffDelay(3)).toBe(120000);
+      expect(queue.getBackoffDelay(20)).toBe(1800000);
+    });
+  });
+
+  describe("retryJob and cancelJob", () => {
+    it("only retries jobs that ended without being delivered", async () => {
+      mockedFindOneAndUpdate.mockResolvedValue(makeJob({ status: "queued" }));
+
+      await queue.retryJob("job1");
+
+      expect(mockedFindOneAndUpdate.mock.calls[0][0]).toEqual({
+        _id: "job1",
+        status: { $in: ["failed", "dead", "cancelled"] },
+      });
+      expect(mockedHistoryUpdate).toHaveBeenCalledWith(
+        { _id: historyId },
+        { $set: { status: "PENDING" }, $unset: { error: 1 } },
+      );
+    });
+
+    it("returns null when the job can no longer be cancelled", async () => {
+      mockedFindOneAndUpdate.mockResolvedValue(null);
+
+      expect(await queue.cancelJob("job1")).toBeNull();
+      expect(mockedHistoryUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
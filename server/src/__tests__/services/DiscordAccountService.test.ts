@@ -32,7 +32,7 @@ describe("Cache Invalidation", () => {
   it("should invalidate dashboard cache when creating an account", async () => {
     // Mock implementations for this test
     jest.spyOn(DiscordAccount.prototype, "save").mockResolvedValueOnce({} as any);
-    jest.spyOn(WorkerManager.prototype, "startWorker").mockImplementation(() => {});
+    jest.spyOn(WorkerManager.prototype, "startWorker").mockResolvedValue();
 
     await service.createAccount({
       userId,
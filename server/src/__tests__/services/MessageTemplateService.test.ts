@@ -0,0 +1,117 @@
+import { Types } from "mongoose";
+import cache from "../../utils/cache";
+import { MessageTemplate } from "../../models/MessageTemplate";
+import {
+  DeliveryMessageContext,
+  MessageTemplateService,
+} from "../../services/MessageTemplateService";
+
+jest.mock("../../models/MessageTemplate", () => ({
+  MessageTemplate: { find: jest.fn(), create: jest.fn(), findByIdAndUpdate: jest.fn() },
+}));
+jest.mock("../../utils/logger", () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const mockedFind = MessageTemplate.find as jest.Mock;
+
+const mockTemplates = (templates: unknown[]) =>
+  mockedFind.mockReturnValue({
+    select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(templates) }),
+  });
+
+describe("MessageTemplateService", () => {
+  const service = MessageTemplateService.getInstance();
+  const friendId = new Types.ObjectId();
+  const context: DeliveryMessageContext = {
+    accountId: new Types.ObjectId().toString(),
+    friendId: friendId.toString(),
+    friendName: "Steve",
+    activity: { type: "GAME", details: { gameName: "Minecraft", startedAt: new Date() } },
+    trigger: "Minecraft",
+    content: { url: "https://example.com/a.png", title: "Creeper", type: "image/png" },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache.clear();
+  });
+
+  it("prefers the friend's template for the activity type", async () => {
+    mockTemplates([
+      { friendId: null, activityTypes: [], variants: ["account wide"], mode: "embed" },
+      { friendId, activityTypes: [], variants: ["friend, any activity"], mode: "embed" },
+      { friendId, activityTypes: ["GAME"], variants: ["{{friend}} loves {{game}}"], mode: "link" },
+      { friendId: null, activityTypes: ["GAME"], variants: ["account game"], mode: "embed" },
+    ]);
+
+    expect(await service.renderDeliveryMessage(context)).toEqual({
+      text: "Steve loves Minecraft",
+      mode: "link",
+    });
+  });
+
+  it("falls back to built-in variants without templates", async () => {
+    mockTemplates([]);
+
+    const message = await service.renderDeliveryMessage(context);
+
+    expect(message.mode).toBe("embed");
+    expect(message.text).not.toMatch(/\{\{/);
+  });
+
+  it("only uses templates celebrating the milestone, then built-in milestone variants", async () => {
+    mockTemplates([]);
+
+    const message = await service.renderDeliveryMessage({
+      ...context,
+      milestone: {
+        kind: "longSession",
+        activityType: "GAME",
+        activityName: "Minecraft",
+        value: 3,
+        description: "3 hours of Minecraft",
+      },
+    });
+
+    expect(mockedFind.mock.calls[0][0].$and).toContainEqual({ milestones: "longSession" });
+    expect(message.text).toContain("3 hours of Minecraft");
+  });
+
+  it("falls back to built-in variants when templates cannot be loaded", async () => {
+    mockedFind.mockImplementation(() => {
+      throw new Error("db down");
+    });
+
+    expect((await service.renderDeliveryMessage(context)).text.length).toBeGreaterThan(0);
+  });
+
+  it("never repeats the previous variant for a friend", async () => {
+    mockTemplates([{ friendId, activityTypes: [], variants: ["one", "two"], mode: "embed" }]);
+
+    const texts: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      texts.push((await service.renderDeliveryMessage(context)).text);
+    }
+
+    texts.slice(1).forEach((text, index) => expect(text).not.toBe(texts[index]));
+  });
+
+  it("previews every variant against a sample activity", () => {
+    expect(
+      service.preview(["{{activity}}", "{{artist|someone}} slaps"], {
+        activity: { type: "GAME", details: { gameName: "Tetris", startedAt: new Date() } },
+      }),
+    ).toEqual(["playing Tetris", "someone slaps"]);
+  });
+
+  it("rejects templates with unknown variables", () => {
+    expect(() =>
+      service.createTemplate(context.accountId, { name: "x", variants: ["{{gam}}"] }),
+    ).toThrow("Unknown template variables: gam");
+    expect(MessageTemplate.create).not.toHaveBeenCalled();
+  });
+});
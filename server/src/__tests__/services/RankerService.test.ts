@@ -0,0 +1,120 @@
+import config from "../../config";
+import cache from "../../utils/cache";
+import { RankerWeights } from "../../models/RankerWeights";
+import { RankerService } from "../../services/RankerService";
+import { ContentItem } from "../../types/content";
+
+jest.mock("../../models/RankerWeights", () => ({
+  RankerWeights: { findOne: jest.fn(), updateOne: jest.fn() },
+}));
+jest.mock("../../utils/logger", () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const mockedFindOne = RankerWeights.findOne as jest.Mock;
+const mockedUpdateOne = RankerWeights.updateOne as jest.Mock;
+
+// Stored weights per "scope:scopeId"
+let stored: Record<string, { weights: Record<string, number>; samples: number }> = {};
+
+const candidate = (title: string, provider: string, relevanceScore: number): ContentItem => ({
+  url: `https://example.com/${title}.png`,
+  title,
+  source: "example.com",
+  type: "image/png",
+  metadata: { provider, relevanceScore },
+});
+
+describe("RankerService", () => {
+  const ranker = RankerService.getInstance();
+  const context = { accountId: "account1", friendId: "friend1", activityType: "GAME" as const };
+  const candidates = [candidate("keyword", "serpapi", 5), candidate("liked", "tenor", 1)];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = {};
+    cache.clear();
+    mockedFindOne.mockImplementation(({ scope, scopeId }) => ({
+      lean: jest.fn().mockResolvedValue(stored[`${scope}:${scopeId}`] || null),
+    }));
+    mockedUpdateOne.mockResolvedValue({});
+    config.content.ranker.enabled = true;
+    config.content.ranker.explorationRate = 0;
+    config.content.ranker.minSamples = 20;
+  });
+
+  it("keeps the heuristic order until the model has enough feedback", async () => {
+    stored["friend:friend1"] = { weights: { "provider:tenor": 5 }, samples: 5 };
+
+    const ranked = await ranker.rank(candidates, context);
+
+    expect(ranked.map(item => item.title)).toEqual(["keyword", "liked"]);
+    expect(ranked[0].metadata?.ranking).toMatchObject({ model: "heuristic", heuristicScore: 5 });
+    expect(ranked[0].metadata?.ranking.features["provider:serpapi"]).toBe(1);
+  });
+
+  it("orders by the sum of global, account and friend weights once trained", async () => {
+    stored["global:global"] = { weights: { "provider:serpapi": 1 }, samples: 50 };
+    stored["friend:friend1"] = { weights: { "provider:tenor": 3 }, samples: 5 };
+
+    const ranked = await ranker.rank(candidates, context);
+
+    expect(ranked.map(item => item.title)).toEqual(["liked", "keyword"]);
+    expect(ranked[0].metadata?.ranking.model).toBe("learned");
+    expect(ranked[0].metadata?.ranking.score).toBeGreaterThan(0.9);
+  });
+
+  it("explores a lower ranked candidate", async () => {
+    config.content.ranker.explorationRate = 1;
+
+    const ranked = await ranker.rank(candidates, context);
+
+    expect(ranked.map(item => item.title)).toEqual(["liked", "keyword"]);
+    expect(ranked[0].metadata?.ranking.model).toBe("exploration");
+  });
+
+  it("returns candidates unchanged when disabled or weights cannot be loaded", async () => {
+    config.content.ranker.enabled = false;
+    expect(await ranker.rank(candidates, context)).toBe(candidates);
+
+    config.content.ranker.enabled = true;
+    mockedFindOne.mockImplementation(() => ({
+      lean: jest.fn().mockRejectedValue(new Error("db down")),
+    }));
+    expect(await ranker.rank(candidates, context)).toBe(candidates);
+  });
+
+  it("increments the weights of every scope on feedback", async () => {
+    await ranker.learn({ bias: 1, "provider:tenor": 1 }, context, { type: "rating", rating: 5 });
+
+    expect(mockedUpdateOne).toHaveBeenCalledTimes(3);
+    const [filter, update, options] = mockedUpdateOne.mock.calls[2];
+    expect(filter).toEqual({ scope: "friend", scopeId: "friend1" });
+    expect(options).toEqual({ upsert: true });
+    expect(update.$inc.samples).toBe(1);
+    expect(update.$inc["weights.provider:tenor"]).toBeCloseTo(
+      config.content.ranker.learningRates.friend * 0.5,
+    );
+  });
+
+  it("ignores signals that carry no label", async () => {
+    await ranker.learn({ bias: 1 }, context, { type: "delivery", delivered: true });
+
+    expect(mockedUpdateOne).not.toHaveBeenCalled();
+  });
+
+  it("lists the strongest weights of a scope", async () => {
+    stored["global:global"] = { weights: { a: 0.1, b: -2, c: 1 }, samples: 7 };
+
+    expect(await ranker.getTopFeatures("global", "global", 2)).toEqual({
+      samples: 7,
+      features: [
+        { feature: "b", weight: -2 },
+        { feature: "c", weight: 1 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { Server } from "http";
+import config from "../../config";
+import { ShutdownService } from "../../services/ShutdownService";
+
+const workerManager = { drainWorkers: jest.fn(), getAccountIds: jest.fn() };
+jest.mock("../../workers/WorkerManager", () => ({
+  WorkerManager: { getInstance: () => workerManager },
+}));
+
+const deliveryQueue = { pause: jest.fn(), requeueDispatched: jest.fn() };
+jest.mock("../../services/DeliveryQueueService", () => ({
+  DeliveryQueueService: { getInstance: () => deliveryQueue },
+}));
+
+const accounts = { stopAllWorkers: jest.fn() };
+jest.mock("../../services/DiscordAccountService", () => ({
+  DiscordAccountService: { getInstance: () => accounts },
+}));
+
+const cluster = { pause: jest.fn(), stop: jest.fn() };
+jest.mock("../../services/ClusterService", () => ({
+  ClusterService: { getInstance: () => cluster },
+}));
+
+jest.mock("../../services/SocketService", () => ({
+  __esModule: true,
+  default: { shutdown: jest.fn() },
+}));
+jest.mock("../../utils/logger", () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+describe("ShutdownService", () => {
+  const server = { close: (done: () => void) => done() } as unknown as Server;
+  const never = () => new Promise<never>(() => undefined);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.cluster.enabled = true;
+    config.shutdown.drainTimeoutMs = 20;
+    config.shutdown.stopTimeoutMs = 20;
+    workerManager.getAccountIds.mockReturnValue(["account-1"]);
+    deliveryQueue.requeueDispatched.mockResolvedValue(0);
+    accounts.stopAllWorkers.mockResolvedValue(undefined);
+    // Each shutdown only runs once per instance
+    Object.assign(ShutdownService, { instance: undefined });
+  });
+
+  it("stops the workers after a drain that timed out", async () => {
+    workerManager.drainWorkers.mockImplementation(never);
+
+    await ShutdownService.getInstance().shutdown(server);
+
+    expect(deliveryQueue.requeueDispatched).toHaveBeenCalledWith(
+      ["account-1"],
+      "Worker stopped during shutdown",
+    );
+    expect(accounts.stopAllWorkers).toHaveBeenCalled();
+  });
+
+  it("leaves the cluster when stopping the workers hangs", async () => {
+    workerManager.drainWorkers.mockResolvedValue(undefined);
+    accounts.stopAllWorkers.mockImplementation(never);
+
+    await ShutdownService.getInstance().shutdown(server);
+
+    expect(cluster.stop).toHaveBeenCalled();
+  });
+});
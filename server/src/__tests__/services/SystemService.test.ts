@@ -16,6 +16,8 @@ describe("SystemService", () => {
       requestsPerMinute: 60,
       errorRate: 0.1,
       presenceUpdatesPerMinute: 30,
+      deliveriesPerMinute: 0,
+      deliveryFailuresPerMinute: 0,
       memoryUsage: 100,
       uptime: 3600,
       requestCount: 120,
@@ -0,0 +1,162 @@
+import {
+  areaUnderCurve,
+  extractFeatures,
+  gradientStep,
+  historyExamples,
+  labelFeedback,
+  predict,
+  replayFeedback,
+  ReplaySample,
+  applyDeltas,
+  Weights,
+} from "../../services/ranking";
+import { ContentItem } from "../../types/content";
+
+const item = (overrides: Partial<ContentItem> = {}): ContentItem => ({
+  url: "https://i.redd.it/abc.gif",
+  title: "Creeper surprise reaction",
+  source: "www.reddit.com",
+  type: "image/gif",
+  metadata: { provider: "reddit", relevanceScore: 4 },
+  ...overrides,
+});
+
+const options = { learningRates: [0.2, 0.2, 0.2], l2: 0 };
+
+describe("ranking features", () => {
+  it("describes provider, media type, source and title words", () => {
+    const features = extractFeatures(item(), "GAME");
+
+    expect(features).toMatchObject({
+      bias: 1,
+      heuristic: 0.4,
+      "provider:reddit": 1,
+      "activity:game|provider:reddit": 1,
+      "media:gif": 1,
+      "activity:game|media:gif": 1,
+      "source:reddit_com": 1,
+    });
+    expect(features["word:creeper"]).toBeCloseTo(1 / Math.sqrt(3));
+  });
+
+  it("never produces keys MongoDB cannot store", () => {
+    const features = extractFeatures(
+      item({ title: "v1.2 $money", source: "media.tenor.com", type: "video/mp4" }),
+      "CUSTOM",
+    );
+
+    expect(Object.keys(features).some(key => /[.$]/.test(key))).toBe(false);
+    expect(features["media:video"]).toBe(1);
+  });
+});
+
+describe("logistic model", () => {
+  it("sums weight sets when predicting", () => {
+    expect(predict([{}], { bias: 1 })).toBe(0.5);
+    expect(predict([{ bias: 1 }, { bias: -1 }], { bias: 1 })).toBe(0.5);
+    expect(predict([{ bias: 2 }], { bias: 1 })).toBeGreaterThan(0.8);
+  });
+
+  it("moves predictions towards the label", () => {
+    const weights: Weights[] = [{}, {}];
+    const features = { bias: 1, "provider:reddit": 1 };
+
+    for (let i = 0; i < 20; i++) {
+      gradientStep(weights, features, 1, 1, options).forEach((deltas, index) =>
+        applyDeltas(weights[index], deltas),
+      );
+    }
+
+    expect(predict(weights, features)).toBeGreaterThan(0.9);
+    expect(predict(weights, { bias: 1, "provider:tenor": 1 })).toBeLessThan(
+      predict(weights, features),
+    );
+  });
+
+  it("scales updates by sample weight and learning rate", () => {
+    const [strong] = gradientStep([{}], { bias: 1 }, 1, 1, options);
+    const [weak] = gradientStep([{}], { bias: 1 }, 1, 0.2, options);
+
+    expect(strong.bias).toBeCloseTo(0.1);
+    expect(weak.bias).toBeCloseTo(0.02);
+  });
+});
+
+describe("feedback labels", () => {
+  it("maps ratings, reactions and failed deliveries", () => {
+    expect(labelFeedback({ type: "rating", rating: 5 })).toEqual({ label: 1, weight: 1 });
+    expect(labelFeedback({ type: "rating", rating: 3 })).toEqual({ label: 0.5, weight: 1 });
+    expect(labelFeedback({ type: "rating", rating: 1 })).toEqual({ label: 0, weight: 1 });
+    expect(labelFeedback({ type: "reaction", positive: false })?.label).toBe(0);
+    expect(labelFeedback({ type: "delivery", delivered: false })).toEqual({
+      label: 0,
+      weight: 0.2,
+    });
+    expect(labelFeedback({ type: "delivery", delivered: true })).toBeNull();
+  });
+
+  it("extracts examples only from ranked history", () => {
+    expect(historyExamples({ status: "SENT", userFeedback: { rating: 5 } })).toEqual([]);
+    expect(
+      historyExamples({
+        ranking: { features: { bias: 1 } },
+        status: "FAILED",
+        userFeedback: { rating: 4 },
+      }),
+    ).toEqual([
+      { label: 0, weight: 0.2 },
+      { label: 0.75, weight: 1 },
+    ]);
+  });
+
+  it("learns from the friend's reactions once they were taken into account", () => {
+    const ranking = { features: { bias: 1 } };
+
+    expect(
+      historyExamples({
+        ranking,
+        status: "SENT",
+        friendFeedback: { sentiment: "positive", learnedAt: new Date() },
+      }),
+    ).toEqual([{ label: 1, weight: 0.6 }]);
+    expect(
+      historyExamples({ ranking, status: "SENT", friendFeedback: { sentiment: "neutral" } }),
+    ).toEqual([]);
+  });
+});
+
+describe("offline evaluation", () => {
+  it("computes AUC with ties counted as half", () => {
+    expect(areaUnderCurve([0.9, 0.8, 0.1], [true, true, false])).toBe(1);
+    expect(areaUnderCurve([0.1, 0.9], [true, false])).toBe(0);
+    expect(areaUnderCurve([0.5, 0.5], [true, false])).toBe(0.5);
+    expect(areaUnderCurve([0.3], [true])).toBe(0.5);
+  });
+
+  it("learns a preference the heuristic misses", () => {
+    // The friend loves GIFs and dislikes images, whatever the keyword score says
+    const samples: ReplaySample[] = [];
+    for (let i = 0; i < 60; i++) {
+      const gif = i % 2 === 0;
+      samples.push({
+        accountId: "account",
+        friendId: "friend",
+        features: {
+          bias: 1,
+          heuristic: gif ? 0.2 : 0.6,
+          [gif ? "media:gif" : "media:image"]: 1,
+        },
+        label: gif ? 1 : 0,
+        weight: 1,
+      });
+    }
+
+    const report = replayFeedback(samples, options);
+
+    expect(report).toMatchObject({ samples: 60, positives: 30, negatives: 30 });
+    expect(report.heuristic.auc).toBe(0);
+    expect(report.learned.auc).toBeGreaterThan(0.9);
+    expect(report.learned.accuracy).toBeGreaterThan(0.9);
+    expect(report.learned.logLoss).toBeLessThan(Math.log(2));
+  });
+});
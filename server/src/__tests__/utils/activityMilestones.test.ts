@@ -0,0 +1,127 @@
+import { MilestoneSettings } from "../../types/milestones";
+import { ActivitySession } from "../../utils/activitySessions";
+import {
+  describeMilestone,
+  ongoingMilestones,
+  resolveMilestoneSettings,
+  startMilestones,
+  timeSpentSince,
+} from "../../utils/activityMilestones";
+
+describe("activityMilestones", () => {
+  const now = new Date(2026, 2, 10, 20, 0);
+  const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute);
+  const settings: MilestoneSettings = {
+    enabled: true,
+    longSessionHours: 3,
+    weeklySessions: 10,
+    firstTime: true,
+    comebackDays: 30,
+    allDayHours: 6,
+  };
+  const music = (startedAt: Date, endedAt: Date | null): ActivitySession => ({
+    type: "MUSIC",
+    name: "Daft Punk",
+    startedAt,
+    endedAt,
+  });
+
+  it("lets accounts override some of the defaults", () => {
+    expect(
+      resolveMilestoneSettings(settings, { longSessionHours: 5, allDayHours: undefined }),
+    ).toEqual({ ...settings, longSessionHours: 5 });
+  });
+
+  it("describes milestones the way friends would say them", () => {
+    expect(describeMilestone("longSession", "GAME", "Minecraft", 3)).toBe("3 hours of Minecraft");
+    expect(describeMilestone("weeklySessions", "GAME", "Minecraft", 10)).toBe(
+      "10th Minecraft session this week",
+    );
+    expect(describeMilestone("weeklySessions", "GAME", "Minecraft", 22)).toBe(
+      "22nd Minecraft session this week",
+    );
+    expect(describeMilestone("firstTime", "MUSIC", "Daft Punk", 1)).toBe(
+      "first time listening to Daft Punk",
+    );
+    expect(describeMilestone("comeback", "GAME", "Minecraft", 1)).toBe(
+      "back to Minecraft after 1 day",
+    );
+  });
+
+  describe("startMilestones", () => {
+    const session = { type: "GAME" as const, name: "Hades", startedAt: now };
+
+    it("celebrates the first time once the friend has been watched for a while", () => {
+      const history = { lastEndedAt: null, sessionsThisWeek: 1 };
+
+      expect(
+        startMilestones(settings, session, { ...history, trackedSince: at(1, 12) }),
+      ).toMatchObject([{ kind: "firstTime", description: "first time playing Hades" }]);
+      expect(startMilestones(settings, session, { ...history, trackedSince: at(8, 12) })).toEqual(
+        [],
+      );
+      expect(startMilestones(settings, session, { ...history, trackedSince: null })).toEqual([]);
+    });
+
+    it("celebrates comebacks with the days away", () => {
+      const history = { trackedSince: at(1, 12), sessionsThisWeek: 1 };
+
+      expect(
+        startMilestones(settings, session, { ...history, lastEndedAt: new Date(2026, 0, 20) }),
+      ).toMatchObject([{ kind: "comeback", value: 49 }]);
+      expect(startMilestones(settings, session, { ...history, lastEndedAt: at(9, 22) })).toEqual(
+        [],
+      );
+    });
+
+    it("celebrates exactly the Nth session of the week", () => {
+      const history = { trackedSince: at(1, 12), lastEndedAt: at(10, 18) };
+
+      expect(
+        startMilestones(settings, session, { ...history, sessionsThisWeek: 10 }),
+      ).toMatchObject([{ kind: "weeklySessions", value: 10 }]);
+      expect(startMilestones(settings, session, { ...history, sessionsThisWeek: 11 })).toEqual([]);
+    });
+
+    it("celebrates nothing when turned off or the activity has no name", () => {
+      const history = { trackedSince: at(1, 12), lastEndedAt: null, sessionsThisWeek: 10 };
+
+      expect(startMilestones({ ...settings, enabled: false }, session, history)).toEqual([]);
+      expect(startMilestones(settings, { ...session, name: "" }, history)).toEqual([]);
+    });
+  });
+
+  describe("ongoingMilestones", () => {
+    const none = { session: [], allDay: false };
+
+    it("counts only the time since midnight", () => {
+      expect(
+        timeSpentSince([music(at(9, 22), at(10, 1)), music(at(10, 19), null)], at(10, 0), now),
+      ).toBe(2 * 60 * 60000);
+    });
+
+    it("celebrates long sessions once", () => {
+      const open = music(at(10, 16, 30), null);
+
+      expect(ongoingMilestones(settings, open, [open], none, now)).toMatchObject([
+        { kind: "longSession", description: "3 hours of Daft Punk" },
+      ]);
+      expect(
+        ongoingMilestones(settings, open, [open], { ...none, session: ["longSession"] }, now),
+      ).toEqual([]);
+    });
+
+    it("celebrates a day spent on the same activity once", () => {
+      const open = music(at(10, 19), null);
+      const today = [music(at(10, 8), at(10, 11)), music(at(10, 13), at(10, 15)), open];
+
+      expect(ongoingMilestones(settings, open, today, none, now)).toMatchObject([
+        { kind: "allDay", description: "6 hours of Daft Punk today" },
+      ]);
+      expect(ongoingMilestones(settings, open, today, { ...none, allDay: true }, now)).toEqual([]);
+      expect(ongoingMilestones({ ...settings, allDayHours: 0 }, open, today, none, now)).toEqual(
+        [],
+      );
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  ActivitySession,
+  MAX_SESSION_MS,
+  activityName,
+  sessionDuration,
+  sessionStart,
+  summarizeSessions,
+} from "../../utils/activitySessions";
+
+describe("activitySessions", () => {
+  const now = new Date(2026, 2, 10, 20, 0);
+  const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute);
+  const game = (name: string, startedAt: Date, endedAt: Date | null): ActivitySession => ({
+    type: "GAME",
+    name,
+    startedAt,
+    endedAt,
+  });
+
+  describe("activityName", () => {
+    it("names the activity after what it is about", () => {
+      expect(activityName({ type: "GAME", details: { gameName: "Hades", startedAt: now } })).toBe(
+        "Hades",
+      );
+      expect(
+        activityName({
+          type: "MUSIC",
+          details: { musicDetails: { artist: "Daft Punk", song: "One More Time" }, startedAt: now },
+        }),
+      ).toBe("Daft Punk");
+    });
+  });
+
+  describe("sessionDuration", () => {
+    it("counts open sessions up to now", () => {
+      expect(sessionDuration(game("Hades", at(10, 19), null), now)).toBe(60 * 60000);
+    });
+
+    it("caps sessions nobody saw end", () => {
+      expect(sessionDuration(game("Hades", at(8, 12), null), now)).toBe(MAX_SESSION_MS);
+    });
+  });
+
+  describe("sessionStart", () => {
+    const seenAt = at(10, 19);
+
+    it("uses the start Discord reported", () => {
+      expect(sessionStart(at(10, 18), seenAt)).toEqual(at(10, 18));
+      expect(sessionStart(at(10, 18).toISOString(), seenAt)).toEqual(at(10, 18));
+    });
+
+    it("never starts before the previous session ended or after it was seen", () => {
+      expect(sessionStart(at(10, 17), seenAt, at(10, 18, 30))).toEqual(at(10, 18, 30));
+      expect(sessionStart(at(10, 21), seenAt)).toEqual(seenAt);
+      expect(sessionStart("not a date", seenAt)).toEqual(seenAt);
+    });
+  });
+
+  describe("summarizeSessions", () => {
+    it("totals the time per activity, most played first", () => {
+      const summary = summarizeSessions(
+        [
+          game("Hades", at(9, 18), at(9, 19)),
+          game("Celeste", at(9, 20), at(9, 23)),
+          game("Hades", at(10, 18), at(10, 19, 30)),
+        ],
+        now,
+      );
+
+      expect(summary.totalMs).toBe(5.5 * 3600000);
+      expect(summary.sessions).toBe(3);
+      expect(
+        summary.activities.map(({ name, totalMs, sessions }) => [name, totalMs, sessions]),
+      ).toEqual([
+        ["Celeste", 3 * 3600000, 1],
+        ["Hades", 2.5 * 3600000, 2],
+      ]);
+      expect(summary.longestSession).toMatchObject({ name: "Celeste", durationMs: 3 * 3600000 });
+    });
+
+    it("counts days in a row with activity", () => {
+      const summary = summarizeSessions(
+        [
+          game("Hades", at(2, 18), at(2, 19)),
+          game("Hades", at(3, 18), at(3, 19)),
+          game("Hades", at(4, 18), at(4, 19)),
+          game("Hades", at(8, 18), at(8, 19)),
+          // Played past midnight, so the 9th counts too
+          game("Hades", at(8, 23), at(9, 1)),
+        ],
+        now,
+      );
+
+      expect(summary.streaks).toEqual({ currentDays: 2, longestDays: 3 });
+    });
+
+    it("splits time over the hours it was spent in", () => {
+      const { heatmap } = summarizeSessions([game("Hades", at(10, 18, 30), at(10, 19, 15))], now);
+
+      expect(heatmap).toEqual([
+        { dayOfWeek: 2, hourOfDay: 18, minutes: 30 },
+        { dayOfWeek: 2, hourOfDay: 19, minutes: 15 },
+      ]);
+    });
+
+    it("counts days and hours in the given time zone", () => {
+      // 23:30 to 00:30 in Tokyo, on a Tuesday and a Wednesday there
+      const start = new Date("2026-03-10T14:30:00Z");
+      const { streaks, heatmap } = summarizeSessions(
+        [game("Hades", start, new Date("2026-03-10T15:30:00Z"))],
+        new Date("2026-03-10T16:00:00Z"),
+        "Asia/Tokyo",
+      );
+
+      expect(streaks).toEqual({ currentDays: 2, longestDays: 2 });
+      expect(heatmap).toEqual([
+        { dayOfWeek: 2, hourOfDay: 23, minutes: 30 },
+        { dayOfWeek: 3, hourOfDay: 0, minutes: 30 },
+      ]);
+    });
+
+    it("summarizes no sessions", () => {
+      expect(summarizeSessions([], now)).toEqual({
+        totalMs: 0,
+        sessions: 0,
+        activities: [],
+        longestSession: null,
+        streaks: { currentDays: 0, longestDays: 0 },
+        heatmap: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { ActivityEntry } from "../../types/worker";
+import {
+  alongsideTypes,
+  isSameActivity,
+  isSameActivitySet,
+  selectPrimaryActivity,
+  toActivityState,
+} from "../../utils/activitySets";
+
+describe("activitySets", () => {
+  const startedAt = new Date(2026, 2, 10, 20, 0);
+  const game: ActivityEntry = { type: "GAME", details: { gameName: "Minecraft", startedAt } };
+  const music: ActivityEntry = {
+    type: "MUSIC",
+    details: { musicDetails: { artist: "Daft Punk", song: "One More Time" }, startedAt },
+  };
+  const stream: ActivityEntry = {
+    type: "STREAMING",
+    details: { streamingDetails: { platform: "Twitch", title: "Speedruns" }, startedAt },
+  };
+
+  describe("selectPrimaryActivity", () => {
+    it("keeps Discord's order without a priority", () => {
+      expect(selectPrimaryActivity([music, game], [])).toBe(music);
+    });
+
+    it("picks the first activity of the highest priority type", () => {
+      expect(selectPrimaryActivity([music, game], ["GAME", "MUSIC"])).toBe(game);
+      expect(selectPrimaryActivity([music, stream], ["GAME"])).toBe(music);
+      expect(selectPrimaryActivity([], ["GAME"])).toBeNull();
+    });
+  });
+
+  describe("toActivityState", () => {
+    it("carries every activity when there is more than one", () => {
+      expect(toActivityState([music, game], ["GAME"])).toEqual({
+        ...game,
+        activities: [music, game],
+      });
+    });
+
+    it("stays a plain activity for a single one", () => {
+      expect(toActivityState([game], ["MUSIC"])).toEqual(game);
+      expect(toActivityState([], [])).toBeNull();
+    });
+  });
+
+  describe("isSameActivitySet", () => {
+    const both = toActivityState([game, music], ["GAME"]);
+
+    it("ignores the order of the activities and details that do not tell them apart", () => {
+      const later = { ...music, details: { ...music.details, startedAt: new Date() } };
+
+      expect(
+        isSameActivity(game, { ...game, details: { ...game.details, startedAt: new Date() } }),
+      ).toBe(true);
+      expect(isSameActivitySet(both, toActivityState([later, game], ["GAME"]))).toBe(true);
+    });
+
+    it("sees activities starting or stopping alongside", () => {
+      const nextSong = {
+        ...music,
+        details: { ...music.details, musicDetails: { artist: "Daft Punk", song: "Aerodynamic" } },
+      };
+
+      expect(isSameActivitySet(toActivityState([game], []), both)).toBe(false);
+      expect(isSameActivitySet(both, toActivityState([game, nextSong], ["GAME"]))).toBe(false);
+      expect(isSameActivitySet(both, null)).toBe(false);
+      expect(isSameActivitySet(null, null)).toBe(true);
+    });
+
+    it("sees a different activity driving content", () => {
+      expect(isSameActivitySet(both, toActivityState([game, music], ["MUSIC"]))).toBe(false);
+    });
+  });
+
+  describe("alongsideTypes", () => {
+    it("lists the types of the other activities", () => {
+      expect(alongsideTypes(toActivityState([music, game, stream], ["GAME"]))).toEqual([
+        "MUSIC",
+        "STREAMING",
+      ]);
+      expect(alongsideTypes(toActivityState([game], []))).toEqual([]);
+      expect(alongsideTypes(null)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { CircuitBreaker } from "../../utils/circuitBreaker";
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10_000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should stay closed below the failure threshold", () => {
+    breaker.recordFailure(new Error("one"));
+    breaker.recordFailure(new Error("two"));
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it("should reset the failure count on success", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should open after consecutive failures and reject calls", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure(new Error("down"));
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: "open",
+      consecutiveFailures: 3,
+      lastError: "down",
+      nextProbeAt: new Date(now + 10_000),
+    });
+  });
+
+  it("should let a single probe through once the reset timeout has passed", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now += 10_000;
+
+    expect(breaker.getState()).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it("should close when the probe succeeds", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now += 10_000;
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it("should re-open when the probe fails", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now += 10_000;
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+
+    now += 10_000;
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import { fairShare, planOwnership } from "../../utils/clusterOwnership";
+
+describe("clusterOwnership", () => {
+  describe("fairShare", () => {
+    it("rounds up so the shares cover every account", () => {
+      expect(fairShare(5, 2)).toBe(3);
+      expect(fairShare(4, 2)).toBe(2);
+    });
+
+    it("gives everything to a single node", () => {
+      expect(fairShare(7, 0)).toBe(7);
+      expect(fairShare(7, 1)).toBe(7);
+    });
+  });
+
+  describe("planOwnership", () => {
+    it("claims unowned accounts up to the fair share", () => {
+      expect(
+        planOwnership({
+          activeAccountIds: ["a", "b", "c", "d"],
+          ownedAccountIds: [],
+          leasedAccountIds: [],
+          liveNodes: 2,
+        }),
+      ).toEqual({ claim: ["a", "b"], shed: null });
+    });
+
+    it("takes over the accounts of a node that died", () => {
+      // "c" and "d" belonged to a node whose leases expired
+      expect(
+        planOwnership({
+          activeAccountIds: ["a", "b", "c", "d"],
+          ownedAccountIds: ["a", "b"],
+          leasedAccountIds: ["a", "b"],
+          liveNodes: 1,
+        }),
+      ).toEqual({ claim: ["c", "d"], shed: null });
+    });
+
+    it("gives up one account when above its share", () => {
+      expect(
+        planOwnership({
+          activeAccountIds: ["a", "b", "c", "d"],
+          ownedAccountIds: ["a", "b", "c", "d"],
+          leasedAccountIds: ["a", "b", "c", "d"],
+          liveNodes: 2,
+        }),
+      ).toEqual({ claim: [], shed: "d" });
+    });
+
+    it("does not give up accounts while some are unowned", () => {
+      expect(
+        planOwnership({
+          activeAccountIds: ["a", "b", "c", "d", "e"],
+          ownedAccountIds: ["a", "b", "c", "d"],
+          leasedAccountIds: ["a", "b", "c", "d"],
+          liveNodes: 2,
+        }).shed,
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { resolveCooldown } from "../../utils/cooldowns";
+
+describe("cooldowns", () => {
+  const minecraft = { type: "GAME" as const, name: "Minecraft" };
+
+  describe("resolveCooldown", () => {
+    const server = { minutes: 30, activityTypes: { MUSIC: 60 } };
+
+    it("uses the server default without overrides", () => {
+      expect(resolveCooldown({ server, account: undefined, friend: undefined }, minecraft)).toEqual(
+        { durationMs: 30 * 60000, scope: "server", level: "default" },
+      );
+      expect(
+        resolveCooldown(
+          { server, account: undefined, friend: undefined },
+          { type: "MUSIC", name: "Daft Punk" },
+        ),
+      ).toEqual({ durationMs: 60 * 60000, scope: "server", level: "activityType" });
+    });
+
+    it("lets the friend win over the account for the same level", () => {
+      expect(
+        resolveCooldown({ server, account: { minutes: 10 }, friend: { minutes: 5 } }, minecraft),
+      ).toMatchObject({ durationMs: 5 * 60000, scope: "friend", level: "default" });
+    });
+
+    it("lets a more specific level win over a narrower scope", () => {
+      expect(
+        resolveCooldown(
+          {
+            server,
+            account: { activities: [{ name: "minecraft", minutes: 120 }] },
+            friend: { minutes: 5, activityTypes: { GAME: 15 } },
+          },
+          minecraft,
+        ),
+      ).toEqual({ durationMs: 120 * 60000, scope: "account", level: "activity" });
+      expect(
+        resolveCooldown(
+          { server, account: { minutes: 10 }, friend: { activityTypes: { GAME: 15 } } },
+          minecraft,
+        ),
+      ).toMatchObject({ durationMs: 15 * 60000, scope: "friend", level: "activityType" });
+    });
+
+    it("allows turning cooldowns off", () => {
+      expect(
+        resolveCooldown({ server, account: { minutes: 0 }, friend: undefined }, minecraft)
+          .durationMs,
+      ).toBe(0);
+    });
+
+    it("stretches the cooldown by the frequency the friend asked for", () => {
+      const less = { factor: 4, minimumMinutes: 60 };
+      expect(
+        resolveCooldown({ server, account: undefined, friend: undefined }, minecraft, less),
+      ).toEqual({ durationMs: 120 * 60000, scope: "server", level: "default" });
+      expect(
+        resolveCooldown({ server, account: { minutes: 0 }, friend: undefined }, minecraft, less)
+          .durationMs,
+      ).toBe(60 * 60000);
+      expect(
+        resolveCooldown({ server: {}, account: undefined, friend: undefined }, minecraft, less),
+      ).toEqual({ durationMs: 60 * 60000, scope: "server", level: "default" });
+    });
+  });
+});
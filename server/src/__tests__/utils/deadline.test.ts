@@ -0,0 +1,18 @@
+import { settlesWithin } from "../../utils/deadline";
+
+describe("settlesWithin", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("tells whether the promise settled before the deadline", async () => {
+    await expect(settlesWithin(Promise.resolve(), 1000)).resolves.toBe(true);
+
+    const late = settlesWithin(new Promise(() => undefined), 1000);
+    jest.advanceTimersByTime(1000);
+    await expect(late).resolves.toBe(false);
+  });
+
+  it("passes on errors of a promise that settled in time", async () => {
+    await expect(settlesWithin(Promise.reject(new Error("boom")), 1000)).rejects.toThrow("boom");
+  });
+});
@@ -0,0 +1,65 @@
+import { classifyDeliveryError, isConnectionError } from "../../utils/deliveryErrors";
+
+const discordError = (code: number, message: string, httpStatus = 403) =>
+  Object.assign(new Error(message), { name: "DiscordAPIError", code, httpStatus });
+
+describe("classifyDeliveryError", () => {
+  it("does not retry unknown users or closed DMs", () => {
+    expect(classifyDeliveryError(discordError(10013, "Unknown User", 404))).toMatchObject({
+      type: "FRIEND_NOT_FOUND",
+      code: 10013,
+      retryable: false,
+    });
+    expect(
+      classifyDeliveryError(discordError(50007, "Cannot send messages to this user")),
+    ).toMatchObject({ type: "DM_BLOCKED", retryable: false });
+  });
+
+  it("retries rate limits after the reported delay", () => {
+    const rateLimit = Object.assign(new Error("Rate limited"), {
+      name: "RateLimitError",
+      timeout: 4500,
+    });
+
+    expect(classifyDeliveryError(rateLimit)).toEqual({
+      type: "RATE_LIMITED",
+      message: "Rate limited",
+      code: undefined,
+      retryable: true,
+      retryAfterMs: 4500,
+    });
+    expect(classifyDeliveryError(discordError(40003, "Opening DMs too fast", 429))).toMatchObject({
+      type: "RATE_LIMITED",
+      retryable: true,
+    });
+  });
+
+  it("treats connection errors and Discord outages as network failures", () => {
+    const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+
+    expect(classifyDeliveryError(reset)).toMatchObject({ type: "NETWORK", retryable: true });
+    expect(classifyDeliveryError(discordError(0, "Bad Gateway", 502))).toMatchObject({
+      type: "NETWORK",
+    });
+  });
+
+  it("falls back to unknown for anything else", () => {
+    expect(classifyDeliveryError("boom")).toEqual({
+      type: "UNKNOWN",
+      message: "boom",
+      code: undefined,
+      retryable: true,
+    });
+  });
+});
+
+describe("isConnectionError", () => {
+  it("only counts a lost connection, not a refused message", () => {
+    const reset = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+
+    expect(isConnectionError(reset)).toBe(true);
+    expect(isConnectionError(discordError(50007, "Cannot send messages to this user"))).toBe(false);
+    expect(isConnectionError(discordError(0, "Forbidden"))).toBe(false);
+    expect(isConnectionError(discordError(0, "Bad Gateway", 502))).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { emojiSentiment, replySentiment } from "../../utils/feedbackSentiment";
+
+describe("feedbackSentiment", () => {
+  describe("emojiSentiment", () => {
+    it("reads common reactions", () => {
+      expect(emojiSentiment("😂")).toBe("positive");
+      expect(emojiSentiment("❤️")).toBe("positive");
+      expect(emojiSentiment("👍🏽")).toBe("positive");
+      expect(emojiSentiment("👎")).toBe("negative");
+      expect(emojiSentiment("🙄")).toBe("negative");
+    });
+
+    it("leaves unknown emojis neutral", () => {
+      expect(emojiSentiment("🦆")).toBe("neutral");
+    });
+
+    it("reads custom emojis by name", () => {
+      expect(emojiSentiment("KEKW")).toBe("positive");
+      expect(emojiSentiment("cringe")).toBe("negative");
+      expect(emojiSentiment("pepe_wave")).toBe("neutral");
+    });
+  });
+
+  describe("replySentiment", () => {
+    it("reads laughter and praise as positive", () => {
+      expect(replySentiment("LMAOOO")).toBe("positive");
+      expect(replySentiment("hahaha good one")).toBe("positive");
+      expect(replySentiment("💀💀")).toBe("positive");
+    });
+
+    it("does not count negated praise", () => {
+      expect(replySentiment("not funny")).toBe("negative");
+      expect(replySentiment("seen it already, boring")).toBe("negative");
+    });
+
+    it("weighs mixed replies against each other", () => {
+      expect(replySentiment("lol but kinda cringe")).toBe("neutral");
+      expect(replySentiment("where did you find this?")).toBe("neutral");
+    });
+  });
+});
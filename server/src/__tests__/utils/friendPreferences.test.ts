@@ -0,0 +1,91 @@
+import {
+  FriendPreferences,
+  applyDmCommand,
+  friendBlockReason,
+  parseDmCommand,
+} from "../../utils/friendPreferences";
+
+describe("friendPreferences", () => {
+  const everything = ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"];
+  const defaults: FriendPreferences = {
+    optedOut: false,
+    frequency: "normal",
+    enabledTypes: everything,
+  };
+
+  describe("parseDmCommand", () => {
+    it("reads commands regardless of case, prefix and trailing punctuation", () => {
+      expect(parseDmCommand("STOP")).toEqual({ type: "stop" });
+      expect(parseDmCommand(" !resume. ")).toEqual({ type: "resume" });
+      expect(parseDmCommand("/less")).toEqual({ type: "less" });
+      expect(parseDmCommand("opt  out")).toEqual({ type: "stop" });
+    });
+
+    it("reads which activities a friend wants", () => {
+      expect(parseDmCommand("only games")).toEqual({ type: "only", activityType: "GAME" });
+      expect(parseDmCommand("Only music!")).toEqual({ type: "only", activityType: "MUSIC" });
+      expect(parseDmCommand("only homework")).toBeNull();
+    });
+
+    it("leaves regular messages alone", () => {
+      expect(parseDmCommand("please stop sending these")).toBeNull();
+      expect(parseDmCommand("more?")).toBeNull();
+      expect(parseDmCommand("")).toBeNull();
+    });
+  });
+
+  describe("applyDmCommand", () => {
+    it("opts out and back in", () => {
+      expect(applyDmCommand(defaults, { type: "stop" }).changes).toEqual({ optedOut: true });
+      expect(applyDmCommand({ ...defaults, optedOut: true }, { type: "resume" }).changes).toEqual({
+        optedOut: false,
+      });
+    });
+
+    it("steps the frequency without going past the ends", () => {
+      expect(applyDmCommand(defaults, { type: "less" }).changes).toEqual({ frequency: "less" });
+      expect(applyDmCommand({ ...defaults, frequency: "less" }, { type: "less" }).changes).toEqual(
+        {},
+      );
+      expect(applyDmCommand({ ...defaults, frequency: "more" }, { type: "more" }).changes).toEqual(
+        {},
+      );
+    });
+
+    it("narrows and widens the activities", () => {
+      const only = applyDmCommand(defaults, { type: "only", activityType: "GAME" });
+      expect(only.changes).toEqual({ enabledTypes: ["GAME"] });
+      expect(only.reply).toContain("games");
+
+      expect(
+        applyDmCommand({ ...defaults, enabledTypes: ["GAME"] }, { type: "everything" }).changes,
+      ).toEqual({ enabledTypes: everything });
+      expect(applyDmCommand(defaults, { type: "everything" }).changes).toEqual({});
+    });
+
+    it("changes nothing when asked for help", () => {
+      expect(applyDmCommand(defaults, { type: "help" }).changes).toEqual({});
+    });
+  });
+
+  describe("friendBlockReason", () => {
+    it("blocks friends who opted out", () => {
+      expect(friendBlockReason({ ...defaults, optedOut: true }, "GAME")).toBe("Friend opted out");
+    });
+
+    it("blocks activities the friend did not ask for", () => {
+      const preferences = { ...defaults, enabledTypes: ["GAME"] };
+      expect(friendBlockReason(preferences, "MUSIC")).not.toBeNull();
+      expect(friendBlockReason(preferences, "GAME")).toBeNull();
+    });
+
+    it("ignores types that are not activities", () => {
+      const preferences = { ...defaults, enabledTypes: ["meme", "gif"] };
+      expect(friendBlockReason(preferences, "MUSIC")).toBeNull();
+    });
+
+    it("allows friends without preferences", () => {
+      expect(friendBlockReason(undefined, "GAME")).toBeNull();
+    });
+  });
+});
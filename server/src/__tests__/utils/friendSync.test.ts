@@ -0,0 +1,44 @@
+import { diffFriends } from "../../utils/friendSync";
+
+describe("diffFriends", () => {
+  const synced = (userId: string, username: string) => ({
+    userId,
+    username,
+    sources: ["friend" as const],
+  });
+
+  it("adds friends seen for the first time", () => {
+    expect(diffFriends([], [synced("1", "alice")])).toEqual({
+      added: [{ userId: "1", username: "alice" }],
+      removed: [],
+      renamed: [],
+    });
+  });
+
+  it("removes friends no longer found, once", () => {
+    const known = [
+      { userId: "1", username: "alice" },
+      { userId: "2", username: "bob", removedAt: new Date() },
+    ];
+
+    expect(diffFriends(known, []).removed).toEqual([{ userId: "1", username: "alice" }]);
+  });
+
+  it("adds removed friends again when they are back", () => {
+    const known = [{ userId: "1", username: "alice", removedAt: new Date() }];
+
+    expect(diffFriends(known, [synced("1", "alice")]).added).toEqual([
+      { userId: "1", username: "alice" },
+    ]);
+  });
+
+  it("reports renamed friends", () => {
+    const known = [{ userId: "1", username: "alice" }];
+
+    expect(diffFriends(known, [synced("1", "alice2")])).toEqual({
+      added: [],
+      removed: [],
+      renamed: [{ userId: "1", from: "alice", to: "alice2" }],
+    });
+  });
+});
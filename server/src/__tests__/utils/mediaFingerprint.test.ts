@@ -0,0 +1,114 @@
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import {
+  DecodedImage,
+  decodeImage,
+  differenceHash,
+  hammingDistance,
+  hashMediaUrl,
+  normalizeMediaUrl,
+} from "../../utils/mediaFingerprint";
+
+// Diagonal gradient with a bright square, drawn at any size
+const drawImage = (width: number, height: number, invert = false): DecodedImage => {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inSquare = x > width / 4 && x < width / 2 && y > height / 3 && y < (height * 2) / 3;
+      let value = inSquare ? 255 : Math.round(((x / width + y / height) / 2) * 200);
+      if (invert) value = 255 - value;
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = value;
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const toPng = (image: DecodedImage): Buffer => {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data);
+  return PNG.sync.write(png);
+};
+
+describe("mediaFingerprint", () => {
+  describe("normalizeMediaUrl", () => {
+    it("should drop rendering parameters and tracking parameters", () => {
+      expect(
+        normalizeMediaUrl(
+          "https://preview.redd.it/abc.png?width=640&format=png&s=sig&utm_source=x",
+        ),
+      ).toBe("https://i.redd.it/abc.png");
+    });
+
+    it("should map CDN host aliases and upgrade to https", () => {
+      expect(normalizeMediaUrl("http://media3.giphy.com/media/xyz/giphy.gif")).toBe(
+        "https://media.giphy.com/media/xyz/giphy.gif",
+      );
+      expect(normalizeMediaUrl("https://www.example.com/a.jpg")).toBe("https://example.com/a.jpg");
+    });
+
+    it("should keep parameters that identify the media", () => {
+      expect(normalizeMediaUrl("https://example.com/image?id=2&b=1")).toBe(
+        "https://example.com/image?b=1&id=2",
+      );
+    });
+
+    it("should hash equivalent URLs to the same value", () => {
+      expect(hashMediaUrl("https://i.redd.it/abc.png")).toBe(
+        hashMediaUrl("https://preview.redd.it/abc.png?width=320"),
+      );
+    });
+  });
+
+  describe("decodeImage", () => {
+    it("should decode PNG and JPEG images", () => {
+      const image = drawImage(32, 24);
+      const jpegData = jpeg.encode({ ...image, data: Buffer.from(image.data) }, 90).data;
+
+      expect(decodeImage(toPng(image))).toMatchObject({ width: 32, height: 24 });
+      expect(decodeImage(jpegData)).toMatchObject({ width: 32, height: 24 });
+    });
+
+    it("should return null for unsupported data", () => {
+      expect(decodeImage(Buffer.from("RIFF....WEBPVP8 "))).toBeNull();
+    });
+  });
+
+  describe("differenceHash", () => {
+    it("should produce a 64-bit hex hash", () => {
+      expect(differenceHash(drawImage(90, 80))).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it("should be stable across resizing and recompression", () => {
+      const original = differenceHash(drawImage(180, 160));
+      const resized = differenceHash(drawImage(90, 80));
+      const image = drawImage(180, 160);
+      const recompressed = differenceHash(
+        decodeImage(jpeg.encode({ ...image, data: Buffer.from(image.data) }, 40).data)!,
+      );
+
+      expect(hammingDistance(original, resized)).toBeLessThanOrEqual(6);
+      expect(hammingDistance(original, recompressed)).toBeLessThanOrEqual(6);
+    });
+
+    it("should tell different images apart", () => {
+      const original = differenceHash(drawImage(180, 160));
+      const inverted = differenceHash(drawImage(180, 160, true));
+
+      expect(hammingDistance(original, inverted)).toBeGreaterThan(20);
+    });
+  });
+
+  describe("hammingDistance", () => {
+    it("should count differing bits", () => {
+      expect(hammingDistance("00", "00")).toBe(0);
+      expect(hammingDistance("0f", "00")).toBe(4);
+      expect(hammingDistance("ff", "00")).toBe(8);
+    });
+
+    it("should treat hashes of different length as unrelated", () => {
+      expect(hammingDistance("00", "000")).toBe(Infinity);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  activityFromTrigger,
+  buildTemplateVariables,
+  findUnknownVariables,
+  formatDuration,
+  renderTemplate,
+} from "../../utils/messageTemplate";
+import { ActivityState } from "../../types/worker";
+
+describe("message templates", () => {
+  const now = new Date(2026, 4, 10, 20, 30);
+  const game: ActivityState = {
+    type: "GAME",
+    details: { gameName: "Minecraft", startedAt: new Date(now.getTime() - 95 * 60000) },
+  };
+
+  describe("renderTemplate", () => {
+    it("replaces variables and uses fallbacks for empty ones", () => {
+      expect(
+        renderTemplate("{{ friend }}, {{timePlayed}} of {{game|that game}}?", {
+          friend: "Steve",
+          timePlayed: "1h 35m",
+        }),
+      ).toBe("Steve, 1h 35m of that game?");
+    });
+
+    it("drops unknown or empty variables without leaving gaps", () => {
+      expect(renderTemplate("hey {{song}} {{nope}} there ", {})).toBe("hey there");
+    });
+  });
+
+  it("finds unknown variables", () => {
+    expect(findUnknownVariables("{{friend}} {{gamee}} {{x|y}} {{gamee}}")).toEqual(["gamee", "x"]);
+    expect(findUnknownVariables("{{artist|someone}} plain {text}")).toEqual([]);
+  });
+
+  it("formats durations", () => {
+    expect(formatDuration(20000)).toBe("a moment");
+    expect(formatDuration(45 * 60000)).toBe("45m");
+    expect(formatDuration(120 * 60000)).toBe("2h");
+    expect(formatDuration(125 * 60000)).toBe("2h 5m");
+  });
+
+  describe("buildTemplateVariables", () => {
+    it("describes a game activity and the content", () => {
+      expect(
+        buildTemplateVariables({
+          friendName: "Steve",
+          activity: game,
+          trigger: "Minecraft",
+          content: {
+            url: "https://x/y.gif",
+            title: "Creeper",
+            source: "tenor.com",
+            type: "image/gif",
+          },
+          now,
+        }),
+      ).toMatchObject({
+        friend: "Steve",
+        activity: "playing Minecraft",
+        activityType: "game",
+        game: "Minecraft",
+        timePlayed: "1h 35m",
+        timeOfDay: "evening",
+        title: "Creeper",
+        mediaType: "gif",
+      });
+    });
+
+    it("describes music and leaves the time played out when unknown", () => {
+      const variables = buildTemplateVariables({
+        friendName: "Alex",
+        activity: {
+          type: "MUSIC",
+          details: {
+            musicDetails: { artist: "Daft Punk", song: "One More Time" },
+            startedAt: now,
+          },
+        },
+        trigger: "Daft Punk",
+        now,
+      });
+
+      expect(variables).toMatchObject({
+        activity: "listening to Daft Punk",
+        artist: "Daft Punk",
+        song: "One More Time",
+      });
+      expect(variables.timePlayed).toBeUndefined();
+      expect(variables.mediaType).toBeUndefined();
+    });
+  });
+
+  it("builds an activity from a trigger", () => {
+    expect(activityFromTrigger("WATCHING", "Severance").details.watchingDetails).toEqual({
+      title: "Severance",
+    });
+    expect(activityFromTrigger("GAME", "Minecraft").details.gameName).toBe("Minecraft");
+  });
+});
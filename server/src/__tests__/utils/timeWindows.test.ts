@@ -0,0 +1,195 @@
+import {
+  hoursToTimeWindows,
+  isValidTimeZone,
+  isWithinTimeWindows,
+  nextAllowedTime,
+} from "../../utils/timeWindows";
+
+const at = (hours: number, minutes = 0, seconds = 0) =>
+  new Date(2024, 0, 15, hours, minutes, seconds);
+
+describe("timeWindows", () => {
+  describe("isWithinTimeWindows", () => {
+    it("allows any time without windows", () => {
+      expect(isWithinTimeWindows(undefined, at(3))).toBe(true);
+      expect(isWithinTimeWindows([], at(3))).toBe(true);
+    });
+
+    it("includes the start and excludes the end of a window", () => {
+      const windows = [{ start: "09:00", end: "17:30" }];
+
+      expect(isWithinTimeWindows(windows, at(9))).toBe(true);
+      expect(isWithinTimeWindows(windows, at(17, 29))).toBe(true);
+      expect(isWithinTimeWindows(windows, at(17, 30))).toBe(false);
+      expect(isWithinTimeWindows(windows, at(8, 59))).toBe(false);
+    });
+
+    it("supports windows spanning midnight", () => {
+      const windows = [{ start: "22:00", end: "02:00" }];
+
+      expect(isWithinTimeWindows(windows, at(23))).toBe(true);
+      expect(isWithinTimeWindows(windows, at(1, 30))).toBe(true);
+      expect(isWithinTimeWindows(windows, at(12))).toBe(false);
+    });
+
+    it("ignores invalid and empty windows", () => {
+      expect(isWithinTimeWindows([{ start: "25:00", end: "nope" }], at(3))).toBe(true);
+      expect(
+        isWithinTimeWindows(
+          [
+            { start: "10:00", end: "10:00" },
+            { start: "12:00", end: "13:00" },
+          ],
+          at(10, 30),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("nextAllowedTime", () => {
+    it("returns the given time when it is allowed", () => {
+      const from = at(10, 15, 30);
+      expect(nextAllowedTime([{ start: "09:00", end: "17:00" }], from)).toBe(from);
+    });
+
+    it("defers to the closest window start", () => {
+      const windows = [
+        { start: "18:00", end: "20:00" },
+        { start: "12:00", end: "14:00" },
+      ];
+
+      expect(nextAllowedTime(windows, at(10, 15, 30))).toEqual(at(12));
+      expect(nextAllowedTime(windows, at(15))).toEqual(at(18));
+    });
+
+    it("defers to the next day after the last window", () => {
+      const next = nextAllowedTime([{ start: "09:00", end: "17:00" }], at(21, 45));
+
+      expect(next).toEqual(new Date(2024, 0, 16, 9, 0, 0));
+    });
+  });
+
+  describe("days of the week", () => {
+    // 2024-01-13 is a Saturday
+    const weekdays = [{ start: "09:00", end: "17:00", days: [1, 2, 3, 4, 5] }];
+
+    it("only opens windows on their days", () => {
+      expect(isWithinTimeWindows(weekdays, at(10))).toBe(true);
+      expect(isWithinTimeWindows(weekdays, new Date(2024, 0, 13, 10))).toBe(false);
+      expect(nextAllowedTime(weekdays, new Date(2024, 0, 13, 10))).toEqual(
+        new Date(2024, 0, 15, 9),
+      );
+    });
+
+    it("gives the part of a window after midnight to the day it started on", () => {
+      const fridayNights = [{ start: "22:00", end: "02:00", days: [5] }];
+
+      expect(isWithinTimeWindows(fridayNights, new Date(2024, 0, 12, 23))).toBe(true);
+      expect(isWithinTimeWindows(fridayNights, new Date(2024, 0, 13, 1))).toBe(true);
+      expect(isWithinTimeWindows(fridayNights, new Date(2024, 0, 13, 23))).toBe(false);
+      expect(isWithinTimeWindows(fridayNights, new Date(2024, 0, 14, 1))).toBe(false);
+    });
+  });
+
+  describe("time zones", () => {
+    const office = [{ start: "09:00", end: "17:00" }];
+
+    it("reads windows on the wall clock of the time zone", () => {
+      const instant = new Date("2026-01-15T14:30:00Z");
+
+      expect(isWithinTimeWindows(office, instant, "America/New_York")).toBe(true);
+      expect(isWithinTimeWindows(office, instant, "Asia/Tokyo")).toBe(false);
+      expect(nextAllowedTime(office, instant, "Asia/Tokyo")).toEqual(
+        new Date("2026-01-16T00:00:00Z"),
+      );
+    });
+
+    it("uses the weekday of the time zone", () => {
+      // Friday evening in New York, already Saturday in Tokyo
+      const instant = new Date("2026-01-16T23:00:00Z");
+      const weekdays = [{ start: "00:00", end: "23:59", days: [1, 2, 3, 4, 5] }];
+
+      expect(isWithinTimeWindows(weekdays, instant, "America/New_York")).toBe(true);
+      expect(isWithinTimeWindows(weekdays, instant, "Asia/Tokyo")).toBe(false);
+    });
+
+    it("tells known time zones apart", () => {
+      expect(isValidTimeZone("Europe/London")).toBe(true);
+      expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    });
+  });
+
+  describe("DST transitions", () => {
+    const office = [{ start: "09:00", end: "17:00" }];
+
+    it("keeps windows on the wall clock when clocks go forward", () => {
+      // New York moves to EDT (UTC-4) on 2026-03-08, London to BST (UTC+1) on 2026-03-29
+      expect(nextAllowedTime(office, new Date("2026-03-08T01:00:00Z"), "America/New_York")).toEqual(
+        new Date("2026-03-08T13:00:00Z"),
+      );
+      expect(
+        isWithinTimeWindows(office, new Date("2026-03-08T13:30:00Z"), "America/New_York"),
+      ).toBe(true);
+      expect(nextAllowedTime(office, new Date("2026-03-28T20:00:00Z"), "Europe/London")).toEqual(
+        new Date("2026-03-29T08:00:00Z"),
+      );
+      expect(isWithinTimeWindows(office, new Date("2026-03-29T16:30:00Z"), "Europe/London")).toBe(
+        false,
+      );
+    });
+
+    it("keeps windows on the wall clock when clocks go back", () => {
+      // New York moves to EST (UTC-5) on 2026-11-01, London to GMT on 2026-10-25
+      expect(nextAllowedTime(office, new Date("2026-11-01T00:00:00Z"), "America/New_York")).toEqual(
+        new Date("2026-11-01T14:00:00Z"),
+      );
+      expect(nextAllowedTime(office, new Date("2026-10-24T20:00:00Z"), "Europe/London")).toEqual(
+        new Date("2026-10-25T09:00:00Z"),
+      );
+    });
+
+    it("opens windows starting in the skipped hour when clocks go forward", () => {
+      // 02:00 to 03:00 does not exist in New York on 2026-03-08
+      const night = [{ start: "02:30", end: "04:00" }];
+
+      expect(nextAllowedTime(night, new Date("2026-03-08T05:00:00Z"), "America/New_York")).toEqual(
+        new Date("2026-03-08T07:00:00Z"),
+      );
+      expect(
+        nextAllowedTime(
+          [{ start: "02:00", end: "02:30" }],
+          new Date("2026-03-08T05:00:00Z"),
+          "America/New_York",
+        ),
+      ).toEqual(new Date("2026-03-09T06:00:00Z"));
+      // and 01:00 to 02:00 in London on 2026-03-29
+      expect(
+        nextAllowedTime(
+          [{ start: "01:30", end: "04:00" }],
+          new Date("2026-03-29T00:00:00Z"),
+          "Europe/London",
+        ),
+      ).toEqual(new Date("2026-03-29T01:00:00Z"));
+    });
+
+    it("opens windows at the first of the repeated hour when clocks go back", () => {
+      // 01:00 to 02:00 happens twice in New York on 2026-11-01
+      expect(
+        nextAllowedTime(
+          [{ start: "01:30", end: "03:00" }],
+          new Date("2026-11-01T04:00:00Z"),
+          "America/New_York",
+        ),
+      ).toEqual(new Date("2026-11-01T05:30:00Z"));
+    });
+  });
+
+  describe("hoursToTimeWindows", () => {
+    it("turns hour restrictions into a window", () => {
+      expect(hoursToTimeWindows({ startHour: 22, endHour: 7 })).toEqual([
+        { start: "22:00", end: "07:00" },
+      ]);
+      expect(hoursToTimeWindows(undefined)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { TriggerRuleContext, TriggerRuleDefinition } from "../../types/rules";
+import { evaluateRules, failedCondition, isValidNamePattern } from "../../utils/triggerRules";
+
+describe("triggerRules", () => {
+  // Tuesday evening
+  const context: TriggerRuleContext = {
+    activityType: "GAME",
+    activityName: "League of Legends",
+    alongside: ["MUSIC"],
+    sessionMs: 45 * 60000,
+    friendTags: ["close"],
+    now: new Date(2026, 2, 10, 21, 30),
+  };
+
+  const rule = (
+    name: string,
+    overrides: Partial<TriggerRuleDefinition> = {},
+  ): TriggerRuleDefinition => ({
+    id: name,
+    name,
+    friendId: null,
+    priority: 100,
+    conditions: {},
+    action: { type: "send" },
+    ...overrides,
+  });
+
+  describe("failedCondition", () => {
+    it("matches rules without conditions", () => {
+      expect(failedCondition({}, context)).toBeNull();
+    });
+
+    it("matches activity types and name patterns", () => {
+      expect(failedCondition({ activityTypes: ["MUSIC", "GAME"] }, context)).toBeNull();
+      expect(failedCondition({ activityTypes: ["MUSIC"] }, context)).toBe("activityTypes");
+      expect(failedCondition({ namePattern: "^league" }, context)).toBeNull();
+      expect(failedCondition({ namePattern: "valorant|cs2" }, context)).toBe("namePattern");
+    });
+
+    it("matches activities the friend is doing at the same time", () => {
+      expect(
+        failedCondition({ activityTypes: ["GAME"], alongside: ["MUSIC"] }, context),
+      ).toBeNull();
+      expect(failedCondition({ alongside: ["MUSIC", "STREAMING"] }, context)).toBe("alongside");
+      expect(failedCondition({ alongside: ["MUSIC"] }, { ...context, alongside: [] })).toBe(
+        "alongside",
+      );
+    });
+
+    it("matches how long the friend has been at it", () => {
+      expect(failedCondition({ minSessionMinutes: 30 }, context)).toBeNull();
+      expect(failedCondition({ minSessionMinutes: 60 }, context)).toBe("minSessionMinutes");
+      expect(failedCondition({ maxSessionMinutes: 30 }, context)).toBe("maxSessionMinutes");
+    });
+
+    it("matches hour windows, also across midnight", () => {
+      expect(failedCondition({ hours: { start: 18, end: 23 } }, context)).toBeNull();
+      expect(failedCondition({ hours: { start: 22, end: 6 } }, context)).toBe("hours");
+      expect(
+        failedCondition(
+          { hours: { start: 22, end: 6 } },
+          { ...context, now: new Date(2026, 2, 10, 2) },
+        ),
+      ).toBeNull();
+    });
+
+    it("reads hours and weekdays in the friend's time zone", () => {
+      // Tuesday 21:30 in New York is Wednesday 10:30 in Tokyo
+      const zoned = { ...context, now: new Date("2026-03-11T01:30:00Z") };
+
+      expect(
+        failedCondition(
+          { hours: { start: 18, end: 23 } },
+          { ...zoned, timeZone: "America/New_York" },
+        ),
+      ).toBeNull();
+      expect(
+        failedCondition({ hours: { start: 18, end: 23 } }, { ...zoned, timeZone: "Asia/Tokyo" }),
+      ).toBe("hours");
+      expect(failedCondition({ daysOfWeek: [3] }, { ...zoned, timeZone: "Asia/Tokyo" })).toBeNull();
+    });
+
+    it("matches weekdays and friend tags", () => {
+      expect(failedCondition({ daysOfWeek: [1, 2, 3] }, context)).toBeNull();
+      expect(failedCondition({ daysOfWeek: [0, 6] }, context)).toBe("daysOfWeek");
+      expect(failedCondition({ friendTags: ["gamer", "close"] }, context)).toBeNull();
+      expect(failedCondition({ friendTags: ["work"] }, context)).toBe("friendTags");
+    });
+  });
+
+  describe("evaluateRules", () => {
+    it("sends as usual when no rule matches", () => {
+      const decision = evaluateRules(
+        [rule("music only", { conditions: { activityTypes: ["MUSIC"] } })],
+        context,
+      );
+
+      expect(decision).toEqual({
+        action: "send",
+        delayMs: 0,
+        trace: [
+          { ruleId: "music only", name: "music only", matched: false, failed: "activityTypes" },
+        ],
+      });
+    });
+
+    it("lets the first matching rule decide, friend rules first", () => {
+      const decision = evaluateRules(
+        [
+          rule("account skip", { priority: 1, action: { type: "skip" } }),
+          rule("friend delay", {
+            friendId: "friend1",
+            priority: 50,
+            action: { type: "delay", delayMinutes: 15, provider: "giphy", templateId: "template1" },
+          }),
+        ],
+        context,
+      );
+
+      expect(decision).toMatchObject({
+        action: "delay",
+        delayMs: 15 * 60000,
+        provider: "giphy",
+        templateId: "template1",
+        rule: { id: "friend delay", name: "friend delay" },
+      });
+      expect(decision.trace).toHaveLength(1);
+    });
+
+    it("tries rules of the same scope by priority", () => {
+      const decision = evaluateRules(
+        [
+          rule("late", { priority: 20, action: { type: "send" } }),
+          rule("early", { priority: 10, action: { type: "skip" } }),
+        ],
+        context,
+      );
+
+      expect(decision.rule?.name).toBe("early");
+    });
+  });
+
+  it("refuses name patterns that do not compile", () => {
+    expect(isValidNamePattern("minecraft|terraria")).toBe(true);
+    expect(isValidNamePattern("([a-z]")).toBe(false);
+  });
+});
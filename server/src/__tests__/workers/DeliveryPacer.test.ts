@@ -0,0 +1,170 @@
+import { DeliveryPacer } from "../../workers/DeliveryPacer";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 15, hours, minutes).getTime();
+
+const settings = {
+  enabled: true,
+  minDelayMs: 1000,
+  maxDelayMs: 5000,
+  typingMsPerChar: 100,
+  maxTypingMs: 3000,
+  hourlyBudget: 2,
+  dailyBudget: 3,
+};
+
+describe("DeliveryPacer", () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = at(12);
+  });
+
+  describe("budgets", () => {
+    it("holds sends back once the hourly budget is used up", () => {
+      const pacer = new DeliveryPacer({ pacing: settings }, clock);
+
+      pacer.reserve();
+      now += 10 * MINUTE;
+      pacer.reserve();
+
+      const decision = pacer.check();
+      expect(decision).toMatchObject({ allowed: false, reason: "Hourly send budget used up" });
+      // The first send leaves the hourly window 50 minutes from now
+      expect(decision.allowed === false && decision.retryAfterMs).toBe(50 * MINUTE);
+
+      now += 50 * MINUTE;
+      expect(pacer.check()).toEqual({ allowed: true });
+    });
+
+    it("holds sends back once the daily budget is used up", () => {
+      const pacer = new DeliveryPacer({ pacing: settings }, clock);
+
+      for (let i = 0; i < 3; i++) {
+        pacer.reserve();
+        now += 2 * HOUR;
+      }
+
+      expect(pacer.check()).toMatchObject({ allowed: false, reason: "Daily send budget used up" });
+    });
+
+    it("gives reservations of failed sends back", () => {
+      const pacer = new DeliveryPacer({ pacing: settings }, clock);
+
+      pacer.reserve();
+      const release = pacer.reserve();
+      expect(pacer.check().allowed).toBe(false);
+
+      release();
+      expect(pacer.check().allowed).toBe(true);
+    });
+
+    it("treats a budget of zero as unlimited", () => {
+      const pacer = new DeliveryPacer(
+        { pacing: { ...settings, hourlyBudget: 0, dailyBudget: 0 } },
+        clock,
+      );
+
+      for (let i = 0; i < 10; i++) pacer.reserve();
+
+      expect(pacer.check().allowed).toBe(true);
+    });
+  });
+
+  describe("quiet hours", () => {
+    const quiet = { ...settings, quietHours: { start: "22:00", end: "07:00" } };
+
+    it("holds sends back until the quiet hours end", () => {
+      now = at(23, 30);
+      const pacer = new DeliveryPacer({ pacing: quiet }, clock);
+
+      const decision = pacer.check();
+      expect(decision).toMatchObject({ allowed: false, reason: "Quiet hours until 07:00" });
+      expect(decision.allowed === false && decision.retryAfterMs).toBe(7.5 * HOUR);
+      expect(pacer.getUsage().inQuietHours).toBe(true);
+    });
+
+    it("allows sends outside the quiet hours", () => {
+      now = at(7);
+      const pacer = new DeliveryPacer({ pacing: quiet }, clock);
+
+      expect(pacer.check().allowed).toBe(true);
+      expect(pacer.getUsage().inQuietHours).toBe(false);
+    });
+
+    it("reads quiet hours in the account's time zone", () => {
+      // 23:30 in Tokyo
+      now = new Date("2024-01-15T14:30:00Z").getTime();
+      const pacer = new DeliveryPacer({ pacing: quiet, timeZone: "Asia/Tokyo" }, clock);
+
+      const decision = pacer.check();
+      expect(decision.allowed === false && decision.retryAfterMs).toBe(7.5 * HOUR);
+    });
+
+    it("ignores empty quiet hours", () => {
+      const pacer = new DeliveryPacer(
+        { pacing: { ...settings, quietHours: { start: "22:00", end: "22:00" } } },
+        clock,
+      );
+
+      expect(pacer.check().allowed).toBe(true);
+    });
+  });
+
+  describe("delays", () => {
+    it("picks a start delay between the minimum and maximum", () => {
+      expect(new DeliveryPacer({ pacing: settings }, clock, () => 0).startDelay()).toBe(1000);
+      expect(new DeliveryPacer({ pacing: settings }, clock, () => 0.5).startDelay()).toBe(3000);
+      expect(new DeliveryPacer({ pacing: settings }, clock, () => 0.999999).startDelay()).toBe(
+        5000,
+      );
+    });
+
+    it("types for longer on longer messages, up to the maximum", () => {
+      const pacer = new DeliveryPacer({ pacing: settings }, clock, () => 0.5);
+
+      expect(pacer.typingDuration("")).toBe(0);
+      expect(pacer.typingDuration("a".repeat(10))).toBe(1000);
+      expect(pacer.typingDuration("a".repeat(20))).toBe(2000);
+      expect(pacer.typingDuration("a".repeat(500))).toBe(3000);
+    });
+
+    it("sends right away when pacing is disabled", () => {
+      const pacer = new DeliveryPacer({ pacing: { ...settings, enabled: false } }, clock);
+
+      for (let i = 0; i < 5; i++) pacer.reserve();
+
+      expect(pacer.check().allowed).toBe(true);
+      expect(pacer.startDelay()).toBe(0);
+      expect(pacer.typingDuration("hello")).toBe(0);
+    });
+  });
+
+  describe("getUsage", () => {
+    it("reports budget consumption and when the next send is allowed", () => {
+      const pacer = new DeliveryPacer({ pacing: settings }, clock);
+      pacer.reserve();
+      pacer.reserve();
+
+      expect(pacer.getUsage()).toEqual({
+        enabled: true,
+        hourly: { used: 2, limit: 2 },
+        daily: { used: 2, limit: 3 },
+        inQuietHours: false,
+        nextAvailableAt: new Date(now + HOUR).toISOString(),
+      });
+    });
+
+    it("drops sends older than a day", () => {
+      const pacer = new DeliveryPacer({ pacing: settings }, clock);
+      pacer.reserve();
+
+      now += 25 * HOUR;
+
+      expect(pacer.getUsage().daily.used).toBe(0);
+    });
+  });
+});
@@ -14,6 +14,7 @@ describe("DiscordWorker Activity Detection", () => {
       quotes: true,
       news: true,
       jokes: true,
+      providers: [],
     },
     deliveryPreferences: {
       frequency: 3600000,
@@ -189,6 +190,27 @@ describe("DiscordWorker Activity Detection", () => {
       });
     });
 
+    it("should keep every activity and let the account's priority pick the driving one", () => {
+      const presence = {
+        activities: [
+          { type: "LISTENING", name: "One More Time", details: "Daft Punk", createdAt: new Date() },
+          { type: "PLAYING", name: "Minecraft", createdAt: new Date() },
+        ],
+      } as unknown as Presence;
+
+      expect(worker["extractActivity"](presence)).toMatchObject({
+        type: "MUSIC",
+        activities: [{ type: "MUSIC" }, { type: "GAME" }],
+      });
+
+      worker.updateSettings({ ...settings, activityPriority: ["GAME", "MUSIC"] });
+      expect(worker["extractActivity"](presence)).toMatchObject({
+        type: "GAME",
+        details: { gameName: "Minecraft" },
+        activities: [{ type: "MUSIC" }, { type: "GAME" }],
+      });
+    });
+
     it("should return null for empty activities", () => {
       const mockPresence = {
         activities: [],
@@ -254,6 +276,282 @@ describe("DiscordWorker Activity Detection", () => {
       expect(worker["isSameActivity"](oldActivity, newActivity)).toBe(true);
     });
 
+    it("should see activities started alongside", () => {
+      const game: ActivityState = {
+        type: "GAME",
+        details: { gameName: "Minecraft", startedAt: new Date() },
+      };
+      const music: ActivityState = {
+        type: "MUSIC",
+        details: {
+          musicDetails: { artist: "Daft Punk", song: "One More Time" },
+          startedAt: new Date(),
+        },
+      };
+
+      expect(worker["isSameActivity"](game, { ...game, activities: [game, music] })).toBe(false);
+      expect(
+        worker["isSameActivity"](
+          { ...game, activities: [game, music] },
+          { ...game, activities: [music, game] },
+        ),
+      ).toBe(true);
+    });
+
     // Add more tests for other activity types...
   });
+
+  describe("drain", () => {
+    const activity: ActivityState = {
+      type: "GAME",
+      details: { gameName: "Minecraft", startedAt: new Date() },
+    };
+    let sendToParent: jest.SpyInstance;
+
+    beforeEach(() => {
+      sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => undefined);
+    });
+
+    it("reports the presence last seen once the deliveries in progress finished", async () => {
+      let finishDelivery!: () => void;
+      worker["deliveryChain"] = new Promise<void>(resolve => (finishDelivery = resolve));
+      worker["lastActivities"].set("friend-1", activity);
+
+      const drained = worker.drain();
+      await Promise.resolve();
+      expect(sendToParent).not.toHaveBeenCalled();
+
+      finishDelivery();
+      await drained;
+      expect(sendToParent).toHaveBeenCalledWith({
+        type: "DRAINED",
+        data: { accountId: "test-account", activities: [{ userId: "friend-1", activity }] },
+      });
+    });
+
+    it("keeps tracking presence without reporting it", async () => {
+      await worker.drain();
+      sendToParent.mockClear();
+
+      const presence = {
+        activities: [{ type: "PLAYING", name: "Tetris" }],
+        userId: "friend-1",
+      } as unknown as Presence;
+      worker["handlePresenceUpdate"](null, presence);
+
+      expect(sendToParent).not.toHaveBeenCalled();
+      expect(worker["lastActivities"].get("friend-1")?.details.gameName).toBe("Tetris");
+    });
+  });
+
+  describe("presence restore", () => {
+    const saved: ActivityState = {
+      type: "GAME",
+      details: { gameName: "Minecraft", startedAt: new Date() },
+    };
+    const tetris = {
+      activities: [{ type: "PLAYING", name: "Tetris" }],
+      userId: "friend-1",
+    } as unknown as Presence;
+
+    it("does not report restored activities again", () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+      worker.restorePresence([{ userId: "friend-2", activity: saved }]);
+
+      worker["handlePresenceUpdate"](null, {
+        activities: [{ type: "PLAYING", name: "Minecraft" }],
+        userId: "friend-2",
+      } as unknown as Presence);
+
+      expect(sendToParent).not.toHaveBeenCalled();
+    });
+
+    it("keeps activities seen since connecting", () => {
+      jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+      worker["handlePresenceUpdate"](null, tetris);
+
+      worker.restorePresence([{ userId: "friend-1", activity: saved }]);
+
+      expect(worker["lastActivities"].get("friend-1")?.details.gameName).toBe("Tetris");
+    });
+
+    it("flags changes seen during the warm-up", () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+      worker["warmupUntil"] = Date.now() + 60000;
+
+      worker["handlePresenceUpdate"](null, tetris);
+
+      expect(sendToParent).toHaveBeenCalledWith({
+        type: "PRESENCE_UPDATE",
+        data: expect.objectContaining({ userId: "friend-1", warmup: true }),
+      });
+    });
+  });
+
+  describe("friend sync", () => {
+    const alice = { id: "1", username: "alice", bot: false };
+    const bob = { id: "2", username: "bob", bot: false };
+
+    it("reports everyone once with every place they were found", () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+      worker["client"] = {
+        user: { id: "self" },
+        relationships: { friendCache: new Map([["1", alice]]) },
+        channels: { cache: new Map([["dm", { type: "DM", recipient: alice }]]) },
+        guilds: {
+          cache: new Map([
+            [
+              "guild",
+              {
+                members: {
+                  cache: new Map([
+                    ["1", { user: alice }],
+                    ["2", { user: bob }],
+                    ["3", { user: { id: "3", username: "helper", bot: true } }],
+                    ["self", { user: { id: "self", username: "me", bot: false } }],
+                  ]),
+                },
+              },
+            ],
+          ]),
+        },
+      } as any;
+
+      worker.syncFriends("manual");
+
+      expect(sendToParent).toHaveBeenCalledWith({
+        type: "FRIEND_SYNC",
+        data: {
+          accountId: "test-account",
+          trigger: "manual",
+          friends: [
+            { userId: "1", username: "alice", sources: ["friend", "dm", "guild"] },
+            { userId: "2", username: "bob", sources: ["guild"] },
+          ],
+        },
+      });
+    });
+  });
+
+  describe("DM commands", () => {
+    const dm = (content: string) =>
+      ({
+        content,
+        channel: { type: "DM" },
+        author: { id: "friend-1", username: "alice", bot: false },
+      }) as any;
+
+    it("hands commands to the server and refuses deliveries to friends who stopped", async () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+
+      worker["handleDirectMessage"](dm("stop"));
+      expect(sendToParent).toHaveBeenCalledWith({
+        type: "DM_COMMAND",
+        data: {
+          accountId: "test-account",
+          userId: "friend-1",
+          username: "alice",
+          command: { type: "stop" },
+        },
+      });
+
+      await worker.handleCommand({
+        type: "CONTENT_DELIVERY",
+        data: {
+          friendId: "friend-1",
+          historyId: "history-1",
+          content: { url: "https://example.com/meme.png", title: "meme", source: "example" },
+          context: { type: "GAME", trigger: "Minecraft" },
+        },
+      });
+      expect(sendToParent).toHaveBeenCalledWith({
+        type: "DELIVERY_RESULT",
+        data: expect.objectContaining({
+          delivery: expect.objectContaining({
+            success: false,
+            error: expect.objectContaining({ type: "OPTED_OUT", retryable: false }),
+          }),
+        }),
+      });
+    });
+
+    it("ignores regular messages", () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+
+      worker["handleDirectMessage"](dm("stop it, that one was hilarious"));
+
+      expect(sendToParent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("delivery feedback", () => {
+    const reaction = (authorId: string | null) =>
+      ({
+        emoji: { name: "😂" },
+        message: {
+          id: "message-1",
+          channel: { type: "DM" },
+          author: authorId ? { id: authorId } : null,
+        },
+      }) as any;
+
+    beforeEach(() => {
+      worker["client"] = { user: { id: "self" } } as any;
+    });
+
+    it("reports reactions to the account's own messages", () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+
+      worker["handleReaction"](reaction("self"), { id: "friend-1" } as any, true);
+
+      expect(sendToParent).toHaveBeenCalledWith({
+        type: "DELIVERY_FEEDBACK",
+        data: {
+          accountId: "test-account",
+          feedback: {
+            kind: "reaction",
+            messageId: "message-1",
+            userId: "friend-1",
+            emoji: "😂",
+            removed: true,
+          },
+        },
+      });
+    });
+
+    it("ignores reactions by the account and to the friend's messages", () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+
+      worker["handleReaction"](reaction("self"), { id: "self" } as any, false);
+      worker["handleReaction"](reaction("friend-1"), { id: "friend-1" } as any, false);
+
+      expect(sendToParent).not.toHaveBeenCalled();
+    });
+
+    it("reports replies that are not commands", () => {
+      const sendToParent = jest.spyOn(worker as any, "sendToParent").mockImplementation(() => {});
+
+      worker["handleDirectMessage"]({
+        id: "reply-1",
+        content: "lmao",
+        channel: { type: "DM" },
+        author: { id: "friend-1", username: "alice", bot: false },
+        reference: { messageId: "message-1" },
+      } as any);
+
+      expect(sendToParent).toHaveBeenCalledWith({
+        type: "DELIVERY_FEEDBACK",
+        data: {
+          accountId: "test-account",
+          feedback: {
+            kind: "reply",
+            messageId: "message-1",
+            userId: "friend-1",
+            replyId: "reply-1",
+            text: "lmao",
+          },
+        },
+      });
+    });
+  });
 });
@@ -0,0 +1,70 @@
+import { PoolBalancer } from "../../workers/PoolBalancer";
+
+describe("PoolBalancer", () => {
+  let balancer: PoolBalancer;
+
+  // Place an account the way the worker manager does, starting threads with increasing ids
+  let nextThreadId: number;
+  const place = (accountId: string) => {
+    let threadId = balancer.pick();
+    if (threadId === null) {
+      threadId = nextThreadId++;
+      balancer.addThread(threadId);
+    }
+    balancer.assign(accountId, threadId);
+    return threadId;
+  };
+
+  beforeEach(() => {
+    balancer = new PoolBalancer(2);
+    nextThreadId = 1;
+  });
+
+  it("starts a new thread while the pool is not full", () => {
+    expect(place("a")).toBe(1);
+    expect(place("b")).toBe(2);
+  });
+
+  it("fills the least loaded thread once the pool is full", () => {
+    ["a", "b", "c"].forEach(place);
+
+    expect(balancer.accountsOf(1)).toEqual(["a", "c"]);
+    expect(place("d")).toBe(2);
+  });
+
+  it("reuses an idle thread before starting a new one", () => {
+    balancer.addThread(7);
+
+    expect(place("a")).toBe(7);
+  });
+
+  it("reports threads left without accounts", () => {
+    ["a", "b"].forEach(place);
+    balancer.release("b");
+
+    expect(balancer.idleThreads()).toEqual([2]);
+    expect(balancer.threadOf("b")).toBeUndefined();
+  });
+
+  it("moves an account off the busiest thread when threads drift apart", () => {
+    ["a", "b", "c", "d", "e", "f"].forEach(place);
+    balancer.release("b");
+    balancer.release("d");
+
+    expect(balancer.nextMove()).toEqual({ accountId: "a", from: 1, to: 2 });
+  });
+
+  it("leaves threads that differ by one account alone", () => {
+    ["a", "b", "c"].forEach(place);
+
+    expect(balancer.nextMove()).toBeNull();
+  });
+
+  it("returns the accounts of a removed thread", () => {
+    ["a", "b", "c"].forEach(place);
+
+    expect(balancer.removeThread(1)).toEqual(["a", "c"]);
+    expect(balancer.threadOf("a")).toBeUndefined();
+    expect(balancer.accountsOf(1)).toEqual([]);
+  });
+});
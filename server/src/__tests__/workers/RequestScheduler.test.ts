@@ -0,0 +1,106 @@
+import { RequestScheduler } from "../../workers/RequestScheduler";
+
+const headers = (values: Record<string, string>) => ({
+  get: (name: string) => values[name] ?? null,
+});
+
+describe("RequestScheduler", () => {
+  let now: number;
+  let sleeps: number[];
+  let scheduler: RequestScheduler;
+
+  beforeEach(() => {
+    now = new Date(2024, 0, 15, 12).getTime();
+    sleeps = [];
+    // Sleeping moves the clock instead of waiting
+    scheduler = new RequestScheduler(
+      () => now,
+      ms => {
+        sleeps.push(ms);
+        now += ms;
+        return Promise.resolve();
+      },
+    );
+  });
+
+  const route = "/channels/123/messages";
+
+  it("runs requests right away while the bucket has room", async () => {
+    scheduler.recordResponse(
+      route,
+      headers({
+        "x-ratelimit-limit": "5",
+        "x-ratelimit-remaining": "4",
+        "x-ratelimit-reset-after": "2.5",
+      }),
+    );
+
+    await expect(scheduler.schedule(route, () => Promise.resolve("sent"))).resolves.toBe("sent");
+    expect(sleeps).toEqual([]);
+  });
+
+  it("waits for a used up bucket to reset", async () => {
+    scheduler.recordResponse(
+      route,
+      headers({
+        "x-ratelimit-limit": "5",
+        "x-ratelimit-remaining": "1",
+        "x-ratelimit-reset-after": "2.5",
+      }),
+    );
+
+    await scheduler.schedule(route, () => Promise.resolve());
+    await scheduler.schedule(route, () => Promise.resolve());
+
+    expect(sleeps).toEqual([2500]);
+  });
+
+  it("ignores responses without rate limit headers", () => {
+    scheduler.recordResponse(route, headers({}));
+
+    expect(scheduler.waitTime(route)).toBe(0);
+  });
+
+  it("blocks only the limited route after a 429", () => {
+    const event = scheduler.recordRateLimit({
+      route,
+      method: "post",
+      timeout: 3000,
+      limit: 5,
+      global: false,
+    });
+
+    expect(event).toMatchObject({ route, global: false, retryAfterMs: 3000 });
+    expect(scheduler.waitTime(route)).toBe(3000);
+    expect(scheduler.waitTime("/users/@me/channels")).toBe(0);
+  });
+
+  it("blocks every route after a global 429", () => {
+    scheduler.recordRateLimit({ route, method: "post", timeout: 1000, limit: 50, global: true });
+
+    expect(scheduler.waitTime("/users/@me/channels")).toBe(1000);
+    expect(scheduler.getUsage()).toMatchObject({ globalLimited: true, limitedRoutes: 0 });
+  });
+
+  it("reports rate limit pressure", () => {
+    scheduler.recordRateLimit({ route, method: "post", timeout: 3000, limit: 5, global: false });
+
+    expect(scheduler.getUsage()).toEqual({
+      hitsLastHour: 1,
+      limitedRoutes: 1,
+      globalLimited: false,
+      queued: 0,
+      resetAt: new Date(now + 3000).toISOString(),
+      lastLimitedAt: new Date(now).toISOString(),
+    });
+
+    now += 2 * 60 * 60 * 1000;
+
+    expect(scheduler.getUsage()).toEqual({
+      hitsLastHour: 0,
+      limitedRoutes: 0,
+      globalLimited: false,
+      queued: 0,
+    });
+  });
+});
@@ -1,8 +1,10 @@
 import { Worker } from "worker_threads";
 import { Types, Document } from "mongoose";
 import { WorkerManager } from "../../workers/WorkerManager";
-import { IDiscordAccount, IDiscordAccountModel } from "../../models/DiscordAccount";
+import { DiscordAccount, IDiscordAccount, IDiscordAccountModel } from "../../models/DiscordAccount";
 import { decryptToken } from "../../utils/encryption";
+import { Friend } from "../../models/Friend";
+import { ActivityHistory } from "../../models/ActivityHistory";
 
 jest.mock("worker_threads", () => ({
   Worker: jest.fn().mockImplementation(() => ({
@@ -14,6 +16,26 @@ jest.mock("worker_threads", () => ({
 }));
 jest.mock("../../utils/encryption");
 
+const evaluateRules = jest.fn();
+jest.mock("../../services/TriggerRuleService", () => ({
+  TriggerRuleService: { getInstance: () => ({ evaluate: evaluateRules }) },
+}));
+
+const cooldowns = { getRemaining: jest.fn(), claim: jest.fn(), release: jest.fn() };
+jest.mock("../../services/CooldownService", () => ({
+  CooldownService: { getInstance: () => cooldowns },
+}));
+
+const requeueDispatched = jest.fn();
+jest.mock("../../services/DeliveryQueueService", () => ({
+  DeliveryQueueService: { getInstance: () => ({ requeueDispatched }) },
+}));
+
+const handleActivityTrigger = jest.fn();
+jest.mock("../../services/ContentService", () => ({
+  ContentService: { getInstance: () => ({ handleActivityTrigger }) },
+}));
+
 type DiscordAccountDocument = Document<unknown, Record<string, never>, IDiscordAccount> &
   IDiscordAccountModel;
 
@@ -51,6 +73,7 @@ describe("WorkerManager", () => {
           quotes: true,
           news: true,
           jokes: true,
+          providers: [],
         },
         deliveryPreferences: {
           frequency: 3600000,
@@ -282,6 +305,138 @@ describe("WorkerManager", () => {
         code: 1,
       });
     });
+
+    it("queues the deliveries a crashed worker never reported on again", async () => {
+      requeueDispatched.mockResolvedValue(1);
+      await workerManager.startWorker(mockAccount);
+      const worker = (Worker as unknown as jest.Mock).mock.results.at(-1)?.value;
+      const onExitHandler = (worker.on as jest.Mock).mock.calls.find(call => call[0] === "exit")[1];
+
+      onExitHandler(1);
+
+      expect(requeueDispatched).toHaveBeenCalledWith(
+        [mockAccount._id.toString()],
+        expect.any(String),
+      );
+    });
+  });
+
+  describe("Presence updates", () => {
+    const friend = {
+      _id: new Types.ObjectId(),
+      userId: "friend-1",
+      contentPreferences: { enabledTypes: ["GAME"], timeWindows: [] },
+    };
+    const session = { _id: new Types.ObjectId(), markProcessed: jest.fn() };
+    const newActivity = {
+      type: "GAME" as const,
+      details: { gameName: "Minecraft", startedAt: new Date() },
+    };
+
+    // Friend.findOne is awaited directly and through select().lean()
+    const findFriend = () =>
+      Object.assign(Promise.resolve(friend), {
+        select: () => ({ lean: () => Promise.resolve(friend) }),
+      });
+    const sorted = (result: unknown) => ({ sort: () => Promise.resolve(result) });
+
+    const sendPresence = async (data: Record<string, unknown>) => {
+      await workerManager.startWorker(mockAccount);
+      // The worker the manager started, not the one made for the other tests
+      const worker = (Worker as unknown as jest.Mock).mock.results.at(-1)?.value;
+      const onMessageHandler = (worker.on as jest.Mock).mock.calls.find(
+        call => call[0] === "message",
+      )[1];
+      onMessageHandler({
+        type: "PRESENCE_UPDATE",
+        data: {
+          accountId: mockAccount._id.toString(),
+          userId: friend.userId,
+          oldActivity: null,
+          newActivity,
+          timestamp: new Date().toISOString(),
+          ...data,
+        },
+      });
+      // Saving the presence and deciding on content take a few turns of the event loop
+      for (let i = 0; i < 20; i++) await new Promise(resolve => setImmediate(resolve));
+    };
+
+    let spies: jest.SpyInstance[];
+
+    beforeEach(() => {
+      spies = [
+        jest.spyOn(Friend, "updateOne").mockResolvedValue({} as never),
+        jest.spyOn(Friend, "findOne").mockImplementation(findFriend as never),
+        jest
+          .spyOn(ActivityHistory, "findOne")
+          .mockReturnValueOnce(sorted(null) as never)
+          .mockReturnValue(sorted(session) as never),
+        jest.spyOn(ActivityHistory, "create").mockResolvedValue({
+          _id: session._id,
+          discordAccountId: mockAccount._id,
+          details: newActivity.details,
+        } as never),
+        jest.spyOn(DiscordAccount, "findById").mockReturnValue({
+          select: () => ({ lean: () => Promise.resolve(null) }),
+        } as never),
+      ];
+      cooldowns.claim.mockResolvedValue({ claimed: true, cooldown: null });
+      handleActivityTrigger.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      spies.forEach(spy => spy.mockRestore());
+    });
+
+    it("sends content as the deciding trigger rule asks", async () => {
+      evaluateRules.mockResolvedValue({
+        action: "delay",
+        delayMs: 600000,
+        provider: "giphy",
+        templateId: "template-1",
+        rule: { id: "rule-1", name: "Later" },
+        trace: [],
+      });
+
+      await sendPresence({});
+
+      expect(evaluateRules).toHaveBeenCalledWith(
+        expect.objectContaining({ friendId: friend.userId, newActivity }),
+      );
+      expect(handleActivityTrigger).toHaveBeenCalledWith(
+        mockAccount._id.toString(),
+        friend._id.toString(),
+        session._id.toString(),
+        "GAME",
+        "Minecraft",
+        newActivity,
+        { delayMs: 600000, provider: "giphy", templateId: "template-1" },
+      );
+      expect(cooldowns.claim).toHaveBeenCalled();
+    });
+
+    it("sends nothing when a trigger rule skips the activity", async () => {
+      evaluateRules.mockResolvedValue({ action: "skip", delayMs: 0, trace: [] });
+
+      await sendPresence({});
+
+      expect(Friend.updateOne).toHaveBeenCalled();
+      expect(handleActivityTrigger).not.toHaveBeenCalled();
+    });
+
+    it("only records changes seen during the warm-up", async () => {
+      evaluateRules.mockResolvedValue({ action: "send", delayMs: 0, trace: [] });
+
+      await sendPresence({ warmup: true });
+
+      expect(Friend.updateOne).toHaveBeenCalled();
+      expect(ActivityHistory.create).toHaveBeenCalled();
+      // Checking milestones would read the account's settings
+      expect(DiscordAccount.findById).not.toHaveBeenCalled();
+      expect(evaluateRules).not.toHaveBeenCalled();
+      expect(handleActivityTrigger).not.toHaveBeenCalled();
+    });
   });
 
   describe("Cleanup", () => {
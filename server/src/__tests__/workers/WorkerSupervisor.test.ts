@@ -0,0 +1,98 @@
+import { WorkerSupervisor } from "../../workers/WorkerSupervisor";
+
+const MINUTE = 60 * 1000;
+
+const options = {
+  backoffBaseMs: 5000,
+  backoffMaxMs: 60000,
+  crashLoopThreshold: 3,
+  crashLoopWindowMs: 10 * MINUTE,
+  startupTimeoutMs: 2 * MINUTE,
+  checkIntervalMs: 30000,
+  heartbeatIntervalMs: 15000,
+  livenessTimeoutMs: MINUTE,
+  unresponsiveRestartMs: 3 * MINUTE,
+};
+
+describe("WorkerSupervisor", () => {
+  let now: number;
+  let supervisor: WorkerSupervisor;
+
+  beforeEach(() => {
+    now = new Date(2024, 0, 15, 12).getTime();
+    supervisor = new WorkerSupervisor(options, () => now);
+  });
+
+  it("restarts with exponential backoff", () => {
+    expect(supervisor.recordFailure("a")).toEqual({ action: "restart", attempt: 1, delayMs: 5000 });
+    now += 5 * MINUTE;
+    expect(supervisor.recordFailure("a")).toEqual({
+      action: "restart",
+      attempt: 2,
+      delayMs: 10000,
+    });
+  });
+
+  it("caps the backoff delay", () => {
+    expect(supervisor.getBackoffDelay(10)).toBe(60000);
+  });
+
+  it("starts the backoff over once the worker connects", () => {
+    supervisor.recordFailure("a");
+    supervisor.recordFailure("a");
+    supervisor.recordHealthy("a");
+
+    expect(supervisor.recordFailure("a")).toMatchObject({ attempt: 1, delayMs: 5000 });
+  });
+
+  it("parks the account after too many restarts within the window", () => {
+    for (let i = 0; i < 3; i++) {
+      expect(supervisor.recordFailure("a").action).toBe("restart");
+      // Connecting between crashes does not hide a crash loop
+      supervisor.recordHealthy("a");
+      now += MINUTE;
+    }
+
+    expect(supervisor.recordFailure("a")).toMatchObject({ action: "degrade", restarts: 3 });
+    expect(supervisor.isDegraded("a")).toBe(true);
+    expect(supervisor.isDegraded("b")).toBe(false);
+  });
+
+  it("forgets restarts that fall out of the window", () => {
+    for (let i = 0; i < 3; i++) {
+      supervisor.recordFailure("a");
+      now += 4 * MINUTE;
+    }
+
+    // The first restart is now more than 10 minutes ago
+    expect(supervisor.recordFailure("a").action).toBe("restart");
+  });
+
+  it("starts over when the account is reset", () => {
+    for (let i = 0; i < 4; i++) supervisor.recordFailure("a");
+    supervisor.reset("a");
+
+    expect(supervisor.isDegraded("a")).toBe(false);
+    expect(supervisor.recordFailure("a")).toEqual({ action: "restart", attempt: 1, delayMs: 5000 });
+  });
+
+  describe("checkLiveness", () => {
+    it("treats recent heartbeats as responsive", () => {
+      expect(supervisor.checkLiveness(new Date(now - 30000))).toBe("responsive");
+    });
+
+    it("flags a worker that missed heartbeats for the liveness timeout", () => {
+      expect(supervisor.checkLiveness(new Date(now - 2 * MINUTE))).toBe("unresponsive");
+    });
+
+    it("restarts a worker that stays silent for the restart timeout", () => {
+      expect(supervisor.checkLiveness(new Date(now - 3 * MINUTE))).toBe("restart");
+    });
+
+    it("only flags when restarts of unresponsive workers are disabled", () => {
+      supervisor = new WorkerSupervisor({ ...options, unresponsiveRestartMs: 0 }, () => now);
+
+      expect(supervisor.checkLiveness(new Date(now - 60 * MINUTE))).toBe("unresponsive");
+    });
+  });
+});
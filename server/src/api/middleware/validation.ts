@@ -1,6 +1,7 @@
 import { body, param, CustomValidator } from "express-validator";
 import { AccountService } from "../../services/AccountService";
 import { WorkerManager } from "../../workers/WorkerManager";
+import { isValidTimeZone } from "../../utils/timeWindows";
 
 // Custom validator for Discord tokens
 const isValidDiscordToken: CustomValidator = value => {
@@ -14,6 +15,111 @@ const isValidDiscordToken: CustomValidator = value => {
   return true;
 };
 
+const TIME_OF_DAY = /^([01]?\d|2[0-3]):[0-5]\d$/;
+const ACTIVITY_TYPES = ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"];
+
+// Optional delivery pacing overrides in the account settings
+const pacingValidation = [
+  body("settings.pacing").optional().isObject().withMessage("pacing must be an object"),
+  body("settings.pacing.enabled")
+    .optional()
+    .isBoolean()
+    .withMessage("pacing.enabled must be a boolean"),
+  body([
+    "settings.pacing.minDelayMs",
+    "settings.pacing.maxDelayMs",
+    "settings.pacing.typingMsPerChar",
+    "settings.pacing.maxTypingMs",
+    "settings.pacing.hourlyBudget",
+    "settings.pacing.dailyBudget",
+  ])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Pacing delays and budgets must be non-negative integers"),
+  body(["settings.pacing.quietHours.start", "settings.pacing.quietHours.end"])
+    .optional()
+    .matches(TIME_OF_DAY)
+    .withMessage("Quiet hours must be in HH:mm format"),
+];
+
+// Optional activity milestone overrides in the account settings
+const milestoneValidation = [
+  body("settings.milestones").optional().isObject().withMessage("milestones must be an object"),
+  body(["settings.milestones.enabled", "settings.milestones.firstTime"])
+    .optional()
+    .isBoolean()
+    .withMessage("Milestone switches must be booleans"),
+  body(["settings.milestones.longSessionHours", "settings.milestones.allDayHours"])
+    .optional()
+    .isInt({ min: 0, max: 24 })
+    .withMessage("Milestone hours must be between 0 and 24"),
+  body(["settings.milestones.weeklySessions", "settings.milestones.comebackDays"])
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Milestone counts and days must be between 0 and 365"),
+];
+
+/**
+ * Cooldown settings under `prefix`, for accounts, or at the top of the body, for friends
+ */
+export const cooldownValidation = (prefix = "") => {
+  const field = (name: string) => body(prefix ? `${prefix}.${name}` : name);
+  return [
+    ...(prefix
+      ? [body(prefix).optional().isObject().withMessage("cooldowns must be an object")]
+      : []),
+    field("minutes")
+      .optional()
+      .isInt({ min: 0, max: 10080 })
+      .withMessage("Cooldowns must be between 0 and 10080 minutes")
+      .toInt(),
+    field("activityTypes")
+      .optional()
+      .isObject()
+      .custom((types: Record<string, unknown>) =>
+        Object.entries(types).every(
+          ([type, minutes]) =>
+            ACTIVITY_TYPES.includes(type) &&
+            Number.isInteger(minutes) &&
+            (minutes as number) >= 0 &&
+            (minutes as number) <= 10080,
+        ),
+      )
+      .withMessage("Cooldowns by activity type must be between 0 and 10080 minutes"),
+    field("activities").optional().isArray({ max: 100 }),
+    field("activities.*.name").isString().trim().isLength({ min: 1, max: 200 }),
+    field("activities.*.minutes")
+      .isInt({ min: 0, max: 10080 })
+      .withMessage("Cooldowns must be between 0 and 10080 minutes")
+      .toInt(),
+  ];
+};
+
+/**
+ * Time windows at `field`, each optionally limited to days of the week (0 for Sunday)
+ */
+export const timeWindowValidation = (field: string) => [
+  body(field).optional().isArray({ max: 50 }).withMessage(`${field} must be an array`),
+  body([`${field}.*.start`, `${field}.*.end`])
+    .matches(TIME_OF_DAY)
+    .withMessage("Time windows must be in HH:mm format"),
+  body(`${field}.*.days`).optional().isArray({ max: 7 }),
+  body(`${field}.*.days.*`)
+    .isInt({ min: 0, max: 6 })
+    .withMessage("Days must be between 0 (Sunday) and 6 (Saturday)")
+    .toInt(),
+];
+
+/**
+ * IANA time zone at `field`; null clears it
+ */
+export const timeZoneValidation = (field: string) =>
+  body(field)
+    .optional({ values: "null" })
+    .isString()
+    .custom((value: string) => isValidTimeZone(value))
+    .withMessage("Unknown time zone");
+
 export const discordAccountValidation = {
   create: [
     body("name")
@@ -44,6 +150,16 @@ export const discordAccountValidation = {
         return value.every(type => validTypes.includes(type));
       })
       .withMessage("Invalid activity type"),
+    ...pacingValidation,
+    ...milestoneValidation,
+    ...cooldownValidation("settings.cooldowns"),
+    ...timeWindowValidation("settings.deliveryPreferences.timeWindows"),
+    timeZoneValidation("settings.timeZone"),
+    body("settings.activityPriority")
+      .optional()
+      .isArray({ max: ACTIVITY_TYPES.length })
+      .custom((types: string[]) => types.every(type => ACTIVITY_TYPES.includes(type)))
+      .withMessage("activityPriority must list activity types"),
   ],
 
   update: [
@@ -63,6 +179,16 @@ export const discordAccountValidation = {
       .custom(isValidDiscordToken),
     body("isActive").optional().isBoolean().withMessage("isActive must be a boolean"),
     body("settings").optional().isObject().withMessage("settings must be an object"),
+    ...pacingValidation,
+    ...milestoneValidation,
+    ...cooldownValidation("settings.cooldowns"),
+    ...timeWindowValidation("settings.deliveryPreferences.timeWindows"),
+    timeZoneValidation("settings.timeZone"),
+    body("settings.activityPriority")
+      .optional()
+      .isArray({ max: ACTIVITY_TYPES.length })
+      .custom((types: string[]) => types.every(type => ACTIVITY_TYPES.includes(type)))
+      .withMessage("activityPriority must list activity types"),
   ],
 
   getOne: [param("id").isMongoId().withMessage("Invalid account ID")],
@@ -0,0 +1,43 @@
+import { Router, Request, Response } from "express";
+import config from "../../config";
+import { ClusterService } from "../../services/ClusterService";
+import logger from "../../utils/logger";
+import { authenticateJwt } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticateJwt);
+
+/**
+ * @swagger
+ * /cluster:
+ *   get:
+ *     summary: Get the server nodes sharing the Discord accounts and which accounts each runs
+ *     tags: [Cluster]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether clustering is enabled, the nodes with their accounts and the active accounts no node runs
+ *       403:
+ *         description: Missing system:view_metrics permission
+ *       500:
+ *         description: Server error
+ */
+router.get("/", requirePermission("system:view_metrics"), async (_req: Request, res: Response) => {
+  try {
+    if (!config.cluster.enabled) {
+      res.json({ enabled: false, nodes: [], unassigned: [] });
+      return;
+    }
+
+    res.json({ enabled: true, ...(await ClusterService.getInstance().getOverview()) });
+  } catch (error) {
+    logger.error("Failed to get cluster overview:", error);
+    res.status(500).json({ error: "Failed to get cluster overview" });
+  }
+});
+
+export default router;
@@ -1,10 +1,23 @@
 import { Router, Request, Response } from "express";
+import { body, param, query } from "express-validator";
 import { Types } from "mongoose";
 import { ContentService } from "../../services/ContentService";
+import { RankerService } from "../../services/RankerService";
+import { DiscordAccountService } from "../../services/DiscordAccountService";
+import { RankerScope } from "../../models/RankerWeights";
+import { UserDocument } from "../../models/User";
+import { ContentSearchParams } from "../../types/content";
 import logger from "../../utils/logger";
+import { authenticateJwt } from "../middleware/auth";
+import { requirePermission } from "../middleware/permissions";
+import { validate } from "../middleware/validate";
 
 const router = Router();
 const contentService = ContentService.getInstance();
+const rankerService = RankerService.getInstance();
+
+// Apply authentication to all routes
+router.use(authenticateJwt);
 
 /**
  * @swagger
@@ -32,6 +45,11 @@ const contentService = ContentService.getInstance();
  *               count:
  *                 type: number
  *                 description: Number of results to return (default is 5)
+ *               providers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Provider IDs to search, in order of preference
  *               filters:
  *                 type: object
  *                 properties:
@@ -74,12 +92,13 @@ const contentService = ContentService.getInstance();
  */
 router.post("/search", async (req: Request, res: Response) => {
   try {
-    const { activityType, query, count, filters } = req.body;
+    const { activityType, query, count, filters, providers } = req.body;
     const results = await contentService.searchContent({
       type: activityType,
       query,
       count,
       filters,
+      providers,
     });
     res.json(results);
   } catch (error) {
@@ -193,9 +212,11 @@ router.get("/history/:friendId", async (req: Request, res: Response) => {
  */
 router.patch("/history/:friendId/delivered", async (req: Request, res: Response) => {
   try {
-    const friendId = new Types.ObjectId(req.params.friendId);
     const { contentId, delivered } = req.body;
-    await contentService.updateDeliveryStatus(friendId, contentId, delivered);
+    await contentService.updateDeliveryStatus(
+      new Types.ObjectId(contentId as string),
+      delivered ? "SUCCESS" : "FAILED",
+    );
     res.sendStatus(200);
   } catch (error) {
     if (error instanceof Error && error.name === "CastError") {
@@ -207,4 +228,413 @@ router.patch("/history/:friendId/delivered", async (req: Request, res: Response)
   }
 });
 
+/**
+ * @swagger
+ * /content/history/{historyId}/feedback:
+ *   post:
+ *     summary: Rate delivered content, training the content ranker
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: historyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the content history entry
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Updated content history entry
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Content history entry not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/history/:historyId/feedback",
+  [
+    param("historyId").isMongoId(),
+    body("rating").isInt({ min: 1, max: 5 }).toInt(),
+    body("comment").optional().isString().isLength({ max: 500 }),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const history = await contentService.addUserFeedback(
+        new Types.ObjectId(req.params.historyId),
+        req.body.rating,
+        req.body.comment,
+      );
+      if (!history) {
+        res.status(404).json({ error: "Content history entry not found" });
+        return;
+      }
+      res.json(history);
+    } catch (error) {
+      logger.error("Failed to add content feedback:", error);
+      res.status(500).json({ error: "Failed to add content feedback" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /content/ranker:
+ *   get:
+ *     summary: Get the strongest learned content ranker weights
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [global, account, friend]
+ *           default: global
+ *       - in: query
+ *         name: scopeId
+ *         schema:
+ *           type: string
+ *         description: Account or friend ID, required unless scope is global
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Number of feedback samples and the features with the largest weights
+ *       400:
+ *         description: Invalid parameters
+ *       403:
+ *         description: Missing system:view_metrics permission
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/ranker",
+  requirePermission("system:view_metrics"),
+  [
+    query("scope").optional().isIn(["global", "account", "friend"]),
+    query("scopeId")
+      .if(query("scope").isIn(["account", "friend"]))
+      .isMongoId(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const scope = (req.query.scope as RankerScope) || "global";
+      res.json(
+        await rankerService.getTopFeatures(
+          scope,
+          scope === "global" ? "global" : (req.query.scopeId as string),
+          (req.query.limit as unknown as number) || 20,
+        ),
+      );
+    } catch (error) {
+      logger.error("Failed to get content ranker weights:", error);
+      res.status(500).json({ error: "Failed to get content ranker weights" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /content/providers:
+ *   get:
+ *     summary: List registered content providers
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Providers with supported activity types, capabilities, rate budget usage and circuit breaker state
+ *       500:
+ *         description: Server error
+ */
+router.get("/providers", (_req: Request, res: Response) => {
+  try {
+    res.json({ providers: contentService.getContentProviders() });
+  } catch (error) {
+    logger.error("Failed to list content providers:", error);
+    res.status(500).json({ error: "Failed to list content providers" });
+  }
+});
+
+/**
+ * @swagger
+ * /content/providers/health:
+ *   get:
+ *     summary: Run the health check of every content provider
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Health status keyed by provider ID
+ *       500:
+ *         description: Server error
+ */
+router.get("/providers/health", async (_req: Request, res: Response) => {
+  try {
+    const health = await contentService.checkProviderHealth();
+    res.json({ health });
+  } catch (error) {
+    logger.error("Failed to check content provider health:", error);
+    res.status(500).json({ error: "Failed to check content provider health" });
+  }
+});
+
+/**
+ * @swagger
+ * /content/providers/{providerId}/reset-circuit:
+ *   post:
+ *     summary: Close a provider's circuit breaker so it is tried again immediately
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: providerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Circuit reset
+ *       403:
+ *         description: Missing content:manage_all permission
+ *       404:
+ *         description: Provider not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/providers/:providerId/reset-circuit",
+  requirePermission("content:manage_all"),
+  (req: Request, res: Response) => {
+    try {
+      if (!contentService.resetProviderCircuit(req.params.providerId)) {
+        res.status(404).json({ error: "Content provider not found" });
+        return;
+      }
+      res.json({ message: "Circuit reset" });
+    } catch (error) {
+      logger.error("Failed to reset content provider circuit:", error);
+      res.status(500).json({ error: "Failed to reset content provider circuit" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /content/feedback:
+ *   get:
+ *     summary: Get how friends reacted and replied to content sent by the user's accounts
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 90
+ *           default: 7
+ *         description: Number of days to look back
+ *     responses:
+ *       200:
+ *         description: Feedback counts, top emojis and recent replies
+ *       400:
+ *         description: Invalid parameters
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/feedback",
+  [query("days").optional().isInt({ min: 1, max: 90 }).toInt()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const user = req.user as UserDocument;
+      const accounts = await DiscordAccountService.getInstance().getAccountsByUser(user._id);
+      const stats = await contentService.getFeedbackStatsByAccountIds(
+        accounts.map(account => account._id),
+        (req.query.days as unknown as number) || 7,
+      );
+      res.json(stats);
+    } catch (error) {
+      logger.error("Failed to get content feedback stats:", error);
+      res.status(500).json({ error: "Failed to get content feedback stats" });
+    }
+  },
+);
+
+const ACTIVITY_TYPES: ContentSearchParams["type"][] = [
+  "GAME",
+  "MUSIC",
+  "STREAMING",
+  "WATCHING",
+  "CUSTOM",
+  "COMPETING",
+];
+
+/**
+ * @swagger
+ * /content/cache:
+ *   get:
+ *     summary: Get content search cache hit/miss statistics
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Cache statistics since server start
+ *       500:
+ *         description: Server error
+ */
+router.get("/cache", async (_req: Request, res: Response) => {
+  try {
+    res.json(await contentService.getSearchCacheStats());
+  } catch (error) {
+    logger.error("Failed to get content search cache stats:", error);
+    res.status(500).json({ error: "Failed to get content search cache stats" });
+  }
+});
+
+/**
+ * @swagger
+ * /content/cache:
+ *   delete:
+ *     summary: Purge content search cache entries
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: activityType
+ *         schema:
+ *           type: string
+ *           enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *         description: Only purge entries for this activity type
+ *       - in: query
+ *         name: query
+ *         schema:
+ *           type: string
+ *         description: Only purge entries for this search query
+ *     responses:
+ *       200:
+ *         description: Number of purged entries; other cluster nodes keep their in-memory copies until CONTENT_CACHE_L1_TTL_SECONDS runs out
+ *       400:
+ *         description: Invalid parameters
+ *       403:
+ *         description: Missing content:manage_all permission
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/cache",
+  requirePermission("content:manage_all"),
+  [query("activityType").optional().isIn(ACTIVITY_TYPES), query("query").optional().isString()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const purged = await contentService.purgeSearchCache({
+        type: req.query.activityType as ContentSearchParams["type"] | undefined,
+        query: req.query.query as string | undefined,
+      });
+      res.json({ purged });
+    } catch (error) {
+      logger.error("Failed to purge content search cache:", error);
+      res.status(500).json({ error: "Failed to purge content search cache" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /content/cache/warm:
+ *   post:
+ *     summary: Search and cache content for the given activities ahead of time
+ *     tags: [Content]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entries
+ *             properties:
+ *               entries:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     activityType:
+ *                       type: string
+ *                       enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *                     query:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Number of requested entries and of those that produced content for at least one provider setup
+ *       400:
+ *         description: Invalid parameters
+ *       403:
+ *         description: Missing content:manage_all permission
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/cache/warm",
+  requirePermission("content:manage_all"),
+  [
+    body("entries").isArray({ min: 1, max: 50 }),
+    body("entries.*.activityType").isIn(ACTIVITY_TYPES),
+    body("entries.*.query").isString().trim().notEmpty(),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const entries = req.body.entries.map(
+        (entry: { activityType: ContentSearchParams["type"]; query: string }) => ({
+          type: entry.activityType,
+          query: entry.query,
+        }),
+      );
+      const warmed = await contentService.warmSearchCache(entries);
+      res.json({ requested: entries.length, warmed });
+    } catch (error) {
+      logger.error("Failed to warm content search cache:", error);
+      res.status(500).json({ error: "Failed to warm content search cache" });
+    }
+  },
+);
+
 export default router;
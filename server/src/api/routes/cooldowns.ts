@@ -0,0 +1,174 @@
+import { Router, Request, Response } from "express";
+import { param, query } from "express-validator";
+import { CooldownService } from "../../services/CooldownService";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import { UserDocument } from "../../models/User";
+import logger from "../../utils/logger";
+import { authenticateJwt } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+
+const router = Router();
+const cooldownService = CooldownService.getInstance();
+
+// Apply authentication to all routes
+router.use(authenticateJwt);
+
+/**
+ * Whether the user owns the Discord account or has the given permission for every account
+ */
+const canAccessAccount = async (
+  user: UserDocument,
+  accountId: string,
+  permission: "accounts:view_all" | "accounts:edit_all",
+): Promise<boolean> => {
+  const owned = await DiscordAccount.exists({ _id: accountId, userId: user._id });
+  return !!owned || user.hasPermission(permission);
+};
+
+/**
+ * @swagger
+ * /cooldowns:
+ *   get:
+ *     summary: List the active cooldowns of a Discord account's friends, ending soonest first
+ *     tags: [Cooldowns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: friendId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active cooldowns with the settings their duration came from
+ *       400:
+ *         description: Invalid parameters
+ *       403:
+ *         description: Not allowed to view this account
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  [query("accountId").isMongoId(), query("friendId").optional().isMongoId()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const accountId = req.query.accountId as string;
+      if (!(await canAccessAccount(req.user as UserDocument, accountId, "accounts:view_all"))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const cooldowns = await cooldownService.list(
+        accountId,
+        req.query.friendId as string | undefined,
+      );
+      res.json({ cooldowns });
+    } catch (error) {
+      logger.error("Failed to get cooldowns:", error);
+      res.status(500).json({ error: "Failed to get cooldowns" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /cooldowns:
+ *   delete:
+ *     summary: Lift the cooldowns of a Discord account, or of one of its friends
+ *     tags: [Cooldowns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: friendId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of cooldowns lifted
+ *       400:
+ *         description: Invalid parameters
+ *       403:
+ *         description: Not allowed to manage this account
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/",
+  [query("accountId").isMongoId(), query("friendId").optional().isMongoId()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const accountId = req.query.accountId as string;
+      if (!(await canAccessAccount(req.user as UserDocument, accountId, "accounts:edit_all"))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const cleared = await cooldownService.clearAll(
+        accountId,
+        req.query.friendId as string | undefined,
+      );
+      res.json({ cleared });
+    } catch (error) {
+      logger.error("Failed to clear cooldowns:", error);
+      res.status(500).json({ error: "Failed to clear cooldowns" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /cooldowns/{id}:
+ *   delete:
+ *     summary: Lift one cooldown
+ *     tags: [Cooldowns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Cooldown lifted
+ *       404:
+ *         description: Cooldown not found
+ *       500:
+ *         description: Server error
+ */
+router.delete("/:id", [param("id").isMongoId()], validate, async (req: Request, res: Response) => {
+  try {
+    const existing = await cooldownService.getCooldown(req.params.id);
+    if (
+      !existing ||
+      !(await canAccessAccount(
+        req.user as UserDocument,
+        existing.discordAccountId.toString(),
+        "accounts:edit_all",
+      ))
+    ) {
+      return res.status(404).json({ error: "Cooldown not found" });
+    }
+
+    await cooldownService.clear(req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    logger.error("Failed to clear cooldown:", error);
+    res.status(500).json({ error: "Failed to clear cooldown" });
+  }
+});
+
+export default router;
@@ -32,7 +32,7 @@ router.use(authenticateJwt);
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Account statistics
+ *         description: Account statistics, with the Discord rate limit pressure of each account
  *       401:
  *         description: Unauthorized
  *       500:
@@ -62,6 +62,7 @@ router.get("/accounts", async (req: Request, res: Response) => {
               status: status ? status.isConnected : false,
               uptime: status ? status.uptime : 0,
               lastActivity: status ? status.lastActivity : null,
+              rateLimits: status?.rateLimits || null,
             };
           }),
         );
@@ -232,7 +233,13 @@ router.get(
           const accountIds = accounts.map(account => account._id);
 
           // Get content statistics
-          const contentStats = await contentService.getContentStatsByAccountIds(accountIds, days);
+          const [contentStats, repeatStats] = await Promise.all([
+            contentService.getContentStatsByAccountIds(accountIds, days),
+            contentService.getRepeatStatsByAccountIds(accountIds, days),
+          ]);
+          const repeatsByAccount = new Map(
+            repeatStats.accounts.map(stat => [stat.accountId, stat.repeatRate]),
+          );
 
           // Calculate daily aggregates
           const dailyStats = contentStats.dailyStats.map(day => ({
@@ -248,12 +255,15 @@ router.get(
             accountName: accountMap.get(stat.accountId.toString()) || "Unknown Account",
             total: stat.count,
             byType: stat.byType,
+            repeatRate: repeatsByAccount.get(stat.accountId.toString()) || 0,
           }));
 
           return {
             summary: {
               totalDelivered: contentStats.total,
               byType: contentStats.byType,
+              repeats: repeatStats.repeats,
+              repeatRate: repeatStats.repeatRate,
             },
             daily: dailyStats,
             accounts: accountStats,
@@ -0,0 +1,241 @@
+import { Router, Request, Response } from "express";
+import { param, query } from "express-validator";
+import { Types } from "mongoose";
+import { DeliveryQueueService } from "../../services/DeliveryQueueService";
+import { DeliveryJobStatus, IDeliveryJob } from "../../models/DeliveryJob";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import { UserDocument } from "../../models/User";
+import logger from "../../utils/logger";
+import { authenticateJwt } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+
+const router = Router();
+const deliveryQueue = DeliveryQueueService.getInstance();
+
+// Apply authentication to all routes
+router.use(authenticateJwt);
+
+const JOB_STATUSES = ["queued", "dispatched", "delivered", "failed", "dead", "cancelled"];
+
+/**
+ * Discord accounts whose deliveries the user may see, undefined for all accounts
+ */
+const visibleAccountIds = async (user: UserDocument): Promise<Types.ObjectId[] | undefined> => {
+  if (await user.hasPermission("accounts:view_all")) return undefined;
+  const accounts = await DiscordAccount.find({ userId: user._id }).select("_id").lean();
+  return accounts.map(account => account._id as Types.ObjectId);
+};
+
+/**
+ * Whether the user owns the job's Discord account or may edit every account
+ */
+const canManageJob = async (user: UserDocument, job: IDeliveryJob): Promise<boolean> => {
+  const owned = await DiscordAccount.exists({ _id: job.discordAccountId, userId: user._id });
+  return !!owned || user.hasPermission("accounts:edit_all");
+};
+
+/**
+ * @swagger
+ * /deliveries:
+ *   get:
+ *     summary: List queued and past content deliveries
+ *     tags: [Delivery Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, dispatched, delivered, failed, dead, cancelled]
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Delivery jobs, newest first
+ *       400:
+ *         description: Invalid parameters
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  [
+    query("status").optional().isIn(JOB_STATUSES),
+    query("accountId").optional().isMongoId(),
+    query("page").optional().isInt({ min: 1 }).toInt(),
+    query("limit").optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      let accountIds = await visibleAccountIds(req.user as UserDocument);
+      const accountId = req.query.accountId as string | undefined;
+      if (accountId) {
+        accountIds = (accountIds || [new Types.ObjectId(accountId)]).filter(id =>
+          id.equals(accountId),
+        );
+      }
+
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+      const { jobs, total } = await deliveryQueue.listJobs({
+        accountIds,
+        status: req.query.status as DeliveryJobStatus | undefined,
+        page,
+        limit,
+      });
+
+      res.json({
+        jobs,
+        pagination: {
+          total,
+          page,
+          limit,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to get delivery jobs:", error);
+      res.status(500).json({ error: "Failed to get delivery jobs" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /deliveries/stats:
+ *   get:
+ *     summary: Count delivery jobs by status
+ *     tags: [Delivery Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of jobs in each status
+ *       500:
+ *         description: Server error
+ */
+router.get("/stats", async (req: Request, res: Response) => {
+  try {
+    const accountIds = await visibleAccountIds(req.user as UserDocument);
+    const stats = await deliveryQueue.getStats(accountIds);
+    res.json(stats);
+  } catch (error) {
+    logger.error("Failed to get delivery queue stats:", error);
+    res.status(500).json({ error: "Failed to get delivery queue stats" });
+  }
+});
+
+/**
+ * @swagger
+ * /deliveries/{id}/retry:
+ *   post:
+ *     summary: Queue a failed, dead-lettered or cancelled delivery again
+ *     tags: [Delivery Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery queued again
+ *       404:
+ *         description: Delivery not found
+ *       409:
+ *         description: Delivery is still pending or was delivered
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:id/retry",
+  [param("id").isMongoId()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const existing = await deliveryQueue.getJob(req.params.id);
+      if (!existing || !(await canManageJob(req.user as UserDocument, existing))) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+
+      const job = await deliveryQueue.retryJob(req.params.id);
+      if (!job) {
+        return res.status(409).json({ error: `A ${existing.status} delivery cannot be retried` });
+      }
+
+      deliveryQueue
+        .processDueJobs()
+        .catch(error => logger.error("Failed to process delivery queue:", error));
+      res.json(job);
+    } catch (error) {
+      logger.error("Failed to retry delivery:", error);
+      res.status(500).json({ error: "Failed to retry delivery" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /deliveries/{id}/cancel:
+ *   post:
+ *     summary: Cancel a delivery that has not been sent yet
+ *     tags: [Delivery Queue]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery cancelled
+ *       404:
+ *         description: Delivery not found
+ *       409:
+ *         description: Delivery is no longer queued
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:id/cancel",
+  [param("id").isMongoId()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const existing = await deliveryQueue.getJob(req.params.id);
+      if (!existing || !(await canManageJob(req.user as UserDocument, existing))) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+
+      const job = await deliveryQueue.cancelJob(req.params.id);
+      if (!job) {
+        return res.status(409).json({ error: `A ${existing.status} delivery cannot be cancelled` });
+      }
+
+      res.json(job);
+    } catch (error) {
+      logger.error("Failed to cancel delivery:", error);
+      res.status(500).json({ error: "Failed to cancel delivery" });
+    }
+  },
+);
+
+export default router;
@@ -330,6 +330,217 @@ router.patch(
   },
 );
 
+/**
+ * @swagger
+ * /accounts/{id}/pacing:
+ *   get:
+ *     summary: Get the delivery pacing budgets of a Discord account and how much of them is used
+ *     tags: [Discord Accounts]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Account ID
+ *     responses:
+ *       200:
+ *         description: Hourly and daily send budgets, quiet hours state and next allowed send
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/:id/pacing",
+  discordAccountValidation.getOne,
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const pacing = await accountService.getPacingUsage(new Types.ObjectId(req.params.id));
+
+      if (!pacing) {
+        return res.status(404).json({ error: "Discord account not found" });
+      }
+
+      res.json(pacing);
+    } catch (error) {
+      logger.error("Failed to get delivery pacing:", error);
+      res.status(500).json({ error: "Failed to get delivery pacing" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /accounts/{id}/restarts:
+ *   get:
+ *     summary: Get the restart history of a Discord account's worker
+ *     tags: [Discord Accounts]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Account ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Number of restarts to return
+ *     responses:
+ *       200:
+ *         description: Supervisor state (running, restarting, degraded or stopped) and restarts, newest first
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/:id/restarts",
+  [
+    ...discordAccountValidation.getOne,
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 200 })
+      .withMessage("Limit must be between 1 and 200"),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const history = await accountService.getRestartHistory(
+        new Types.ObjectId(req.params.id),
+        parseInt(req.query.limit as string) || 50,
+      );
+
+      if (!history) {
+        return res.status(404).json({ error: "Discord account not found" });
+      }
+
+      res.json(history);
+    } catch (error) {
+      logger.error("Failed to get worker restart history:", error);
+      res.status(500).json({ error: "Failed to get worker restart history" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /accounts/{id}/friends/sync:
+ *   post:
+ *     summary: Sync the friends of a Discord account from its relationships, DMs and shared servers
+ *     tags: [Discord Accounts]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Account ID
+ *     responses:
+ *       202:
+ *         description: Sync requested; its result shows up in the sync history
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: No worker is running for the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/:id/friends/sync",
+  discordAccountValidation.getOne,
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const requested = await accountService.requestFriendSync(new Types.ObjectId(req.params.id));
+
+      if (requested === null) {
+        return res.status(404).json({ error: "Discord account not found" });
+      }
+      if (!requested) {
+        return res.status(409).json({ error: "Worker is not running" });
+      }
+
+      res.status(202).json({ message: "Friend sync requested" });
+    } catch (error) {
+      logger.error("Failed to request friend sync:", error);
+      res.status(500).json({ error: "Failed to request friend sync" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /accounts/{id}/friends/syncs:
+ *   get:
+ *     summary: Get the friend syncs of a Discord account with the friends each one added, removed or renamed
+ *     tags: [Discord Accounts]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Account ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of syncs to return
+ *     responses:
+ *       200:
+ *         description: Syncs that changed something or were requested by hand, newest first
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/:id/friends/syncs",
+  [
+    ...discordAccountValidation.getOne,
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const syncs = await accountService.getFriendSyncs(
+        new Types.ObjectId(req.params.id),
+        parseInt(req.query.limit as string) || 20,
+      );
+
+      if (!syncs) {
+        return res.status(404).json({ error: "Discord account not found" });
+      }
+
+      res.json({ syncs });
+    } catch (error) {
+      logger.error("Failed to get friend syncs:", error);
+      res.status(500).json({ error: "Failed to get friend syncs" });
+    }
+  },
+);
+
 /**
  * @swagger
  * /accounts/{id}:
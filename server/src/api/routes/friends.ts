@@ -0,0 +1,430 @@
+import { Router, Request, Response } from "express";
+import { body, param, query } from "express-validator";
+import { Types } from "mongoose";
+import { ActivityService } from "../../services/ActivityService";
+import { CooldownService } from "../../services/CooldownService";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import { Friend } from "../../models/Friend";
+import { UserDocument } from "../../models/User";
+import logger from "../../utils/logger";
+import { authenticateJwt } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+import {
+  cooldownValidation,
+  timeWindowValidation,
+  timeZoneValidation,
+} from "../middleware/validation";
+
+const router = Router();
+const activityService = ActivityService.getInstance();
+const cooldownService = CooldownService.getInstance();
+
+// Apply authentication to all routes
+router.use(authenticateJwt);
+
+/**
+ * The friend, if one of the user's accounts has them or the user may see every account
+ */
+const findVisibleFriend = async (user: UserDocument, id: string) => {
+  const friend = await Friend.findById(id)
+    .select("discordAccountId contentPreferences cooldowns timeZone")
+    .lean();
+  if (!friend) return null;
+
+  const owned = await DiscordAccount.exists({ _id: friend.discordAccountId, userId: user._id });
+  if (owned || (await user.hasPermission("accounts:view_all"))) return friend;
+  return null;
+};
+
+/**
+ * The friend, if one of the user's accounts has them or the user may edit every account
+ */
+const findEditableFriend = async (user: UserDocument, id: string) => {
+  const friend = await Friend.findById(id).select("discordAccountId").lean();
+  if (!friend) return null;
+
+  const owned = await DiscordAccount.exists({ _id: friend.discordAccountId, userId: user._id });
+  if (owned || (await user.hasPermission("accounts:edit_all"))) return friend;
+  return null;
+};
+
+/**
+ * @swagger
+ * /friends/{id}/sessions:
+ *   get:
+ *     summary: List a friend's activity sessions with when they started, ended and how long they lasted
+ *     tags: [Friends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Sessions, newest first; open ones have no end yet
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Friend not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:id/sessions",
+  [param("id").isMongoId(), query("limit").optional().isInt({ min: 1, max: 200 }).toInt()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const friend = await findVisibleFriend(req.user as UserDocument, req.params.id);
+      if (!friend) {
+        res.status(404).json({ error: "Friend not found" });
+        return;
+      }
+
+      const sessions = await activityService.getFriendSessions(
+        friend._id as Types.ObjectId,
+        Number(req.query.limit) || 50,
+      );
+      res.json({ sessions });
+    } catch (error) {
+      logger.error("Failed to get friend activity sessions:", error);
+      res.status(500).json({ error: "Failed to get friend activity sessions" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /friends/{id}/activity:
+ *   get:
+ *     summary: Get the time a friend spent per activity, their longest session, day streaks and active hours
+ *     tags: [Friends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 90
+ *           default: 30
+ *     responses:
+ *       200:
+ *         description: Activity aggregates over the last days, with days and hours in the friend's time zone
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Friend not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:id/activity",
+  [param("id").isMongoId(), query("days").optional().isInt({ min: 1, max: 90 }).toInt()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const friend = await findVisibleFriend(req.user as UserDocument, req.params.id);
+      if (!friend) {
+        res.status(404).json({ error: "Friend not found" });
+        return;
+      }
+
+      const summary = await activityService.getFriendActivitySummary(
+        friend,
+        Number(req.query.days) || 30,
+      );
+      res.json(summary);
+    } catch (error) {
+      logger.error("Failed to get friend activity summary:", error);
+      res.status(500).json({ error: "Failed to get friend activity summary" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /friends/{id}/tags:
+ *   put:
+ *     summary: Replace the tags of a friend, which trigger rules can match on
+ *     tags: [Friends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: The friend's tags, lowercased and without duplicates
+ *       400:
+ *         description: Invalid tags
+ *       404:
+ *         description: Friend not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:id/tags",
+  [
+    param("id").isMongoId(),
+    body("tags").isArray({ max: 20 }),
+    body("tags.*").isString().trim().toLowerCase().isLength({ min: 1, max: 32 }),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const friend = await findEditableFriend(req.user as UserDocument, req.params.id);
+      if (!friend) {
+        res.status(404).json({ error: "Friend not found" });
+        return;
+      }
+
+      const tags = Array.from(new Set<string>(req.body.tags));
+      await Friend.updateOne({ _id: friend._id }, { $set: { tags } });
+      res.json({ tags });
+    } catch (error) {
+      logger.error("Failed to update friend tags:", error);
+      res.status(500).json({ error: "Failed to update friend tags" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /friends/{id}/next-delivery:
+ *   get:
+ *     summary: Get when a friend may get content next, after their cooldown and the gap they asked for
+ *     tags: [Friends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The next allowed delivery (null for right away), why, and the active cooldown
+ *       404:
+ *         description: Friend not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:id/next-delivery",
+  [param("id").isMongoId()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const friend = await findVisibleFriend(req.user as UserDocument, req.params.id);
+      if (!friend) {
+        res.status(404).json({ error: "Friend not found" });
+        return;
+      }
+
+      const nextDelivery = await cooldownService.getNextDelivery(friend);
+      res.json({ ...nextDelivery, settings: friend.cooldowns || null });
+    } catch (error) {
+      logger.error("Failed to get friend next delivery:", error);
+      res.status(500).json({ error: "Failed to get friend next delivery" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /friends/{id}/cooldowns:
+ *   put:
+ *     summary: Replace a friend's cooldown settings, which override the account's and the server's
+ *     tags: [Friends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               minutes:
+ *                 type: integer
+ *               activityTypes:
+ *                 type: object
+ *                 description: Minutes by activity type, e.g. { "MUSIC": 60 }
+ *               activities:
+ *                 type: array
+ *                 description: Minutes for a game, artist or show
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     minutes:
+ *                       type: integer
+ *     responses:
+ *       200:
+ *         description: The friend's cooldown settings; an empty object removes them
+ *       400:
+ *         description: Invalid settings
+ *       404:
+ *         description: Friend not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:id/cooldowns",
+  [param("id").isMongoId(), ...cooldownValidation()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const friend = await findEditableFriend(req.user as UserDocument, req.params.id);
+      if (!friend) {
+        res.status(404).json({ error: "Friend not found" });
+        return;
+      }
+
+      const { minutes, activityTypes, activities } = req.body;
+      const cooldowns = Object.fromEntries(
+        Object.entries({ minutes, activityTypes, activities }).filter(
+          ([, value]) => value !== undefined,
+        ),
+      );
+      await Friend.updateOne(
+        { _id: friend._id },
+        Object.keys(cooldowns).length ? { $set: { cooldowns } } : { $unset: { cooldowns: 1 } },
+      );
+      res.json({ cooldowns });
+    } catch (error) {
+      logger.error("Failed to update friend cooldowns:", error);
+      res.status(500).json({ error: "Failed to update friend cooldowns" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /friends/{id}/time-windows:
+ *   put:
+ *     summary: Set when a friend may get content, on the wall clock of their time zone
+ *     tags: [Friends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               timeZone:
+ *                 type: string
+ *                 nullable: true
+ *                 description: IANA time zone, e.g. Europe/Berlin; null uses the account's
+ *               timeWindows:
+ *                 type: array
+ *                 description: Replace the hour restrictions; empty goes back to them
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     start:
+ *                       type: string
+ *                       example: "18:00"
+ *                     end:
+ *                       type: string
+ *                       example: "23:30"
+ *                     days:
+ *                       type: array
+ *                       description: Days the window starts on, 0 for Sunday; every day when empty
+ *                       items:
+ *                         type: integer
+ *     responses:
+ *       200:
+ *         description: The friend's time zone and time windows
+ *       400:
+ *         description: Invalid time zone or windows
+ *       404:
+ *         description: Friend not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:id/time-windows",
+  [param("id").isMongoId(), timeZoneValidation("timeZone"), ...timeWindowValidation("timeWindows")],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const friend = await findEditableFriend(req.user as UserDocument, req.params.id);
+      if (!friend) {
+        res.status(404).json({ error: "Friend not found" });
+        return;
+      }
+
+      const { timeZone, timeWindows } = req.body;
+      const $set: Record<string, unknown> = {};
+      if (timeZone) $set.timeZone = timeZone;
+      if (timeWindows) $set["contentPreferences.timeWindows"] = timeWindows;
+      const updated = await Friend.findByIdAndUpdate(
+        friend._id,
+        { $set, ...(timeZone === null && { $unset: { timeZone: 1 } }) },
+        { new: true, runValidators: true },
+      )
+        .select("timeZone contentPreferences.timeWindows contentPreferences.timeRestrictions")
+        .lean();
+
+      res.json({
+        timeZone: updated?.timeZone || null,
+        timeWindows: updated?.contentPreferences?.timeWindows || [],
+        timeRestrictions: updated?.contentPreferences?.timeRestrictions,
+      });
+    } catch (error) {
+      logger.error("Failed to update friend time windows:", error);
+      res.status(500).json({ error: "Failed to update friend time windows" });
+    }
+  },
+);
+
+export default router;
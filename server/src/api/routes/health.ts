@@ -1,15 +1,17 @@
 import { Router, Request, Response } from "express";
 import { WorkerManager } from "../../workers/WorkerManager";
+import { ShutdownService } from "../../services/ShutdownService";
 
 const router = Router();
 const workerManager = WorkerManager.getInstance();
+const shutdownService = ShutdownService.getInstance();
 
 /**
  * @swagger
  * /health:
  *   get:
  *     summary: Health check endpoint
- *     description: Simple health check to verify API is running
+ *     description: Simple health check to verify API is running. Reports `draining` with a 503 while the server shuts down, so load balancers stop routing to it.
  *     responses:
  *       200:
  *         description: API is healthy
@@ -24,10 +26,13 @@ const workerManager = WorkerManager.getInstance();
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *       503:
+ *         description: Server is draining before shutting down
  */
 router.get("/", (_req: Request, res: Response) => {
-  res.json({
-    status: "ok",
+  const draining = shutdownService.isDraining();
+  res.status(draining ? 503 : 200).json({
+    status: draining ? "draining" : "ok",
     timestamp: new Date().toISOString(),
   });
 });
@@ -52,6 +57,9 @@ router.get("/", (_req: Request, res: Response) => {
  *                 timestamp:
  *                   type: number
  *                   description: Current timestamp
+ *                 draining:
+ *                   type: boolean
+ *                   description: Whether the server is draining before shutting down
  *                 workers:
  *                   type: object
  *                   properties:
@@ -81,6 +89,7 @@ router.get("/status", (req, res) => {
   const status = {
     uptime: process.uptime(),
     timestamp: Date.now(),
+    draining: shutdownService.isDraining(),
     workers: {
       total: workerManager.getWorkerCount(),
       active: workerManager.getActiveWorkerCount(),
@@ -10,6 +10,13 @@ import rolesRouter from "./roles";
 import { initializePassport } from "../middleware/auth";
 import { verifyTokenNotRevoked } from "../middleware/tokenVerification";
 import alertsRouter from "./alerts";
+import contentRouter from "./content";
+import templatesRouter from "./templates";
+import deliveriesRouter from "./deliveries";
+import clusterRouter from "./cluster";
+import friendsRouter from "./friends";
+import rulesRouter from "./rules";
+import cooldownsRouter from "./cooldowns";
 
 const router = Router();
 
@@ -30,5 +37,12 @@ router.use("/roles", rolesRouter);
 router.use("/advanced-roles", rolesRouter);
 router.use("/permissions", permissionsRouter);
 router.use("/alerts", alertsRouter);
+router.use("/content", contentRouter);
+router.use("/templates", templatesRouter);
+router.use("/deliveries", deliveriesRouter);
+router.use("/cluster", clusterRouter);
+router.use("/friends", friendsRouter);
+router.use("/rules", rulesRouter);
+router.use("/cooldowns", cooldownsRouter);
 
 export default router;
@@ -0,0 +1,508 @@
+import { Router, Request, Response } from "express";
+import { body, param, query } from "express-validator";
+import { TriggerRuleService } from "../../services/TriggerRuleService";
+import { ContentProviderRegistry } from "../../services/ContentProviderRegistry";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import { Friend } from "../../models/Friend";
+import { MessageTemplate } from "../../models/MessageTemplate";
+import { UserDocument } from "../../models/User";
+import { ActivityEntry, ActivityType } from "../../types/worker";
+import { isValidNamePattern } from "../../utils/triggerRules";
+import logger from "../../utils/logger";
+import { authenticateJwt } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+
+const router = Router();
+const ruleService = TriggerRuleService.getInstance();
+
+// Apply authentication to all routes
+router.use(authenticateJwt);
+
+const ACTIVITY_TYPES = ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"];
+
+/**
+ * Validation of rule fields, under `prefix` for rules nested in a dry run
+ */
+const ruleValidation = (prefix = "", required = true) => {
+  const field = (name: string) => body(`${prefix}${name}`);
+  return [
+    (required ? field("name") : field("name").optional())
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 }),
+    field("friendId").optional({ values: "null" }).isMongoId(),
+    field("priority").optional().isInt({ min: 0, max: 10000 }).toInt(),
+    field("isActive").optional().isBoolean(),
+    field("conditions").optional().isObject(),
+    field("conditions.activityTypes").optional().isArray(),
+    field("conditions.activityTypes.*").isIn(ACTIVITY_TYPES),
+    field("conditions.alongside").optional().isArray(),
+    field("conditions.alongside.*").isIn(ACTIVITY_TYPES),
+    field("conditions.namePattern")
+      .optional()
+      .isString()
+      .isLength({ max: 200 })
+      .custom((pattern: string) => isValidNamePattern(pattern))
+      .withMessage("Invalid regular expression"),
+    field("conditions.minSessionMinutes").optional().isInt({ min: 0 }).toInt(),
+    field("conditions.maxSessionMinutes").optional().isInt({ min: 0 }).toInt(),
+    field("conditions.hours.start").optional().isInt({ min: 0, max: 23 }).toInt(),
+    field("conditions.hours.end").optional().isInt({ min: 0, max: 24 }).toInt(),
+    field("conditions.daysOfWeek").optional().isArray(),
+    field("conditions.daysOfWeek.*").isInt({ min: 0, max: 6 }).toInt(),
+    field("conditions.friendTags").optional().isArray(),
+    field("conditions.friendTags.*").isString().trim().toLowerCase(),
+    (required ? field("action") : field("action").optional()).isObject(),
+    field("action.type").if(field("action").exists()).isIn(["send", "skip", "delay"]),
+    field("action.delayMinutes")
+      .if(field("action.type").equals("delay"))
+      .isInt({ min: 1, max: 1440 })
+      .withMessage("Delays need between 1 and 1440 minutes")
+      .toInt(),
+    field("action.provider")
+      .optional()
+      .custom((provider: string) => !!ContentProviderRegistry.getInstance().get(provider))
+      .withMessage("Unknown content provider"),
+    field("action.templateId").optional().isMongoId(),
+  ];
+};
+
+/**
+ * Whether the user owns the Discord account or may edit every account
+ */
+const canManageAccount = async (user: UserDocument, accountId: string): Promise<boolean> => {
+  const owned = await DiscordAccount.exists({ _id: accountId, userId: user._id });
+  return !!owned || user.hasPermission("accounts:edit_all");
+};
+
+/**
+ * Why the friend or template a rule refers to cannot be used with the account
+ */
+const invalidReference = async (
+  accountId: string,
+  rule: { friendId?: string | null; action?: { templateId?: string } },
+): Promise<string | null> => {
+  if (
+    rule.friendId &&
+    !(await Friend.exists({ _id: rule.friendId, discordAccountId: accountId }))
+  ) {
+    return "Friend does not belong to this account";
+  }
+  const templateId = rule.action?.templateId;
+  if (
+    templateId &&
+    !(await MessageTemplate.exists({ _id: templateId, discordAccountId: accountId }))
+  ) {
+    return "Message template does not belong to this account";
+  }
+  return null;
+};
+
+/**
+ * @swagger
+ * /rules:
+ *   get:
+ *     summary: List the trigger rules of a Discord account in the order they are tried
+ *     tags: [Trigger Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: friendId
+ *         schema:
+ *           type: string
+ *         description: Only rules of this friend ("none" for account wide rules)
+ *     responses:
+ *       200:
+ *         description: Trigger rules
+ *       400:
+ *         description: Invalid parameters
+ *       403:
+ *         description: Not allowed to manage this account
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  [
+    query("accountId").isMongoId(),
+    query("friendId")
+      .optional()
+      .custom((value: string) => value === "none" || /^[a-f\d]{24}$/i.test(value)),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const accountId = req.query.accountId as string;
+      if (!(await canManageAccount(req.user as UserDocument, accountId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const friendId = req.query.friendId as string | undefined;
+      const rules = await ruleService.getRules(accountId, friendId === "none" ? "" : friendId);
+      res.json({ rules });
+    } catch (error) {
+      logger.error("Failed to get trigger rules:", error);
+      res.status(500).json({ error: "Failed to get trigger rules" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /rules:
+ *   post:
+ *     summary: Create a trigger rule for a Discord account or one of its friends
+ *     tags: [Trigger Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - name
+ *               - action
+ *             properties:
+ *               accountId:
+ *                 type: string
+ *               friendId:
+ *                 type: string
+ *                 description: Limit the rule to one friend; friend rules are tried first
+ *               name:
+ *                 type: string
+ *               priority:
+ *                 type: integer
+ *                 default: 100
+ *                 description: Lower priorities are tried first
+ *               conditions:
+ *                 type: object
+ *                 properties:
+ *                   activityTypes:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *                   alongside:
+ *                     type: array
+ *                     description: Activity types the friend must be doing at the same time
+ *                     items:
+ *                       type: string
+ *                       enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *                   namePattern:
+ *                     type: string
+ *                     description: Case-insensitive regular expression on the game, artist, show...
+ *                   minSessionMinutes:
+ *                     type: integer
+ *                   maxSessionMinutes:
+ *                     type: integer
+ *                   hours:
+ *                     type: object
+ *                     properties:
+ *                       start:
+ *                         type: integer
+ *                       end:
+ *                         type: integer
+ *                   daysOfWeek:
+ *                     type: array
+ *                     items:
+ *                       type: integer
+ *                     description: 0 = Sunday
+ *                   friendTags:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *               action:
+ *                 type: object
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [send, skip, delay]
+ *                   delayMinutes:
+ *                     type: integer
+ *                   provider:
+ *                     type: string
+ *                   templateId:
+ *                     type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       400:
+ *         description: Invalid rule
+ *       403:
+ *         description: Not allowed to manage this account
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  [body("accountId").isMongoId(), ...ruleValidation()],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const { accountId, friendId, name, priority, conditions, action, isActive } = req.body;
+      if (!(await canManageAccount(req.user as UserDocument, accountId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const invalid = await invalidReference(accountId, req.body);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const rule = await ruleService.createRule(accountId, {
+        friendId,
+        name,
+        priority,
+        conditions,
+        action,
+        isActive,
+      });
+      res.status(201).json(rule);
+    } catch (error) {
+      logger.error("Failed to create trigger rule:", error);
+      res.status(500).json({ error: "Failed to create trigger rule" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /rules/dry-run:
+ *   post:
+ *     summary: Evaluate trigger rules against a sample presence event without sending anything
+ *     tags: [Trigger Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - event
+ *             properties:
+ *               accountId:
+ *                 type: string
+ *               event:
+ *                 type: object
+ *                 description: Sample WorkerPresenceEvent
+ *                 properties:
+ *                   friendId:
+ *                     type: string
+ *                     description: Discord user ID of the friend
+ *                   newActivity:
+ *                     type: object
+ *                     properties:
+ *                       type:
+ *                         type: string
+ *                         enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *                       details:
+ *                         type: object
+ *                   alongside:
+ *                     type: array
+ *                     description: Types of the friend's other activities at the same time
+ *                     items:
+ *                       type: string
+ *                       enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *                   timestamp:
+ *                     type: string
+ *                     format: date-time
+ *                     description: When the event happens, defaults to now
+ *               rules:
+ *                 type: array
+ *                 description: Unsaved rules to try instead of the account's stored rules
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: The decision, the rule that made it and why every rule tried matched or not
+ *       400:
+ *         description: Invalid event or rules
+ *       403:
+ *         description: Not allowed to manage this account
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/dry-run",
+  [
+    body("accountId").isMongoId(),
+    body("event.friendId").isString().notEmpty(),
+    body("event.newActivity.type").isIn(ACTIVITY_TYPES),
+    body("event.newActivity.details").optional().isObject(),
+    body("event.newActivity.details.startedAt").optional().isISO8601(),
+    body("event.alongside").optional().isArray({ max: 10 }),
+    body("event.alongside.*").isIn(ACTIVITY_TYPES),
+    body("event.timestamp").optional().isISO8601(),
+    body("rules").optional().isArray({ max: 100 }),
+    ...ruleValidation("rules.*."),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const { accountId, event, rules } = req.body;
+      if (!(await canManageAccount(req.user as UserDocument, accountId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const now = event.timestamp ? new Date(event.timestamp) : new Date();
+      const activity: ActivityEntry = {
+        type: event.newActivity.type,
+        details: { startedAt: now, ...event.newActivity.details },
+      };
+      const decision = await ruleService.evaluate(
+        {
+          accountId,
+          friendId: event.friendId,
+          oldActivity: null,
+          newActivity: {
+            ...activity,
+            ...(event.alongside?.length && {
+              activities: [
+                activity,
+                ...event.alongside.map((type: ActivityType) => ({
+                  type,
+                  details: { startedAt: now },
+                })),
+              ],
+            }),
+          },
+          timestamp: now.toISOString(),
+        },
+        rules?.map((rule: any, index: number) => ({
+          id: rule.id || `rule-${index + 1}`,
+          name: rule.name,
+          friendId: rule.friendId || null,
+          priority: rule.priority ?? 100,
+          conditions: rule.conditions || {},
+          action: rule.action,
+        })),
+        now,
+      );
+      res.json(decision);
+    } catch (error) {
+      logger.error("Failed to dry-run trigger rules:", error);
+      res.status(500).json({ error: "Failed to dry-run trigger rules" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /rules/{id}:
+ *   patch:
+ *     summary: Update a trigger rule
+ *     tags: [Trigger Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Any rule field; conditions and action are replaced as a whole
+ *     responses:
+ *       200:
+ *         description: Updated rule
+ *       400:
+ *         description: Invalid rule
+ *       404:
+ *         description: Rule not found
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  "/:id",
+  [param("id").isMongoId(), ...ruleValidation("", false)],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const existing = await ruleService.getRule(req.params.id);
+      if (
+        !existing ||
+        !(await canManageAccount(req.user as UserDocument, existing.discordAccountId.toString()))
+      ) {
+        return res.status(404).json({ error: "Trigger rule not found" });
+      }
+      const invalid = await invalidReference(existing.discordAccountId.toString(), req.body);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const { friendId, name, priority, conditions, action, isActive } = req.body;
+      const rule = await ruleService.updateRule(req.params.id, {
+        friendId,
+        name,
+        priority,
+        conditions,
+        action,
+        isActive,
+      });
+      res.json(rule);
+    } catch (error) {
+      logger.error("Failed to update trigger rule:", error);
+      res.status(500).json({ error: "Failed to update trigger rule" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /rules/{id}:
+ *   delete:
+ *     summary: Delete a trigger rule
+ *     tags: [Trigger Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Rule deleted
+ *       404:
+ *         description: Rule not found
+ *       500:
+ *         description: Server error
+ */
+router.delete("/:id", [param("id").isMongoId()], validate, async (req: Request, res: Response) => {
+  try {
+    const existing = await ruleService.getRule(req.params.id);
+    if (
+      !existing ||
+      !(await canManageAccount(req.user as UserDocument, existing.discordAccountId.toString()))
+    ) {
+      return res.status(404).json({ error: "Trigger rule not found" });
+    }
+
+    await ruleService.deleteRule(req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    logger.error("Failed to delete trigger rule:", error);
+    res.status(500).json({ error: "Failed to delete trigger rule" });
+  }
+});
+
+export default router;
@@ -0,0 +1,469 @@
+import { Router, Request, Response } from "express";
+import { body, param, query } from "express-validator";
+import { MessageTemplateService } from "../../services/MessageTemplateService";
+import { DiscordAccount } from "../../models/DiscordAccount";
+import { Friend } from "../../models/Friend";
+import { UserDocument } from "../../models/User";
+import { TEMPLATE_VARIABLES, findUnknownVariables } from "../../utils/messageTemplate";
+import { MILESTONE_KINDS } from "../../utils/activityMilestones";
+import logger from "../../utils/logger";
+import { authenticateJwt } from "../middleware/auth";
+import { validate } from "../middleware/validate";
+
+const router = Router();
+const templateService = MessageTemplateService.getInstance();
+
+// Apply authentication to all routes
+router.use(authenticateJwt);
+
+const ACTIVITY_TYPES = ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"];
+
+const variantValidation = (required: boolean) => [
+  (required ? body("variants") : body("variants").optional())
+    .isArray({ min: 1, max: 20 })
+    .withMessage("Between 1 and 20 variants are required"),
+  body("variants.*")
+    .isString()
+    .isLength({ min: 1, max: 1000 })
+    .custom((variant: string) => {
+      const unknown = findUnknownVariables(variant);
+      if (unknown.length) {
+        throw new Error(`Unknown template variables: ${unknown.join(", ")}`);
+      }
+      return true;
+    }),
+];
+
+const templateValidation = [
+  body("name").optional().isString().trim().isLength({ min: 1, max: 100 }),
+  body("friendId").optional({ values: "null" }).isMongoId(),
+  body("activityTypes").optional().isArray(),
+  body("activityTypes.*").isIn(ACTIVITY_TYPES),
+  body("milestones").optional().isArray(),
+  body("milestones.*").isIn(MILESTONE_KINDS),
+  body("mode").optional().isIn(["embed", "link"]),
+  body("isActive").optional().isBoolean(),
+];
+
+/**
+ * Whether the user owns the Discord account or may edit every account
+ */
+const canManageAccount = async (user: UserDocument, accountId: string): Promise<boolean> => {
+  const owned = await DiscordAccount.exists({ _id: accountId, userId: user._id });
+  return !!owned || user.hasPermission("accounts:edit_all");
+};
+
+const isFriendOfAccount = async (friendId: string, accountId: string): Promise<boolean> =>
+  !!(await Friend.exists({ _id: friendId, discordAccountId: accountId }));
+
+/**
+ * @swagger
+ * /templates/variables:
+ *   get:
+ *     summary: List the variables available in message templates
+ *     tags: [Message Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Variable names with descriptions
+ */
+router.get("/variables", (_req: Request, res: Response) => {
+  res.json({ variables: TEMPLATE_VARIABLES });
+});
+
+/**
+ * @swagger
+ * /templates:
+ *   get:
+ *     summary: List message templates of a Discord account
+ *     tags: [Message Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: friendId
+ *         schema:
+ *           type: string
+ *         description: Only templates of this friend ("none" for account wide templates)
+ *     responses:
+ *       200:
+ *         description: Message templates
+ *       400:
+ *         description: Invalid parameters
+ *       403:
+ *         description: Not allowed to manage this account
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  [
+    query("accountId").isMongoId(),
+    query("friendId")
+      .optional()
+      .custom((value: string) => value === "none" || /^[a-f\d]{24}$/i.test(value)),
+  ],
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const accountId = req.query.accountId as string;
+      if (!(await canManageAccount(req.user as UserDocument, accountId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const friendId = req.query.friendId as string | undefined;
+      const templates = await templateService.getTemplates(
+        accountId,
+        friendId === "none" ? "" : friendId,
+      );
+      res.json({ templates });
+    } catch (error) {
+      logger.error("Failed to get message templates:", error);
+      res.status(500).json({ error: "Failed to get message templates" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /templates:
+ *   post:
+ *     summary: Create a message template for a Discord account or one of its friends
+ *     tags: [Message Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - name
+ *               - variants
+ *             properties:
+ *               accountId:
+ *                 type: string
+ *               friendId:
+ *                 type: string
+ *                 description: Limit the template to one friend
+ *               name:
+ *                 type: string
+ *               activityTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *                 description: Activity types to use the template for, empty for all
+ *               milestones:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [longSession, weeklySessions, firstTime, comeback, allDay]
+ *                 description: Milestones to celebrate with the template, empty for activity changes
+ *               variants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Message variants using {{variable}} or {{variable|fallback}}
+ *               mode:
+ *                 type: string
+ *                 enum: [embed, link]
+ *                 default: embed
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Template created
+ *       400:
+ *         description: Invalid template
+ *       403:
+ *         description: Not allowed to manage this account
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  [body("accountId").isMongoId(), body("name").exists(), ...templateValidation],
+  variantValidation(true),
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const { accountId, friendId, name, activityTypes, milestones, variants, mode, isActive } =
+        req.body;
+      if (!(await canManageAccount(req.user as UserDocument, accountId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      if (friendId && !(await isFriendOfAccount(friendId, accountId))) {
+        return res.status(400).json({ error: "Friend does not belong to this account" });
+      }
+
+      const template = await templateService.createTemplate(accountId, {
+        friendId,
+        name,
+        activityTypes,
+        milestones,
+        variants,
+        mode,
+        isActive,
+      });
+      res.status(201).json(template);
+    } catch (error) {
+      logger.error("Failed to create message template:", error);
+      res.status(500).json({ error: "Failed to create message template" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /templates/preview:
+ *   post:
+ *     summary: Render template variants against a sample activity
+ *     tags: [Message Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - activity
+ *             properties:
+ *               templateId:
+ *                 type: string
+ *                 description: Preview a stored template instead of the given variants
+ *               variants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               activity:
+ *                 type: object
+ *                 description: Sample ActivityState
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [GAME, MUSIC, STREAMING, WATCHING, CUSTOM, COMPETING]
+ *                   details:
+ *                     type: object
+ *               friendName:
+ *                 type: string
+ *               trigger:
+ *                 type: string
+ *               milestone:
+ *                 type: string
+ *                 description: Sample milestone, e.g. 3 hours of Minecraft
+ *               content:
+ *                 type: object
+ *                 properties:
+ *                   url:
+ *                     type: string
+ *                   title:
+ *                     type: string
+ *                   source:
+ *                     type: string
+ *                   type:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Rendered variants
+ *       400:
+ *         description: Invalid template or activity
+ *       404:
+ *         description: Template not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/preview",
+  [
+    body("templateId").optional().isMongoId(),
+    body("variants")
+      .if(body("templateId").not().exists())
+      .isArray({ min: 1 })
+      .withMessage("variants or templateId is required"),
+    body("activity.type").isIn(ACTIVITY_TYPES),
+    body("activity.details").optional().isObject(),
+    body("activity.details.startedAt").optional().isISO8601().toDate(),
+    body("friendName").optional().isString(),
+    body("trigger").optional().isString(),
+    body("milestone").optional().isString(),
+    body("content").optional().isObject(),
+  ],
+  variantValidation(false),
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      let { variants } = req.body;
+      let mode = "embed";
+      if (req.body.templateId) {
+        const template = await templateService.getTemplate(req.body.templateId);
+        if (
+          !template ||
+          !(await canManageAccount(req.user as UserDocument, template.discordAccountId.toString()))
+        ) {
+          return res.status(404).json({ error: "Message template not found" });
+        }
+        variants = template.variants;
+        mode = template.mode;
+      }
+
+      const { activity, friendName, trigger, content, milestone } = req.body;
+      const rendered = templateService.preview(variants, {
+        activity: {
+          type: activity.type,
+          details: { startedAt: new Date(), ...activity.details },
+        },
+        friendName,
+        trigger,
+        content,
+        milestone,
+      });
+      res.json({ mode, rendered });
+    } catch (error) {
+      logger.error("Failed to preview message template:", error);
+      res.status(500).json({ error: "Failed to preview message template" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /templates/{id}:
+ *   patch:
+ *     summary: Update a message template
+ *     tags: [Message Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               friendId:
+ *                 type: string
+ *                 nullable: true
+ *               name:
+ *                 type: string
+ *               activityTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               milestones:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               variants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               mode:
+ *                 type: string
+ *                 enum: [embed, link]
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Updated template
+ *       400:
+ *         description: Invalid template
+ *       404:
+ *         description: Template not found
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  "/:id",
+  [param("id").isMongoId(), ...templateValidation],
+  variantValidation(false),
+  validate,
+  async (req: Request, res: Response) => {
+    try {
+      const existing = await templateService.getTemplate(req.params.id);
+      if (
+        !existing ||
+        !(await canManageAccount(req.user as UserDocument, existing.discordAccountId.toString()))
+      ) {
+        return res.status(404).json({ error: "Message template not found" });
+      }
+
+      const { friendId, name, activityTypes, milestones, variants, mode, isActive } = req.body;
+      if (friendId && !(await isFriendOfAccount(friendId, existing.discordAccountId.toString()))) {
+        return res.status(400).json({ error: "Friend does not belong to this account" });
+      }
+
+      const template = await templateService.updateTemplate(req.params.id, {
+        friendId,
+        name,
+        activityTypes,
+        milestones,
+        variants,
+        mode,
+        isActive,
+      });
+      res.json(template);
+    } catch (error) {
+      logger.error("Failed to update message template:", error);
+      res.status(500).json({ error: "Failed to update message template" });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /templates/{id}:
+ *   delete:
+ *     summary: Delete a message template
+ *     tags: [Message Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Template deleted
+ *       404:
+ *         description: Template not found
+ *       500:
+ *         description: Server error
+ */
+router.delete("/:id", [param("id").isMongoId()], validate, async (req: Request, res: Response) => {
+  try {
+    const existing = await templateService.getTemplate(req.params.id);
+    if (
+      !existing ||
+      !(await canManageAccount(req.user as UserDocument, existing.discordAccountId.toString()))
+    ) {
+      return res.status(404).json({ error: "Message template not found" });
+    }
+
+    await templateService.deleteTemplate(req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    logger.error("Failed to delete message template:", error);
+    res.status(500).json({ error: "Failed to delete message template" });
+  }
+});
+
+export default router;
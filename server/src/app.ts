@@ -10,6 +10,8 @@ import swaggerSetup from "./api/swagger";
 import { errorHandler } from "./api/middleware/errorHandler";
 import { scheduleTokenCleanup } from "./jobs/tokenCleanup";
 import { scheduleAlertMonitoring } from "./jobs/alertMonitor";
+import { scheduleDeliveryQueue } from "./jobs/deliveryQueue";
+import { scheduleActivityMilestones } from "./jobs/activityMilestones";
 import mongoose from "mongoose";
 
 // Create Express app
@@ -52,22 +54,17 @@ async function initialize() {
     scheduleTokenCleanup();
     logger.info("Token cleanup job scheduled");
 
-    // Graceful shutdown
-    process.on("SIGTERM", async () => {
-      logger.info("SIGTERM received. Starting graceful shutdown...");
-      await discordAccountService.stopAllWorkers();
-      process.exit(0);
-    });
-
     // Schedule alert monitoring job
     scheduleAlertMonitoring();
     logger.info("Alert monitoring job scheduled");
 
-    process.on("SIGINT", async () => {
-      logger.info("SIGINT received. Starting graceful shutdown...");
-      await discordAccountService.stopAllWorkers();
-      process.exit(0);
-    });
+    // Poll the delivery queue now that the workers are running
+    scheduleDeliveryQueue();
+    logger.info("Delivery queue job scheduled");
+
+    // Check open activity sessions for milestones
+    scheduleActivityMilestones();
+    logger.info("Activity milestone job scheduled");
   } catch (error) {
     logger.error("Failed to initialize application:", error);
     process.exit(1);
@@ -1,11 +1,46 @@
 import dotenv from "dotenv";
+import os from "os";
 import path from "path";
-import { ActivityType } from "../types/worker";
+import { ActivityType, FriendFrequency } from "../types/worker";
+import { MilestoneSettings } from "../types/milestones";
+import { CooldownSettings, FrequencyCooldown } from "../types/cooldowns";
 import ms from "ms";
 
 // Load environment variables
 dotenv.config();
 
+const parseList = (value: string | undefined): string[] =>
+  (value || "")
+    .split(",")
+    .map(item => item.trim())
+    .filter(Boolean);
+
+// "23:00-07:00" into a time window, null when unset or malformed
+const parseQuietHours = (value: string | undefined): { start: string; end: string } | null => {
+  const match = /^\s*(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\s*$/.exec(value || "");
+  return match ? { start: match[1], end: match[2] } : null;
+};
+
+// "Minecraft:60,Daft Punk:120" into per activity cooldowns, skipping malformed entries
+const parseActivityMinutes = (
+  value: string | undefined,
+): Array<{ name: string; minutes: number }> =>
+  parseList(value)
+    .map(entry => {
+      const separator = entry.lastIndexOf(":");
+      return {
+        name: entry.slice(0, separator).trim(),
+        minutes: parseInt(entry.slice(separator + 1), 10),
+      };
+    })
+    .filter(({ name, minutes }) => name && !isNaN(minutes));
+
+// A number of at least 0, the fallback when unset or malformed
+const parseNonNegative = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
 type Config = {
   env: string;
   port: number;
@@ -26,6 +61,10 @@ type Config = {
       statusUpdateInterval: number;
       activityTypes: ActivityType[];
     };
+    presenceWarmupMs: number;
+    activityPriority: ActivityType[];
+    friendSyncGuildMembers: boolean;
+    dmCommandsEnabled: boolean;
   };
   api: {
     rateLimits: {
@@ -48,6 +87,115 @@ type Config = {
     lockoutTime: number;
     passwordResetExpires: number;
   };
+  content: {
+    defaultProviders: string[];
+    fallbackChains: Partial<Record<ActivityType, string[]>>;
+    requestTimeoutMs: number;
+    circuitBreaker: {
+      failureThreshold: number;
+      resetTimeoutMs: number;
+    };
+    cache: {
+      enabled: boolean;
+      ttlSeconds: number;
+      l1TtlSeconds: number;
+    };
+    dedup: {
+      enabled: boolean;
+      scope: "friend" | "account";
+      lookbackDays: number;
+      candidateCount: number;
+      perceptualHash: boolean;
+      hammingThreshold: number;
+      maxDownloadBytes: number;
+    };
+    ranker: {
+      enabled: boolean;
+      learningRates: {
+        global: number;
+        account: number;
+        friend: number;
+      };
+      l2: number;
+      explorationRate: number;
+      minSamples: number;
+    };
+    localLibrary: {
+      directory: string;
+      publicBaseUrl: string;
+    };
+    catalog: {
+      path: string;
+    };
+    reddit: {
+      baseUrl: string;
+      userAgent: string;
+      subreddits: Record<ActivityType, string[]>;
+    };
+    tenor: {
+      apiKey: string;
+      baseUrl: string;
+    };
+    giphy: {
+      apiKey: string;
+      baseUrl: string;
+    };
+  };
+  // IANA time zone of accounts and friends without one, the server's when unset
+  timeZone: string | undefined;
+  delivery: {
+    pollIntervalMs: number;
+    batchSize: number;
+    maxAttempts: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    lockTimeoutMs: number;
+    dispatchTimeoutMs: number;
+  };
+  pacing: {
+    enabled: boolean;
+    minDelayMs: number;
+    maxDelayMs: number;
+    typingMsPerChar: number;
+    maxTypingMs: number;
+    hourlyBudget: number;
+    dailyBudget: number;
+    quietHours: { start: string; end: string } | null;
+  };
+  cooldowns: CooldownSettings & {
+    minutes: number;
+    frequencies: Record<FriendFrequency, FrequencyCooldown>;
+  };
+  milestones: {
+    checkIntervalMs: number;
+    defaults: MilestoneSettings;
+  };
+  supervisor: {
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    crashLoopThreshold: number;
+    crashLoopWindowMs: number;
+    startupTimeoutMs: number;
+    checkIntervalMs: number;
+    heartbeatIntervalMs: number;
+    livenessTimeoutMs: number;
+    unresponsiveRestartMs: number;
+  };
+  workerPool: {
+    enabled: boolean;
+    size: number;
+  };
+  cluster: {
+    enabled: boolean;
+    nodeId: string;
+    leaseTtlMs: number;
+    renewIntervalMs: number;
+    messagePollMs: number;
+  };
+  shutdown: {
+    drainTimeoutMs: number;
+    stopTimeoutMs: number;
+  };
   alerts: {
     monitoring: {
       intervalMinutes: number;
@@ -101,6 +249,17 @@ const config = {
         "COMPETING",
       ] as ActivityType[],
     },
+    // After connecting, presence changes are only recorded for this long, not acted on
+    presenceWarmupMs: parseInt(process.env.PRESENCE_WARMUP_MS || "120000", 10),
+    // Which of a friend's simultaneous activities drives content, first listed wins; empty keeps
+    // Discord's order
+    activityPriority: parseList(process.env.ACTIVITY_PRIORITY?.toUpperCase()).filter(type =>
+      ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"].includes(type),
+    ) as ActivityType[],
+    // Members of servers shared with the account count as friends, next to friends and DMs
+    friendSyncGuildMembers: process.env.FRIEND_SYNC_GUILD_MEMBERS !== "false",
+    // Friends can stop, resume and tune their content by DMing the account
+    dmCommandsEnabled: process.env.DM_COMMANDS_ENABLED !== "false",
   },
   api: {
     rateLimits: {
@@ -123,6 +282,175 @@ const config = {
     lockoutTime: parseInt(process.env.ACCOUNT_LOCKOUT_MINUTES || "15", 10), // in minutes
     passwordResetExpires: parseInt(process.env.PASSWORD_RESET_EXPIRES || "1", 10), // in hours
   },
+  content: {
+    defaultProviders: parseList(
+      process.env.CONTENT_PROVIDERS || "serpapi,local-library,curated-catalog,reddit,tenor,giphy",
+    ),
+    // Per activity type overrides of the provider order, e.g. CONTENT_PROVIDERS_MUSIC=tenor,reddit
+    fallbackChains: Object.fromEntries(
+      (["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"] as ActivityType[])
+        .map(type => [type, parseList(process.env[`CONTENT_PROVIDERS_${type}`])] as const)
+        .filter(([, chain]) => chain.length > 0),
+    ),
+    requestTimeoutMs: parseInt(process.env.CONTENT_REQUEST_TIMEOUT_MS || "8000", 10),
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.CONTENT_BREAKER_FAILURE_THRESHOLD || "3", 10),
+      resetTimeoutMs: parseInt(process.env.CONTENT_BREAKER_RESET_MS || "60000", 10),
+    },
+    cache: {
+      enabled: process.env.CONTENT_CACHE_ENABLED !== "false",
+      ttlSeconds: parseInt(process.env.CONTENT_CACHE_TTL_SECONDS || "21600", 10), // 6 hours
+      l1TtlSeconds: parseInt(process.env.CONTENT_CACHE_L1_TTL_SECONDS || "300", 10), // 5 minutes
+    },
+    dedup: {
+      enabled: process.env.CONTENT_DEDUP_ENABLED !== "false",
+      scope: process.env.CONTENT_DEDUP_SCOPE === "account" ? "account" : "friend",
+      lookbackDays: parseInt(process.env.CONTENT_DEDUP_LOOKBACK_DAYS || "90", 10),
+      // How many ranked results to fetch so there is something left after skipping repeats
+      candidateCount: parseInt(process.env.CONTENT_DEDUP_CANDIDATES || "15", 10),
+      perceptualHash: process.env.CONTENT_DEDUP_PERCEPTUAL_HASH !== "false",
+      // Max differing bits for two images to count as the same meme
+      hammingThreshold: parseInt(process.env.CONTENT_DEDUP_HAMMING_THRESHOLD || "6", 10),
+      maxDownloadBytes: 10 * 1024 * 1024,
+    },
+    ranker: {
+      enabled: process.env.CONTENT_RANKER_ENABLED !== "false",
+      // Narrower scopes learn faster so a friend's own feedback can outweigh the global model
+      learningRates: {
+        global: parseFloat(process.env.CONTENT_RANKER_RATE_GLOBAL || "0.05"),
+        account: parseFloat(process.env.CONTENT_RANKER_RATE_ACCOUNT || "0.1"),
+        friend: parseFloat(process.env.CONTENT_RANKER_RATE_FRIEND || "0.2"),
+      },
+      l2: parseFloat(process.env.CONTENT_RANKER_L2 || "0.001"),
+      // Share of deliveries that skip the top result to collect feedback on other content
+      explorationRate: parseFloat(process.env.CONTENT_RANKER_EXPLORATION || "0.1"),
+      // Labeled deliveries the global model needs before it replaces the keyword heuristic
+      minSamples: parseInt(process.env.CONTENT_RANKER_MIN_SAMPLES || "20", 10),
+    },
+    localLibrary: {
+      directory: process.env.CONTENT_LIBRARY_DIR || "",
+      publicBaseUrl: process.env.CONTENT_LIBRARY_BASE_URL || "",
+    },
+    catalog: {
+      path: process.env.CONTENT_CATALOG_PATH || "",
+    },
+    reddit: {
+      baseUrl: process.env.REDDIT_FEED_BASE_URL || "https://www.reddit.com",
+      userAgent: process.env.REDDIT_USER_AGENT || "discord-auto-content/1.0",
+      subreddits: {
+        GAME: ["gamingmemes", "gaming"],
+        MUSIC: ["musicmemes"],
+        STREAMING: ["LivestreamFail"],
+        WATCHING: ["moviememes", "television"],
+        CUSTOM: ["memes"],
+        COMPETING: ["esports"],
+      },
+    },
+    tenor: {
+      apiKey: process.env.TENOR_API_KEY || "",
+      baseUrl: process.env.TENOR_BASE_URL || "https://tenor.googleapis.com/v2",
+    },
+    giphy: {
+      apiKey: process.env.GIPHY_API_KEY || "",
+      baseUrl: process.env.GIPHY_BASE_URL || "https://api.giphy.com/v1",
+    },
+  },
+  timeZone: process.env.DEFAULT_TIMEZONE || undefined,
+  delivery: {
+    pollIntervalMs: parseInt(process.env.DELIVERY_POLL_INTERVAL_MS || "5000", 10),
+    batchSize: parseInt(process.env.DELIVERY_BATCH_SIZE || "20", 10),
+    // Attempts before a delivery is moved to the dead letter state
+    maxAttempts: parseInt(process.env.DELIVERY_MAX_ATTEMPTS || "8", 10),
+    backoffBaseMs: parseInt(process.env.DELIVERY_BACKOFF_BASE_MS || "30000", 10),
+    backoffMaxMs: parseInt(process.env.DELIVERY_BACKOFF_MAX_MS || "1800000", 10), // 30 minutes
+    // How long a claimed job stays locked before another poller may take it over
+    lockTimeoutMs: parseInt(process.env.DELIVERY_LOCK_TIMEOUT_MS || "60000", 10),
+    // How long a worker has to report a dispatched delivery before it is queued again
+    dispatchTimeoutMs: parseInt(process.env.DELIVERY_DISPATCH_TIMEOUT_MS || "900000", 10),
+  },
+  // Defaults for the humanlike delivery pacing, overridable per account (settings.pacing)
+  pacing: {
+    enabled: process.env.PACING_ENABLED !== "false",
+    minDelayMs: parseInt(process.env.PACING_MIN_DELAY_MS || "20000", 10),
+    maxDelayMs: parseInt(process.env.PACING_MAX_DELAY_MS || "120000", 10),
+    typingMsPerChar: parseInt(process.env.PACING_TYPING_MS_PER_CHAR || "150", 10),
+    maxTypingMs: parseInt(process.env.PACING_MAX_TYPING_MS || "15000", 10),
+    // 0 disables a budget
+    hourlyBudget: parseInt(process.env.PACING_HOURLY_BUDGET || "8", 10),
+    dailyBudget: parseInt(process.env.PACING_DAILY_BUDGET || "40", 10),
+    // "HH:mm-HH:mm", server local time
+    quietHours: parseQuietHours(process.env.PACING_QUIET_HOURS),
+  },
+  // Wait after content before a friend gets more, overridable per account and per friend
+  cooldowns: {
+    minutes: parseInt(process.env.COOLDOWN_MINUTES || "30", 10),
+    activityTypes: Object.fromEntries(
+      (["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"] as ActivityType[])
+        .map(type => [type, parseInt(process.env[`COOLDOWN_MINUTES_${type}`] || "", 10)] as const)
+        .filter(([, minutes]) => !isNaN(minutes)),
+    ),
+    activities: parseActivityMinutes(process.env.COOLDOWN_ACTIVITY_MINUTES),
+    // Cooldowns of friends who asked for less or more content by DM
+    frequencies: {
+      less: {
+        factor: parseNonNegative(process.env.COOLDOWN_FACTOR_LESS, 4),
+        // Friends asking for less wait this long even when cooldowns are off
+        minimumMinutes: parseNonNegative(process.env.COOLDOWN_MINIMUM_MINUTES_LESS, 120),
+      },
+      normal: { factor: 1, minimumMinutes: 0 },
+      more: { factor: parseNonNegative(process.env.COOLDOWN_FACTOR_MORE, 0.25), minimumMinutes: 0 },
+    },
+  },
+  // Activity milestones worth content, overridable per account (settings.milestones)
+  milestones: {
+    // How often open sessions are checked for long sessions and whole days
+    checkIntervalMs: parseInt(process.env.MILESTONE_CHECK_INTERVAL_MS || "300000", 10),
+    defaults: {
+      enabled: process.env.MILESTONES_ENABLED !== "false",
+      // 0 turns a milestone off
+      longSessionHours: parseInt(process.env.MILESTONE_LONG_SESSION_HOURS || "3", 10),
+      weeklySessions: parseInt(process.env.MILESTONE_WEEKLY_SESSIONS || "10", 10),
+      firstTime: process.env.MILESTONE_FIRST_TIME !== "false",
+      comebackDays: parseInt(process.env.MILESTONE_COMEBACK_DAYS || "30", 10),
+      allDayHours: parseInt(process.env.MILESTONE_ALL_DAY_HOURS || "6", 10),
+    },
+  },
+  // Restarting workers that exit or never connect
+  supervisor: {
+    backoffBaseMs: parseInt(process.env.SUPERVISOR_BACKOFF_BASE_MS || "5000", 10),
+    backoffMaxMs: parseInt(process.env.SUPERVISOR_BACKOFF_MAX_MS || "300000", 10), // 5 minutes
+    // This many restarts within the window park the account as degraded
+    crashLoopThreshold: parseInt(process.env.SUPERVISOR_CRASH_LOOP_THRESHOLD || "5", 10),
+    crashLoopWindowMs: parseInt(process.env.SUPERVISOR_CRASH_LOOP_WINDOW_MS || "600000", 10),
+    // A worker that has not connected this long after starting is restarted
+    startupTimeoutMs: parseInt(process.env.SUPERVISOR_STARTUP_TIMEOUT_MS || "120000", 10),
+    checkIntervalMs: parseInt(process.env.SUPERVISOR_CHECK_INTERVAL_MS || "30000", 10),
+    // Workers send metrics this often; missing them for the liveness timeout flags the worker
+    // as unresponsive and for the restart timeout (0 to never) gets it restarted
+    heartbeatIntervalMs: parseInt(process.env.WORKER_HEARTBEAT_INTERVAL_MS || "15000", 10),
+    livenessTimeoutMs: parseInt(process.env.WORKER_LIVENESS_TIMEOUT_MS || "60000", 10),
+    unresponsiveRestartMs: parseInt(process.env.WORKER_UNRESPONSIVE_RESTART_MS || "180000", 10),
+  },
+  // Hosting many accounts per worker thread instead of a thread per account
+  workerPool: {
+    enabled: process.env.WORKER_POOL_ENABLED === "true",
+    size: Math.max(1, parseInt(process.env.WORKER_POOL_SIZE || "4", 10)),
+  },
+  // Sharing accounts between several server processes through leases in MongoDB
+  cluster: {
+    enabled: process.env.CLUSTER_ENABLED === "true",
+    nodeId: process.env.CLUSTER_NODE_ID || `${os.hostname()}:${process.pid}`,
+    // A node that has not renewed its leases for this long is considered dead
+    leaseTtlMs: parseInt(process.env.CLUSTER_LEASE_TTL_MS || "30000", 10),
+    renewIntervalMs: parseInt(process.env.CLUSTER_RENEW_INTERVAL_MS || "10000", 10),
+    messagePollMs: parseInt(process.env.CLUSTER_MESSAGE_POLL_MS || "1000", 10),
+  },
+  // Shutting down waits this long for in-flight deliveries before stopping the workers anyway
+  shutdown: {
+    drainTimeoutMs: parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT_MS || "30000", 10),
+    // And this long for the workers to stop before leaving the cluster anyway
+    stopTimeoutMs: parseInt(process.env.SHUTDOWN_STOP_TIMEOUT_MS || "10000", 10),
+  },
   alerts: {
     monitoring: {
       intervalMinutes: parseInt(process.env.ALERT_INTERVAL_MINUTES || "15", 10),
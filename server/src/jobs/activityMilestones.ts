@@ -0,0 +1,28 @@
+import config from "../config";
+import { ActivityService } from "../services/ActivityService";
+import logger from "../utils/logger";
+
+/**
+ * Job to celebrate friends' open sessions that went on long enough to be a milestone
+ */
+export async function checkActivityMilestones(): Promise<void> {
+  try {
+    const reached = await ActivityService.getInstance().checkOpenSessionMilestones();
+    if (reached > 0) {
+      logger.info(`Activity milestones: ${reached} reached in open sessions`);
+    }
+  } catch (error) {
+    logger.error("Activity milestone job failed:", error);
+  }
+}
+
+/**
+ * Schedule open sessions to be checked for milestones periodically
+ * @param intervalMs Interval in milliseconds between checks
+ */
+export function scheduleActivityMilestones(
+  intervalMs: number = config.milestones.checkIntervalMs,
+): NodeJS.Timeout {
+  logger.info(`Scheduling activity milestone checks every ${intervalMs / 1000} seconds`);
+  return setInterval(checkActivityMilestones, intervalMs);
+}
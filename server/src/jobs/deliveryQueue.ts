@@ -0,0 +1,39 @@
+import config from "../config";
+import { DeliveryQueueService } from "../services/DeliveryQueueService";
+import logger from "../utils/logger";
+
+/**
+ * Job to hand due deliveries to the workers, including deferred ones, retries and deliveries
+ * whose worker never reported back
+ */
+export async function processDeliveryQueue(): Promise<void> {
+  const deliveryQueue = DeliveryQueueService.getInstance();
+  try {
+    const requeued = await deliveryQueue.requeueStaleDispatched();
+    if (requeued > 0) {
+      logger.warn(`Delivery queue: Queued ${requeued} deliveries without a result again`);
+    }
+  } catch (error) {
+    logger.error("Failed to queue stale deliveries again:", error);
+  }
+
+  const handled = await deliveryQueue.processDueJobs();
+  if (handled > 0) {
+    logger.debug(`Delivery queue: Processed ${handled} due deliveries`);
+  }
+}
+
+/**
+ * Schedule the delivery queue to be polled periodically
+ * @param intervalMs Interval in milliseconds between polls
+ */
+export function scheduleDeliveryQueue(
+  intervalMs: number = config.delivery.pollIntervalMs,
+): NodeJS.Timeout {
+  logger.info(`Scheduling delivery queue to be polled every ${intervalMs / 1000} seconds`);
+
+  // Pick up deliveries queued before a restart
+  processDeliveryQueue();
+
+  return setInterval(processDeliveryQueue, intervalMs);
+}
@@ -0,0 +1,37 @@
+import { Schema, model, Types, Document } from "mongoose";
+
+export interface IAccountLease extends Document {
+  discordAccountId: Types.ObjectId;
+  /** Node running the account's worker */
+  nodeId: string;
+  /** The lease can be taken over by another node after this */
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountLeaseSchema = new Schema<IAccountLease>(
+  {
+    discordAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: "DiscordAccount",
+      required: true,
+      unique: true,
+    },
+    nodeId: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+AccountLeaseSchema.index({ nodeId: 1 });
+
+export const AccountLease = model<IAccountLease>("AccountLease", AccountLeaseSchema);
@@ -1,10 +1,13 @@
 import { Schema, model, Types, Document } from "mongoose";
+import { MilestoneKind } from "../types/milestones";
 
 export interface IActivityHistory extends Document {
   _id: Types.ObjectId;
   friendId: Types.ObjectId;
   discordAccountId: Types.ObjectId;
   type: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
+  // What the activity is about, e.g. the game or the artist
+  name?: string;
   details: {
     gameName?: string;
     musicDetails?: {
@@ -30,8 +33,12 @@ export interface IActivityHistory extends Document {
       venue?: string;
     };
     startedAt: Date;
+    // Set once the friend stopped or moved on to another activity
     endedAt?: Date;
+    durationMs?: number;
   };
+  // Milestones celebrated with content during the session
+  milestones?: MilestoneKind[];
   processed: boolean;
   processedAt?: Date;
   error?: string;
@@ -57,6 +64,7 @@ const ActivityHistorySchema = new Schema<IActivityHistory>(
       enum: ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"],
       required: true,
     },
+    name: String,
     details: {
       gameName: String,
       musicDetails: {
@@ -86,6 +94,12 @@ const ActivityHistorySchema = new Schema<IActivityHistory>(
         required: true,
       },
       endedAt: Date,
+      durationMs: Number,
+    },
+    milestones: {
+      type: [String],
+      enum: ["longSession", "weeklySessions", "firstTime", "comeback", "allDay"],
+      default: undefined,
     },
     processed: {
       type: Boolean,
@@ -103,6 +117,8 @@ const ActivityHistorySchema = new Schema<IActivityHistory>(
 // Indexes for common queries
 ActivityHistorySchema.index({ "details.startedAt": -1 });
 ActivityHistorySchema.index({ processed: 1, processedAt: 1 });
+ActivityHistorySchema.index({ friendId: 1, "details.startedAt": -1 });
+ActivityHistorySchema.index({ friendId: 1, type: 1, name: 1, "details.startedAt": -1 });
 
 // Add method to mark activity as processed
 ActivityHistorySchema.methods.markProcessed = async function (error?: string) {
@@ -0,0 +1,45 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface IClusterNode extends Document {
+  nodeId: string;
+  hostname: string;
+  pid: number;
+  startedAt: Date;
+  /** Renewed with the node's leases, a node not seen for the lease TTL is dead */
+  lastSeenAt: Date;
+  /** Workers running on the node at its last renewal */
+  workerCount: number;
+}
+
+const ClusterNodeSchema = new Schema<IClusterNode>({
+  nodeId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  hostname: {
+    type: String,
+    required: true,
+  },
+  pid: {
+    type: Number,
+    required: true,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastSeenAt: {
+    type: Date,
+    required: true,
+  },
+  workerCount: {
+    type: Number,
+    default: 0,
+  },
+});
+
+// Forget nodes that have been gone for a day
+ClusterNodeSchema.index({ lastSeenAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const ClusterNode = model<IClusterNode>("ClusterNode", ClusterNodeSchema);
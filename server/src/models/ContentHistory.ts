@@ -1,4 +1,5 @@
 import { Schema, model, Types, Document } from "mongoose";
+import { DeliveryErrorType, FeedbackSentiment } from "../types/worker";
 
 export interface IContentHistory extends Document {
   _id: Types.ObjectId;
@@ -16,9 +17,52 @@ export interface IContentHistory extends Document {
     type: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
     value: string;
   };
+  provider?: string;
+  providerAttempts?: Array<{
+    provider: string;
+    outcome: "success" | "empty" | "error" | "timeout" | "circuit-open" | "rate-limited";
+    latencyMs?: number;
+    error?: string;
+  }>;
+  fingerprint?: {
+    urlHash: string;
+    perceptualHash?: string;
+  };
+  ranking?: {
+    model: "learned" | "heuristic" | "exploration";
+    score: number;
+    heuristicScore: number;
+    features: Record<string, number>;
+  };
+  userFeedback?: {
+    rating: number;
+    comment?: string;
+    ratedAt: Date;
+  };
+  /** How the friend reacted to the delivered message on Discord */
+  friendFeedback?: {
+    reactions: Array<{ emoji: string; sentiment: FeedbackSentiment; reactedAt: Date }>;
+    replies: Array<{
+      messageId: string;
+      text: string;
+      sentiment: FeedbackSentiment;
+      repliedAt: Date;
+    }>;
+    /** Sentiment of the most recent reaction or reply */
+    sentiment?: FeedbackSentiment;
+    /** Set once the ranker learned from the friend's first clear reaction or reply */
+    learnedAt?: Date;
+  };
   status: "PENDING" | "SENT" | "FAILED";
   sentAt?: Date;
   error?: string;
+  delivery?: {
+    messageId?: string;
+    channelId?: string;
+    startedAt: Date;
+    completedAt: Date;
+    errorType?: DeliveryErrorType;
+  };
   updateStatus(status: "SENT" | "FAILED", error?: string): Promise<void>;
   markSent(): Promise<void>;
   markFailed(error: string): Promise<void>;
@@ -77,6 +121,72 @@ const ContentHistorySchema = new Schema<IContentHistory>(
         required: true,
       },
     },
+    // Content provider that served this entry, and the fallback chain walked to get there
+    provider: {
+      type: String,
+      index: true,
+    },
+    providerAttempts: [
+      {
+        _id: false,
+        provider: { type: String, required: true },
+        outcome: {
+          type: String,
+          enum: ["success", "empty", "error", "timeout", "circuit-open", "rate-limited"],
+          required: true,
+        },
+        latencyMs: Number,
+        error: String,
+      },
+    ],
+    // Used to avoid sending the same media to a friend twice
+    fingerprint: {
+      urlHash: String,
+      perceptualHash: String,
+    },
+    // How the content was ranked, with the features the ranker learns from
+    ranking: {
+      model: {
+        type: String,
+        enum: ["learned", "heuristic", "exploration"],
+      },
+      score: Number,
+      heuristicScore: Number,
+      features: Schema.Types.Mixed,
+    },
+    userFeedback: {
+      rating: {
+        type: Number,
+        min: 1,
+        max: 5,
+      },
+      comment: String,
+      ratedAt: Date,
+    },
+    friendFeedback: {
+      reactions: [
+        {
+          _id: false,
+          emoji: { type: String, required: true },
+          sentiment: { type: String, enum: ["positive", "negative", "neutral"], required: true },
+          reactedAt: { type: Date, required: true },
+        },
+      ],
+      replies: [
+        {
+          _id: false,
+          messageId: { type: String, required: true },
+          text: { type: String, required: true },
+          sentiment: { type: String, enum: ["positive", "negative", "neutral"], required: true },
+          repliedAt: { type: Date, required: true },
+        },
+      ],
+      sentiment: {
+        type: String,
+        enum: ["positive", "negative", "neutral"],
+      },
+      learnedAt: Date,
+    },
     status: {
       type: String,
       enum: ["PENDING", "SENT", "FAILED"],
@@ -85,6 +195,25 @@ const ContentHistorySchema = new Schema<IContentHistory>(
     },
     sentAt: Date,
     error: String,
+    // Reported by the worker once the DM was sent or failed
+    delivery: {
+      messageId: String,
+      channelId: String,
+      startedAt: Date,
+      completedAt: Date,
+      errorType: {
+        type: String,
+        enum: [
+          "PACED",
+          "OPTED_OUT",
+          "FRIEND_NOT_FOUND",
+          "DM_BLOCKED",
+          "RATE_LIMITED",
+          "NETWORK",
+          "UNKNOWN",
+        ],
+      },
+    },
   },
   {
     timestamps: true,
@@ -94,6 +223,10 @@ const ContentHistorySchema = new Schema<IContentHistory>(
 // Indexes for common queries
 ContentHistorySchema.index({ status: 1, createdAt: -1 });
 ContentHistorySchema.index({ "trigger.type": 1, "trigger.value": 1 });
+ContentHistorySchema.index({ friendId: 1, createdAt: -1 });
+ContentHistorySchema.index({ discordAccountId: 1, createdAt: -1 });
+// Looking up a delivery from reactions and replies to its message
+ContentHistorySchema.index({ "delivery.messageId": 1 }, { sparse: true });
 
 // Add method to update status
 ContentHistorySchema.methods.updateStatus = async function (
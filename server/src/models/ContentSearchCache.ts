@@ -0,0 +1,75 @@
+import { Schema, model, Document } from "mongoose";
+
+export interface IContentSearchCache extends Document {
+  key: string;
+  activityType: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
+  query: string;
+  results: Array<{
+    url: string;
+    title: string;
+    source: string;
+    type: string;
+    metadata?: Record<string, any>;
+  }>;
+  provider: string;
+  hits: number;
+  lastHitAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContentSearchCacheSchema = new Schema<IContentSearchCache>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    activityType: {
+      type: String,
+      enum: ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"],
+      required: true,
+    },
+    // Normalized query, kept separately so entries can be purged by query
+    query: {
+      type: String,
+      required: true,
+    },
+    results: [
+      {
+        _id: false,
+        url: { type: String, required: true },
+        title: { type: String, required: true },
+        source: { type: String, required: true },
+        type: { type: String, required: true },
+        metadata: Schema.Types.Mixed,
+      },
+    ],
+    provider: {
+      type: String,
+      required: true,
+    },
+    hits: {
+      type: Number,
+      default: 0,
+    },
+    lastHitAt: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+ContentSearchCacheSchema.index({ activityType: 1, query: 1 });
+// Let MongoDB drop entries once they expire
+ContentSearchCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ContentSearchCache = model<IContentSearchCache>(
+  "ContentSearchCache",
+  ContentSearchCacheSchema,
+);
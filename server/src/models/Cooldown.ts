@@ -0,0 +1,60 @@
+import { Schema, model, Types, Document } from "mongoose";
+import { CooldownLevel, CooldownScope } from "../types/cooldowns";
+import { ActivityType } from "../types/worker";
+
+export interface ICooldown extends Document {
+  _id: Types.ObjectId;
+  discordAccountId: Types.ObjectId;
+  friendId: Types.ObjectId;
+  /** Activity the content that started the cooldown was about */
+  activityType: ActivityType;
+  activityName?: string;
+  /** Settings the duration came from */
+  scope: CooldownScope;
+  level: CooldownLevel;
+  startedAt: Date;
+  expiresAt: Date;
+}
+
+const CooldownSchema = new Schema<ICooldown>({
+  discordAccountId: {
+    type: Schema.Types.ObjectId,
+    ref: "DiscordAccount",
+    required: true,
+  },
+  friendId: {
+    type: Schema.Types.ObjectId,
+    ref: "Friend",
+    required: true,
+  },
+  activityType: {
+    type: String,
+    enum: ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"],
+    required: true,
+  },
+  activityName: String,
+  scope: {
+    type: String,
+    enum: ["friend", "account", "server"],
+    required: true,
+  },
+  level: {
+    type: String,
+    enum: ["activity", "activityType", "default"],
+    required: true,
+  },
+  startedAt: {
+    type: Date,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// One cooldown per friend of an account, removed by MongoDB once it expired
+CooldownSchema.index({ discordAccountId: 1, friendId: 1 }, { unique: true });
+CooldownSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Cooldown = model<ICooldown>("Cooldown", CooldownSchema);
@@ -0,0 +1,94 @@
+import { Schema, model, Types, Document } from "mongoose";
+import { ContentDeliveryCommand } from "../types/worker";
+
+export type DeliveryJobStatus =
+  | "queued"
+  | "dispatched"
+  | "delivered"
+  | "failed"
+  | "dead"
+  | "cancelled";
+
+export interface IDeliveryJob extends Document {
+  _id: Types.ObjectId;
+  /** One job per content history entry, which makes enqueueing idempotent */
+  historyId: Types.ObjectId;
+  discordAccountId: Types.ObjectId;
+  friendId: Types.ObjectId;
+  payload: ContentDeliveryCommand["data"];
+  status: DeliveryJobStatus;
+  scheduledFor: Date;
+  /** Why the job was last pushed back, e.g. outside the account's time windows */
+  deferredReason?: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  lastAttemptAt?: Date;
+  dispatchedAt?: Date;
+  completedAt?: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeliveryJobSchema = new Schema<IDeliveryJob>(
+  {
+    historyId: {
+      type: Schema.Types.ObjectId,
+      ref: "ContentHistory",
+      required: true,
+      unique: true,
+    },
+    discordAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: "DiscordAccount",
+      required: true,
+      index: true,
+    },
+    friendId: {
+      type: Schema.Types.ObjectId,
+      ref: "Friend",
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["queued", "dispatched", "delivered", "failed", "dead", "cancelled"],
+      default: "queued",
+    },
+    scheduledFor: {
+      type: Date,
+      required: true,
+    },
+    deferredReason: String,
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+    },
+    lastError: String,
+    lastAttemptAt: Date,
+    dispatchedAt: Date,
+    completedAt: Date,
+    lockedBy: String,
+    lockedUntil: Date,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Polling for due jobs
+DeliveryJobSchema.index({ status: 1, scheduledFor: 1 });
+// Sweeping dispatched jobs that never reported back
+DeliveryJobSchema.index({ status: 1, dispatchedAt: 1 });
+DeliveryJobSchema.index({ discordAccountId: 1, status: 1, createdAt: -1 });
+
+export const DeliveryJob = model<IDeliveryJob>("DeliveryJob", DeliveryJobSchema);
@@ -1,4 +1,8 @@
 import mongoose, { Document, Schema, Types } from "mongoose";
+import { MilestoneSettings } from "../types/milestones";
+import { CooldownSettings } from "../types/cooldowns";
+import { isValidTimeZone, TimeWindow } from "../utils/timeWindows";
+import { ActivityType } from "../types/worker";
 
 interface IDiscordAccountMethods {
   updateStatus(isConnected: boolean): Promise<void>;
@@ -9,6 +13,10 @@ interface IDiscordAccountStatus {
   isConnected: boolean;
   lastConnection: Date | null;
   lastDisconnection: Date | null;
+  // Set when the worker supervisor stopped restarting a crash looping worker
+  degraded: boolean;
+  degradedAt: Date | null;
+  degradedReason?: string;
   currentActivity: {
     type: string;
     name: string;
@@ -32,14 +40,44 @@ export interface IDiscordAccountSettings {
     quotes: boolean;
     news: boolean;
     jokes: boolean;
+    // Content provider IDs in order of preference; empty uses the server default
+    providers: string[];
   };
   deliveryPreferences: {
     frequency: number;
-    timeWindows: Array<{
-      start: string;
-      end: string;
-    }>;
+    // Read in the account's time zone
+    timeWindows: TimeWindow[];
   };
+  // Overrides of the server wide repeat protection (config.content.dedup)
+  deduplication?: {
+    scope?: "friend" | "account";
+    lookbackDays?: number;
+  };
+  // Overrides of the server wide delivery pacing (config.pacing)
+  pacing?: Partial<DeliveryPacingSettings>;
+  // Overrides of the server wide activity milestones (config.milestones.defaults)
+  milestones?: Partial<MilestoneSettings>;
+  // Overrides of the server wide cooldowns (config.cooldowns)
+  cooldowns?: CooldownSettings;
+  // IANA time zone of the windows and quiet hours, config.timeZone when unset
+  timeZone?: string;
+  // Which of a friend's simultaneous activities drives content, config.discord.activityPriority
+  // when unset
+  activityPriority?: ActivityType[];
+}
+
+export interface DeliveryPacingSettings {
+  enabled: boolean;
+  // Random wait between a delivery being dispatched and the worker starting to type
+  minDelayMs: number;
+  maxDelayMs: number;
+  typingMsPerChar: number;
+  maxTypingMs: number;
+  // Maximum DMs in a rolling hour and day, 0 for no limit
+  hourlyBudget: number;
+  dailyBudget: number;
+  // No DMs are sent between start and end ("HH:mm", in the account's time zone)
+  quietHours: { start: string; end: string } | null;
 }
 
 export interface IDiscordAccount extends Document {
@@ -57,6 +95,53 @@ export interface IDiscordAccount extends Document {
 
 export type IDiscordAccountModel = IDiscordAccount & IDiscordAccountMethods;
 
+// Also used for the friends' own cooldowns
+export const cooldownSettingsSchema = new Schema(
+  {
+    minutes: { type: Number, min: 0 },
+    activityTypes: {
+      GAME: { type: Number, min: 0 },
+      MUSIC: { type: Number, min: 0 },
+      STREAMING: { type: Number, min: 0 },
+      WATCHING: { type: Number, min: 0 },
+      CUSTOM: { type: Number, min: 0 },
+      COMPETING: { type: Number, min: 0 },
+    },
+    activities: {
+      type: [
+        {
+          _id: false,
+          name: { type: String, required: true, trim: true },
+          minutes: { type: Number, min: 0, required: true },
+        },
+      ],
+      default: undefined,
+    },
+  },
+  { _id: false },
+);
+
+// Also used for the windows friends may get content in
+export const timeWindowSchema = new Schema(
+  {
+    start: String,
+    end: String,
+    days: {
+      type: [{ type: Number, min: 0, max: 6 }],
+      default: undefined,
+    },
+  },
+  { _id: false },
+);
+
+export const timeZoneField = {
+  type: String,
+  validate: {
+    validator: (value: string) => !value || isValidTimeZone(value),
+    message: "Unknown time zone",
+  },
+};
+
 const discordAccountSchema = new Schema<IDiscordAccountModel>(
   {
     userId: {
@@ -107,6 +192,10 @@ const discordAccountSchema = new Schema<IDiscordAccountModel>(
           type: Boolean,
           default: true,
         },
+        providers: {
+          type: [String],
+          default: [],
+        },
       },
       deliveryPreferences: {
         frequency: {
@@ -114,12 +203,7 @@ const discordAccountSchema = new Schema<IDiscordAccountModel>(
           default: 3600000, // 1 hour
         },
         timeWindows: {
-          type: [
-            {
-              start: String,
-              end: String,
-            },
-          ],
+          type: [timeWindowSchema],
           default: [
             {
               start: "09:00",
@@ -128,6 +212,50 @@ const discordAccountSchema = new Schema<IDiscordAccountModel>(
           ],
         },
       },
+      deduplication: {
+        scope: {
+          type: String,
+          enum: ["friend", "account"],
+        },
+        lookbackDays: {
+          type: Number,
+          min: 1,
+        },
+      },
+      pacing: {
+        enabled: Boolean,
+        minDelayMs: { type: Number, min: 0 },
+        maxDelayMs: { type: Number, min: 0 },
+        typingMsPerChar: { type: Number, min: 0 },
+        maxTypingMs: { type: Number, min: 0 },
+        hourlyBudget: { type: Number, min: 0 },
+        dailyBudget: { type: Number, min: 0 },
+        quietHours: {
+          type: {
+            start: String,
+            end: String,
+          },
+          default: undefined,
+        },
+      },
+      milestones: {
+        enabled: Boolean,
+        longSessionHours: { type: Number, min: 0 },
+        weeklySessions: { type: Number, min: 0 },
+        firstTime: Boolean,
+        comebackDays: { type: Number, min: 0 },
+        allDayHours: { type: Number, min: 0 },
+      },
+      cooldowns: {
+        type: cooldownSettingsSchema,
+        default: undefined,
+      },
+      timeZone: timeZoneField,
+      activityPriority: {
+        type: [String],
+        enum: ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"],
+        default: undefined,
+      },
     },
     status: {
       isConnected: {
@@ -142,6 +270,17 @@ const discordAccountSchema = new Schema<IDiscordAccountModel>(
         type: Date,
         default: null,
       },
+      degraded: {
+        type: Boolean,
+        default: false,
+      },
+      degradedAt: {
+        type: Date,
+        default: null,
+      },
+      degradedReason: {
+        type: String,
+      },
       currentActivity: {
         type: Schema.Types.Mixed,
         default: undefined,
@@ -1,5 +1,13 @@
 import mongoose, { Document } from "mongoose";
-import { IDiscordAccount } from "./DiscordAccount";
+import {
+  IDiscordAccount,
+  cooldownSettingsSchema,
+  timeWindowSchema,
+  timeZoneField,
+} from "./DiscordAccount";
+import { FriendFrequency, FriendSource } from "../types/worker";
+import { CooldownSettings } from "../types/cooldowns";
+import { TimeWindow } from "../utils/timeWindows";
 
 type ActivityType = "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
 
@@ -64,13 +72,32 @@ export interface IFriend extends Document {
   lastActivity: Activity;
   contentReceived: number;
   lastContentTime: Date | null;
+  /** Where the account knows the friend from, as of the last sync */
+  sources: FriendSource[];
+  /** When the friend was last found on Discord */
+  lastSyncedAt?: Date;
+  /** Set once a sync no longer found the friend; cleared when they are back */
+  removedAt: Date | null;
+  /** Labels given by the account's owner, used by trigger rules */
+  tags: string[];
+  /** Overrides of the account's and the server's cooldowns */
+  cooldowns?: CooldownSettings;
+  /** IANA time zone of the friend's windows, the account's when unset */
+  timeZone?: string;
   contentPreferences: {
+    /** Activities the friend wants content about, set by DM with "only" and "everything" */
     enabledTypes: string[];
     blacklist: string[];
     timeRestrictions: {
       startHour: number;
       endHour: number;
     };
+    /** Windows the friend may get content in; replace timeRestrictions when set */
+    timeWindows: TimeWindow[];
+    /** The friend asked by DM not to receive anything */
+    optedOut: boolean;
+    optedOutAt: Date | null;
+    frequency: FriendFrequency;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -137,10 +164,29 @@ const friendSchema = new mongoose.Schema<IFriend>(
       type: Date,
       default: null,
     },
+    sources: {
+      type: [String],
+      enum: ["friend", "dm", "guild"],
+      default: [],
+    },
+    lastSyncedAt: Date,
+    removedAt: {
+      type: Date,
+      default: null,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    cooldowns: {
+      type: cooldownSettingsSchema,
+      default: undefined,
+    },
+    timeZone: timeZoneField,
     contentPreferences: {
       enabledTypes: {
         type: [String],
-        default: ["meme", "gif"],
+        default: ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"],
       },
       blacklist: {
         type: [String],
@@ -160,6 +206,23 @@ const friendSchema = new mongoose.Schema<IFriend>(
           max: 23,
         },
       },
+      timeWindows: {
+        type: [timeWindowSchema],
+        default: [],
+      },
+      optedOut: {
+        type: Boolean,
+        default: false,
+      },
+      optedOutAt: {
+        type: Date,
+        default: null,
+      },
+      frequency: {
+        type: String,
+        enum: ["less", "normal", "more"],
+        default: "normal",
+      },
     },
   },
   {
@@ -0,0 +1,64 @@
+import { Schema, model, Types, Document } from "mongoose";
+import { FriendSyncTrigger } from "../types/worker";
+
+export interface IFriendSync extends Document {
+  _id: Types.ObjectId;
+  discordAccountId: Types.ObjectId;
+  /** What made the worker sync: connecting, a relationship change or a request */
+  trigger: FriendSyncTrigger;
+  added: Array<{ userId: string; username: string }>;
+  removed: Array<{ userId: string; username: string }>;
+  renamed: Array<{ userId: string; from: string; to: string }>;
+  /** Friends found on Discord */
+  total: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FriendRefSchema = new Schema(
+  {
+    userId: { type: String, required: true },
+    username: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const FriendSyncSchema = new Schema<IFriendSync>(
+  {
+    discordAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: "DiscordAccount",
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: ["ready", "relationship", "manual"],
+      required: true,
+    },
+    added: [FriendRefSchema],
+    removed: [FriendRefSchema],
+    renamed: [
+      new Schema(
+        {
+          userId: { type: String, required: true },
+          from: { type: String, required: true },
+          to: { type: String, required: true },
+        },
+        { _id: false },
+      ),
+    ],
+    total: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+FriendSyncSchema.index({ discordAccountId: 1, createdAt: -1 });
+// Keep sync history for 30 days
+FriendSyncSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const FriendSync = model<IFriendSync>("FriendSync", FriendSyncSchema);
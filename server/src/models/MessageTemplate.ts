@@ -0,0 +1,75 @@
+import { Schema, model, Types, Document } from "mongoose";
+import { MilestoneKind } from "../types/milestones";
+
+export type MessageDeliveryMode = "embed" | "link";
+
+export interface IMessageTemplate extends Document {
+  _id: Types.ObjectId;
+  discordAccountId: Types.ObjectId;
+  /** Set for templates that only apply to one friend, null for account wide templates */
+  friendId: Types.ObjectId | null;
+  name: string;
+  /** Activity types the template is used for, empty for all */
+  activityTypes: Array<"GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING">;
+  /** Milestones the template celebrates, empty for plain activity changes */
+  milestones: MilestoneKind[];
+  /** Message variants, one is picked at random for every delivery */
+  variants: string[];
+  mode: MessageDeliveryMode;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MessageTemplateSchema = new Schema<IMessageTemplate>(
+  {
+    discordAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: "DiscordAccount",
+      required: true,
+    },
+    friendId: {
+      type: Schema.Types.ObjectId,
+      ref: "Friend",
+      default: null,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    activityTypes: {
+      type: [String],
+      enum: ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"],
+      default: [],
+    },
+    milestones: {
+      type: [String],
+      enum: ["longSession", "weeklySessions", "firstTime", "comeback", "allDay"],
+      default: [],
+    },
+    variants: {
+      type: [String],
+      validate: {
+        validator: (variants: string[]) => variants.length > 0,
+        message: "A template needs at least one variant",
+      },
+    },
+    mode: {
+      type: String,
+      enum: ["embed", "link"],
+      default: "embed",
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+MessageTemplateSchema.index({ discordAccountId: 1, friendId: 1, isActive: 1 });
+
+export const MessageTemplate = model<IMessageTemplate>("MessageTemplate", MessageTemplateSchema);
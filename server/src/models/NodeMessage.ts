@@ -0,0 +1,37 @@
+import { Schema, model, Types, Document } from "mongoose";
+import { WorkerMessage } from "../types/worker";
+
+export interface INodeMessage extends Document {
+  /** Node that owns the account and should handle the message */
+  nodeId: string;
+  discordAccountId: Types.ObjectId;
+  message: WorkerMessage;
+  createdAt: Date;
+}
+
+const NodeMessageSchema = new Schema<INodeMessage>(
+  {
+    nodeId: {
+      type: String,
+      required: true,
+    },
+    discordAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: "DiscordAccount",
+      required: true,
+    },
+    message: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+NodeMessageSchema.index({ nodeId: 1, createdAt: 1 });
+// Messages for a node that died before picking them up are dropped
+NodeMessageSchema.index({ createdAt: 1 }, { expireAfterSeconds: 10 * 60 });
+
+export const NodeMessage = model<INodeMessage>("NodeMessage", NodeMessageSchema);
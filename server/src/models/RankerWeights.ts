@@ -0,0 +1,45 @@
+import { Schema, model, Document } from "mongoose";
+
+export type RankerScope = "global" | "account" | "friend";
+
+export interface IRankerWeights extends Document {
+  scope: RankerScope;
+  /** Account or friend id, "global" for the global model */
+  scopeId: string;
+  weights: Record<string, number>;
+  /** Number of feedback signals learned from */
+  samples: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RankerWeightsSchema = new Schema<IRankerWeights>(
+  {
+    scope: {
+      type: String,
+      enum: ["global", "account", "friend"],
+      required: true,
+    },
+    scopeId: {
+      type: String,
+      required: true,
+    },
+    // Feature name -> weight, updated in place with $inc
+    weights: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    samples: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  },
+);
+
+RankerWeightsSchema.index({ scope: 1, scopeId: 1 }, { unique: true });
+
+export const RankerWeights = model<IRankerWeights>("RankerWeights", RankerWeightsSchema);
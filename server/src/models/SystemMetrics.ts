@@ -13,6 +13,14 @@ export interface ISystemMetrics {
   activeUsers: number;
   requestsPerMinute: number;
   errorRate: number;
+  // Heap of the worker threads in MB, to compare dedicated and pooled workers
+  workerMemory?: {
+    mode: "dedicated" | "pooled";
+    threads: number;
+    accounts: number;
+    heapUsed: number;
+    perAccount: number;
+  };
 }
 
 const systemMetricsSchema = new mongoose.Schema<ISystemMetrics>({
@@ -66,6 +74,16 @@ const systemMetricsSchema = new mongoose.Schema<ISystemMetrics>({
     required: true,
     min: 0,
   },
+  workerMemory: {
+    mode: {
+      type: String,
+      enum: ["dedicated", "pooled"],
+    },
+    threads: Number,
+    accounts: Number,
+    heapUsed: Number,
+    perAccount: Number,
+  },
 });
 
 // Add indexes
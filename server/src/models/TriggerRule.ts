@@ -0,0 +1,83 @@
+import { Schema, model, Types, Document } from "mongoose";
+import { TriggerRuleAction, TriggerRuleConditions } from "../types/rules";
+
+export interface ITriggerRule extends Document {
+  _id: Types.ObjectId;
+  discordAccountId: Types.ObjectId;
+  /** Set for rules that only apply to one friend, null for account wide rules */
+  friendId: Types.ObjectId | null;
+  name: string;
+  /** Lower priorities are tried first */
+  priority: number;
+  conditions: TriggerRuleConditions;
+  action: TriggerRuleAction;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ACTIVITY_TYPES = ["GAME", "MUSIC", "STREAMING", "WATCHING", "CUSTOM", "COMPETING"];
+
+const TriggerRuleSchema = new Schema<ITriggerRule>(
+  {
+    discordAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: "DiscordAccount",
+      required: true,
+    },
+    friendId: {
+      type: Schema.Types.ObjectId,
+      ref: "Friend",
+      default: null,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    priority: {
+      type: Number,
+      default: 100,
+    },
+    conditions: {
+      activityTypes: { type: [String], enum: ACTIVITY_TYPES, default: undefined },
+      alongside: { type: [String], enum: ACTIVITY_TYPES, default: undefined },
+      namePattern: String,
+      minSessionMinutes: { type: Number, min: 0 },
+      maxSessionMinutes: { type: Number, min: 0 },
+      hours: {
+        type: new Schema(
+          {
+            start: { type: Number, min: 0, max: 23, required: true },
+            end: { type: Number, min: 0, max: 24, required: true },
+          },
+          { _id: false },
+        ),
+        default: undefined,
+      },
+      daysOfWeek: { type: [Number], default: undefined },
+      friendTags: { type: [String], default: undefined },
+    },
+    action: {
+      type: {
+        type: String,
+        enum: ["send", "skip", "delay"],
+        required: true,
+      },
+      delayMinutes: { type: Number, min: 0 },
+      provider: String,
+      templateId: { type: Schema.Types.ObjectId, ref: "MessageTemplate" },
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+TriggerRuleSchema.index({ discordAccountId: 1, friendId: 1, isActive: 1 });
+
+export const TriggerRule = model<ITriggerRule>("TriggerRule", TriggerRuleSchema);
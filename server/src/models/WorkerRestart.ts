@@ -0,0 +1,61 @@
+import { Schema, model, Types, Document } from "mongoose";
+
+export type WorkerRestartReason = "crashed" | "exited" | "stalled" | "unresponsive";
+
+export interface IWorkerRestart extends Document {
+  _id: Types.ObjectId;
+  discordAccountId: Types.ObjectId;
+  reason: WorkerRestartReason;
+  /** Exit code of the worker thread, if it exited */
+  exitCode?: number;
+  /** Last error the worker reported before it went down */
+  error?: string;
+  /** Consecutive restarts without the worker connecting in between */
+  attempt: number;
+  /** Wait before the restart, 0 when the account was parked instead */
+  delayMs: number;
+  /** Whether the worker was restarted or the account parked as degraded */
+  action: "restart" | "degrade";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkerRestartSchema = new Schema<IWorkerRestart>(
+  {
+    discordAccountId: {
+      type: Schema.Types.ObjectId,
+      ref: "DiscordAccount",
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: ["crashed", "exited", "stalled", "unresponsive"],
+      required: true,
+    },
+    exitCode: Number,
+    error: String,
+    attempt: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    delayMs: {
+      type: Number,
+      default: 0,
+    },
+    action: {
+      type: String,
+      enum: ["restart", "degrade"],
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+WorkerRestartSchema.index({ discordAccountId: 1, createdAt: -1 });
+// Keep restart history for 30 days
+WorkerRestartSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const WorkerRestart = model<IWorkerRestart>("WorkerRestart", WorkerRestartSchema);
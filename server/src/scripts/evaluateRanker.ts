@@ -0,0 +1,78 @@
+import mongoose from "mongoose";
+import { ContentHistory } from "../models/ContentHistory";
+import config from "../config";
+import logger from "../utils/logger";
+import { historyExamples, replayFeedback, ReplaySample } from "../services/ranking";
+
+// Usage: npm run evaluate:ranker -- [--days 90] [--account <discordAccountId>]
+const parseArgs = (argv: string[]): { days?: number; accountId?: string } => {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  const days = value("--days");
+  return { days: days ? parseInt(days, 10) : undefined, accountId: value("--account") };
+};
+
+const formatMetric = (value: number) => value.toFixed(3);
+
+/**
+ * Replay stored feedback through a fresh ranker in delivery order and report how well it
+ * predicts what friends liked, compared with the keyword heuristic
+ */
+const evaluateRanker = async () => {
+  const { days, accountId } = parseArgs(process.argv.slice(2));
+
+  try {
+    await mongoose.connect(config.mongodb.uri);
+    logger.info("Connected to MongoDB");
+
+    const history = await ContentHistory.find({
+      "ranking.features": { $exists: true },
+      $or: [{ "userFeedback.rating": { $exists: true } }, { status: "FAILED" }],
+      ...(accountId && { discordAccountId: new mongoose.Types.ObjectId(accountId) }),
+      ...(days && { createdAt: { $gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) } }),
+    })
+      .sort({ createdAt: 1 })
+      .select("discordAccountId friendId ranking status userFeedback")
+      .lean();
+
+    const samples: ReplaySample[] = history.flatMap(entry =>
+      historyExamples(entry).map(example => ({
+        accountId: entry.discordAccountId.toString(),
+        friendId: entry.friendId.toString(),
+        features: entry.ranking!.features,
+        ...example,
+      })),
+    );
+
+    if (!samples.length) {
+      logger.warn("No labeled content history to evaluate the ranker on");
+      return;
+    }
+
+    const { learningRates, l2 } = config.content.ranker;
+    const report = replayFeedback(samples, {
+      learningRates: [learningRates.global, learningRates.account, learningRates.friend],
+      l2,
+    });
+
+    logger.info(
+      `Replayed ${report.samples} feedback signals from ${history.length} deliveries ` +
+        `(${report.positives} liked, ${report.negatives} disliked)`,
+    );
+    logger.info(
+      `Learned ranker: AUC ${formatMetric(report.learned.auc)}, ` +
+        `log loss ${formatMetric(report.learned.logLoss)}, ` +
+        `accuracy ${formatMetric(report.learned.accuracy)}`,
+    );
+    logger.info(`Keyword heuristic: AUC ${formatMetric(report.heuristic.auc)}`);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+evaluateRanker().catch(error => {
+  logger.error("Failed to evaluate ranker:", error);
+  process.exit(1);
+});
@@ -1,11 +1,11 @@
 import app from "./app";
 import config from "./config";
 import logger, { initSocketTransport } from "./utils/logger";
-import { DiscordAccountService } from "./services/DiscordAccountService";
 import { createServer } from "http";
 import socketService from "./services/SocketService";
+import { ShutdownService } from "./services/ShutdownService";
 
-const startServer = async () => {
+const startServer = () => {
   try {
     // Create HTTP server
     const httpServer = createServer(app);
@@ -22,36 +22,8 @@ const startServer = async () => {
       logger.info(`Socket.io server is initialized and ready for connections`);
     });
 
-    // Handle graceful shutdown
-    const gracefulShutdown = async () => {
-      logger.info("Received shutdown signal. Starting graceful shutdown...");
-
-      try {
-        // Stop all Discord clients
-        const accountService = DiscordAccountService.getInstance();
-        await accountService.stopAllWorkers();
-
-        // Shutdown Socket.io
-        socketService.shutdown();
-
-        // Close server
-        server.close(() => {
-          logger.info("Server closed successfully");
-          process.exit(0);
-        });
-      } catch (error) {
-        logger.error("Error during shutdown:", error);
-        process.exit(1);
-      }
-    };
-
-    process.on("SIGTERM", gracefulShutdown);
-    process.on("SIGINT", gracefulShutdown);
-
-    // Start active Discord clients
-    const accountService = DiscordAccountService.getInstance();
-    await accountService.startAllWorkers();
-    logger.info("Started all active Discord clients");
+    // Drain the workers before exiting; the workers themselves are started by the app
+    ShutdownService.getInstance().handleSignals(server);
   } catch (error) {
     logger.error("Failed to start server:", error);
     process.exit(1);
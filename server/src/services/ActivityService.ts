@@ -1,25 +1,64 @@
 import { Types } from "mongoose";
+import config from "../config";
 import logger from "../utils/logger";
 import { ActivityHistory, IActivityHistory } from "../models/ActivityHistory";
-import { Friend } from "../models/Friend";
-import { ActivityState, WorkerPresenceEvent } from "../types/worker";
+import { DiscordAccount } from "../models/DiscordAccount";
+import { Friend, IFriend } from "../models/Friend";
+import { ActivityState, FriendPresence, WorkerPresenceEvent } from "../types/worker";
+import { ActivityMilestone, MilestoneSettings } from "../types/milestones";
+import {
+  ActivitySummary,
+  MAX_SESSION_MS,
+  activityName,
+  sessionDuration,
+  sessionStart,
+  summarizeSessions,
+} from "../utils/activitySessions";
+import {
+  ongoingMilestones,
+  resolveMilestoneSettings,
+  startMilestones,
+  startOfDay,
+} from "../utils/activityMilestones";
+import { alongsideTypes, isSameActivity } from "../utils/activitySets";
+import { wantedActivityTypes } from "../utils/friendPreferences";
+import { hoursToTimeWindows, isWithinTimeWindows, resolveTimeZone } from "../utils/timeWindows";
 import { ContentService } from "./ContentService";
+import { TriggerRuleService } from "./TriggerRuleService";
+import { CooldownService } from "./CooldownService";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+type MilestoneSession = Pick<
+  IActivityHistory,
+  "_id" | "friendId" | "discordAccountId" | "type" | "name" | "details" | "milestones"
+>;
 
 interface ProcessResult {
+  /** Whether content was queued for the friend */
   shouldSendContent: boolean;
   cooldownMs?: number;
   contentType?: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
   trigger?: string;
+  /** Set by the trigger rule that decided */
+  delayMs?: number;
+  provider?: string;
+  templateId?: string;
+  rule?: { id?: string; name: string };
 }
 
 export class ActivityService {
   private static instance: ActivityService;
   private contentService: ContentService;
-  private cooldowns: Map<string, Date> = new Map();
-  private readonly DEFAULT_COOLDOWN = 30 * 60 * 1000; // 30 minutes
+  private rules: TriggerRuleService;
+  private cooldowns: CooldownService;
+  // Session updates of each friend, run one after the other
+  private sessionUpdates: Map<string, Promise<void>> = new Map();
 
   private constructor() {
     this.contentService = ContentService.getInstance();
+    this.rules = TriggerRuleService.getInstance();
+    this.cooldowns = CooldownService.getInstance();
   }
 
   public static getInstance(): ActivityService {
@@ -29,6 +68,10 @@ export class ActivityService {
     return ActivityService.instance;
   }
 
+  /**
+   * Send a friend content about the activity they just started, as the account's trigger rules
+   * decide, unless it is not one they want, outside their time windows or they are on cooldown
+   */
   public async processActivity(event: WorkerPresenceEvent): Promise<ProcessResult> {
     try {
       // Skip if no new activity
@@ -36,44 +79,82 @@ export class ActivityService {
         return { shouldSendContent: false };
       }
 
-      // Log the activity
-      const activity = await this.logActivity(event);
+      // Rules of the friend and the account decide first
+      const decision = await this.rules.evaluate(event);
+      if (decision?.action === "skip") {
+        return { shouldSendContent: false, rule: decision.rule };
+      }
 
-      // Check if we should process this activity
-      if (!this.shouldProcessActivity(event.newActivity)) {
-        return { shouldSendContent: false };
+      // Only the activities alongside changed: content just for combinations a rule asks for
+      if (isSameActivity(event.oldActivity, event.newActivity)) {
+        const before = alongsideTypes(event.oldActivity);
+        if (!decision?.alongside?.some(type => !before.includes(type))) {
+          return { shouldSendContent: false };
+        }
       }
 
       // Get friend settings
-      const friend = await Friend.findOne({ userId: event.friendId });
-      if (!friend || !friend.contentPreferences.enabledTypes.includes(event.newActivity.type)) {
+      const friend = await Friend.findOne({
+        discordAccountId: new Types.ObjectId(event.accountId),
+        userId: event.friendId,
+      });
+      const wanted = wantedActivityTypes(friend?.contentPreferences.enabledTypes);
+      if (!friend || (wanted.length > 0 && !wanted.includes(event.newActivity.type))) {
         return { shouldSendContent: false };
       }
 
-      // Check time restrictions
-      if (!this.isWithinAllowedTime(friend.contentPreferences.timeRestrictions)) {
+      // Check the friend's time windows
+      if (!(await this.isWithinFriendWindows(friend, event.accountId))) {
         return { shouldSendContent: false };
       }
 
-      // Check cooldown
-      const cooldownKey = `${event.accountId}:${event.friendId}`;
-      if (this.isOnCooldown(cooldownKey)) {
-        return {
-          shouldSendContent: false,
-          cooldownMs: this.getRemainingCooldown(cooldownKey),
-        };
+      // Content is attached to the session the worker's update opened
+      const session = await this.openSession(event.accountId, event.friendId, friend._id);
+      if (!session) {
+        return { shouldSendContent: false };
+      }
+
+      const contentType = event.newActivity.type;
+      const trigger = activityName(event.newActivity);
+      // The cooldown is taken before content is looked for, so no other trigger sends meanwhile
+      const claim = await this.cooldowns.claim(event.accountId, friend, {
+        type: contentType,
+        name: trigger,
+      });
+      if (!claim.claimed) {
+        const cooldownMs = await this.cooldowns.getRemaining(event.accountId, friend._id);
+        return { shouldSendContent: false, cooldownMs };
       }
 
-      // Set cooldown
-      this.setCooldown(cooldownKey);
+      const sent = await this.contentService.handleActivityTrigger(
+        event.accountId,
+        friend._id.toString(),
+        session._id.toString(),
+        contentType,
+        trigger,
+        event.newActivity,
+        {
+          delayMs: decision?.delayMs || undefined,
+          provider: decision?.provider,
+          templateId: decision?.templateId,
+        },
+      );
+      if (!sent) {
+        // Nothing was sent, so the friend is not held back for it
+        if (claim.cooldown) await this.cooldowns.release(claim.cooldown);
+        return { shouldSendContent: false, rule: decision?.rule };
+      }
 
-      // Mark activity as processed
-      await activity.markProcessed();
+      await session.markProcessed();
 
       return {
         shouldSendContent: true,
-        contentType: event.newActivity.type,
-        trigger: this.getTriggerFromActivity(event.newActivity),
+        contentType,
+        trigger,
+        delayMs: decision?.delayMs || undefined,
+        provider: decision?.provider,
+        templateId: decision?.templateId,
+        rule: decision?.rule,
       };
     } catch (error) {
       logger.error("Error processing activity:", error);
@@ -81,79 +162,545 @@ export class ActivityService {
     }
   }
 
-  private async logActivity(event: WorkerPresenceEvent): Promise<IActivityHistory> {
-    const activity = new ActivityHistory({
-      friendId: new Types.ObjectId(event.friendId),
-      discordAccountId: new Types.ObjectId(event.accountId),
-      type: event.newActivity?.type,
-      details: event.newActivity?.details,
+  /**
+   * Store the presence a worker last saw as the friends' last activity
+   * @returns Number of friends updated
+   */
+  public async saveLastActivities(
+    accountId: string,
+    activities: FriendPresence[],
+  ): Promise<number> {
+    if (activities.length === 0) return 0;
+
+    const result = await Friend.bulkWrite(
+      activities.map(({ userId, activity }) => ({
+        updateOne: {
+          filter: { discordAccountId: new Types.ObjectId(accountId), userId },
+          update: { $set: { lastActivity: this.toFriendActivity(activity) } },
+        },
+      })),
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Record a friend's current activity as seen by the account's worker, or clear it once the
+   * friend stopped
+   */
+  public async savePresence(
+    accountId: string,
+    userId: string,
+    activity: ActivityState | null,
+  ): Promise<void> {
+    await Friend.updateOne(
+      { discordAccountId: new Types.ObjectId(accountId), userId },
+      activity
+        ? { $set: { lastActivity: this.toFriendActivity(activity) } }
+        : { $unset: { lastActivity: 1 } },
+    );
+  }
+
+  /**
+   * Presence of the account's friends as last saved, to hand to a starting worker
+   */
+  public async loadLastActivities(accountId: string): Promise<FriendPresence[]> {
+    const friends = await Friend.find({
+      discordAccountId: new Types.ObjectId(accountId),
+      "lastActivity.type": { $exists: true },
+    })
+      .select("userId lastActivity")
+      .lean();
+
+    return friends.map(friend => ({
+      userId: friend.userId,
+      activity: this.toActivityState(friend.lastActivity),
+    }));
+  }
+
+  /**
+   * Close the friend's open activity session once they stopped or moved on, and open one for
+   * what they do now. Updates of the same friend are applied in the order they were seen.
+   * Sessions seen during the worker's warm-up are mostly ongoing ones, so they celebrate no
+   * milestones.
+   */
+  public trackSession(
+    accountId: string,
+    userId: string,
+    activity: ActivityState | null,
+    { seenAt = new Date(), warmup = false }: { seenAt?: Date; warmup?: boolean } = {},
+  ): Promise<void> {
+    const key = `${accountId}:${userId}`;
+    const previous = this.sessionUpdates.get(key) || Promise.resolve();
+    const update = previous
+      .then(() => this.updateSession(accountId, userId, activity, seenAt, warmup))
+      .finally(() => {
+        if (this.sessionUpdates.get(key) === update) this.sessionUpdates.delete(key);
+      });
+    this.sessionUpdates.set(key, update);
+    return update;
+  }
+
+  private async updateSession(
+    accountId: string,
+    userId: string,
+    activity: ActivityState | null,
+    seenAt: Date,
+    warmup: boolean,
+  ): Promise<void> {
+    const discordAccountId = new Types.ObjectId(accountId);
+    const friend = await Friend.findOne({ discordAccountId, userId }).select("_id").lean();
+    if (!friend) return;
+
+    const name = activity ? activityName(activity) : undefined;
+    const open = await this.findOpenSession(friend._id);
+
+    // Still the same activity, e.g. presence restored into a restarted worker
+    if (open && activity && open.type === activity.type && open.name === name) return;
+
+    let previousEnd: Date | undefined;
+    if (open) {
+      const durationMs = sessionDuration({
+        type: open.type,
+        name: open.name || "",
+        startedAt: open.details.startedAt,
+        endedAt: seenAt,
+      });
+      previousEnd = new Date(open.details.startedAt.getTime() + durationMs);
+      await ActivityHistory.updateOne(
+        { _id: open._id },
+        { $set: { "details.endedAt": previousEnd, "details.durationMs": durationMs } },
+      );
+    }
+    if (!activity) return;
+
+    const session = await ActivityHistory.create({
+      friendId: friend._id,
+      discordAccountId,
+      type: activity.type,
+      name,
+      details: {
+        ...activity.details,
+        startedAt: sessionStart(activity.details.startedAt, seenAt, previousEnd),
+      },
       processed: false,
     });
 
-    await activity.save();
-    return activity;
+    if (warmup) return;
+    // Content for milestones is found without holding up the friend's next update
+    this.checkStartMilestones(session).catch(error =>
+      logger.error("Failed to check activity milestones:", error),
+    );
   }
 
-  private isOnCooldown(key: string): boolean {
-    const lastTime = this.cooldowns.get(key);
-    if (!lastTime) return false;
+  private findOpenSession(friendId: Types.ObjectId) {
+    return ActivityHistory.findOne({ friendId, "details.endedAt": null }).sort({
+      "details.startedAt": -1,
+    });
+  }
 
-    const now = new Date();
-    return now.getTime() - lastTime.getTime() < this.DEFAULT_COOLDOWN;
+  /**
+   * The friend's ongoing session, once the updates seen before have been saved
+   */
+  private async openSession(
+    accountId: string,
+    userId: string,
+    friendId: Types.ObjectId,
+  ): Promise<IActivityHistory | null> {
+    // Failures were already reported to whoever tracked the session
+    await this.sessionUpdates.get(`${accountId}:${userId}`)?.catch(() => undefined);
+    return this.findOpenSession(friendId);
   }
 
-  private setCooldown(key: string): void {
-    this.cooldowns.set(key, new Date());
+  /**
+   * Celebrate a new session that is the friend's first of the activity, a comeback to it or
+   * the Nth of it this week
+   */
+  private async checkStartMilestones(session: MilestoneSession): Promise<number> {
+    const settings = await this.getMilestoneSettings(session.discordAccountId);
+    if (!settings?.enabled || !session.name) return 0;
+
+    const { friendId, type, name } = session;
+    const startedAt = session.details.startedAt;
+    const [first, last, sessionsThisWeek] = await Promise.all([
+      ActivityHistory.findOne({ friendId, _id: { $ne: session._id } })
+        .sort({ "details.startedAt": 1 })
+        .select("details.startedAt")
+        .lean(),
+      ActivityHistory.findOne({ friendId, type, name, _id: { $ne: session._id } })
+        .sort({ "details.startedAt": -1 })
+        .select("details.startedAt details.endedAt")
+        .lean(),
+      ActivityHistory.countDocuments({
+        friendId,
+        type,
+        name,
+        "details.startedAt": { $gt: new Date(startedAt.getTime() - WEEK_MS) },
+      }),
+    ]);
+
+    const milestones = startMilestones(
+      settings,
+      { type, name, startedAt },
+      {
+        trackedSince: first?.details.startedAt || null,
+        lastEndedAt: last ? last.details.endedAt || last.details.startedAt : null,
+        sessionsThisWeek,
+      },
+    );
+    return this.celebrate(session, milestones);
   }
 
-  private getRemainingCooldown(key: string): number {
-    const lastTime = this.cooldowns.get(key);
-    if (!lastTime) return 0;
+  /**
+   * Celebrate the open sessions of connected accounts that went on for hours, or add up to most
+   * of the day on one activity
+   * @returns Number of milestones reached
+   */
+  public async checkOpenSessionMilestones(now: Date = new Date()): Promise<number> {
+    const accounts = await DiscordAccount.find({ isActive: true, "status.isConnected": true })
+      .select("_id settings.milestones")
+      .lean();
+
+    let reached = 0;
+    for (const account of accounts) {
+      const settings = resolveMilestoneSettings(
+        config.milestones.defaults,
+        account.settings?.milestones,
+      );
+      if (!settings.enabled || (!settings.longSessionHours && !settings.allDayHours)) continue;
+
+      // Sessions open for longer than that are ones the worker lost track of
+      const open = await ActivityHistory.find({
+        discordAccountId: account._id,
+        "details.endedAt": null,
+        "details.startedAt": { $gte: new Date(now.getTime() - MAX_SESSION_MS) },
+        name: { $nin: [null, ""] },
+      })
+        .select("friendId discordAccountId type name details milestones")
+        .lean();
 
-    const now = new Date();
-    const elapsed = now.getTime() - lastTime.getTime();
-    return Math.max(0, this.DEFAULT_COOLDOWN - elapsed);
+      for (const session of open) {
+        reached += await this.checkOngoingMilestones(settings, session, now);
+      }
+    }
+    return reached;
   }
 
-  private shouldProcessActivity(activity: ActivityState): boolean {
-    console.log("shouldProcessActivity", !!activity);
-    // Add any additional validation logic here
-    return true;
+  private async checkOngoingMilestones(
+    settings: MilestoneSettings,
+    session: MilestoneSession,
+    now: Date,
+  ): Promise<number> {
+    const { friendId, type, name } = session;
+    const dayStart = startOfDay(now);
+    const [today, allDay] = settings.allDayHours
+      ? await Promise.all([
+          ActivityHistory.find({
+            friendId,
+            type,
+            name,
+            "details.startedAt": { $gte: new Date(dayStart.getTime() - MAX_SESSION_MS) },
+          })
+            .select("details.startedAt details.endedAt")
+            .lean(),
+          ActivityHistory.exists({
+            friendId,
+            type,
+            name,
+            milestones: "allDay",
+            "details.startedAt": { $gte: dayStart },
+          }),
+        ])
+      : [[], null];
+
+    const milestones = ongoingMilestones(
+      settings,
+      {
+        type,
+        name: name || "",
+        startedAt: session.details.startedAt,
+        endedAt: null,
+      },
+      today.map(earlier => ({
+        type,
+        name: name || "",
+        startedAt: earlier.details.startedAt,
+        endedAt: earlier.details.endedAt || null,
+      })),
+      {
+        session: session.milestones || [],
+        allDay: !!allDay || !!session.milestones?.includes("allDay"),
+      },
+      now,
+    );
+    return this.celebrate(session, milestones);
   }
 
-  private isWithinAllowedTime(restrictions: { startHour: number; endHour: number }): boolean {
-    if (!restrictions) return true;
+  /**
+   * Record the milestones reached in a session and send the friend content for the first one.
+   * Every milestone is claimed on the session, so no two server nodes celebrate it twice.
+   * @returns Number of milestones claimed
+   */
+  private async celebrate(
+    session: MilestoneSession,
+    milestones: ActivityMilestone[],
+  ): Promise<number> {
+    const claimed: ActivityMilestone[] = [];
+    for (const milestone of milestones) {
+      const result = await ActivityHistory.updateOne(
+        { _id: session._id, milestones: { $ne: milestone.kind } },
+        { $push: { milestones: milestone.kind } },
+      );
+      if (result.modifiedCount > 0) claimed.push(milestone);
+    }
+    if (claimed.length === 0) return 0;
+
+    const [milestone] = claimed;
+    const friend = await Friend.findById(session.friendId)
+      .select("userId cooldowns contentPreferences")
+      .lean();
+    if (!friend) return claimed.length;
 
-    const now = new Date();
-    const hour = now.getHours();
+    const accountId = session.discordAccountId.toString();
+    const activity: ActivityState = { type: session.type, details: session.details };
+    const decision = await this.rules.evaluate({
+      accountId,
+      friendId: friend.userId,
+      oldActivity: null,
+      newActivity: activity,
+      timestamp: new Date().toISOString(),
+    });
+    if (decision?.action === "skip") {
+      logger.info(
+        `Milestone "${milestone.description}" of friend ${friend.userId} skipped by rule ${decision.rule?.name}`,
+      );
+      return claimed.length;
+    }
 
-    if (restrictions.startHour <= restrictions.endHour) {
-      return hour >= restrictions.startHour && hour < restrictions.endHour;
-    } else {
-      // Handle case where time range spans midnight
-      return hour >= restrictions.startHour || hour < restrictions.endHour;
+    const claim = await this.cooldowns.claim(accountId, friend, {
+      type: session.type,
+      name: milestone.activityName,
+    });
+    if (!claim.claimed) {
+      const cooldownMs = await this.cooldowns.getRemaining(accountId, session.friendId);
+      logger.info(
+        `Milestone "${milestone.description}" of friend ${friend.userId} skipped, on cooldown for ${Math.ceil(cooldownMs / 1000)}s`,
+      );
+      return claimed.length;
     }
+
+    logger.info(`Friend ${friend.userId} reached a milestone: ${milestone.description}`);
+    const sent = await this.contentService.handleActivityTrigger(
+      accountId,
+      session.friendId.toString(),
+      session._id.toString(),
+      session.type,
+      milestone.activityName,
+      activity,
+      {
+        delayMs: decision?.delayMs || undefined,
+        provider: decision?.provider,
+        templateId: decision?.templateId,
+        milestone,
+      },
+    );
+    if (!sent && claim.cooldown) await this.cooldowns.release(claim.cooldown);
+    return claimed.length;
   }
 
-  private getTriggerFromActivity(activity: ActivityState): string {
-    switch (activity.type) {
+  /**
+   * The account's milestone settings over the server defaults, null if it does not exist
+   */
+  private async getMilestoneSettings(
+    discordAccountId: Types.ObjectId,
+  ): Promise<MilestoneSettings | null> {
+    const account = await DiscordAccount.findById(discordAccountId)
+      .select("settings.milestones")
+      .lean();
+    if (!account) return null;
+    return resolveMilestoneSettings(config.milestones.defaults, account.settings?.milestones);
+  }
+
+  /**
+   * A friend's activity sessions, newest first
+   */
+  public getFriendSessions(friendId: Types.ObjectId, limit: number = 50) {
+    return ActivityHistory.find({ friendId })
+      .select("type name details.startedAt details.endedAt details.durationMs")
+      .sort({ "details.startedAt": -1 })
+      .limit(limit)
+      .lean();
+  }
+
+  /**
+   * Time a friend spent per activity over the last days, with their longest session, day
+   * streaks and the hours they are usually active
+   */
+  public async getFriendActivitySummary(
+    friend: Pick<IFriend, "_id" | "discordAccountId" | "timeZone">,
+    days: number = 30,
+    now: Date = new Date(),
+  ): Promise<ActivitySummary & { days: number; timeZone: string | null }> {
+    const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const [sessions, timeZone] = await Promise.all([
+      ActivityHistory.find({
+        friendId: friend._id,
+        "details.startedAt": { $gte: since },
+      })
+        .select("type name details.startedAt details.endedAt")
+        .lean(),
+      this.friendTimeZone(friend.timeZone, friend.discordAccountId.toString()),
+    ]);
+
+    return {
+      days,
+      // Days and hours are the friend's, as for their time windows
+      timeZone: timeZone || null,
+      ...summarizeSessions(
+        sessions.map(session => ({
+          type: session.type,
+          name: session.name || "",
+          startedAt: session.details.startedAt,
+          endedAt: session.details.endedAt || null,
+        })),
+        now,
+        timeZone,
+      ),
+    };
+  }
+
+  private toFriendActivity({ type, details }: ActivityState): IFriend["lastActivity"] {
+    const timestamp = new Date(details.startedAt);
+
+    switch (type) {
       case "GAME":
-        return activity.details.gameName || "";
+        return { type, timestamp, gameName: details.gameName || "" };
       case "MUSIC":
-        return activity.details.musicDetails?.artist || "";
+        return {
+          type,
+          timestamp,
+          artistName: details.musicDetails?.artist || "",
+          songName: details.musicDetails?.song,
+          albumName: details.musicDetails?.album,
+        };
       case "STREAMING":
-        return activity.details.streamingDetails?.title || "";
+        return {
+          type,
+          timestamp,
+          streamTitle: details.streamingDetails?.title || "",
+          platform: details.streamingDetails?.platform,
+          url: details.streamingDetails?.url,
+        };
       case "WATCHING":
-        return activity.details.watchingDetails?.title || "";
+        return {
+          type,
+          timestamp,
+          showName: details.watchingDetails?.title || "",
+          platform: details.watchingDetails?.platform,
+        };
+      case "COMPETING":
+        return {
+          type,
+          timestamp,
+          tournamentName: details.competingDetails?.name || "",
+          game: details.competingDetails?.venue || "",
+        };
       case "CUSTOM":
-        return activity.details.customDetails?.name || "";
+        return {
+          type,
+          timestamp,
+          name: details.customDetails?.name || "",
+          details: details.customDetails?.state,
+        };
+    }
+  }
+
+  private toActivityState(activity: IFriend["lastActivity"]): ActivityState {
+    const startedAt = new Date(activity.timestamp);
+
+    switch (activity.type) {
+      case "GAME":
+        return { type: "GAME", details: { gameName: activity.gameName, startedAt } };
+      case "MUSIC":
+        return {
+          type: "MUSIC",
+          details: {
+            musicDetails: {
+              artist: activity.artistName,
+              song: activity.songName || "",
+              album: activity.albumName,
+            },
+            startedAt,
+          },
+        };
+      case "STREAMING":
+        return {
+          type: "STREAMING",
+          details: {
+            streamingDetails: {
+              platform: activity.platform || "",
+              title: activity.streamTitle,
+              url: activity.url,
+            },
+            startedAt,
+          },
+        };
+      case "WATCHING":
+        return {
+          type: "WATCHING",
+          details: {
+            watchingDetails: { title: activity.showName, platform: activity.platform },
+            startedAt,
+          },
+        };
       case "COMPETING":
-        return activity.details.competingDetails?.name || "";
-      default:
-        return "";
+        return {
+          type: "COMPETING",
+          details: {
+            competingDetails: { name: activity.tournamentName, venue: activity.game || undefined },
+            startedAt,
+          },
+        };
+      case "CUSTOM":
+        return {
+          type: "CUSTOM",
+          details: {
+            customDetails: { name: activity.name, state: activity.details },
+            startedAt,
+          },
+        };
     }
   }
 
+  /**
+   * Whether the friend may get content now, on the wall clock of the friend's time zone, or the
+   * account's or the server's. Time windows replace the older hour restrictions once set.
+   */
+  private async isWithinFriendWindows(friend: IFriend, accountId: string): Promise<boolean> {
+    const { timeWindows, timeRestrictions } = friend.contentPreferences;
+    const windows = timeWindows?.length ? timeWindows : hoursToTimeWindows(timeRestrictions);
+    if (!windows.length) return true;
+
+    return isWithinTimeWindows(
+      windows,
+      new Date(),
+      await this.friendTimeZone(friend.timeZone, accountId),
+    );
+  }
+
+  /**
+   * The friend's time zone, or else the account's or the server's, undefined for the server's
+   * own clock
+   */
+  private async friendTimeZone(
+    timeZone: string | undefined,
+    accountId: string,
+  ): Promise<string | undefined> {
+    const account = timeZone
+      ? null
+      : await DiscordAccount.findById(accountId).select("settings.timeZone").lean();
+    return resolveTimeZone(timeZone, account?.settings?.timeZone, config.timeZone);
+  }
+
   public getRecentActivityByAccountIds(
     accountIds: Types.ObjectId[],
     limit: number = 10,
@@ -165,20 +712,4 @@ export class ActivityService {
       .sort({ timestamp: -1 })
       .limit(limit);
   }
-
-  // Helper method to clean up old cooldowns
-  private cleanupCooldowns(): void {
-    const now = new Date().getTime();
-    for (const [key, time] of this.cooldowns.entries()) {
-      if (now - time.getTime() > this.DEFAULT_COOLDOWN) {
-        this.cooldowns.delete(key);
-      }
-    }
-  }
-
-  // Start cooldown cleanup interval
-  public startCleanupInterval(intervalMs: number = 60 * 60 * 1000): void {
-    // Default: 1 hour
-    setInterval(() => this.cleanupCooldowns(), intervalMs);
-  }
 }
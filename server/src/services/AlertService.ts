@@ -6,6 +6,7 @@ import axios from "axios";
 import nodemailer from "nodemailer";
 import config from "../config";
 import { User } from "../models/User";
+import { RateLimitEvent } from "../types/worker";
 
 /**
  * Service for managing alert configurations and handling alert sending
@@ -248,6 +249,40 @@ export class AlertService {
     }
   }
 
+  /**
+   * Raise a rateLimited alert for a 429 reported by an account's worker
+   * @param accountId ID of the Discord account that was rate limited
+   * @param rateLimit Rate limit reported by the worker
+   */
+  async reportRateLimit(accountId: string, rateLimit: RateLimitEvent) {
+    const account = await DiscordAccount.findById(accountId).select("userId name").lean();
+    if (!account) {
+      logger.warn(`Rate limit reported for unknown account ${accountId}`);
+      return null;
+    }
+
+    const scope = rateLimit.global
+      ? "globally"
+      : `on ${rateLimit.method.toUpperCase()} ${rateLimit.route}`;
+    return this.createAlert({
+      userId: account.userId,
+      accountId: account._id,
+      accountName: account.name || "Unknown",
+      type: "rateLimited",
+      message: `Discord client is being rate limited ${scope}`,
+      severity: rateLimit.global ? "high" : "medium",
+      resolved: false,
+      data: {
+        route: rateLimit.route,
+        method: rateLimit.method,
+        global: rateLimit.global,
+        limit: rateLimit.limit,
+        retryAfterMs: rateLimit.retryAfterMs,
+        rateLimitResetAt: rateLimit.resetAt,
+      },
+    });
+  }
+
   /**
    * Mark an alert as resolved
    * @param alertId ID of the alert to resolve
@@ -0,0 +1,342 @@
+import os from "os";
+import { Types } from "mongoose";
+import config from "../config";
+import logger from "../utils/logger";
+import { planOwnership } from "../utils/clusterOwnership";
+import { DiscordAccount } from "../models/DiscordAccount";
+import { AccountLease } from "../models/AccountLease";
+import { ClusterNode } from "../models/ClusterNode";
+import { NodeMessage } from "../models/NodeMessage";
+import { WorkerManager, WorkerRouter } from "../workers/WorkerManager";
+import { DeliveryQueueService } from "./DeliveryQueueService";
+import { WorkerMessage } from "../types/worker";
+
+// Forwarded messages handled per poll, the rest wait for the next one
+const MESSAGE_BATCH_SIZE = 100;
+
+export interface ClusterOverview {
+  nodeId: string;
+  nodes: Array<{
+    nodeId: string;
+    hostname: string;
+    pid: number;
+    startedAt: Date;
+    lastSeenAt: Date;
+    alive: boolean;
+    workerCount: number;
+    accounts: Array<{ id: string; name: string }>;
+  }>;
+  unassigned: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Spreads the Discord accounts over the server processes sharing the database. Each node
+ * holds a lease per account it runs and renews them together with its own heartbeat; leases
+ * of a node that stops renewing expire and are taken over by the others. Calls for an
+ * account running on another node are left in the database for that node to pick up.
+ */
+export class ClusterService implements WorkerRouter {
+  private static instance: ClusterService;
+  private workerManager: WorkerManager;
+  private readonly nodeId = config.cluster.nodeId;
+  private renewTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private balancing = false;
+  private polling = false;
+  private paused = false;
+  // Owners of accounts on other nodes as of the last renewal
+  private remoteOwners: Map<string, string> = new Map();
+
+  private constructor() {
+    this.workerManager = WorkerManager.getInstance();
+  }
+
+  public static getInstance(): ClusterService {
+    if (!ClusterService.instance) {
+      ClusterService.instance = new ClusterService();
+    }
+    return ClusterService.instance;
+  }
+
+  /**
+   * Join the cluster, take a share of the accounts and keep renewing it
+   */
+  async start(): Promise<void> {
+    this.workerManager.setRouter(this);
+    logger.info(`Joining cluster as node ${this.nodeId}`);
+    await this.balance();
+
+    this.renewTimer = setInterval(() => this.balance(), config.cluster.renewIntervalMs);
+    this.pollTimer = setInterval(() => this.processMessages(), config.cluster.messagePollMs);
+  }
+
+  /**
+   * Leave the cluster, handing this node's accounts to the others right away instead of
+   * after the lease TTL. Stop the local workers first.
+   */
+  async stop(): Promise<void> {
+    this.clearTimers();
+
+    await AccountLease.deleteMany({ nodeId: this.nodeId });
+    await ClusterNode.deleteOne({ nodeId: this.nodeId });
+    this.workerManager.setRouter(null);
+    logger.info(`Node ${this.nodeId} left the cluster`);
+  }
+
+  /**
+   * Stop balancing and handling forwarded calls once the workers drain, so this node claims no
+   * account it would not start. The leases are renewed once to last through the drain instead.
+   */
+  async pause(holdMs: number): Promise<void> {
+    this.paused = true;
+    this.clearTimers();
+    await AccountLease.updateMany(
+      { nodeId: this.nodeId },
+      { $set: { expiresAt: new Date(Date.now() + holdMs) } },
+    );
+  }
+
+  private clearTimers(): void {
+    if (this.renewTimer) clearInterval(this.renewTimer);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.renewTimer = null;
+    this.pollTimer = null;
+  }
+
+  async claim(accountId: string): Promise<boolean> {
+    const now = new Date();
+    try {
+      const lease = await AccountLease.findOneAndUpdate(
+        {
+          discordAccountId: new Types.ObjectId(accountId),
+          $or: [{ nodeId: this.nodeId }, { expiresAt: { $lt: now } }],
+        },
+        {
+          $set: {
+            nodeId: this.nodeId,
+            expiresAt: new Date(now.getTime() + config.cluster.leaseTtlMs),
+          },
+        },
+        { upsert: true, new: true },
+      );
+      return lease?.nodeId === this.nodeId;
+    } catch (error) {
+      // The upsert collides with a live lease of another node
+      if ((error as { code?: number }).code === 11000) return false;
+      throw error;
+    }
+  }
+
+  async forward(accountId: string, message: WorkerMessage): Promise<void> {
+    const lease = await AccountLease.findOne({
+      discordAccountId: new Types.ObjectId(accountId),
+      expiresAt: { $gt: new Date() },
+    }).lean();
+
+    if (!lease || lease.nodeId === this.nodeId) {
+      logger.warn(`No node runs account ${accountId}, dropping ${message.type}`);
+      return;
+    }
+
+    await NodeMessage.create({
+      nodeId: lease.nodeId,
+      discordAccountId: new Types.ObjectId(accountId),
+      message,
+    });
+  }
+
+  getRemoteAccountIds(): string[] {
+    return Array.from(this.remoteOwners.keys());
+  }
+
+  /**
+   * Nodes with the accounts they run, for the admin dashboard
+   */
+  async getOverview(): Promise<ClusterOverview> {
+    const now = Date.now();
+    const [nodes, leases, accounts] = await Promise.all([
+      ClusterNode.find().sort({ startedAt: 1 }).lean(),
+      AccountLease.find({ expiresAt: { $gt: new Date(now) } }).lean(),
+      DiscordAccount.find({ isActive: true }).select("name").lean(),
+    ]);
+
+    const names = new Map(accounts.map(account => [account._id.toString(), account.name]));
+    const leased = new Set(leases.map(lease => lease.discordAccountId.toString()));
+
+    return {
+      nodeId: this.nodeId,
+      nodes: nodes.map(node => ({
+        nodeId: node.nodeId,
+        hostname: node.hostname,
+        pid: node.pid,
+        startedAt: node.startedAt,
+        lastSeenAt: node.lastSeenAt,
+        alive: now - node.lastSeenAt.getTime() < config.cluster.leaseTtlMs,
+        workerCount: node.workerCount,
+        accounts: leases
+          .filter(lease => lease.nodeId === node.nodeId)
+          .map(lease => {
+            const id = lease.discordAccountId.toString();
+            return { id, name: names.get(id) || id };
+          }),
+      })),
+      unassigned: accounts
+        .filter(account => !leased.has(account._id.toString()))
+        .map(account => ({ id: account._id.toString(), name: account.name })),
+    };
+  }
+
+  /**
+   * Renew this node's heartbeat and leases, let go of accounts that were deactivated or
+   * taken over, and move towards this node's share of the accounts
+   */
+  private async balance(): Promise<void> {
+    if (this.balancing) return;
+    this.balancing = true;
+
+    try {
+      const now = new Date();
+      await ClusterNode.updateOne(
+        { nodeId: this.nodeId },
+        {
+          $set: {
+            hostname: os.hostname(),
+            pid: process.pid,
+            lastSeenAt: now,
+            workerCount: this.workerManager.getWorkerCount(),
+          },
+          $setOnInsert: { startedAt: now },
+        },
+        { upsert: true },
+      );
+      await AccountLease.updateMany(
+        { nodeId: this.nodeId },
+        { $set: { expiresAt: new Date(now.getTime() + config.cluster.leaseTtlMs) } },
+      );
+
+      const [leases, accounts, liveNodes] = await Promise.all([
+        AccountLease.find({ expiresAt: { $gt: now } }).lean(),
+        DiscordAccount.find({ isActive: true }).select("_id").lean(),
+        ClusterNode.countDocuments({
+          lastSeenAt: { $gt: new Date(now.getTime() - config.cluster.leaseTtlMs) },
+        }),
+      ]);
+
+      this.remoteOwners = new Map(
+        leases
+          .filter(lease => lease.nodeId !== this.nodeId)
+          .map(lease => [lease.discordAccountId.toString(), lease.nodeId] as const),
+      );
+      const activeAccountIds = accounts.map(account => account._id.toString());
+      const active = new Set(activeAccountIds);
+      let owned = leases
+        .filter(lease => lease.nodeId === this.nodeId)
+        .map(lease => lease.discordAccountId.toString());
+
+      // Accounts deactivated or deleted since they were claimed
+      for (const accountId of owned.filter(id => !active.has(id))) {
+        await this.release(accountId);
+      }
+      owned = owned.filter(id => active.has(id));
+
+      // Workers still running after another node took their lease, e.g. after this node stalled
+      for (const accountId of this.workerManager.getAccountIds()) {
+        if (this.remoteOwners.has(accountId)) {
+          logger.warn(
+            `Account ${accountId} was taken over by node ${this.remoteOwners.get(accountId)}`,
+          );
+          await this.workerManager.stopWorker(accountId);
+        }
+      }
+
+      const plan = planOwnership({
+        activeAccountIds,
+        ownedAccountIds: owned,
+        leasedAccountIds: leases.map(lease => lease.discordAccountId.toString()),
+        liveNodes,
+      });
+
+      for (const accountId of plan.claim) {
+        // Paused meanwhile for a drain, which starts no workers
+        if (this.paused) break;
+        if (!(await this.claim(accountId))) continue;
+        // Deliveries the account's previous node handed out and never saw through
+        await DeliveryQueueService.getInstance().requeueDispatched(
+          [accountId],
+          "Account moved to another node",
+        );
+        const account = await DiscordAccount.findById(accountId);
+        if (account) await this.workerManager.startWorker(account);
+      }
+      if (plan.shed) {
+        logger.info(`Handing account ${plan.shed} over to a node below its share`);
+        await this.release(plan.shed);
+      }
+    } catch (error) {
+      logger.error("Failed to balance cluster accounts:", error);
+    } finally {
+      this.balancing = false;
+    }
+  }
+
+  private async release(accountId: string): Promise<void> {
+    if (this.workerManager.getWorkerStatus(accountId)) {
+      await this.workerManager.stopWorker(accountId);
+    }
+    await AccountLease.deleteOne({
+      discordAccountId: new Types.ObjectId(accountId),
+      nodeId: this.nodeId,
+    });
+  }
+
+  /**
+   * Handle calls other nodes made for accounts running here
+   */
+  private async processMessages(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (let handled = 0; handled < MESSAGE_BATCH_SIZE; handled++) {
+        const forwarded = await NodeMessage.findOneAndDelete(
+          { nodeId: this.nodeId },
+          { sort: { createdAt: 1 } },
+        ).lean();
+        if (!forwarded) break;
+
+        await this.handleMessage(forwarded.discordAccountId.toString(), forwarded.message);
+      }
+    } catch (error) {
+      logger.error("Failed to process forwarded worker messages:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async handleMessage(accountId: string, message: WorkerMessage): Promise<void> {
+    try {
+      switch (message.type) {
+        case "START": {
+          const account = await DiscordAccount.findById(accountId);
+          if (account) await this.workerManager.startWorker(account);
+          break;
+        }
+
+        case "STOP":
+          await this.workerManager.stopWorker(accountId);
+          break;
+
+        case "UPDATE_SETTINGS": {
+          const account = await DiscordAccount.findById(accountId);
+          if (account) this.workerManager.updateWorkerSettings(account, message.data.settings);
+          break;
+        }
+
+        default:
+          this.workerManager.sendToWorker(accountId, message);
+      }
+    } catch (error) {
+      logger.error(`Failed to handle forwarded ${message.type} for account ${accountId}:`, error);
+    }
+  }
+}
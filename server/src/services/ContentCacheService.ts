@@ -0,0 +1,220 @@
+import crypto from "crypto";
+import logger from "../utils/logger";
+import cache from "../utils/cache";
+import config from "../config";
+import { ContentSearchCache } from "../models/ContentSearchCache";
+import { ActivityType } from "../types/worker";
+import {
+  ContentItem,
+  ContentMediaType,
+  ContentSearchCacheStats,
+  ContentSearchParams,
+  ContentSearchResult,
+} from "../types/content";
+
+const KEY_PREFIX = "content:search:";
+const ALL_MEDIA_TYPES: ContentMediaType[] = ["gif", "image", "video"];
+
+interface CachedSearch {
+  content: ContentItem[];
+  provider: string;
+}
+
+/**
+ * Two level cache for content search results: the in-memory CacheManager (L1) in front of
+ * a MongoDB collection (L2) that survives restarts and is shared by every server process.
+ * Concurrent lookups for the same key share one provider search.
+ */
+export class ContentCacheService {
+  private static instance: ContentCacheService;
+  private inFlight: Map<string, Promise<ContentSearchResult>> = new Map();
+  private stats = {
+    since: new Date(),
+    l1Hits: 0,
+    l2Hits: 0,
+    misses: 0,
+    coalesced: 0,
+    writes: 0,
+  };
+
+  private constructor() {}
+
+  public static getInstance(): ContentCacheService {
+    if (!ContentCacheService.instance) {
+      ContentCacheService.instance = new ContentCacheService();
+    }
+    return ContentCacheService.instance;
+  }
+
+  /**
+   * Lowercase, strip punctuation and collapse whitespace so "Minecraft " and "minecraft!"
+   * share an entry
+   */
+  normalizeQuery(query: string): string {
+    return query
+      .toLowerCase()
+      .normalize("NFKC")
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+  }
+
+  /**
+   * Cache key for a search. `params.providers` must already be the resolved provider chain.
+   */
+  buildKey(params: ContentSearchParams): string {
+    const mediaTypes = [...(params.mediaTypes || ALL_MEDIA_TYPES)].sort();
+    const variant = JSON.stringify({
+      count: params.count,
+      providers: params.providers || [],
+      mediaTypes: mediaTypes.join(",") === ALL_MEDIA_TYPES.join(",") ? [] : mediaTypes,
+      include: [...(params.filters?.includeKeywords || [])].map(k => k.toLowerCase()).sort(),
+      exclude: [...(params.filters?.excludeKeywords || [])].map(k => k.toLowerCase()).sort(),
+      minRating: params.filters?.minRating,
+      maxRating: params.filters?.maxRating,
+    });
+    const hash = crypto.createHash("sha1").update(variant).digest("hex").slice(0, 16);
+
+    return `${KEY_PREFIX}${params.type}:${this.normalizeQuery(params.query)}:${hash}`;
+  }
+
+  /**
+   * Return a cached result for the search, or run `search` and cache what it finds.
+   * Cache failures are logged and never stop the search itself.
+   */
+  async getOrSearch(
+    params: ContentSearchParams,
+    search: () => Promise<ContentSearchResult>,
+  ): Promise<ContentSearchResult> {
+    const key = this.buildKey(params);
+    const refresh = params.cacheMode === "refresh";
+
+    if (!refresh) {
+      const l1 = cache.get<CachedSearch>(key);
+      if (l1) {
+        this.stats.l1Hits++;
+        return { ...l1, attempts: [], cacheHit: "l1" };
+      }
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending;
+    }
+
+    const lookup = (async () => {
+      if (!refresh) {
+        const l2 = await this.readEntry(key);
+        if (l2) {
+          this.stats.l2Hits++;
+          return { ...l2, attempts: [], cacheHit: "l2" as const };
+        }
+      }
+
+      this.stats.misses++;
+      const result = await search();
+      if (result.provider && result.content.length) {
+        await this.writeEntry(key, params, { content: result.content, provider: result.provider });
+      }
+      return result;
+    })();
+
+    this.inFlight.set(key, lookup);
+    try {
+      return await lookup;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Remove cached entries, optionally limited to an activity type and/or query. Only this
+   * process's L1 is cleared; other cluster nodes drop their copies when the L1 TTL runs out
+   * @returns Number of MongoDB entries removed
+   */
+  async purge(filter: { activityType?: ActivityType; query?: string } = {}): Promise<number> {
+    const query = filter.query ? this.normalizeQuery(filter.query) : undefined;
+    const result = await ContentSearchCache.deleteMany({
+      ...(filter.activityType && { activityType: filter.activityType }),
+      ...(query && { query }),
+    });
+
+    if (filter.activityType) {
+      cache.deleteByPrefix(`${KEY_PREFIX}${filter.activityType}:${query ? `${query}:` : ""}`);
+    } else {
+      // L1 keys start with the activity type, so a query-only purge clears every L1 entry
+      cache.deleteByPrefix(KEY_PREFIX);
+    }
+
+    logger.info(`Purged ${result.deletedCount} content search cache entries`);
+    return result.deletedCount;
+  }
+
+  async getStats(): Promise<ContentSearchCacheStats> {
+    const { l1Hits, l2Hits, misses } = this.stats;
+    const lookups = l1Hits + l2Hits + misses;
+    let entries = 0;
+
+    try {
+      entries = await ContentSearchCache.countDocuments({ expiresAt: { $gt: new Date() } });
+    } catch (error) {
+      logger.error("Failed to count content search cache entries:", error);
+    }
+
+    return {
+      enabled: config.content.cache.enabled,
+      ...this.stats,
+      hitRate: lookups ? Math.round(((l1Hits + l2Hits) / lookups) * 1000) / 10 : 0,
+      entries,
+    };
+  }
+
+  private async readEntry(key: string): Promise<CachedSearch | null> {
+    try {
+      const now = new Date();
+      const entry = await ContentSearchCache.findOneAndUpdate(
+        { key, expiresAt: { $gt: now } },
+        { $inc: { hits: 1 }, $set: { lastHitAt: now } },
+        { new: true },
+      ).lean();
+      if (!entry) return null;
+
+      const cached = { content: entry.results, provider: entry.provider };
+      // Never keep an L1 copy around longer than the L2 entry it came from
+      const remainingSeconds = Math.floor((entry.expiresAt.getTime() - now.getTime()) / 1000);
+      cache.set(key, cached, Math.min(config.content.cache.l1TtlSeconds, remainingSeconds));
+      return cached;
+    } catch (error) {
+      logger.error("Failed to read content search cache:", error);
+      return null;
+    }
+  }
+
+  private async writeEntry(
+    key: string,
+    params: ContentSearchParams,
+    cached: CachedSearch,
+  ): Promise<void> {
+    cache.set(key, cached, config.content.cache.l1TtlSeconds);
+
+    try {
+      await ContentSearchCache.findOneAndUpdate(
+        { key },
+        {
+          $set: {
+            activityType: params.type,
+            query: this.normalizeQuery(params.query),
+            results: cached.content,
+            provider: cached.provider,
+            expiresAt: new Date(Date.now() + config.content.cache.ttlSeconds * 1000),
+          },
+          $setOnInsert: { hits: 0 },
+        },
+        { upsert: true },
+      );
+      this.stats.writes++;
+    } catch (error) {
+      logger.error("Failed to write content search cache:", error);
+    }
+  }
+}
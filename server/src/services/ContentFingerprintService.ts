@@ -0,0 +1,154 @@
+import fs from "fs";
+import { fileURLToPath } from "url";
+import axios from "axios";
+import { Types } from "mongoose";
+import config from "../config";
+import logger from "../utils/logger";
+import cache from "../utils/cache";
+import { ContentHistory } from "../models/ContentHistory";
+import { ContentFingerprint, ContentItem } from "../types/content";
+import {
+  decodeImage,
+  differenceHash,
+  hammingDistance,
+  hashMediaUrl,
+} from "../utils/mediaFingerprint";
+
+const PHASH_CACHE_TTL = 24 * 60 * 60; // 1 day, in seconds
+
+export interface DeduplicationScope {
+  discordAccountId: Types.ObjectId;
+  friendId: Types.ObjectId;
+  /** "account" never repeats content across any friend of the account */
+  scope: "friend" | "account";
+  lookbackDays: number;
+}
+
+export interface FreshContentSelection {
+  item: ContentItem;
+  fingerprint: ContentFingerprint;
+  /** Number of higher ranked candidates skipped because they were already sent */
+  skipped: number;
+}
+
+/**
+ * Fingerprints media (normalized URL hash plus a perceptual hash of the image) and picks
+ * content that has not been sent to a friend before
+ */
+export class ContentFingerprintService {
+  private static instance: ContentFingerprintService;
+
+  private constructor() {}
+
+  public static getInstance(): ContentFingerprintService {
+    if (!ContentFingerprintService.instance) {
+      ContentFingerprintService.instance = new ContentFingerprintService();
+    }
+    return ContentFingerprintService.instance;
+  }
+
+  async fingerprint(item: ContentItem): Promise<ContentFingerprint> {
+    const urlHash = hashMediaUrl(item.url);
+    const perceptualHash = await this.getPerceptualHash(item, urlHash);
+    return perceptualHash ? { urlHash, perceptualHash } : { urlHash };
+  }
+
+  /**
+   * Walk the ranked candidates and return the first one whose URL and perceptual hash
+   * have not been delivered within the lookback window
+   * @returns null when every candidate was already sent
+   */
+  async selectFresh(
+    candidates: ContentItem[],
+    scope: DeduplicationScope,
+  ): Promise<FreshContentSelection | null> {
+    if (!candidates.length) return null;
+
+    const since = new Date(Date.now() - scope.lookbackDays * 24 * 60 * 60 * 1000);
+    const previous = await ContentHistory.find({
+      ...(scope.scope === "account"
+        ? { discordAccountId: scope.discordAccountId }
+        : { friendId: scope.friendId }),
+      status: { $ne: "FAILED" },
+      createdAt: { $gte: since },
+    })
+      .select("content.url fingerprint")
+      .lean();
+
+    // Entries from before fingerprinting only have their URL
+    const sentUrls = new Set(
+      previous.map(entry => entry.fingerprint?.urlHash || hashMediaUrl(entry.content.url)),
+    );
+    const sentImages = previous
+      .map(entry => entry.fingerprint?.perceptualHash)
+      .filter((hash): hash is string => !!hash);
+
+    for (let index = 0; index < candidates.length; index++) {
+      const item = candidates[index];
+      const urlHash = hashMediaUrl(item.url);
+      if (sentUrls.has(urlHash)) continue;
+
+      const perceptualHash = await this.getPerceptualHash(item, urlHash);
+      if (
+        perceptualHash &&
+        sentImages.some(
+          hash => hammingDistance(hash, perceptualHash) <= config.content.dedup.hammingThreshold,
+        )
+      ) {
+        continue;
+      }
+
+      if (index > 0) {
+        logger.debug(`Skipped ${index} already sent content items for friend ${scope.friendId}`);
+      }
+      return {
+        item,
+        fingerprint: perceptualHash ? { urlHash, perceptualHash } : { urlHash },
+        skipped: index,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Perceptual hash of an image (or a video's thumbnail). Failures are cached too so a
+   * broken URL is not downloaded again for every friend.
+   */
+  private async getPerceptualHash(item: ContentItem, urlHash: string): Promise<string | null> {
+    if (!config.content.dedup.perceptualHash) return null;
+
+    const cacheKey = `content:phash:${urlHash}`;
+    const cached = cache.get<string>(cacheKey);
+    if (cached !== null) return cached || null;
+
+    const imageUrl = item.type.startsWith("video/") ? item.metadata?.thumbnail : item.url;
+    let hash = "";
+    if (imageUrl) {
+      try {
+        const image = decodeImage(await this.download(imageUrl));
+        hash = image ? differenceHash(image) : "";
+      } catch (error) {
+        logger.debug(
+          `Could not compute perceptual hash for ${imageUrl}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    cache.set(cacheKey, hash, PHASH_CACHE_TTL);
+    return hash || null;
+  }
+
+  private async download(url: string): Promise<Buffer> {
+    if (url.startsWith("file://")) {
+      return fs.promises.readFile(fileURLToPath(url));
+    }
+
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: "arraybuffer",
+      timeout: config.content.requestTimeoutMs,
+      maxContentLength: config.content.dedup.maxDownloadBytes,
+    });
+    return Buffer.from(response.data);
+  }
+}
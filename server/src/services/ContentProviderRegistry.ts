@@ -0,0 +1,182 @@
+import logger from "../utils/logger";
+import config from "../config";
+import { CircuitBreaker } from "../utils/circuitBreaker";
+import { ActivityType } from "../types/worker";
+import {
+  ContentMediaType,
+  ContentProvider,
+  ContentProviderHealth,
+  ContentProviderInfo,
+} from "../types/content";
+
+/**
+ * Keeps track of the available content providers and how much of their rate budget is used
+ */
+export class ContentProviderRegistry {
+  private static instance: ContentProviderRegistry;
+  private providers: Map<string, ContentProvider> = new Map();
+  private usage: Map<string, number[]> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): ContentProviderRegistry {
+    if (!ContentProviderRegistry.instance) {
+      ContentProviderRegistry.instance = new ContentProviderRegistry();
+    }
+    return ContentProviderRegistry.instance;
+  }
+
+  register(provider: ContentProvider): void {
+    if (this.providers.has(provider.id)) {
+      logger.warn(`Replacing already registered content provider ${provider.id}`);
+    }
+    this.providers.set(provider.id, provider);
+    this.usage.set(provider.id, []);
+    this.breakers.set(provider.id, new CircuitBreaker(config.content.circuitBreaker));
+  }
+
+  unregister(providerId: string): void {
+    this.providers.delete(providerId);
+    this.usage.delete(providerId);
+    this.breakers.delete(providerId);
+  }
+
+  get(providerId: string): ContentProvider | undefined {
+    return this.providers.get(providerId);
+  }
+
+  list(): ContentProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Providers able to serve an activity type, in the order given by `preferredIds`.
+   * Unknown IDs are ignored; providers without any allowed media type are skipped.
+   */
+  resolve(
+    type: ActivityType,
+    preferredIds: string[],
+    allowedMediaTypes?: ContentMediaType[],
+  ): ContentProvider[] {
+    return preferredIds
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is ContentProvider => !!provider)
+      .filter(provider => provider.activityTypes.includes(type))
+      .filter(
+        provider =>
+          !allowedMediaTypes ||
+          provider.capabilities.mediaTypes.some(mediaType => allowedMediaTypes.includes(mediaType)),
+      );
+  }
+
+  /**
+   * Record one request against a provider's rate budget
+   * @returns false when the budget for the current window is used up
+   */
+  tryConsume(providerId: string): boolean {
+    const provider = this.providers.get(providerId);
+    if (!provider) return false;
+
+    const timestamps = this.pruneUsage(provider);
+    if (timestamps.length >= provider.rateBudget.requests) {
+      logger.warn(`Content provider ${providerId} exhausted its rate budget`);
+      return false;
+    }
+
+    timestamps.push(Date.now());
+    return true;
+  }
+
+  /**
+   * Reserve a call to a provider: checks its rate budget and circuit breaker.
+   * Every "ok" must be followed by `recordSuccess` or `recordFailure`.
+   */
+  acquire(providerId: string): "ok" | "rate-limited" | "circuit-open" {
+    const provider = this.providers.get(providerId);
+    const breaker = this.breakers.get(providerId);
+    if (!provider || !breaker) return "circuit-open";
+
+    if (this.pruneUsage(provider).length >= provider.rateBudget.requests) {
+      return "rate-limited";
+    }
+
+    if (!breaker.tryAcquire()) {
+      return "circuit-open";
+    }
+
+    this.tryConsume(providerId);
+    return "ok";
+  }
+
+  recordSuccess(providerId: string): void {
+    this.breakers.get(providerId)?.recordSuccess();
+  }
+
+  recordFailure(providerId: string, error?: unknown): void {
+    const breaker = this.breakers.get(providerId);
+    if (!breaker) return;
+
+    const wasOpen = breaker.getState() === "open";
+    breaker.recordFailure(error);
+    if (!wasOpen && breaker.getState() === "open") {
+      logger.warn(`Circuit opened for content provider ${providerId}`);
+    }
+  }
+
+  resetCircuit(providerId: string): boolean {
+    const breaker = this.breakers.get(providerId);
+    if (!breaker) return false;
+
+    breaker.reset();
+    logger.info(`Circuit reset for content provider ${providerId}`);
+    return true;
+  }
+
+  getInfo(): ContentProviderInfo[] {
+    return this.list().map(provider => {
+      const used = this.pruneUsage(provider).length;
+      return {
+        id: provider.id,
+        displayName: provider.displayName,
+        activityTypes: provider.activityTypes,
+        capabilities: provider.capabilities,
+        rateBudget: {
+          ...provider.rateBudget,
+          used,
+          remaining: Math.max(0, provider.rateBudget.requests - used),
+        },
+        circuit: this.breakers.get(provider.id)!.getSnapshot(),
+      };
+    });
+  }
+
+  async checkHealth(): Promise<Record<string, ContentProviderHealth>> {
+    const entries = await Promise.all(
+      this.list().map(async provider => {
+        try {
+          return [provider.id, await provider.healthCheck()] as const;
+        } catch (error) {
+          return [
+            provider.id,
+            {
+              healthy: false,
+              configured: true,
+              message: error instanceof Error ? error.message : String(error),
+              checkedAt: new Date(),
+            },
+          ] as const;
+        }
+      }),
+    );
+
+    return Object.fromEntries(entries);
+  }
+
+  private pruneUsage(provider: ContentProvider): number[] {
+    const windowStart = Date.now() - provider.rateBudget.windowMs;
+    const timestamps = (this.usage.get(provider.id) || []).filter(time => time > windowStart);
+    this.usage.set(provider.id, timestamps);
+    return timestamps;
+  }
+}
@@ -1,41 +1,73 @@
-import { Types } from "mongoose";
+import { Types, UpdateQuery } from "mongoose";
 import { ContentHistory, IContentHistory } from "../models/ContentHistory";
-import { DiscordAccount } from "../models/DiscordAccount";
+import { DiscordAccount, IDiscordAccount, IDiscordAccountSettings } from "../models/DiscordAccount";
+import { IDeliveryJob } from "../models/DeliveryJob";
 import { Friend } from "../models/Friend";
 import logger from "../utils/logger";
-import { WorkerManager } from "../workers/WorkerManager";
-
-interface ContentSearchParams {
-  type: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
-  query: string;
-  count?: number;
-  filters?: {
-    excludeKeywords?: string[];
-    includeKeywords?: string[];
-    minRating?: number;
-    maxRating?: number;
-  };
-}
-
-interface ContentItem {
-  url: string;
-  title: string;
-  source: string;
-  type: string;
-  metadata?: Record<string, any>;
-}
+import { activityFromTrigger } from "../utils/messageTemplate";
+import { friendBlockReason } from "../utils/friendPreferences";
+import { emojiSentiment, replySentiment } from "../utils/feedbackSentiment";
+import config from "../config";
+import {
+  ActivityState,
+  DeliveryFeedback,
+  DeliveryResult,
+  FeedbackSentiment,
+} from "../types/worker";
+import {
+  ContentFilters,
+  ContentFingerprint,
+  ContentItem,
+  ContentMediaType,
+  ContentProvider,
+  ContentProviderHealth,
+  ContentProviderAttempt,
+  ContentProviderInfo,
+  ContentQuery,
+  ContentSearchCacheStats,
+  ContentSearchParams,
+  ContentSearchResult,
+} from "../types/content";
+import { ActivityMilestone } from "../types/milestones";
+import { ContentProviderRegistry } from "./ContentProviderRegistry";
+import { ContentCacheService } from "./ContentCacheService";
+import { ContentFingerprintService, FreshContentSelection } from "./ContentFingerprintService";
+import { registerBuiltInProviders } from "./providers";
+import { RankerService, RankingSnapshot } from "./RankerService";
+import { FeedbackSignal } from "./ranking";
+import { MessageTemplateService } from "./MessageTemplateService";
+import { DeliveryQueueService } from "./DeliveryQueueService";
 
-interface ContentProvider {
-  type: string;
-  search(query: string): Promise<ContentResult | null>;
-}
+// Keyword filters applied when searching for each activity type
+const ACTIVITY_FILTERS: Record<ContentSearchParams["type"], ContentFilters> = {
+  GAME: {
+    includeKeywords: ["gaming", "gamer", "gameplay", "reaction"],
+    excludeKeywords: ["walkthrough", "tutorial", "hack"],
+  },
+  MUSIC: {
+    includeKeywords: ["music", "artist", "band", "concert", "lyrics"],
+    excludeKeywords: ["cover", "karaoke", "tutorial"],
+  },
+  STREAMING: {
+    includeKeywords: ["stream", "live", "twitch", "streamer", "highlight"],
+    excludeKeywords: ["sub", "subscribe", "donation"],
+  },
+  WATCHING: {
+    includeKeywords: ["show", "series", "episode", "scene", "reaction"],
+    excludeKeywords: ["spoiler", "leak", "full episode"],
+  },
+  CUSTOM: {
+    includeKeywords: ["funny", "relatable", "mood"],
+    excludeKeywords: ["nsfw", "offensive"],
+  },
+  COMPETING: {
+    includeKeywords: ["competition", "tournament", "championship", "victory"],
+    excludeKeywords: ["betting", "odds", "gambling"],
+  },
+};
 
-interface ContentResult {
-  url: string;
-  title: string;
-  source: string;
-  type: string;
-}
+// Rejection value used to tell provider timeouts apart from provider errors
+const PROVIDER_TIMEOUT = new Error("Content provider timed out");
 
 // Define the IContentStats interface
 export interface IContentStats {
@@ -45,73 +77,73 @@ export interface IContentStats {
   accountStats: Array<{ accountId: string; count: number; byType: { [key: string]: number } }>;
 }
 
+export interface IRepeatStats {
+  deliveries: number;
+  repeats: number;
+  repeatRate: number;
+  accounts: Array<{ accountId: string; deliveries: number; repeats: number; repeatRate: number }>;
+}
+
+export interface IFeedbackStats {
+  delivered: number;
+  /** Deliveries the friend reacted or replied to */
+  withFeedback: number;
+  feedbackRate: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  reactions: number;
+  replies: number;
+  topEmojis: Array<{ emoji: string; count: number }>;
+  recentReplies: Array<{
+    historyId: string;
+    title: string;
+    friendName: string;
+    text: string;
+    sentiment: FeedbackSentiment;
+    repliedAt: Date;
+  }>;
+}
+
+/**
+ * What the trigger rule that let an activity through asked for
+ */
+export interface ActivityTriggerOptions {
+  /** Wait this long before delivering */
+  delayMs?: number;
+  /** Search this provider instead of the account's provider order */
+  provider?: string;
+  /** Use this message template instead of the most specific one */
+  templateId?: string;
+  /** Set when the content celebrates a milestone rather than an activity change */
+  milestone?: ActivityMilestone;
+}
+
+// Replies are stored up to this length
+const MAX_REPLY_LENGTH = 500;
+
 export class ContentService {
   private static instance: ContentService;
-  private searchClient: any;
   private readonly DEFAULT_COUNT = 5;
-  private workerManager: WorkerManager;
-  private providers: Map<string, ContentProvider> = new Map();
+  private deliveryQueue: DeliveryQueueService;
+  private registry: ContentProviderRegistry;
+  private searchCache: ContentCacheService;
+  private fingerprints: ContentFingerprintService;
+  private ranker: RankerService;
+  private templates: MessageTemplateService;
 
   private constructor() {
-    // Initialize SerpAPI client with a better approach
-    this.setupSearchClient();
-
-    // Initialize worker manager
-    this.workerManager = WorkerManager.getInstance();
+    // Deliveries go through the durable queue instead of straight to the worker
+    this.deliveryQueue = DeliveryQueueService.getInstance();
 
     // Register content providers
-    this.registerDefaultProviders();
-  }
+    this.registry = ContentProviderRegistry.getInstance();
+    registerBuiltInProviders(this.registry);
 
-  private setupSearchClient() {
-    try {
-      const apiKey = process.env.SERP_API_KEY;
-
-      if (apiKey) {
-        try {
-          // Dynamically import SerpApi
-          const SerpApi = require("google-search-results-nodejs");
-
-          if (SerpApi && SerpApi.GoogleSearch) {
-            this.searchClient = new SerpApi.GoogleSearch(apiKey);
-            logger.info("SerpAPI client initialized successfully");
-          } else {
-            logger.warn("SerpApi library loaded but GoogleSearch not found");
-            this.setupMockSearchClient();
-          }
-        } catch (error) {
-          logger.error("Failed to load SerpApi library:", error);
-          this.setupMockSearchClient();
-        }
-      } else {
-        logger.warn("SERP_API_KEY not set, using mock search client");
-        this.setupMockSearchClient();
-      }
-    } catch (error) {
-      logger.error("Error in setupSearchClient:", error);
-      this.setupMockSearchClient();
-    }
-  }
-
-  private setupMockSearchClient() {
-    logger.info("Setting up mock search client");
-    this.searchClient = {
-      json: (params: any, callback: any) => {
-        logger.debug("Mock SerpAPI search called with params:", params);
-        callback({
-          images_results: [
-            {
-              original: "https://example.com/mock-image.jpg",
-              title: "Mock Image Result",
-              source: "mock-source",
-              width: 500,
-              height: 500,
-              thumbnail: "https://example.com/mock-thumbnail.jpg",
-            },
-          ],
-        });
-      },
-    };
+    this.searchCache = ContentCacheService.getInstance();
+    this.fingerprints = ContentFingerprintService.getInstance();
+    this.ranker = RankerService.getInstance();
+    this.templates = MessageTemplateService.getInstance();
   }
 
   public static getInstance(): ContentService {
@@ -121,202 +153,230 @@ export class ContentService {
     return ContentService.instance;
   }
 
-  private registerDefaultProviders() {
-    // Register providers for each activity type with specific search strategies
-    // Note: Make sure these don't contain non-serializable data
-    this.registerContentProvider({
-      type: "GAME",
-      search: async (gameName: string) => {
-        const content = await this.searchContent({
-          type: "GAME",
-          query: gameName,
-          filters: {
-            includeKeywords: ["gaming", "gamer", "gameplay", "reaction"],
-            excludeKeywords: ["walkthrough", "tutorial", "hack"],
-          },
-        });
-        return content.length > 0 ? content[0] : null;
-      },
-    });
+  public registerContentProvider(provider: ContentProvider): void {
+    this.registry.register(provider);
+  }
 
-    this.registerContentProvider({
-      type: "MUSIC",
-      search: async (artist: string) => {
-        const content = await this.searchContent({
-          type: "MUSIC",
-          query: artist,
-          filters: {
-            includeKeywords: ["music", "artist", "band", "concert", "lyrics"],
-            excludeKeywords: ["cover", "karaoke", "tutorial"],
-          },
-        });
-        return content[0] || null;
-      },
-    });
+  /**
+   * List registered content providers with their current rate budget usage
+   */
+  getContentProviders(): ContentProviderInfo[] {
+    return this.registry.getInfo();
+  }
 
-    this.registerContentProvider({
-      type: "STREAMING",
-      search: async (streamTitle: string) => {
-        const content = await this.searchContent({
-          type: "STREAMING",
-          query: streamTitle,
-          filters: {
-            includeKeywords: ["stream", "live", "twitch", "streamer", "highlight"],
-            excludeKeywords: ["sub", "subscribe", "donation"],
-          },
-        });
-        return content[0] || null;
-      },
-    });
+  /**
+   * Close a provider's circuit breaker so it is tried again straight away
+   */
+  resetProviderCircuit(providerId: string): boolean {
+    return this.registry.resetCircuit(providerId);
+  }
 
-    this.registerContentProvider({
-      type: "WATCHING",
-      search: async (showTitle: string) => {
-        const content = await this.searchContent({
-          type: "WATCHING",
-          query: showTitle,
-          filters: {
-            includeKeywords: ["show", "series", "episode", "scene", "reaction"],
-            excludeKeywords: ["spoiler", "leak", "full episode"],
-          },
-        });
-        return content[0] || null;
-      },
-    });
+  /**
+   * Run the health check of every registered provider
+   */
+  checkProviderHealth(): Promise<Record<string, ContentProviderHealth>> {
+    return this.registry.checkHealth();
+  }
 
-    this.registerContentProvider({
-      type: "CUSTOM",
-      search: async (status: string) => {
-        const content = await this.searchContent({
-          type: "CUSTOM",
-          query: status,
-          filters: {
-            includeKeywords: ["funny", "relatable", "mood"],
-            excludeKeywords: ["nsfw", "offensive"],
-          },
-        });
-        return content[0] || null;
-      },
-    });
+  /**
+   * Search for content based on activity
+   */
+  async searchContent(params: ContentSearchParams): Promise<ContentItem[]> {
+    const result = await this.searchWithFallback(params);
+    return result.content;
+  }
 
-    this.registerContentProvider({
-      type: "COMPETING",
-      search: async (competition: string) => {
-        const content = await this.searchContent({
-          type: "COMPETING",
-          query: competition,
-          filters: {
-            includeKeywords: ["competition", "tournament", "championship", "victory"],
-            excludeKeywords: ["betting", "odds", "gambling"],
-          },
+  /**
+   * Search the provider fallback chain, going through the search cache unless
+   * `params.cacheMode` is "bypass"
+   */
+  searchWithFallback(params: ContentSearchParams): Promise<ContentSearchResult> {
+    const resolved = {
+      ...params,
+      count: params.count || this.DEFAULT_COUNT,
+      providers: this.getProviderChain(params.type, params.providers),
+    };
+
+    if (!config.content.cache.enabled || params.cacheMode === "bypass") {
+      return this.searchProviders(resolved);
+    }
+    return this.searchCache.getOrSearch(resolved, () => this.searchProviders(resolved));
+  }
+
+  /**
+   * Search the given activity/query pairs and store the results in the search cache, once for
+   * every provider and media setup of the active accounts, the way their activity triggers
+   * search, so later triggers hit the cache
+   * @returns Number of entries that produced content for at least one setup
+   */
+  async warmSearchCache(
+    entries: Array<{ type: ContentSearchParams["type"]; query: string }>,
+  ): Promise<number> {
+    const accounts = await DiscordAccount.find({ isActive: true })
+      .select("settings.contentPreferences")
+      .lean();
+
+    // Accounts searching the same providers for the same media share cache entries
+    const setups = new Map<string, IDiscordAccountSettings["contentPreferences"] | undefined>();
+    for (const account of accounts) {
+      const preferences = account.settings?.contentPreferences;
+      const setup = [preferences?.providers || [], this.getAllowedMediaTypes(preferences)];
+      setups.set(JSON.stringify(setup), preferences);
+    }
+    if (!setups.size) setups.set("", undefined);
+
+    let warmed = 0;
+
+    // One at a time to stay well inside provider rate budgets
+    for (const entry of entries) {
+      let found = false;
+      for (const preferences of setups.values()) {
+        const result = await this.searchWithFallback({
+          ...this.triggerSearchParams(entry.type, entry.query, preferences),
+          cacheMode: "refresh",
         });
-        return content[0] || null;
-      },
-    });
+        if (result.content.length) found = true;
+      }
+      if (found) warmed++;
+    }
+
+    logger.info(
+      `Warmed content search cache for ${warmed}/${entries.length} entries across ${setups.size} provider setups`,
+    );
+    return warmed;
   }
 
-  public registerContentProvider(provider: ContentProvider): void {
-    this.providers.set(provider.type, provider);
+  purgeSearchCache(filter: {
+    type?: ContentSearchParams["type"];
+    query?: string;
+  }): Promise<number> {
+    return this.searchCache.purge({ activityType: filter.type, query: filter.query });
+  }
+
+  getSearchCacheStats(): Promise<ContentSearchCacheStats> {
+    return this.searchCache.getStats();
   }
 
   /**
-   * Search for content based on activity
+   * Walk the provider fallback chain until one provider returns usable content.
+   * Providers with an open circuit or an exhausted rate budget are skipped; errors and
+   * timeouts count against the provider's circuit breaker and move on to the next one.
    */
-  searchContent(params: ContentSearchParams): Promise<ContentItem[]> | ContentItem[] {
-    try {
-      const count = params.count || this.DEFAULT_COUNT;
-      let searchQuery = "";
-
-      // Build search query based on activity type
-      switch (params.type) {
-        case "GAME":
-          searchQuery = `${params.query} gaming meme reaction funny`;
-          break;
-        case "MUSIC":
-          searchQuery = `${params.query} music artist band meme funny`;
-          break;
-        case "STREAMING":
-          searchQuery = `${params.query} stream twitch meme funny`;
-          break;
-        case "WATCHING":
-          searchQuery = `${params.query} show series meme reaction funny`;
-          break;
-        case "CUSTOM":
-          searchQuery = `${params.query} mood meme relatable funny`;
-          break;
-        case "COMPETING":
-          searchQuery = `${params.query} competition tournament meme funny`;
-          break;
+  private async searchProviders(
+    params: ContentSearchParams & { count: number; providers: string[] },
+  ): Promise<ContentSearchResult> {
+    const count = params.count;
+    const chain = this.registry.resolve(params.type, params.providers, params.mediaTypes);
+    const attempts: ContentProviderAttempt[] = [];
+
+    for (const provider of chain) {
+      const status = this.registry.acquire(provider.id);
+      if (status !== "ok") {
+        attempts.push({ provider: provider.id, outcome: status });
+        continue;
       }
 
-      // Apply filters if provided
-      if (params.filters?.includeKeywords?.length) {
-        searchQuery += ` ${params.filters.includeKeywords.join(" ")}`;
+      const start = Date.now();
+      try {
+        const results = await this.searchWithTimeout(provider, {
+          type: params.type,
+          query: params.query,
+          count,
+          filters: params.filters,
+        });
+        this.registry.recordSuccess(provider.id);
+
+        const content = this.rankContent(results, provider.id, params, count);
+        const latencyMs = Date.now() - start;
+        if (!content.length) {
+          attempts.push({ provider: provider.id, outcome: "empty", latencyMs });
+          continue;
+        }
+
+        attempts.push({ provider: provider.id, outcome: "success", latencyMs });
+        logger.info(
+          `Found ${content.length} content items from ${provider.id} for ${params.type} activity: ${params.query}`,
+        );
+        return { content, provider: provider.id, attempts };
+      } catch (error) {
+        this.registry.recordFailure(provider.id, error);
+        const message = error instanceof Error ? error.message : String(error);
+        attempts.push({
+          provider: provider.id,
+          outcome: error === PROVIDER_TIMEOUT ? "timeout" : "error",
+          latencyMs: Date.now() - start,
+          error: message,
+        });
+        logger.warn(`Content provider ${provider.id} failed, trying next provider: ${message}`);
       }
+    }
 
-      const serpParams = {
-        q: searchQuery,
-        tbm: "isch", // Image search
-        ijn: "0", // Page number
-        safe: "active", // Safe search
-        num: count * 2, // Get more results than needed to have options
-        // Remove unsupported cr parameters
-      };
+    logger.warn(
+      `No content provider returned content for ${params.type} activity: ${params.query} (${
+        attempts.map(attempt => `${attempt.provider}=${attempt.outcome}`).join(", ") ||
+        "no eligible providers"
+      })`,
+    );
+    return { content: [], provider: null, attempts };
+  }
 
-      // Search for content using SerpAPI
-      return new Promise<ContentItem[]>((resolve, reject) => {
-        this.searchClient.json(serpParams, (data: any) => {
-          try {
-            if (!data.images_results || !data.images_results.length) {
-              logger.warn(`No content found for query: ${searchQuery}`);
-              return resolve([]);
-            }
-
-            // Filter and transform results with activity-specific rules
-            const content: ContentItem[] = data.images_results
-              .slice(0, count * 2)
-              .map((result: any) => ({
-                url: result.original,
-                title: result.title || `Content for ${params.query}`,
-                source: result.source,
-                type: "image/jpeg",
-                metadata: {
-                  width: result.width,
-                  height: result.height,
-                  thumbnail: result.thumbnail,
-                  relevanceScore: this.calculateRelevanceScore(result, params.type),
-                },
-              }))
-              .filter((item: ContentItem) => {
-                // Apply general exclusion filters
-                if (params.filters?.excludeKeywords?.length) {
-                  const lowerTitle = item.title.toLowerCase();
-                  return !params.filters.excludeKeywords.some(keyword =>
-                    lowerTitle.includes(keyword.toLowerCase()),
-                  );
-                }
-                return true;
-              })
-              // Sort by relevance score
-              .sort(
-                (a: ContentItem, b: ContentItem) =>
-                  (b.metadata?.relevanceScore || 0) - (a.metadata?.relevanceScore || 0),
-              )
-              .slice(0, count);
-
-            logger.info(
-              `Found ${content.length} content items for ${params.type} activity: ${params.query}`,
+  /**
+   * Provider order for an activity type: explicit preference, then the per-type chain
+   * from config, then the server default
+   */
+  private getProviderChain(type: ContentSearchParams["type"], preferred?: string[]): string[] {
+    if (preferred?.length) return preferred;
+    return config.content.fallbackChains[type] || config.content.defaultProviders;
+  }
+
+  private searchWithTimeout(
+    provider: ContentProvider,
+    query: ContentQuery,
+  ): Promise<ContentItem[]> {
+    const timeoutMs = config.content.requestTimeoutMs;
+    let timer: NodeJS.Timeout;
+
+    return Promise.race([
+      provider.search(query),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(PROVIDER_TIMEOUT), timeoutMs);
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  private rankContent(
+    results: ContentItem[],
+    providerId: string,
+    params: ContentSearchParams,
+    count: number,
+  ): ContentItem[] {
+    return (
+      results
+        .map(item => ({
+          ...item,
+          metadata: {
+            ...item.metadata,
+            provider: providerId,
+            relevanceScore: this.calculateRelevanceScore(
+              { ...item.metadata, title: item.title, source: item.source },
+              params.type,
+            ),
+          },
+        }))
+        .filter(item => {
+          // Apply general exclusion filters
+          if (params.filters?.excludeKeywords?.length) {
+            const lowerTitle = item.title.toLowerCase();
+            return !params.filters.excludeKeywords.some(keyword =>
+              lowerTitle.includes(keyword.toLowerCase()),
             );
-            resolve(content);
-          } catch (error) {
-            reject(error);
           }
-        });
-      });
-    } catch (error) {
-      logger.error("Content search failed:", error);
-      return [];
-    }
+          return true;
+        })
+        // Sort by relevance score
+        .sort((a, b) => (b.metadata.relevanceScore || 0) - (a.metadata.relevanceScore || 0))
+        .slice(0, count)
+    );
   }
 
   private calculateRelevanceScore(result: any, activityType: ContentSearchParams["type"]): number {
@@ -421,37 +481,160 @@ export class ContentService {
   }
 
   /**
-   * Update content delivery status
+   * Update content delivery status. Failed deliveries are a weak negative signal for the ranker.
    */
   async updateDeliveryStatus(
     historyId: Types.ObjectId,
     status: "SUCCESS" | "FAILED",
     error?: string,
+    result?: DeliveryResult,
   ): Promise<void> {
-    await ContentHistory.findByIdAndUpdate(historyId, {
-      $set: {
-        deliveryStatus: status,
-        ...(error && { error }),
+    const history = await ContentHistory.findByIdAndUpdate(
+      historyId,
+      {
+        $set: {
+          status: status === "SUCCESS" ? "SENT" : "FAILED",
+          ...(status === "SUCCESS" && {
+            sentAt: result ? new Date(result.completedAt) : new Date(),
+          }),
+          ...(error && { error }),
+          ...(result && {
+            delivery: {
+              messageId: result.messageId,
+              channelId: result.channelId,
+              startedAt: new Date(result.startedAt),
+              completedAt: new Date(result.completedAt),
+              errorType: result.error?.type,
+            },
+          }),
+        },
       },
-    }).exec();
+      { new: true },
+    ).exec();
+
+    if (history) {
+      await this.learnFromHistory(history, { type: "delivery", delivered: status === "SUCCESS" });
+    }
   }
 
   /**
-   * Add user feedback to content
+   * Add user feedback to content and train the ranker on it
    */
   async addUserFeedback(
     historyId: Types.ObjectId,
     rating: number,
     comment?: string,
-  ): Promise<void> {
-    await ContentHistory.findByIdAndUpdate(historyId, {
+  ): Promise<IContentHistory | null> {
+    // Return the previous version to know whether this replaces an earlier rating
+    const previous = await ContentHistory.findByIdAndUpdate(historyId, {
       $set: {
         userFeedback: {
           rating,
           comment,
+          ratedAt: new Date(),
         },
       },
     }).exec();
+    if (!previous) return null;
+
+    // Only the first rating is learned from, so changing a rating does not count twice
+    if (!previous.userFeedback?.rating) {
+      await this.learnFromHistory(previous, { type: "rating", rating });
+    }
+    return ContentHistory.findById(historyId).exec();
+  }
+
+  /**
+   * Store a friend's reaction or reply to a delivered message. The first one that clearly
+   * reads positive or negative trains the ranker; removing a reaction does not untrain it.
+   * @returns null when the message is not one of the account's deliveries, or the reaction
+   * was already stored
+   */
+  async recordFriendFeedback(
+    accountId: string,
+    feedback: DeliveryFeedback,
+  ): Promise<IContentHistory | null> {
+    const now = new Date();
+    const filter: Record<string, unknown> = {
+      discordAccountId: new Types.ObjectId(accountId),
+      "delivery.messageId": feedback.messageId,
+    };
+    let update: UpdateQuery<IContentHistory>;
+    let sentiment: FeedbackSentiment | null = null;
+
+    if (feedback.kind === "reaction" && feedback.removed) {
+      update = { $pull: { "friendFeedback.reactions": { emoji: feedback.emoji } } };
+    } else if (feedback.kind === "reaction") {
+      sentiment = emojiSentiment(feedback.emoji);
+      filter["friendFeedback.reactions.emoji"] = { $ne: feedback.emoji };
+      update = {
+        $push: { "friendFeedback.reactions": { emoji: feedback.emoji, sentiment, reactedAt: now } },
+        $set: { "friendFeedback.sentiment": sentiment },
+      };
+    } else {
+      sentiment = replySentiment(feedback.text);
+      update = {
+        $push: {
+          "friendFeedback.replies": {
+            messageId: feedback.replyId,
+            text: feedback.text.slice(0, MAX_REPLY_LENGTH),
+            sentiment,
+            repliedAt: now,
+          },
+        },
+        $set: { "friendFeedback.sentiment": sentiment },
+      };
+    }
+
+    const history = await ContentHistory.findOneAndUpdate(filter, update, { new: true }).exec();
+    if (!history) return null;
+
+    if (!sentiment) {
+      // Fall back to what is left once a reaction is taken back
+      const latest = this.latestSentiment(history);
+      await ContentHistory.updateOne(
+        { _id: history._id },
+        latest
+          ? { $set: { "friendFeedback.sentiment": latest } }
+          : { $unset: { "friendFeedback.sentiment": 1 } },
+      );
+    } else if (sentiment !== "neutral") {
+      const claimed = await ContentHistory.updateOne(
+        { _id: history._id, "friendFeedback.learnedAt": { $exists: false } },
+        { $set: { "friendFeedback.learnedAt": now } },
+      );
+      if (claimed.modifiedCount > 0) {
+        await this.learnFromHistory(history, {
+          type: "reaction",
+          positive: sentiment === "positive",
+        });
+      }
+    }
+    return history;
+  }
+
+  private latestSentiment(history: IContentHistory): FeedbackSentiment | undefined {
+    const feedback = [
+      ...(history.friendFeedback?.reactions || []).map(reaction => ({
+        at: reaction.reactedAt,
+        sentiment: reaction.sentiment,
+      })),
+      ...(history.friendFeedback?.replies || []).map(reply => ({
+        at: reply.repliedAt,
+        sentiment: reply.sentiment,
+      })),
+    ].sort((a, b) => b.at.getTime() - a.at.getTime());
+    return feedback[0]?.sentiment;
+  }
+
+  private async learnFromHistory(history: IContentHistory, signal: FeedbackSignal): Promise<void> {
+    if (!history.ranking?.features) return;
+
+    await this.ranker.learn(
+      history.ranking.features,
+      { accountId: history.discordAccountId.toString(), friendId: history.friendId.toString() },
+      signal,
+    );
   }
 
   public async handleActivityTrigger(
@@ -460,6 +643,8 @@ export class ContentService {
     activityId: string,
     contentType: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING",
     trigger: string,
+    activity?: ActivityState,
+    options: ActivityTriggerOptions = {},
   ): Promise<boolean> {
     try {
       // Validate inputs
@@ -479,12 +664,35 @@ export class ContentService {
         return false;
       }
 
+      // Friends control what they get by DM
+      const blocked = friendBlockReason(friend.contentPreferences, contentType);
+      if (blocked) {
+        logger.info(`Skipping ${contentType}: ${trigger} for friend ${friendId}: ${blocked}`);
+        return false;
+      }
+
       // Find relevant content
-      const content = await this.findRelevantContent(contentType, trigger);
-      if (!content) {
-        logger.warn(`No content found for ${contentType}: ${trigger}`);
+      const preferences = account.settings?.contentPreferences;
+      const result = await this.findRelevantContent(
+        contentType,
+        trigger,
+        options.provider ? { ...preferences, providers: [options.provider] } : preferences,
+      );
+      const candidates = await this.ranker.rank(result.content, {
+        accountId,
+        friendId,
+        activityType: contentType,
+      });
+      const selection = await this.selectContent(candidates, account, friend._id);
+      if (!selection) {
+        logger.warn(
+          result.content.length
+            ? `All ${result.content.length} results for ${contentType}: ${trigger} were already sent to friend ${friendId}`
+            : `No content found for ${contentType}: ${trigger}`,
+        );
         return false;
       }
+      const content = selection.item;
 
       // Log content selection
       const history = await this.logContentSelection({
@@ -497,25 +705,70 @@ export class ContentService {
           type: contentType,
           value: trigger,
         },
+        provider: result.provider!,
+        providerAttempts: result.attempts,
+        fingerprint: selection.fingerprint,
+        ranking: content.metadata?.ranking,
         status: "PENDING",
       });
 
-      // Send content delivery command to worker
-      await this.workerManager.sendToWorker(accountId, {
-        type: "CONTENT_DELIVERY",
-        data: {
+      let job: IDeliveryJob;
+      try {
+        const message = await this.templates.renderDeliveryMessage({
+          accountId,
           friendId,
-          content: {
-            url: content.url,
-            title: content.title,
-          },
-          historyId: history._id.toString(),
-          context: {
-            type: contentType,
-            trigger,
+          friendName: friend.username,
+          activity:
+            activity?.type === contentType ? activity : activityFromTrigger(contentType, trigger),
+          trigger,
+          content,
+          templateId: options.templateId,
+          milestone: options.milestone,
+        });
+
+        // Queue the delivery; it is deferred when outside the account's time windows
+        job = await this.deliveryQueue.enqueue({
+          historyId: history._id,
+          accountId,
+          friendId,
+          delayMs: options.delayMs,
+          payload: {
+            // The worker messages the friend by Discord user id
+            friendId: friend.userId,
+            content: {
+              url: content.url,
+              title: content.title,
+              source: content.source,
+              type: content.type,
+            },
+            historyId: history._id.toString(),
+            context: {
+              type: contentType,
+              trigger,
+              ...(options.milestone && {
+                milestone: {
+                  kind: options.milestone.kind,
+                  description: options.milestone.description,
+                },
+              }),
+            },
+            message,
           },
-        },
-      });
+        });
+      } catch (error) {
+        // Without a delivery job the history would stay pending forever
+        await ContentHistory.updateOne(
+          { _id: history._id },
+          { $set: { status: "FAILED", error: "Delivery could not be queued" } },
+        );
+        throw error;
+      }
+
+      if (job.scheduledFor <= new Date()) {
+        this.deliveryQueue
+          .processDueJobs()
+          .catch(error => logger.error("Failed to process delivery queue:", error));
+      }
 
       return true;
     } catch (error) {
@@ -527,14 +780,66 @@ export class ContentService {
   private findRelevantContent(
     type: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING",
     trigger: string,
-  ): Promise<ContentResult | null> | null {
-    const provider = this.providers.get(type);
-    if (!provider) {
-      logger.warn(`No content provider found for type: ${type}`);
-      return null;
+    preferences?: IDiscordAccountSettings["contentPreferences"],
+  ): Promise<ContentSearchResult> {
+    return this.searchWithFallback(this.triggerSearchParams(type, trigger, preferences));
+  }
+
+  /**
+   * How activity triggers search, shared with cache warming so both end up on the same entries
+   */
+  private triggerSearchParams(
+    type: ContentSearchParams["type"],
+    trigger: string,
+    preferences?: IDiscordAccountSettings["contentPreferences"],
+  ): ContentSearchParams {
+    return {
+      type,
+      query: trigger,
+      filters: ACTIVITY_FILTERS[type],
+      providers: preferences?.providers,
+      mediaTypes: this.getAllowedMediaTypes(preferences),
+      // Fetch extra candidates so there is something left after skipping repeats
+      count: config.content.dedup.enabled ? config.content.dedup.candidateCount : undefined,
+    };
+  }
+
+  /**
+   * Pick the highest ranked candidate that the friend has not received yet
+   */
+  private async selectContent(
+    candidates: ContentItem[],
+    account: IDiscordAccount,
+    friendId: Types.ObjectId,
+  ): Promise<FreshContentSelection | null> {
+    if (!config.content.dedup.enabled) {
+      const item = candidates[0];
+      return item
+        ? { item, fingerprint: await this.fingerprints.fingerprint(item), skipped: 0 }
+        : null;
     }
 
-    return provider.search(trigger);
+    const overrides = account.settings?.deduplication;
+    return this.fingerprints.selectFresh(candidates, {
+      discordAccountId: account._id,
+      friendId,
+      scope: overrides?.scope || config.content.dedup.scope,
+      lookbackDays: overrides?.lookbackDays || config.content.dedup.lookbackDays,
+    });
+  }
+
+  /**
+   * Map the account's meme/GIF toggles onto provider media types
+   */
+  private getAllowedMediaTypes(
+    preferences?: IDiscordAccountSettings["contentPreferences"],
+  ): ContentMediaType[] | undefined {
+    if (!preferences) return undefined;
+
+    const mediaTypes: ContentMediaType[] = [];
+    if (preferences.memes !== false) mediaTypes.push("image", "video");
+    if (preferences.gifs !== false) mediaTypes.push("gif");
+    return mediaTypes;
   }
 
   private async logContentSelection(data: {
@@ -542,11 +847,15 @@ export class ContentService {
     friendId: Types.ObjectId;
     activityId: Types.ObjectId;
     contentType: string;
-    content: ContentResult;
+    content: ContentItem;
     trigger: {
       type: "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
       value: string;
     };
+    provider: string;
+    providerAttempts: ContentProviderAttempt[];
+    fingerprint: ContentFingerprint;
+    ranking?: RankingSnapshot;
     status: "PENDING" | "SENT" | "FAILED";
   }): Promise<IContentHistory> {
     const history = new ContentHistory(data);
@@ -554,6 +863,64 @@ export class ContentService {
     return history;
   }
 
+  /**
+   * How often friends received media they had already been sent, counting identical
+   * fingerprints (perceptual hash when known, otherwise the normalized URL) per friend
+   */
+  public async getRepeatStatsByAccountIds(
+    accountIds: Types.ObjectId[],
+    days: number = 7,
+  ): Promise<IRepeatStats> {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const stats = await ContentHistory.aggregate([
+      {
+        $match: {
+          discordAccountId: { $in: accountIds },
+          status: { $ne: "FAILED" },
+          createdAt: { $gte: startDate },
+        },
+      },
+      {
+        $group: {
+          _id: {
+            accountId: "$discordAccountId",
+            friendId: "$friendId",
+            media: {
+              $ifNull: [
+                "$fingerprint.perceptualHash",
+                { $ifNull: ["$fingerprint.urlHash", "$content.url"] },
+              ],
+            },
+          },
+          count: { $sum: 1 },
+        },
+      },
+      {
+        $group: {
+          _id: "$_id.accountId",
+          deliveries: { $sum: "$count" },
+          repeats: { $sum: { $subtract: ["$count", 1] } },
+        },
+      },
+    ]);
+
+    const rate = (repeats: number, deliveries: number) =>
+      deliveries ? Math.round((repeats / deliveries) * 1000) / 10 : 0;
+
+    const accounts = stats.map((stat: any) => ({
+      accountId: stat._id.toString(),
+      deliveries: stat.deliveries,
+      repeats: stat.repeats,
+      repeatRate: rate(stat.repeats, stat.deliveries),
+    }));
+    const deliveries = accounts.reduce((sum, account) => sum + account.deliveries, 0);
+    const repeats = accounts.reduce((sum, account) => sum + account.repeats, 0);
+
+    return { deliveries, repeats, repeatRate: rate(repeats, deliveries), accounts };
+  }
+
   public async getContentStatsByAccountIds(
     accountIds: Types.ObjectId[],
     days: number = 7,
@@ -664,4 +1031,83 @@ export class ContentService {
 
     return result;
   }
+
+  /**
+   * How friends reacted to what they were sent: reactions and replies, their sentiment, the
+   * most used emojis and the latest replies
+   */
+  public async getFeedbackStatsByAccountIds(
+    accountIds: Types.ObjectId[],
+    days: number = 7,
+  ): Promise<IFeedbackStats> {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+    const match = {
+      discordAccountId: { $in: accountIds },
+      status: "SENT",
+      sentAt: { $gte: startDate },
+    };
+    const reactions = { $size: { $ifNull: ["$friendFeedback.reactions", []] } };
+    const replies = { $size: { $ifNull: ["$friendFeedback.replies", []] } };
+    const countIf = (condition: unknown) => ({ $sum: { $cond: [condition, 1, 0] } });
+
+    const [[summary], topEmojis, recent] = await Promise.all([
+      ContentHistory.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: null,
+            delivered: { $sum: 1 },
+            withFeedback: countIf({ $gt: [{ $add: [reactions, replies] }, 0] }),
+            positive: countIf({ $eq: ["$friendFeedback.sentiment", "positive"] }),
+            negative: countIf({ $eq: ["$friendFeedback.sentiment", "negative"] }),
+            reactions: { $sum: reactions },
+            replies: { $sum: replies },
+          },
+        },
+      ]),
+      ContentHistory.aggregate([
+        { $match: match },
+        { $unwind: "$friendFeedback.reactions" },
+        { $group: { _id: "$friendFeedback.reactions.emoji", count: { $sum: 1 } } },
+        { $sort: { count: -1 } },
+        { $limit: 5 },
+      ]),
+      ContentHistory.find({ ...match, "friendFeedback.replies.0": { $exists: true } })
+        .sort({ updatedAt: -1 })
+        .limit(5)
+        .select("content.title friendFeedback.replies friendId")
+        .populate<{ friendId: { username: string } | null }>("friendId", "username")
+        .lean(),
+    ]);
+
+    const delivered = summary?.delivered || 0;
+    const withFeedback = summary?.withFeedback || 0;
+    const positive = summary?.positive || 0;
+    const negative = summary?.negative || 0;
+
+    return {
+      delivered,
+      withFeedback,
+      feedbackRate: delivered ? Math.round((withFeedback / delivered) * 1000) / 10 : 0,
+      positive,
+      negative,
+      neutral: withFeedback - positive - negative,
+      reactions: summary?.reactions || 0,
+      replies: summary?.replies || 0,
+      topEmojis: topEmojis.map((emoji: any) => ({ emoji: emoji._id, count: emoji.count })),
+      recentReplies: recent.map(entry => {
+        const replies = entry.friendFeedback?.replies || [];
+        const reply = replies[replies.length - 1];
+        return {
+          historyId: entry._id.toString(),
+          title: entry.content.title,
+          friendName: entry.friendId?.username || "Unknown friend",
+          text: reply.text,
+          sentiment: reply.sentiment,
+          repliedAt: reply.repliedAt,
+        };
+      }),
+    };
+  }
 }
@@ -0,0 +1,177 @@
+import { Types } from "mongoose";
+import config from "../config";
+import { Cooldown, ICooldown } from "../models/Cooldown";
+import { DiscordAccount } from "../models/DiscordAccount";
+import { IFriend } from "../models/Friend";
+import { ActivityType } from "../types/worker";
+import { resolveCooldown } from "../utils/cooldowns";
+
+export interface NextDelivery {
+  /** null when content may be sent right away, or never for friends who opted out */
+  nextDeliveryAt: Date | null;
+  reason: "cooldown" | "optedOut" | null;
+  cooldown: ICooldown | null;
+}
+
+/**
+ * Cooldowns keeping friends from getting content too often, stored in MongoDB so they survive
+ * restarts and are shared between server nodes. Expired cooldowns are removed by a TTL index.
+ */
+export class CooldownService {
+  private static instance: CooldownService;
+
+  private constructor() {}
+
+  public static getInstance(): CooldownService {
+    if (!CooldownService.instance) {
+      CooldownService.instance = new CooldownService();
+    }
+    return CooldownService.instance;
+  }
+
+  /**
+   * The friend's cooldown if it has not expired yet
+   */
+  getActive(
+    accountId: string,
+    friendId: Types.ObjectId,
+    now: Date = new Date(),
+  ): Promise<ICooldown | null> {
+    return Cooldown.findOne({
+      discordAccountId: new Types.ObjectId(accountId),
+      friendId,
+      expiresAt: { $gt: now },
+    }).exec();
+  }
+
+  /**
+   * Time left on the friend's cooldown, 0 when there is none
+   */
+  async getRemaining(
+    accountId: string,
+    friendId: Types.ObjectId,
+    now: Date = new Date(),
+  ): Promise<number> {
+    const cooldown = await this.getActive(accountId, friendId, now);
+    return cooldown ? cooldown.expiresAt.getTime() - now.getTime() : 0;
+  }
+
+  /**
+   * Put the friend on cooldown before content about an activity is looked for, for as long as
+   * the friend's, the account's or the server's settings say, longer or shorter by the frequency
+   * they asked for. Checking and starting the cooldown is one write, so of two triggers close
+   * together, on one node or two, only one gets to send.
+   * @returns claimed false when the friend is already on cooldown, and the cooldown started,
+   * null when the settings ask for none
+   */
+  async claim(
+    accountId: string,
+    friend: Pick<IFriend, "_id" | "cooldowns" | "contentPreferences">,
+    activity: { type: ActivityType; name: string },
+    now: Date = new Date(),
+  ): Promise<{ claimed: boolean; cooldown: ICooldown | null }> {
+    const discordAccountId = new Types.ObjectId(accountId);
+    const account = await DiscordAccount.findById(discordAccountId)
+      .select("settings.cooldowns")
+      .lean();
+
+    const resolved = resolveCooldown(
+      {
+        friend: friend.cooldowns,
+        account: account?.settings?.cooldowns,
+        server: config.cooldowns,
+      },
+      activity,
+      config.cooldowns.frequencies[friend.contentPreferences?.frequency || "normal"],
+    );
+    if (resolved.durationMs <= 0) {
+      // No cooldown to start, but one set by earlier settings still holds
+      const active = await this.getActive(accountId, friend._id, now);
+      return { claimed: !active, cooldown: null };
+    }
+
+    try {
+      const cooldown = await Cooldown.findOneAndUpdate(
+        // Only an expired cooldown the TTL index has not removed yet is taken over
+        { discordAccountId, friendId: friend._id, expiresAt: { $lte: now } },
+        {
+          $set: {
+            activityType: activity.type,
+            activityName: activity.name || undefined,
+            scope: resolved.scope,
+            level: resolved.level,
+            startedAt: now,
+            expiresAt: new Date(now.getTime() + resolved.durationMs),
+          },
+        },
+        { upsert: true, new: true },
+      ).exec();
+      return { claimed: true, cooldown };
+    } catch (error) {
+      // The upsert collides with the friend's live cooldown
+      if ((error as { code?: number }).code === 11000) return { claimed: false, cooldown: null };
+      throw error;
+    }
+  }
+
+  /**
+   * Give back a cooldown claimed for content that was not sent after all
+   */
+  async release(cooldown: ICooldown): Promise<void> {
+    // A cooldown claimed again since is left alone
+    await Cooldown.deleteOne({ _id: cooldown._id, startedAt: cooldown.startedAt });
+  }
+
+  /**
+   * Active cooldowns of an account, the ones ending soonest first
+   */
+  list(accountId: string, friendId?: string, now: Date = new Date()): Promise<ICooldown[]> {
+    return Cooldown.find({
+      discordAccountId: new Types.ObjectId(accountId),
+      ...(friendId && { friendId: new Types.ObjectId(friendId) }),
+      expiresAt: { $gt: now },
+    })
+      .populate("friendId", "userId username")
+      .sort({ expiresAt: 1 })
+      .exec();
+  }
+
+  getCooldown(cooldownId: string): Promise<ICooldown | null> {
+    return Cooldown.findById(cooldownId).exec();
+  }
+
+  async clear(cooldownId: string): Promise<boolean> {
+    const result = await Cooldown.deleteOne({ _id: cooldownId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Lift the cooldowns of an account, or of one of its friends
+   * @returns Number of cooldowns lifted
+   */
+  async clearAll(accountId: string, friendId?: string): Promise<number> {
+    const result = await Cooldown.deleteMany({
+      discordAccountId: new Types.ObjectId(accountId),
+      ...(friendId && { friendId: new Types.ObjectId(friendId) }),
+    });
+    return result.deletedCount;
+  }
+
+  /**
+   * When the friend may get content next, once their cooldown ends
+   */
+  async getNextDelivery(
+    friend: Pick<IFriend, "_id" | "discordAccountId" | "contentPreferences">,
+    now: Date = new Date(),
+  ): Promise<NextDelivery> {
+    const accountId = (friend.discordAccountId as Types.ObjectId).toString();
+    const cooldown = await this.getActive(accountId, friend._id, now);
+    if (friend.contentPreferences?.optedOut) {
+      return { nextDeliveryAt: null, reason: "optedOut", cooldown };
+    }
+
+    return cooldown
+      ? { nextDeliveryAt: cooldown.expiresAt, reason: "cooldown", cooldown }
+      : { nextDeliveryAt: null, reason: null, cooldown };
+  }
+}
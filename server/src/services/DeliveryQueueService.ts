@@ -0,0 +1,499 @@
+import os from "os";
+import { Types } from "mongoose";
+import config from "../config";
+import logger from "../utils/logger";
+import { nextAllowedTime, resolveTimeZone } from "../utils/timeWindows";
+import { DeliveryJob, DeliveryJobStatus, IDeliveryJob } from "../models/DeliveryJob";
+import { ContentHistory } from "../models/ContentHistory";
+import { DiscordAccount } from "../models/DiscordAccount";
+import { Friend } from "../models/Friend";
+import { ContentDeliveryCommand, DeliveryResult } from "../types/worker";
+import { WorkerManager } from "../workers/WorkerManager";
+
+export interface EnqueueDeliveryInput {
+  historyId: Types.ObjectId;
+  accountId: string;
+  friendId: string;
+  payload: ContentDeliveryCommand["data"];
+  /** Defaults to the next time allowed by the account's delivery time windows */
+  scheduledFor?: Date;
+  /** Deliver no earlier than this long from now, e.g. as a trigger rule asked */
+  delayMs?: number;
+}
+
+export type DeliveryOutcome = "delivered" | "retrying" | "failed";
+
+export interface DeliveryJobFilter {
+  accountIds?: Types.ObjectId[];
+  status?: DeliveryJobStatus;
+  page?: number;
+  limit?: number;
+}
+
+// Jobs in these states can be queued again by hand
+const RETRYABLE_STATUSES: DeliveryJobStatus[] = ["failed", "dead", "cancelled"];
+
+/**
+ * Durable content delivery queue backed by MongoDB. Deliveries are stored before they are
+ * handed to a worker, deferred until the account's delivery time windows, retried with
+ * exponential backoff while the worker is unavailable and dead-lettered after
+ * `config.delivery.maxAttempts`.
+ */
+export class DeliveryQueueService {
+  private static instance: DeliveryQueueService;
+  private workerManager: WorkerManager;
+  private readonly ownerId = `${os.hostname()}:${process.pid}`;
+  // The batch being dispatched, if any
+  private processing: Promise<number> | null = null;
+  // Set while shutting down, jobs then stay queued for the next process
+  private paused = false;
+
+  private constructor() {
+    this.workerManager = WorkerManager.getInstance();
+  }
+
+  public static getInstance(): DeliveryQueueService {
+    if (!DeliveryQueueService.instance) {
+      DeliveryQueueService.instance = new DeliveryQueueService();
+    }
+    return DeliveryQueueService.instance;
+  }
+
+  /**
+   * Queue a delivery. Enqueueing the same history entry again returns the existing job.
+   */
+  async enqueue(input: EnqueueDeliveryInput): Promise<IDeliveryJob> {
+    let scheduledFor = input.scheduledFor;
+    let deferredReason: string | undefined;
+    if (!scheduledFor) {
+      const account = await DiscordAccount.findById(input.accountId)
+        .select("settings.deliveryPreferences settings.timeZone")
+        .lean();
+      const now = new Date();
+      const earliest = new Date(now.getTime() + (input.delayMs || 0));
+      scheduledFor = nextAllowedTime(
+        account?.settings?.deliveryPreferences?.timeWindows,
+        earliest,
+        resolveTimeZone(account?.settings?.timeZone, config.timeZone),
+      );
+      if (scheduledFor > earliest) deferredReason = "Outside delivery time windows";
+      else if (scheduledFor > now) deferredReason = "Delayed by trigger rule";
+    }
+
+    const job = await DeliveryJob.findOneAndUpdate(
+      { historyId: input.historyId },
+      {
+        $setOnInsert: {
+          discordAccountId: new Types.ObjectId(input.accountId),
+          friendId: new Types.ObjectId(input.friendId),
+          payload: input.payload,
+          status: "queued",
+          scheduledFor,
+          deferredReason,
+          attempts: 0,
+          maxAttempts: config.delivery.maxAttempts,
+        },
+      },
+      { upsert: true, new: true },
+    );
+
+    if (deferredReason) {
+      logger.info(`Deferred delivery ${input.historyId} until ${scheduledFor.toISOString()}`);
+    }
+    return job;
+  }
+
+  /**
+   * Claim and dispatch due jobs. Overlapping calls in the same process are skipped.
+   * @returns Number of jobs handled
+   */
+  async processDueJobs(limit = config.delivery.batchSize): Promise<number> {
+    if (this.processing || this.paused) return 0;
+
+    this.processing = this.dispatchDueJobs(limit);
+    try {
+      return await this.processing;
+    } finally {
+      this.processing = null;
+    }
+  }
+
+  /**
+   * Stop dispatching jobs. Resolves once the batch being dispatched was handed to the workers.
+   */
+  async pause(): Promise<void> {
+    this.paused = true;
+    await this.processing;
+  }
+
+  /**
+   * Queue the jobs handed to the given accounts' workers again when the workers are stopped
+   * before reporting back. A delivery the worker was in the middle of may be sent twice.
+   * @returns Number of jobs queued again
+   */
+  async requeueDispatched(accountIds: string[], reason: string): Promise<number> {
+    if (accountIds.length === 0) return 0;
+
+    const result = await DeliveryJob.updateMany(
+      {
+        status: "dispatched",
+        discordAccountId: { $in: accountIds.map(id => new Types.ObjectId(id)) },
+      },
+      { $set: { status: "queued", scheduledFor: new Date(), lastError: reason } },
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Queue the jobs again that were handed to a worker longer than
+   * `config.delivery.dispatchTimeoutMs` ago and never reported back, e.g. because the worker
+   * crashed or the node running it went away. Every dispatch counts as an attempt, so a job
+   * that keeps getting lost ends up dead-lettered.
+   * @returns Number of jobs queued again
+   */
+  async requeueStaleDispatched(now: Date = new Date()): Promise<number> {
+    const result = await DeliveryJob.updateMany(
+      {
+        status: "dispatched",
+        dispatchedAt: { $lt: new Date(now.getTime() - config.delivery.dispatchTimeoutMs) },
+      },
+      { $set: { status: "queued", scheduledFor: now, lastError: "No result from the worker" } },
+    );
+    return result.modifiedCount;
+  }
+
+  private async dispatchDueJobs(limit: number): Promise<number> {
+    let handled = 0;
+    try {
+      while (handled < limit) {
+        const job = await this.claimNext();
+        if (!job) break;
+        await this.dispatch(job);
+        handled++;
+      }
+    } catch (error) {
+      logger.error("Failed to process delivery queue:", error);
+    }
+    return handled;
+  }
+
+  /**
+   * Complete a dispatched job from the result reported by the worker. Failures the worker
+   * considers retryable go back to the queue while attempts remain.
+   */
+  async recordResult(result: DeliveryResult): Promise<DeliveryOutcome> {
+    const job = await DeliveryJob.findOne({ historyId: result.historyId }).exec();
+    const completedAt = new Date(result.completedAt);
+
+    if (result.success) {
+      // A job dispatched twice reports its delivery twice, and is only counted once
+      const completed = job
+        ? await DeliveryJob.updateOne(
+            { _id: job._id, status: { $ne: "delivered" } },
+            {
+              $set: { status: "delivered", completedAt },
+              $unset: { lastError: 1, lockedBy: 1, lockedUntil: 1 },
+            },
+          )
+        : null;
+      if (job && completed?.modifiedCount) {
+        await Friend.updateOne(
+          { _id: job.friendId },
+          { $inc: { contentReceived: 1 }, $set: { lastContentTime: completedAt } },
+        );
+      }
+      return "delivered";
+    }
+
+    const error = result.error?.message || "Delivery failed";
+    // Deliveries sent outside the queue cannot be retried
+    if (!job) return "failed";
+
+    // The worker held the delivery back to stay within its pacing, which is not an attempt
+    if (result.error?.type === "PACED") {
+      await this.release(job, {
+        scheduledFor: new Date(Date.now() + (result.error.retryAfterMs || 0)),
+        attempts: Math.max(0, job.attempts - 1),
+        deferredReason: error,
+      });
+      return "retrying";
+    }
+
+    if (result.error?.retryable && job.attempts < job.maxAttempts) {
+      const delay = Math.max(this.getBackoffDelay(job.attempts), result.error.retryAfterMs || 0);
+      logger.warn(
+        `Delivery ${job.historyId} failed (${result.error.type}), retrying in ${Math.round(delay / 1000)}s: ${error}`,
+      );
+      await this.release(job, {
+        scheduledFor: new Date(Date.now() + delay),
+        lastError: error,
+      });
+      return "retrying";
+    }
+
+    await DeliveryJob.updateOne(
+      { _id: job._id },
+      {
+        $set: { status: "failed", lastError: error, completedAt },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+    );
+    return "failed";
+  }
+
+  listJobs(filter: DeliveryJobFilter = {}): Promise<{ jobs: IDeliveryJob[]; total: number }> {
+    const page = filter.page || 1;
+    const limit = filter.limit || 20;
+    const query = {
+      ...(filter.accountIds && { discordAccountId: { $in: filter.accountIds } }),
+      ...(filter.status && { status: filter.status }),
+    };
+
+    return Promise.all([
+      DeliveryJob.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("friendId", "username userId")
+        .populate("discordAccountId", "name")
+        .exec(),
+      DeliveryJob.countDocuments(query),
+    ]).then(([jobs, total]) => ({ jobs, total }));
+  }
+
+  async getStats(accountIds?: Types.ObjectId[]): Promise<Record<DeliveryJobStatus, number>> {
+    const counts = await DeliveryJob.aggregate<{ _id: DeliveryJobStatus; count: number }>([
+      ...(accountIds ? [{ $match: { discordAccountId: { $in: accountIds } } }] : []),
+      { $group: { _id: "$status", count: { $sum: 1 } } },
+    ]);
+
+    const stats: Record<DeliveryJobStatus, number> = {
+      queued: 0,
+      dispatched: 0,
+      delivered: 0,
+      failed: 0,
+      dead: 0,
+      cancelled: 0,
+    };
+    counts.forEach(({ _id, count }) => (stats[_id] = count));
+    return stats;
+  }
+
+  getJob(jobId: string): Promise<IDeliveryJob | null> {
+    return DeliveryJob.findById(jobId).exec();
+  }
+
+  /**
+   * Queue a failed, dead-lettered or cancelled job again with a fresh set of attempts
+   * @returns null when the job does not exist or cannot be retried
+   */
+  async retryJob(jobId: string): Promise<IDeliveryJob | null> {
+    const job = await DeliveryJob.findOneAndUpdate(
+      { _id: jobId, status: { $in: RETRYABLE_STATUSES } },
+      {
+        $set: { status: "queued", scheduledFor: new Date(), attempts: 0 },
+        $unset: { lastError: 1, deferredReason: 1, completedAt: 1, lockedBy: 1, lockedUntil: 1 },
+      },
+      { new: true },
+    );
+    if (!job) return null;
+
+    await ContentHistory.updateOne(
+      { _id: job.historyId },
+      { $set: { status: "PENDING" }, $unset: { error: 1 } },
+    );
+    logger.info(`Delivery ${job.historyId} queued again by hand`);
+    return job;
+  }
+
+  /**
+   * Cancel a job that has not been handed to a worker yet
+   * @returns null when the job does not exist or is no longer queued
+   */
+  async cancelJob(jobId: string): Promise<IDeliveryJob | null> {
+    const job = await DeliveryJob.findOneAndUpdate(
+      { _id: jobId, status: "queued" },
+      {
+        $set: { status: "cancelled", completedAt: new Date() },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+      { new: true },
+    );
+    if (!job) return null;
+
+    await ContentHistory.updateOne(
+      { _id: job.historyId },
+      { $set: { status: "FAILED", error: "Delivery cancelled" } },
+    );
+    return job;
+  }
+
+  /**
+   * Cancel the deliveries queued for a friend, e.g. once they opted out
+   * @returns Number of jobs cancelled
+   */
+  async cancelFriendJobs(friendId: Types.ObjectId, reason: string): Promise<number> {
+    const jobs = await DeliveryJob.find({ friendId, status: "queued" }).select("historyId").lean();
+    if (jobs.length === 0) return 0;
+
+    const result = await DeliveryJob.updateMany(
+      { _id: { $in: jobs.map(job => job._id) }, status: "queued" },
+      {
+        $set: { status: "cancelled", completedAt: new Date(), lastError: reason },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+    );
+    await ContentHistory.updateMany(
+      { _id: { $in: jobs.map(job => job.historyId) } },
+      { $set: { status: "FAILED", error: reason } },
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Delay before the next attempt: the base delay doubled for every failed attempt
+   */
+  getBackoffDelay(attempts: number): number {
+    const { backoffBaseMs, backoffMaxMs } = config.delivery;
+    return Math.min(backoffMaxMs, backoffBaseMs * 2 ** Math.max(0, attempts - 1));
+  }
+
+  /**
+   * Lock the next due job so other pollers skip it. Expired locks are taken over, so a job
+   * claimed by a process that died is picked up again.
+   */
+  private claimNext(): Promise<IDeliveryJob | null> {
+    const now = new Date();
+    // Jobs of accounts running on other nodes are left to those nodes
+    const remoteAccountIds = this.workerManager.getRemoteAccountIds();
+    return DeliveryJob.findOneAndUpdate(
+      {
+        status: "queued",
+        ...(remoteAccountIds.length > 0 && {
+          discordAccountId: { $nin: remoteAccountIds.map(id => new Types.ObjectId(id)) },
+        }),
+        scheduledFor: { $lte: now },
+        $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }],
+      },
+      {
+        $set: {
+          lockedBy: this.ownerId,
+          lockedUntil: new Date(now.getTime() + config.delivery.lockTimeoutMs),
+        },
+      },
+      { sort: { scheduledFor: 1 }, new: true },
+    ).exec();
+  }
+
+  private async dispatch(job: IDeliveryJob): Promise<void> {
+    const accountId = job.discordAccountId.toString();
+    const account = await DiscordAccount.findById(accountId)
+      .select("settings.deliveryPreferences settings.timeZone")
+      .lean();
+
+    if (!account) {
+      await this.deadLetter(job, "Discord account no longer exists");
+      return;
+    }
+
+    // The friend may have opted out since the job was queued
+    const friend = await Friend.findById(job.friendId).select("contentPreferences.optedOut").lean();
+    if (friend?.contentPreferences?.optedOut) {
+      await this.cancelFriendJobs(job.friendId, "Friend opted out");
+      return;
+    }
+
+    // Windows may have changed since the job was queued
+    const now = new Date();
+    const allowedAt = nextAllowedTime(
+      account.settings?.deliveryPreferences?.timeWindows,
+      now,
+      resolveTimeZone(account.settings?.timeZone, config.timeZone),
+    );
+    if (allowedAt > now) {
+      await this.release(job, {
+        scheduledFor: allowedAt,
+        deferredReason: "Outside delivery time windows",
+      });
+      return;
+    }
+
+    const workerStatus = this.workerManager.getWorkerStatus(accountId);
+    // A worker restarting or backing off is not an attempt, so the job waits for it
+    if (!workerStatus?.isConnected) {
+      await this.release(job, {
+        scheduledFor: new Date(now.getTime() + config.delivery.backoffBaseMs),
+        deferredReason: "Worker is not connected",
+      });
+      return;
+    }
+
+    // Marked before sending, so a fast result of the worker is not overwritten
+    const marked = await DeliveryJob.updateOne(
+      { _id: job._id, status: "queued", lockedBy: this.ownerId },
+      {
+        $set: { status: "dispatched", dispatchedAt: now, lastAttemptAt: now },
+        $inc: { attempts: 1 },
+        $unset: { lockedBy: 1, lockedUntil: 1, deferredReason: 1 },
+      },
+    );
+    // Our lock expired and another poller took the job over
+    if (marked.modifiedCount === 0) return;
+
+    try {
+      this.workerManager.sendToWorker(accountId, { type: "CONTENT_DELIVERY", data: job.payload });
+    } catch (error) {
+      await this.recordFailure(job, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async recordFailure(job: IDeliveryJob, error: string): Promise<void> {
+    const attempts = job.attempts + 1;
+    if (attempts >= job.maxAttempts) {
+      await this.deadLetter(job, error, attempts);
+      return;
+    }
+
+    const delay = this.getBackoffDelay(attempts);
+    logger.warn(
+      `Delivery ${job.historyId} attempt ${attempts} failed, retrying in ${Math.round(delay / 1000)}s: ${error}`,
+    );
+    await this.release(job, {
+      scheduledFor: new Date(Date.now() + delay),
+      attempts,
+      lastError: error,
+      lastAttemptAt: new Date(),
+    });
+  }
+
+  private async deadLetter(
+    job: IDeliveryJob,
+    error: string,
+    attempts = job.attempts,
+  ): Promise<void> {
+    logger.error(
+      `Delivery ${job.historyId} moved to dead letter after ${attempts} attempts: ${error}`,
+    );
+    await DeliveryJob.updateOne(
+      { _id: job._id },
+      {
+        $set: {
+          status: "dead",
+          attempts,
+          lastError: error,
+          lastAttemptAt: new Date(),
+          completedAt: new Date(),
+        },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      },
+    );
+    await ContentHistory.updateOne({ _id: job.historyId }, { $set: { status: "FAILED", error } });
+  }
+
+  private async release(job: IDeliveryJob, changes: Partial<IDeliveryJob>): Promise<void> {
+    await DeliveryJob.updateOne(
+      { _id: job._id },
+      { $set: { ...changes, status: "queued" }, $unset: { lockedBy: 1, lockedUntil: 1 } },
+    );
+  }
+}
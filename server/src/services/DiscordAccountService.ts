@@ -2,10 +2,18 @@ import { Types } from "mongoose";
 import { DiscordAccount, IDiscordAccount, IDiscordAccountSettings } from "../models/DiscordAccount";
 import logger from "../utils/logger";
 import { encryptToken, decryptToken } from "../utils/encryption";
-import { WorkerManager } from "../workers/WorkerManager";
+import { SupervisorState, WorkerManager } from "../workers/WorkerManager";
+import { IWorkerRestart, WorkerRestart } from "../models/WorkerRestart";
+import { IFriendSync } from "../models/FriendSync";
+import { DeliveryPacer } from "../workers/DeliveryPacer";
+import { PacingUsage } from "../types/worker";
 import { createAuditLog } from "../models/AuditLog";
 import { AccountService } from "./AccountService";
 import cache from "../utils/cache";
+import { settlesWithin } from "../utils/deadline";
+import config from "../config";
+import { ClusterService } from "./ClusterService";
+import { FriendSyncService } from "./FriendSyncService";
 
 export interface CreateAccountInput {
   userId: Types.ObjectId;
@@ -174,6 +182,12 @@ export class DiscordAccountService {
 
   // Start all active accounts' workers (used during service startup)
   async startAllWorkers(): Promise<void> {
+    // Clustered nodes only start their share of the accounts
+    if (config.cluster.enabled) {
+      await ClusterService.getInstance().start();
+      return;
+    }
+
     const activeAccounts = await DiscordAccount.find({ isActive: true });
 
     for (const account of activeAccounts) {
@@ -183,6 +197,20 @@ export class DiscordAccountService {
 
   // Stop all workers (used during service shutdown)
   async stopAllWorkers(): Promise<void> {
+    // Stopping every active account would reach the workers of the other nodes
+    if (config.cluster.enabled) {
+      try {
+        const { stopTimeoutMs } = config.shutdown;
+        if (!(await settlesWithin(this.workerManager.stopAllWorkers(), stopTimeoutMs))) {
+          logger.warn(`Workers did not stop within ${stopTimeoutMs / 1000}s, leaving anyway`);
+        }
+      } finally {
+        // The other nodes take the accounts over now instead of after the lease TTL
+        await ClusterService.getInstance().stop();
+      }
+      return;
+    }
+
     const activeAccounts = await DiscordAccount.find({ isActive: true });
 
     for (const account of activeAccounts) {
@@ -519,6 +547,11 @@ export class DiscordAccountService {
 
       // Get metrics from worker via WorkerManager
       const metrics = WorkerManager.getInstance().getMetrics();
+      // The worker reports a reset time while a bucket or the global limit is used up
+      const rateLimitResetAt = status.rateLimits?.resetAt
+        ? new Date(status.rateLimits.resetAt)
+        : undefined;
+      const rateLimited = !!rateLimitResetAt && rateLimitResetAt > new Date();
 
       return {
         status: status.isConnected ? "connected" : "disconnected",
@@ -531,9 +564,9 @@ export class DiscordAccountService {
             : 0,
         errorCount: metrics.errorCount || 0,
         requestCount: metrics.requestCount || 0,
-        rateLimited: false, // Default value as we don't have this information directly
-        rateLimitResetAt: undefined,
-        rateLimitRemaining: undefined,
+        rateLimited,
+        rateLimitResetAt: rateLimited ? rateLimitResetAt : undefined,
+        rateLimitRemaining: rateLimited ? 0 : undefined,
       };
     } catch (error) {
       logger.error(`Error getting health data for account ${accountId}:`, error);
@@ -541,6 +574,75 @@ export class DiscordAccountService {
     }
   }
 
+  /**
+   * Delivery pacing budgets and their consumption. Accounts without a running worker
+   * report their configured budgets with nothing used.
+   * @returns null if the account does not exist
+   */
+  async getPacingUsage(accountId: Types.ObjectId): Promise<PacingUsage | null> {
+    const status = this.workerManager.getWorkerStatus(accountId.toString());
+    if (status?.pacing) return status.pacing;
+
+    const account = await DiscordAccount.findById(accountId)
+      .select("settings.pacing settings.timeZone")
+      .lean();
+    if (!account) return null;
+    return new DeliveryPacer(account.settings || {}).getUsage();
+  }
+
+  /**
+   * Restarts of an account's worker, newest first, with the supervisor's current view of it
+   * @returns null if the account does not exist
+   */
+  async getRestartHistory(
+    accountId: Types.ObjectId,
+    limit = 50,
+  ): Promise<{ state: SupervisorState; restarts: IWorkerRestart[] } | null> {
+    const account = await DiscordAccount.findById(accountId).select("status.degraded").lean();
+    if (!account) return null;
+
+    const restarts = await WorkerRestart.find({ discordAccountId: accountId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+
+    const state = this.workerManager.getSupervisorState(accountId.toString());
+    return {
+      state: state === "stopped" && account.status?.degraded ? "degraded" : state,
+      restarts,
+    };
+  }
+
+  /**
+   * Ask the account's worker to sync its friends again. The result is recorded once the
+   * worker reports back.
+   * @returns null if the account does not exist, false if no worker is running for it
+   */
+  async requestFriendSync(accountId: Types.ObjectId): Promise<boolean | null> {
+    const account = await DiscordAccount.findById(accountId).select("_id").lean();
+    if (!account) return null;
+
+    const id = accountId.toString();
+    const running =
+      this.workerManager.getWorkerStatus(id)?.isConnected ||
+      this.workerManager.getRemoteAccountIds().includes(id);
+    if (!running) return false;
+
+    this.workerManager.sendToWorker(id, { type: "SYNC_FRIENDS", data: { accountId: id } });
+    return true;
+  }
+
+  /**
+   * Recorded friend syncs of an account, newest first
+   * @returns null if the account does not exist
+   */
+  async getFriendSyncs(accountId: Types.ObjectId, limit = 20): Promise<IFriendSync[] | null> {
+    const account = await DiscordAccount.findById(accountId).select("_id").lean();
+    if (!account) return null;
+
+    return FriendSyncService.getInstance().listSyncs(accountId, limit);
+  }
+
   /**
    * List all Discord accounts with pagination
    * @param options Filtering and pagination options
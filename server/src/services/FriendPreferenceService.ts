@@ -0,0 +1,79 @@
+import { Types } from "mongoose";
+import logger from "../utils/logger";
+import { applyDmCommand } from "../utils/friendPreferences";
+import { DiscordAccount } from "../models/DiscordAccount";
+import { Friend } from "../models/Friend";
+import { createAuditLog } from "../models/AuditLog";
+import { DmCommand } from "../types/worker";
+import { DeliveryQueueService } from "./DeliveryQueueService";
+
+/**
+ * Applies the commands friends send an account by DM to control what they receive. Changes
+ * are audited under the account's owner, and a friend who opts out has their queued
+ * deliveries cancelled right away.
+ */
+export class FriendPreferenceService {
+  private static instance: FriendPreferenceService;
+
+  private constructor() {}
+
+  public static getInstance(): FriendPreferenceService {
+    if (!FriendPreferenceService.instance) {
+      FriendPreferenceService.instance = new FriendPreferenceService();
+    }
+    return FriendPreferenceService.instance;
+  }
+
+  /**
+   * Save what a friend's command changes. Friends not synced yet are added, so an opt-out
+   * holds from the first DM.
+   * @returns The reply confirming the command, or null if the account does not exist
+   */
+  async handleDmCommand(
+    accountId: string,
+    userId: string,
+    username: string,
+    command: DmCommand,
+  ): Promise<string | null> {
+    const discordAccountId = new Types.ObjectId(accountId);
+    const account = await DiscordAccount.findById(discordAccountId).select("userId").lean();
+    if (!account) return null;
+
+    const friend = await Friend.findOneAndUpdate(
+      { discordAccountId, userId },
+      { $setOnInsert: { username } },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    ).exec();
+
+    const { changes, reply } = applyDmCommand(friend.contentPreferences, command);
+    if (Object.keys(changes).length === 0) return reply;
+
+    const update: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(changes)) {
+      update[`contentPreferences.${key}`] = value;
+    }
+    if (changes.optedOut !== undefined) {
+      update["contentPreferences.optedOutAt"] = changes.optedOut ? new Date() : null;
+    }
+    await Friend.updateOne({ _id: friend._id }, { $set: update });
+
+    let cancelled = 0;
+    if (changes.optedOut) {
+      cancelled = await DeliveryQueueService.getInstance().cancelFriendJobs(
+        friend._id,
+        "Friend opted out",
+      );
+    }
+
+    await createAuditLog("friend_dm_command", account.userId, "friend", [friend._id], {
+      discordAccountId: accountId,
+      friendUserId: userId,
+      command,
+      changes,
+      cancelledDeliveries: cancelled,
+    });
+    logger.info(`Friend ${userId} of account ${accountId} sent "${command.type}" by DM`);
+
+    return reply;
+  }
+}
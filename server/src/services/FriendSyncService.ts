@@ -0,0 +1,80 @@
+import { Types } from "mongoose";
+import logger from "../utils/logger";
+import { diffFriends } from "../utils/friendSync";
+import { Friend } from "../models/Friend";
+import { FriendSync, IFriendSync } from "../models/FriendSync";
+import { FriendSyncTrigger, SyncedFriend } from "../types/worker";
+
+/**
+ * Keeps the Friend documents of an account in line with the people its worker finds on
+ * Discord: friends, open DMs and members of shared servers. Friends who are gone are marked
+ * as removed rather than deleted, so their preferences and history survive a return.
+ */
+export class FriendSyncService {
+  private static instance: FriendSyncService;
+
+  private constructor() {}
+
+  public static getInstance(): FriendSyncService {
+    if (!FriendSyncService.instance) {
+      FriendSyncService.instance = new FriendSyncService();
+    }
+    return FriendSyncService.instance;
+  }
+
+  /**
+   * Store the friends a worker found and record what changed. Syncs that changed nothing
+   * are only recorded when requested by hand.
+   * @returns The recorded sync, or null when nothing was recorded
+   */
+  async apply(
+    accountId: string,
+    trigger: FriendSyncTrigger,
+    friends: SyncedFriend[],
+  ): Promise<IFriendSync | null> {
+    const discordAccountId = new Types.ObjectId(accountId);
+    const known = await Friend.find({ discordAccountId })
+      .select("userId username removedAt")
+      .lean();
+    const diff = diffFriends(known, friends);
+    const now = new Date();
+
+    if (friends.length > 0) {
+      await Friend.bulkWrite(
+        friends.map(({ userId, username, sources }) => ({
+          updateOne: {
+            filter: { discordAccountId, userId },
+            update: { $set: { username, sources, lastSyncedAt: now, removedAt: null } },
+            upsert: true,
+          },
+        })),
+      );
+    }
+    if (diff.removed.length > 0) {
+      await Friend.updateMany(
+        { discordAccountId, userId: { $in: diff.removed.map(friend => friend.userId) } },
+        { $set: { removedAt: now } },
+      );
+    }
+
+    const changes = diff.added.length + diff.removed.length + diff.renamed.length;
+    if (changes > 0) {
+      logger.info(
+        `Friend sync for account ${accountId}: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.renamed.length} renamed`,
+      );
+    }
+    if (changes === 0 && trigger !== "manual") return null;
+
+    return FriendSync.create({ discordAccountId, trigger, ...diff, total: friends.length });
+  }
+
+  /**
+   * Recorded syncs of an account, newest first
+   */
+  listSyncs(accountId: Types.ObjectId, limit = 20): Promise<IFriendSync[]> {
+    return FriendSync.find({ discordAccountId: accountId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+}
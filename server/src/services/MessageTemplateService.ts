@@ -0,0 +1,259 @@
+import { Types } from "mongoose";
+import logger from "../utils/logger";
+import cache from "../utils/cache";
+import { IMessageTemplate, MessageDeliveryMode, MessageTemplate } from "../models/MessageTemplate";
+import { ActivityState, ActivityType } from "../types/worker";
+import { ActivityMilestone, MilestoneKind } from "../types/milestones";
+import {
+  buildTemplateVariables,
+  findUnknownVariables,
+  renderTemplate,
+} from "../utils/messageTemplate";
+
+const LAST_VARIANT_TTL = 7 * 24 * 60 * 60; // 1 week, in seconds
+
+// Used when neither the friend nor the account has a template for the activity
+const DEFAULT_VARIANTS: Record<ActivityType, string[]> = {
+  GAME: [
+    "Found this {{mediaType|meme}} related to {{trigger}}:",
+    "saw this and thought of you {{activity}}",
+    "{{timePlayed|a while}} of {{game}}, you've earned this",
+    "ok this one's for the {{game}} players",
+    "lmao {{game}}",
+  ],
+  MUSIC: [
+    "Found this {{mediaType|meme}} related to {{trigger}}:",
+    "{{artist}} fans will get this",
+    "this is what {{song|that song}} sounds like",
+    "saw this while you were {{activity}}",
+  ],
+  STREAMING: [
+    "Found this {{mediaType|meme}} related to {{trigger}}:",
+    "for the stream",
+    "chat would love this",
+  ],
+  WATCHING: [
+    "Found this {{mediaType|meme}} related to {{trigger}}:",
+    "anyone else watching {{show}}?",
+    "{{show}} moment",
+  ],
+  CUSTOM: ["Found this {{mediaType|meme}} for you:", "felt this", "mood"],
+  COMPETING: [
+    "Found this {{mediaType|meme}} related to {{trigger}}:",
+    "good luck in {{event|there}}",
+    "you after {{event|the match}}",
+  ],
+};
+
+// Used for milestones when neither the friend nor the account has a template celebrating them
+const DEFAULT_MILESTONE_VARIANTS: Record<MilestoneKind, string[]> = {
+  longSession: [
+    "{{milestone}}?? take a break and look at this",
+    "{{milestone}}, you've earned this {{mediaType|meme}}",
+    "still going after {{milestone}}, respect",
+  ],
+  weeklySessions: ["{{milestone}}, you ok?", "{{milestone}}, at this point it's a lifestyle"],
+  firstTime: [
+    "{{milestone}}? welcome, here's your starter {{mediaType|meme}}",
+    "{{milestone}}, you're gonna need this",
+  ],
+  comeback: ["{{milestone}}, missed it?", "look who's {{milestone}}"],
+  allDay: ["{{milestone}}, a true fan", "{{milestone}}, this one's for you"],
+};
+
+export interface DeliveryMessage {
+  text: string;
+  mode: MessageDeliveryMode;
+}
+
+export interface DeliveryMessageContext {
+  accountId: string;
+  friendId: string;
+  friendName: string;
+  activity: ActivityState;
+  trigger: string;
+  content: { url: string; title: string; source?: string; type?: string };
+  /** Template picked by a trigger rule, used when it is still active */
+  templateId?: string;
+  /** Set when the content celebrates a milestone rather than an activity change */
+  milestone?: ActivityMilestone;
+}
+
+export interface MessageTemplateInput {
+  name: string;
+  friendId?: string | null;
+  activityTypes?: ActivityType[];
+  milestones?: MilestoneKind[];
+  variants: string[];
+  mode?: MessageDeliveryMode;
+  isActive?: boolean;
+}
+
+/**
+ * Renders the message sent with delivered content from per-friend or per-account templates,
+ * picking a different variant each time so friends do not see the same text over and over
+ */
+export class MessageTemplateService {
+  private static instance: MessageTemplateService;
+
+  private constructor() {}
+
+  public static getInstance(): MessageTemplateService {
+    if (!MessageTemplateService.instance) {
+      MessageTemplateService.instance = new MessageTemplateService();
+    }
+    return MessageTemplateService.instance;
+  }
+
+  getTemplates(accountId: string, friendId?: string): Promise<IMessageTemplate[]> {
+    return MessageTemplate.find({
+      discordAccountId: new Types.ObjectId(accountId),
+      ...(friendId !== undefined && { friendId: friendId ? new Types.ObjectId(friendId) : null }),
+    })
+      .sort({ friendId: -1, createdAt: 1 })
+      .exec();
+  }
+
+  createTemplate(accountId: string, input: MessageTemplateInput): Promise<IMessageTemplate> {
+    this.validateVariants(input.variants);
+    return MessageTemplate.create({
+      ...input,
+      discordAccountId: new Types.ObjectId(accountId),
+      friendId: input.friendId ? new Types.ObjectId(input.friendId) : null,
+    });
+  }
+
+  updateTemplate(
+    templateId: string,
+    updates: Partial<MessageTemplateInput>,
+  ): Promise<IMessageTemplate | null> {
+    if (updates.variants) this.validateVariants(updates.variants);
+    const { friendId, ...rest } = updates;
+    const changes = Object.fromEntries(
+      Object.entries(rest).filter(([, value]) => value !== undefined),
+    );
+    return MessageTemplate.findByIdAndUpdate(
+      templateId,
+      {
+        $set: {
+          ...changes,
+          ...(friendId !== undefined && {
+            friendId: friendId ? new Types.ObjectId(friendId) : null,
+          }),
+        },
+      },
+      { new: true, runValidators: true },
+    ).exec();
+  }
+
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    const result = await MessageTemplate.deleteOne({ _id: templateId });
+    return result.deletedCount > 0;
+  }
+
+  getTemplate(templateId: string): Promise<IMessageTemplate | null> {
+    return MessageTemplate.findById(templateId).exec();
+  }
+
+  /**
+   * Render every variant against a sample activity, for previews
+   */
+  preview(
+    variants: string[],
+    sample: {
+      activity: ActivityState;
+      friendName?: string;
+      trigger?: string;
+      content?: any;
+      milestone?: string;
+    },
+  ): string[] {
+    this.validateVariants(variants);
+    const variables = buildTemplateVariables({
+      friendName: sample.friendName || "friend",
+      activity: sample.activity,
+      trigger: sample.trigger || "",
+      content: sample.content,
+      milestone: sample.milestone ? { description: sample.milestone } : undefined,
+    });
+    return variants.map(variant => renderTemplate(variant, variables));
+  }
+
+  /**
+   * Message to send with a content delivery. The most specific active template wins:
+   * friend before account, and templates naming the activity type before catch-all ones.
+   * Milestones only use templates celebrating them.
+   */
+  async renderDeliveryMessage(context: DeliveryMessageContext): Promise<DeliveryMessage> {
+    let template: Pick<IMessageTemplate, "variants" | "mode"> | null = null;
+    try {
+      template = await this.findTemplate(context);
+    } catch (error) {
+      logger.error("Failed to load message templates:", error);
+    }
+
+    const variants = template?.variants.length
+      ? template.variants
+      : context.milestone
+        ? DEFAULT_MILESTONE_VARIANTS[context.milestone.kind]
+        : DEFAULT_VARIANTS[context.activity.type];
+    const variables = buildTemplateVariables(context);
+
+    return {
+      text: renderTemplate(this.pickVariant(context.friendId, variants), variables),
+      mode: template?.mode || "embed",
+    };
+  }
+
+  private async findTemplate(
+    context: DeliveryMessageContext,
+  ): Promise<Pick<IMessageTemplate, "variants" | "mode"> | null> {
+    if (context.templateId) {
+      const picked = await MessageTemplate.findOne({
+        _id: new Types.ObjectId(context.templateId),
+        discordAccountId: new Types.ObjectId(context.accountId),
+        isActive: true,
+      })
+        .select("variants mode")
+        .lean();
+      if (picked) return picked;
+    }
+
+    const templates = await MessageTemplate.find({
+      discordAccountId: new Types.ObjectId(context.accountId),
+      isActive: true,
+      $and: [
+        { $or: [{ friendId: new Types.ObjectId(context.friendId) }, { friendId: null }] },
+        {
+          $or: [{ activityTypes: context.activity.type }, { activityTypes: { $size: 0 } }],
+        },
+        context.milestone
+          ? { milestones: context.milestone.kind }
+          : { $or: [{ milestones: { $exists: false } }, { milestones: { $size: 0 } }] },
+      ],
+    })
+      .select("friendId activityTypes variants mode")
+      .lean();
+
+    const specificity = (template: (typeof templates)[number]) =>
+      (template.friendId ? 2 : 0) + (template.activityTypes.length ? 1 : 0);
+    return templates.sort((a, b) => specificity(b) - specificity(a))[0] || null;
+  }
+
+  /**
+   * Random variant, never the same one twice in a row for a friend
+   */
+  private pickVariant(friendId: string, variants: string[]): string {
+    const key = `template:last:${friendId}`;
+    const last = cache.get<string>(key);
+    const candidates = variants.length > 1 ? variants.filter(v => v !== last) : variants;
+    const variant = candidates[Math.floor(Math.random() * candidates.length)];
+    cache.set(key, variant, LAST_VARIANT_TTL);
+    return variant;
+  }
+
+  private validateVariants(variants: string[]): void {
+    const unknown = Array.from(new Set(variants.flatMap(findUnknownVariables)));
+    if (unknown.length) throw new Error(`Unknown template variables: ${unknown.join(", ")}`);
+  }
+}
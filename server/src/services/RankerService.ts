@@ -0,0 +1,196 @@
+import logger from "../utils/logger";
+import cache from "../utils/cache";
+import config from "../config";
+import { RankerScope, RankerWeights } from "../models/RankerWeights";
+import { ActivityType } from "../types/worker";
+import { ContentItem } from "../types/content";
+import {
+  extractFeatures,
+  FeatureVector,
+  FeedbackSignal,
+  gradientStep,
+  labelFeedback,
+  predict,
+  Weights,
+} from "./ranking";
+
+const WEIGHTS_CACHE_TTL = 60; // seconds
+
+export interface RankingContext {
+  accountId: string;
+  friendId: string;
+  activityType: ActivityType;
+}
+
+export interface RankingSnapshot {
+  model: "learned" | "heuristic" | "exploration";
+  /** Predicted probability that the friend likes the content */
+  score: number;
+  heuristicScore: number;
+  features: FeatureVector;
+}
+
+interface ScopedWeights {
+  weights: Weights;
+  samples: number;
+}
+
+/**
+ * Re-ranks content search results with an online logistic regression trained on friend
+ * feedback. Weights are kept per scope (global, account, friend) and summed when scoring,
+ * so the model personalizes as feedback for a friend accumulates.
+ */
+export class RankerService {
+  private static instance: RankerService;
+
+  private constructor() {}
+
+  public static getInstance(): RankerService {
+    if (!RankerService.instance) {
+      RankerService.instance = new RankerService();
+    }
+    return RankerService.instance;
+  }
+
+  /**
+   * Order candidates by predicted preference. Each returned item carries its ranking
+   * snapshot in `metadata.ranking` so the features can be stored with the delivery.
+   * Until the global model has `minSamples` labels the heuristic order is kept.
+   */
+  async rank(candidates: ContentItem[], context: RankingContext): Promise<ContentItem[]> {
+    if (!config.content.ranker.enabled || !candidates.length) return candidates;
+
+    let weightSets: ScopedWeights[];
+    try {
+      weightSets = await this.loadWeights(context);
+    } catch (error) {
+      logger.error("Failed to load ranker weights:", error);
+      return candidates;
+    }
+
+    const trained = weightSets[0].samples >= config.content.ranker.minSamples;
+    const scored = candidates.map(item => {
+      const features = extractFeatures(item, context.activityType);
+      const ranking: RankingSnapshot = {
+        model: trained ? "learned" : "heuristic",
+        score: predict(
+          weightSets.map(set => set.weights),
+          features,
+        ),
+        heuristicScore: item.metadata?.relevanceScore || 0,
+        features,
+      };
+      return { ...item, metadata: { ...item.metadata, ranking } };
+    });
+
+    if (trained) {
+      scored.sort((a, b) => b.metadata.ranking.score - a.metadata.ranking.score);
+    }
+
+    // Occasionally lead with another candidate so content the model rates low still
+    // gets a chance to collect feedback
+    if (scored.length > 1 && Math.random() < config.content.ranker.explorationRate) {
+      const index = 1 + Math.floor(Math.random() * (scored.length - 1));
+      const [explored] = scored.splice(index, 1);
+      explored.metadata.ranking.model = "exploration";
+      scored.unshift(explored);
+    }
+
+    return scored;
+  }
+
+  /**
+   * Update the global, account and friend weights from a feedback signal on a delivery
+   * that was ranked with the given features
+   */
+  async learn(
+    features: FeatureVector,
+    context: Pick<RankingContext, "accountId" | "friendId">,
+    signal: FeedbackSignal,
+  ): Promise<void> {
+    const example = labelFeedback(signal);
+    if (!config.content.ranker.enabled || !example) return;
+
+    try {
+      const weightSets = await this.loadWeights(context);
+      const { learningRates, l2 } = config.content.ranker;
+      const deltas = gradientStep(
+        weightSets.map(set => set.weights),
+        features,
+        example.label,
+        example.weight,
+        { learningRates: [learningRates.global, learningRates.account, learningRates.friend], l2 },
+      );
+
+      await Promise.all(
+        this.scopesOf(context).map(([scope, scopeId], index) => {
+          const increments: Record<string, number> = { samples: 1 };
+          for (const [feature, delta] of Object.entries(deltas[index])) {
+            increments[`weights.${feature}`] = delta;
+          }
+          cache.delete(this.cacheKey(scope, scopeId));
+          return RankerWeights.updateOne(
+            { scope, scopeId },
+            { $inc: increments },
+            { upsert: true },
+          );
+        }),
+      );
+
+      logger.debug(
+        `Ranker learned ${signal.type} feedback (label ${example.label}) for friend ${context.friendId}`,
+      );
+    } catch (error) {
+      logger.error("Failed to update ranker weights:", error);
+    }
+  }
+
+  /**
+   * Strongest learned feature weights of a scope, for inspection
+   */
+  async getTopFeatures(
+    scope: RankerScope = "global",
+    scopeId = "global",
+    limit = 20,
+  ): Promise<{ samples: number; features: Array<{ feature: string; weight: number }> }> {
+    const { weights, samples } = await this.loadScope(scope, scopeId);
+    const features = Object.entries(weights)
+      .map(([feature, weight]) => ({ feature, weight }))
+      .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+      .slice(0, limit);
+    return { samples, features };
+  }
+
+  private scopesOf(
+    context: Pick<RankingContext, "accountId" | "friendId">,
+  ): Array<[RankerScope, string]> {
+    return [
+      ["global", "global"],
+      ["account", context.accountId],
+      ["friend", context.friendId],
+    ];
+  }
+
+  private loadWeights(
+    context: Pick<RankingContext, "accountId" | "friendId">,
+  ): Promise<ScopedWeights[]> {
+    return Promise.all(
+      this.scopesOf(context).map(([scope, scopeId]) => this.loadScope(scope, scopeId)),
+    );
+  }
+
+  private async loadScope(scope: RankerScope, scopeId: string): Promise<ScopedWeights> {
+    const key = this.cacheKey(scope, scopeId);
+    const cached = cache.get<ScopedWeights>(key);
+    if (cached) return cached;
+
+    const doc = await RankerWeights.findOne({ scope, scopeId }).lean();
+    const loaded = { weights: doc?.weights || {}, samples: doc?.samples || 0 };
+    cache.set(key, loaded, WEIGHTS_CACHE_TTL);
+    return loaded;
+  }
+
+  private cacheKey(scope: RankerScope, scopeId: string): string {
+    return `ranker:weights:${scope}:${scopeId}`;
+  }
+}
@@ -0,0 +1,119 @@
+import { Server } from "http";
+import config from "../config";
+import logger from "../utils/logger";
+import { settlesWithin } from "../utils/deadline";
+import { WorkerManager } from "../workers/WorkerManager";
+import { ClusterService } from "./ClusterService";
+import { DeliveryQueueService } from "./DeliveryQueueService";
+import { DiscordAccountService } from "./DiscordAccountService";
+import socketService from "./SocketService";
+
+/**
+ * Shuts the server down without dropping work. Draining stops dispatching queued deliveries
+ * and taking presence triggers, waits for the deliveries the workers already have and saves
+ * the presence they track; only then are the workers stopped. The server keeps answering
+ * while draining, with the health check reporting it so a load balancer can take it out.
+ */
+export class ShutdownService {
+  private static instance: ShutdownService;
+  private shuttingDown: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ShutdownService {
+    if (!ShutdownService.instance) {
+      ShutdownService.instance = new ShutdownService();
+    }
+    return ShutdownService.instance;
+  }
+
+  /**
+   * Shut down on SIGTERM or SIGINT. The handlers only run once, so a second signal ends the
+   * process right away when the drain takes too long.
+   */
+  handleSignals(server: Server): void {
+    const onSignal = (signal: NodeJS.Signals) => {
+      logger.info(`Received ${signal}. Starting graceful shutdown...`);
+      this.shutdown(server).then(
+        () => process.exit(0),
+        error => {
+          logger.error("Error during shutdown:", error);
+          process.exit(1);
+        },
+      );
+    };
+
+    process.once("SIGTERM", onSignal);
+    process.once("SIGINT", onSignal);
+  }
+
+  isDraining(): boolean {
+    return this.shuttingDown !== null;
+  }
+
+  shutdown(server: Server): Promise<void> {
+    if (!this.shuttingDown) {
+      this.shuttingDown = this.run(server);
+    }
+    return this.shuttingDown;
+  }
+
+  private async run(server: Server): Promise<void> {
+    const { drainTimeoutMs, stopTimeoutMs } = config.shutdown;
+    // Bounded as a whole, so the process exits even when stopping a worker or closing hangs
+    const deadlineMs = drainTimeoutMs + stopTimeoutMs;
+    let finished = false;
+    try {
+      finished = await settlesWithin(this.stop(server), deadlineMs);
+      if (!finished) {
+        logger.error(`Shutdown did not finish within ${deadlineMs / 1000}s, exiting anyway`);
+      }
+    } finally {
+      if (!finished) await this.leaveCluster();
+    }
+  }
+
+  private async stop(server: Server): Promise<void> {
+    const { drainTimeoutMs } = config.shutdown;
+    if (!(await settlesWithin(this.drain(), drainTimeoutMs))) {
+      logger.warn(
+        `Workers did not drain within ${drainTimeoutMs / 1000}s, stopping them with deliveries in flight`,
+      );
+      const requeued = await DeliveryQueueService.getInstance().requeueDispatched(
+        WorkerManager.getInstance().getAccountIds(),
+        "Worker stopped during shutdown",
+      );
+      if (requeued > 0) logger.warn(`Queued ${requeued} unfinished deliveries again`);
+    }
+
+    await DiscordAccountService.getInstance().stopAllWorkers();
+    socketService.shutdown();
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    logger.info("Server closed successfully");
+  }
+
+  /**
+   * Hand this node's accounts to the other nodes right away when the shutdown did not get to it,
+   * rather than after the lease TTL
+   */
+  private async leaveCluster(): Promise<void> {
+    if (!config.cluster.enabled) return;
+    try {
+      await settlesWithin(ClusterService.getInstance().stop(), config.shutdown.stopTimeoutMs);
+    } catch (error) {
+      logger.error("Failed to leave the cluster:", error);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    logger.info("Draining: no longer dispatching deliveries or taking presence triggers");
+    await DeliveryQueueService.getInstance().pause();
+    if (config.cluster.enabled) {
+      await ClusterService.getInstance().pause(
+        config.shutdown.drainTimeoutMs + config.cluster.leaseTtlMs,
+      );
+    }
+    await WorkerManager.getInstance().drainWorkers();
+  }
+}
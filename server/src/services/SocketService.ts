@@ -8,6 +8,7 @@ import path from "path";
 import performanceMonitor, { SystemMetrics } from "./PerformanceMonitor";
 import PerformanceAlertConfig, { getDefaultAlertConfig } from "../models/PerformanceAlertConfig";
 import { decryptToken } from "../utils/encryption";
+import { DeliveryResult, WorkerHeartbeatState } from "../types/worker";
 
 /**
  * Log entry structure for client consumption
@@ -687,6 +688,26 @@ class SocketService {
     logger.info("Sent notification", { title: notification.title, type: notification.type });
   }
 
+  /**
+   * Broadcast the outcome of a content delivery reported by a worker
+   */
+  public emitDeliveryResult(
+    result: DeliveryResult & { accountId: string; outcome: "delivered" | "retrying" | "failed" },
+  ): void {
+    if (!this.io || this.connectedClients.size === 0) return;
+
+    this.io.emit("delivery_result", result);
+  }
+
+  /**
+   * Broadcast the liveness of a worker, on every heartbeat and when it stops responding
+   */
+  public emitWorkerHeartbeat(heartbeat: WorkerHeartbeatState): void {
+    if (!this.io || this.connectedClients.size === 0) return;
+
+    this.io.emit("worker_heartbeat", heartbeat);
+  }
+
   /**
    * Get the number of connected clients
    */
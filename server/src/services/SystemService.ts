@@ -4,6 +4,8 @@ import { SystemMetrics, ISystemMetrics } from "../models/SystemMetrics";
 import { WorkerManager } from "../workers/WorkerManager";
 import { DiscordAccount } from "../models/DiscordAccount";
 import logger from "../utils/logger";
+import { ContentCacheService } from "./ContentCacheService";
+import { RateLimitUsage, WorkerMemoryUsage } from "../types/worker";
 
 export interface WorkerStatus {
   accountId: string;
@@ -14,6 +16,7 @@ export interface WorkerStatus {
   memoryUsage?: number;
   reconnectAttempts?: number;
   lastActivity?: Date;
+  rateLimits?: RateLimitUsage;
 }
 
 export class SystemService {
@@ -100,6 +103,7 @@ export class SystemService {
         activeUsers,
         requestsPerMinute: workerMetrics.requestsPerMinute,
         errorRate: workerMetrics.errorRate,
+        workerMemory: this.toMegabytes(this.workerManager.getMemoryUsage()),
       };
 
       await SystemMetrics.create(metrics);
@@ -156,6 +160,49 @@ export class SystemService {
     ]);
   }
 
+  /**
+   * Average worker memory per account in each worker mode the server ran in recently, so
+   * switching to pooled workers can be judged by what it saves
+   */
+  async getWorkerMemoryComparison(days = 7): Promise<
+    Array<{
+      mode: WorkerMemoryUsage["mode"];
+      perAccount: number;
+      accounts: number;
+      samples: number;
+    }>
+  > {
+    const results = await SystemMetrics.aggregate([
+      {
+        $match: {
+          timestamp: { $gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+          "workerMemory.accounts": { $gt: 0 },
+        },
+      },
+      {
+        $group: {
+          _id: "$workerMemory.mode",
+          perAccount: { $avg: "$workerMemory.perAccount" },
+          accounts: { $avg: "$workerMemory.accounts" },
+          samples: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    return results.map(result => ({
+      mode: result._id,
+      perAccount: Math.round(result.perAccount * 10) / 10,
+      accounts: Math.round(result.accounts),
+      samples: result.samples,
+    }));
+  }
+
+  private toMegabytes(usage: WorkerMemoryUsage): WorkerMemoryUsage {
+    const toMb = (bytes: number) => Math.round((bytes / 1024 / 1024) * 10) / 10;
+    return { ...usage, heapUsed: toMb(usage.heapUsed), perAccount: toMb(usage.perAccount) };
+  }
+
   /**
    * Get worker thread status
    */
@@ -228,6 +275,12 @@ export class SystemService {
       // Get metrics history for the last 12 hours
       const usageHistory = await this.getMetricsHistory(12);
 
+      const contentCache = await ContentCacheService.getInstance().getStats();
+      const workerMemory = {
+        current: this.toMegabytes(this.workerManager.getMemoryUsage()),
+        comparison: await this.getWorkerMemoryComparison(),
+      };
+
       return {
         current: {
           cpu: metrics?.cpuUsage || 0,
@@ -243,6 +296,8 @@ export class SystemService {
           cpu: point.cpuUsage,
           memory: point.memoryUsage,
         })),
+        contentCache,
+        workerMemory,
       };
     } catch (error) {
       logger.error("Error getting system metrics:", error);
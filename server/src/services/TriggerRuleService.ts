@@ -0,0 +1,156 @@
+import { Types } from "mongoose";
+import config from "../config";
+import { ITriggerRule, TriggerRule } from "../models/TriggerRule";
+import { DiscordAccount } from "../models/DiscordAccount";
+import { Friend } from "../models/Friend";
+import { WorkerPresenceEvent } from "../types/worker";
+import {
+  TriggerRuleAction,
+  TriggerRuleConditions,
+  TriggerRuleDecision,
+  TriggerRuleDefinition,
+} from "../types/rules";
+import { activityName } from "../utils/activitySessions";
+import { alongsideTypes } from "../utils/activitySets";
+import { resolveTimeZone } from "../utils/timeWindows";
+import { evaluateRules, isValidNamePattern } from "../utils/triggerRules";
+
+export interface TriggerRuleInput {
+  name: string;
+  friendId?: string | null;
+  priority?: number;
+  conditions?: TriggerRuleConditions;
+  action: TriggerRuleAction;
+  isActive?: boolean;
+}
+
+/**
+ * Per-account and per-friend rules deciding what happens when a friend starts an activity:
+ * send content, skip it, delay it, or use a given provider or message template
+ */
+export class TriggerRuleService {
+  private static instance: TriggerRuleService;
+
+  private constructor() {}
+
+  public static getInstance(): TriggerRuleService {
+    if (!TriggerRuleService.instance) {
+      TriggerRuleService.instance = new TriggerRuleService();
+    }
+    return TriggerRuleService.instance;
+  }
+
+  /**
+   * Rules of an account in the order they are tried
+   */
+  getRules(accountId: string, friendId?: string): Promise<ITriggerRule[]> {
+    return TriggerRule.find({
+      discordAccountId: new Types.ObjectId(accountId),
+      ...(friendId !== undefined && { friendId: friendId ? new Types.ObjectId(friendId) : null }),
+    })
+      .sort({ friendId: -1, priority: 1, createdAt: 1 })
+      .exec();
+  }
+
+  getRule(ruleId: string): Promise<ITriggerRule | null> {
+    return TriggerRule.findById(ruleId).exec();
+  }
+
+  createRule(accountId: string, input: TriggerRuleInput): Promise<ITriggerRule> {
+    this.validateConditions(input.conditions);
+    return TriggerRule.create({
+      ...input,
+      discordAccountId: new Types.ObjectId(accountId),
+      friendId: input.friendId ? new Types.ObjectId(input.friendId) : null,
+    });
+  }
+
+  updateRule(ruleId: string, updates: Partial<TriggerRuleInput>): Promise<ITriggerRule | null> {
+    this.validateConditions(updates.conditions);
+    const { friendId, ...rest } = updates;
+    const changes = Object.fromEntries(
+      Object.entries(rest).filter(([, value]) => value !== undefined),
+    );
+    return TriggerRule.findByIdAndUpdate(
+      ruleId,
+      {
+        $set: {
+          ...changes,
+          ...(friendId !== undefined && {
+            friendId: friendId ? new Types.ObjectId(friendId) : null,
+          }),
+        },
+      },
+      { new: true, runValidators: true },
+    ).exec();
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    const result = await TriggerRule.deleteOne({ _id: ruleId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Decide what to do about a friend's new activity
+   * @param rules Rules to try instead of the stored ones, for dry runs
+   * @returns null when the event has no new activity
+   */
+  async evaluate(
+    event: WorkerPresenceEvent,
+    rules?: TriggerRuleDefinition[],
+    now: Date = new Date(),
+  ): Promise<TriggerRuleDecision | null> {
+    const activity = event.newActivity;
+    if (!activity) return null;
+
+    const discordAccountId = new Types.ObjectId(event.accountId);
+    const friend = await Friend.findOne({ discordAccountId, userId: event.friendId })
+      .select("_id tags timeZone")
+      .lean();
+    const account = friend?.timeZone
+      ? null
+      : await DiscordAccount.findById(discordAccountId).select("settings.timeZone").lean();
+
+    const startedAt = new Date(activity.details.startedAt).getTime();
+    return evaluateRules(rules || (await this.loadRules(discordAccountId, friend?._id)), {
+      activityType: activity.type,
+      activityName: activityName(activity),
+      alongside: alongsideTypes(activity),
+      sessionMs: isNaN(startedAt) ? 0 : Math.max(0, now.getTime() - startedAt),
+      friendTags: friend?.tags || [],
+      now,
+      timeZone: resolveTimeZone(friend?.timeZone, account?.settings?.timeZone, config.timeZone),
+    });
+  }
+
+  /**
+   * Active rules of the account, and of the friend when known
+   */
+  private async loadRules(
+    discordAccountId: Types.ObjectId,
+    friendId?: Types.ObjectId,
+  ): Promise<TriggerRuleDefinition[]> {
+    const rules = await TriggerRule.find({
+      discordAccountId,
+      isActive: true,
+      friendId: friendId ? { $in: [friendId, null] } : null,
+    })
+      .select("friendId name priority conditions action")
+      .lean();
+
+    return rules.map(rule => ({
+      id: rule._id.toString(),
+      name: rule.name,
+      friendId: rule.friendId?.toString() || null,
+      priority: rule.priority,
+      conditions: rule.conditions || {},
+      action: { ...rule.action, templateId: rule.action.templateId?.toString() },
+    }));
+  }
+
+  private validateConditions(conditions?: TriggerRuleConditions): void {
+    if (conditions?.namePattern && !isValidNamePattern(conditions.namePattern)) {
+      throw new Error(`Invalid name pattern: ${conditions.namePattern}`);
+    }
+  }
+}
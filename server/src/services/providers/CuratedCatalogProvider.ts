@@ -0,0 +1,133 @@
+import fs from "fs";
+import logger from "../../utils/logger";
+import { ActivityType } from "../../types/worker";
+import {
+  ContentItem,
+  ContentMediaType,
+  ContentProvider,
+  ContentProviderCapabilities,
+  ContentProviderHealth,
+  ContentQuery,
+} from "../../types/content";
+import { detectMediaType, scoreTokens, tokenize } from "./providerUtils";
+
+export interface CatalogEntry {
+  url: string;
+  title: string;
+  tags: string[];
+  activityTypes?: ActivityType[];
+  mediaType?: ContentMediaType;
+  source?: string;
+}
+
+export interface CuratedCatalogOptions {
+  path?: string;
+  entries?: CatalogEntry[];
+}
+
+/**
+ * Hand-picked content loaded from a JSON file (an array of catalog entries).
+ * Entries without `activityTypes` match every activity type.
+ */
+export class CuratedCatalogProvider implements ContentProvider {
+  readonly id = "curated-catalog";
+  readonly displayName = "Curated catalog";
+  readonly activityTypes: ActivityType[] = [
+    "GAME",
+    "MUSIC",
+    "STREAMING",
+    "WATCHING",
+    "CUSTOM",
+    "COMPETING",
+  ];
+  readonly capabilities: ContentProviderCapabilities = {
+    mediaTypes: ["image", "gif", "video"],
+    supportsSearch: true,
+    safeSearch: true,
+    requiresNetwork: false,
+  };
+  readonly rateBudget = { requests: 1000, windowMs: 60 * 1000 };
+
+  private entries: CatalogEntry[] | null;
+
+  constructor(private readonly options: CuratedCatalogOptions) {
+    this.entries = options.entries || null;
+  }
+
+  async search(query: ContentQuery): Promise<ContentItem[]> {
+    const entries = await this.getEntries();
+    const queryTokens = tokenize(query.query);
+
+    return entries
+      .filter(entry => !entry.activityTypes?.length || entry.activityTypes.includes(query.type))
+      .map(entry => ({
+        entry,
+        score: scoreTokens(queryTokens, tokenize([...entry.tags, entry.title].join(" "))),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.count * 2)
+      .map(({ entry, score }) => {
+        const media = detectMediaType(entry.url);
+        return {
+          url: entry.url,
+          title: entry.title,
+          source: entry.source || this.id,
+          type: media?.mimeType || "image/jpeg",
+          metadata: {
+            mediaType: entry.mediaType || media?.mediaType || "image",
+            tags: entry.tags,
+            matchScore: score,
+          },
+        };
+      });
+  }
+
+  async healthCheck(): Promise<ContentProviderHealth> {
+    const checkedAt = new Date();
+    if (!this.options.path && !this.options.entries) {
+      return { healthy: false, configured: false, message: "No catalog configured", checkedAt };
+    }
+
+    try {
+      this.entries = this.options.entries || null;
+      const entries = await this.getEntries();
+      return {
+        healthy: entries.length > 0,
+        configured: true,
+        message: `${entries.length} catalog entries`,
+        checkedAt,
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        configured: true,
+        message: error instanceof Error ? error.message : String(error),
+        checkedAt,
+      };
+    }
+  }
+
+  private async getEntries(): Promise<CatalogEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    if (!this.options.path) {
+      return [];
+    }
+
+    const raw = await fs.promises.readFile(this.options.path, "utf8");
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Curated catalog ${this.options.path} must contain a JSON array`);
+    }
+
+    this.entries = parsed.filter(
+      (entry: any) => typeof entry?.url === "string" && typeof entry?.title === "string",
+    ) as CatalogEntry[];
+    this.entries.forEach(entry => (entry.tags = entry.tags || []));
+    logger.info(`Loaded ${this.entries.length} entries from curated catalog ${this.options.path}`);
+    return this.entries;
+  }
+}
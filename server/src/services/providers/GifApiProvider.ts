@@ -0,0 +1,147 @@
+import axios from "axios";
+import { ActivityType } from "../../types/worker";
+import {
+  ContentItem,
+  ContentProvider,
+  ContentProviderCapabilities,
+  ContentProviderHealth,
+  ContentQuery,
+} from "../../types/content";
+
+export type GifApiFlavor = "tenor" | "giphy";
+
+export interface GifApiOptions {
+  flavor: GifApiFlavor;
+  apiKey: string;
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+/**
+ * GIF search against Tenor (v2) or Giphy style APIs
+ */
+export class GifApiProvider implements ContentProvider {
+  readonly id: GifApiFlavor;
+  readonly displayName: string;
+  readonly activityTypes: ActivityType[] = [
+    "GAME",
+    "MUSIC",
+    "STREAMING",
+    "WATCHING",
+    "CUSTOM",
+    "COMPETING",
+  ];
+  readonly capabilities: ContentProviderCapabilities = {
+    mediaTypes: ["gif"],
+    supportsSearch: true,
+    safeSearch: true,
+    requiresNetwork: true,
+  };
+  readonly rateBudget: { requests: number; windowMs: number };
+
+  constructor(private readonly options: GifApiOptions) {
+    this.id = options.flavor;
+    this.displayName = options.flavor === "tenor" ? "Tenor GIFs" : "Giphy GIFs";
+    // Giphy beta keys allow 100 calls an hour; Tenor is far more generous
+    this.rateBudget =
+      options.flavor === "tenor"
+        ? { requests: 60, windowMs: 60 * 1000 }
+        : { requests: 100, windowMs: 60 * 60 * 1000 };
+  }
+
+  search(query: ContentQuery): Promise<ContentItem[]> {
+    if (!this.options.apiKey) {
+      return Promise.resolve([]);
+    }
+
+    return this.options.flavor === "tenor" ? this.searchTenor(query) : this.searchGiphy(query);
+  }
+
+  async healthCheck(): Promise<ContentProviderHealth> {
+    const checkedAt = new Date();
+    if (!this.options.apiKey) {
+      return { healthy: false, configured: false, message: "No API key set", checkedAt };
+    }
+
+    const start = Date.now();
+    try {
+      await this.search({ type: "CUSTOM", query: "hello", count: 1 });
+      return { healthy: true, configured: true, latencyMs: Date.now() - start, checkedAt };
+    } catch (error) {
+      return {
+        healthy: false,
+        configured: true,
+        latencyMs: Date.now() - start,
+        message: error instanceof Error ? error.message : String(error),
+        checkedAt,
+      };
+    }
+  }
+
+  private async searchTenor(query: ContentQuery): Promise<ContentItem[]> {
+    const response = await axios.get(`${this.options.baseUrl}/search`, {
+      params: {
+        q: query.query,
+        key: this.options.apiKey,
+        limit: query.count * 2,
+        contentfilter: "medium",
+        media_filter: "gif,tinygif",
+      },
+      timeout: this.options.timeoutMs,
+    });
+
+    const results: any[] = response.data?.results || [];
+
+    return results
+      .filter(result => result.media_formats?.gif?.url)
+      .map(result => {
+        const gif = result.media_formats.gif;
+        return {
+          url: gif.url,
+          title: result.content_description || result.title || `GIF for ${query.query}`,
+          source: "tenor.com",
+          type: "image/gif",
+          metadata: {
+            mediaType: "gif",
+            width: gif.dims?.[0],
+            height: gif.dims?.[1],
+            thumbnail: result.media_formats.tinygif?.url,
+            pageUrl: result.itemurl,
+          },
+        };
+      });
+  }
+
+  private async searchGiphy(query: ContentQuery): Promise<ContentItem[]> {
+    const response = await axios.get(`${this.options.baseUrl}/gifs/search`, {
+      params: {
+        q: query.query,
+        api_key: this.options.apiKey,
+        limit: query.count * 2,
+        rating: "pg-13",
+      },
+      timeout: this.options.timeoutMs,
+    });
+
+    const results: any[] = response.data?.data || [];
+
+    return results
+      .filter(result => result.images?.original?.url)
+      .map(result => {
+        const original = result.images.original;
+        return {
+          url: original.url,
+          title: result.title || `GIF for ${query.query}`,
+          source: "giphy.com",
+          type: "image/gif",
+          metadata: {
+            mediaType: "gif",
+            width: Number(original.width) || undefined,
+            height: Number(original.height) || undefined,
+            thumbnail: result.images.fixed_width_small?.url,
+            pageUrl: result.url,
+          },
+        };
+      });
+  }
+}
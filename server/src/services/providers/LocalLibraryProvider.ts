@@ -0,0 +1,173 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import logger from "../../utils/logger";
+import { ActivityType } from "../../types/worker";
+import {
+  ContentItem,
+  ContentMediaType,
+  ContentProvider,
+  ContentProviderCapabilities,
+  ContentProviderHealth,
+  ContentQuery,
+} from "../../types/content";
+import { detectMediaType, scoreTokens, tokenize } from "./providerUtils";
+
+interface LibraryEntry {
+  absolutePath: string;
+  relativePath: string;
+  title: string;
+  tokens: string[];
+  activityType: ActivityType | null;
+  mediaType: ContentMediaType;
+  mimeType: string;
+}
+
+export interface LocalLibraryOptions {
+  directory: string;
+  publicBaseUrl?: string;
+}
+
+const ACTIVITY_TYPES: ActivityType[] = [
+  "GAME",
+  "MUSIC",
+  "STREAMING",
+  "WATCHING",
+  "CUSTOM",
+  "COMPETING",
+];
+
+/**
+ * Serves media files from a directory on disk.
+ *
+ * Files are matched by the words in their folder and file names. A top-level folder named
+ * after an activity type (e.g. `GAME/minecraft/creeper-surprise.png`) restricts the file to
+ * that activity type; anything else is shared across all types.
+ */
+export class LocalLibraryProvider implements ContentProvider {
+  readonly id = "local-library";
+  readonly displayName = "Local meme library";
+  readonly activityTypes: ActivityType[] = ACTIVITY_TYPES;
+  readonly capabilities: ContentProviderCapabilities = {
+    mediaTypes: ["image", "gif", "video"],
+    supportsSearch: true,
+    safeSearch: false,
+    requiresNetwork: false,
+  };
+  readonly rateBudget = { requests: 1000, windowMs: 60 * 1000 };
+
+  private index: LibraryEntry[] | null = null;
+  private indexedAt = 0;
+  private readonly INDEX_TTL = 5 * 60 * 1000; // 5 minutes
+
+  constructor(private readonly options: LocalLibraryOptions) {}
+
+  async search(query: ContentQuery): Promise<ContentItem[]> {
+    if (!this.options.directory) {
+      return [];
+    }
+
+    const entries = await this.getIndex();
+    const queryTokens = tokenize(query.query);
+
+    return entries
+      .filter(entry => !entry.activityType || entry.activityType === query.type)
+      .map(entry => ({ entry, score: scoreTokens(queryTokens, entry.tokens) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.count * 2)
+      .map(({ entry, score }) => ({
+        url: this.toUrl(entry),
+        title: entry.title,
+        source: this.id,
+        type: entry.mimeType,
+        metadata: {
+          mediaType: entry.mediaType,
+          localPath: entry.absolutePath,
+          matchScore: score,
+        },
+      }));
+  }
+
+  async healthCheck(): Promise<ContentProviderHealth> {
+    const checkedAt = new Date();
+    if (!this.options.directory) {
+      return { healthy: false, configured: false, message: "No library directory set", checkedAt };
+    }
+
+    try {
+      const entries = await this.getIndex(true);
+      return {
+        healthy: entries.length > 0,
+        configured: true,
+        message: `${entries.length} files indexed`,
+        checkedAt,
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        configured: true,
+        message: error instanceof Error ? error.message : String(error),
+        checkedAt,
+      };
+    }
+  }
+
+  private async getIndex(forceRefresh = false): Promise<LibraryEntry[]> {
+    if (!forceRefresh && this.index && Date.now() - this.indexedAt < this.INDEX_TTL) {
+      return this.index;
+    }
+
+    const root = path.resolve(this.options.directory);
+    const entries: LibraryEntry[] = [];
+    await this.walk(root, root, entries);
+
+    this.index = entries;
+    this.indexedAt = Date.now();
+    logger.debug(`Indexed ${entries.length} files in local content library ${root}`);
+    return entries;
+  }
+
+  private async walk(root: string, directory: string, entries: LibraryEntry[]): Promise<void> {
+    const dirents = await fs.promises.readdir(directory, { withFileTypes: true });
+
+    for (const dirent of dirents) {
+      if (dirent.name.startsWith(".")) continue;
+
+      const absolutePath = path.join(directory, dirent.name);
+      if (dirent.isDirectory()) {
+        await this.walk(root, absolutePath, entries);
+        continue;
+      }
+
+      const media = detectMediaType(dirent.name);
+      if (!dirent.isFile() || !media) continue;
+
+      const relativePath = path.relative(root, absolutePath);
+      const segments = relativePath.split(path.sep);
+      const topLevel = segments.length > 1 ? segments[0].toUpperCase() : "";
+      const activityType = ACTIVITY_TYPES.includes(topLevel as ActivityType)
+        ? (topLevel as ActivityType)
+        : null;
+      const baseName = path.basename(dirent.name, path.extname(dirent.name));
+
+      entries.push({
+        absolutePath,
+        relativePath,
+        title: baseName.replace(/[-_]+/g, " "),
+        tokens: tokenize([...segments.slice(activityType ? 1 : 0, -1), baseName].join(" ")),
+        activityType,
+        mediaType: media.mediaType,
+        mimeType: media.mimeType,
+      });
+    }
+  }
+
+  private toUrl(entry: LibraryEntry): string {
+    if (this.options.publicBaseUrl) {
+      const urlPath = entry.relativePath.split(path.sep).map(encodeURIComponent).join("/");
+      return `${this.options.publicBaseUrl.replace(/\/$/, "")}/${urlPath}`;
+    }
+    return pathToFileURL(entry.absolutePath).toString();
+  }
+}
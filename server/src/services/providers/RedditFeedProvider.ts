@@ -0,0 +1,131 @@
+import axios from "axios";
+import { ActivityType } from "../../types/worker";
+import {
+  ContentItem,
+  ContentProvider,
+  ContentProviderCapabilities,
+  ContentProviderHealth,
+  ContentQuery,
+} from "../../types/content";
+import { detectMediaType } from "./providerUtils";
+
+export interface RedditFeedOptions {
+  baseUrl: string;
+  userAgent: string;
+  subreddits: Partial<Record<ActivityType, string[]>>;
+  timeoutMs: number;
+}
+
+/**
+ * Searches Reddit-style JSON listings (`/r/<subreddit>/search.json`) for image posts.
+ * Any server that speaks the same listing format can be used by changing the base URL.
+ */
+export class RedditFeedProvider implements ContentProvider {
+  readonly id = "reddit";
+  readonly displayName = "Reddit feeds";
+  readonly capabilities: ContentProviderCapabilities = {
+    mediaTypes: ["image", "gif"],
+    supportsSearch: true,
+    safeSearch: true,
+    requiresNetwork: true,
+  };
+  // Unauthenticated Reddit clients are limited to roughly 10 requests per minute
+  readonly rateBudget = { requests: 10, windowMs: 60 * 1000 };
+
+  constructor(private readonly options: RedditFeedOptions) {}
+
+  get activityTypes(): ActivityType[] {
+    return (Object.keys(this.options.subreddits) as ActivityType[]).filter(
+      type => this.options.subreddits[type]?.length,
+    );
+  }
+
+  async search(query: ContentQuery): Promise<ContentItem[]> {
+    const subreddits = this.options.subreddits[query.type] || [];
+    if (!subreddits.length) {
+      return [];
+    }
+
+    const results = await Promise.allSettled(
+      subreddits.map(subreddit => this.searchSubreddit(subreddit, query)),
+    );
+
+    const fulfilled = results.filter(
+      (result): result is PromiseFulfilledResult<ContentItem[]> => result.status === "fulfilled",
+    );
+
+    // Only surface an error when every feed failed
+    if (!fulfilled.length) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    return fulfilled
+      .flatMap(result => result.value)
+      .sort((a, b) => (b.metadata?.upvotes || 0) - (a.metadata?.upvotes || 0))
+      .slice(0, query.count * 2);
+  }
+
+  async healthCheck(): Promise<ContentProviderHealth> {
+    const checkedAt = new Date();
+    const subreddit = Object.values(this.options.subreddits).find(list => list?.length)?.[0];
+    if (!subreddit) {
+      return { healthy: false, configured: false, message: "No subreddits configured", checkedAt };
+    }
+
+    const start = Date.now();
+    try {
+      await axios.get(`${this.options.baseUrl}/r/${subreddit}/hot.json`, {
+        params: { limit: 1 },
+        headers: { "User-Agent": this.options.userAgent },
+        timeout: this.options.timeoutMs,
+      });
+      return { healthy: true, configured: true, latencyMs: Date.now() - start, checkedAt };
+    } catch (error) {
+      return {
+        healthy: false,
+        configured: true,
+        latencyMs: Date.now() - start,
+        message: error instanceof Error ? error.message : String(error),
+        checkedAt,
+      };
+    }
+  }
+
+  private async searchSubreddit(subreddit: string, query: ContentQuery): Promise<ContentItem[]> {
+    const response = await axios.get(`${this.options.baseUrl}/r/${subreddit}/search.json`, {
+      params: {
+        q: query.query,
+        restrict_sr: 1,
+        sort: "relevance",
+        t: "year",
+        limit: query.count * 2,
+      },
+      headers: { "User-Agent": this.options.userAgent },
+      timeout: this.options.timeoutMs,
+    });
+
+    const children: any[] = response.data?.data?.children || [];
+
+    return children
+      .map(child => child.data)
+      .filter(post => post && !post.over_18 && !post.spoiler && typeof post.url === "string")
+      .map(post => ({ post, media: detectMediaType(post.url) }))
+      .filter(({ post, media }) => media || post.post_hint === "image")
+      .map(({ post, media }) => {
+        const preview = post.preview?.images?.[0]?.source;
+        return {
+          url: post.url,
+          title: post.title,
+          source: `reddit.com/r/${subreddit}`,
+          type: media?.mimeType || "image/jpeg",
+          metadata: {
+            mediaType: media?.mediaType || "image",
+            width: preview?.width,
+            height: preview?.height,
+            upvotes: post.ups,
+            permalink: post.permalink,
+          },
+        };
+      });
+  }
+}
@@ -0,0 +1,153 @@
+import logger from "../../utils/logger";
+import { ActivityType } from "../../types/worker";
+import {
+  ContentItem,
+  ContentProvider,
+  ContentProviderCapabilities,
+  ContentProviderHealth,
+  ContentQuery,
+} from "../../types/content";
+
+// Search terms appended to the activity name for each activity type
+const QUERY_SUFFIXES: Record<ActivityType, string> = {
+  GAME: "gaming meme reaction funny",
+  MUSIC: "music artist band meme funny",
+  STREAMING: "stream twitch meme funny",
+  WATCHING: "show series meme reaction funny",
+  CUSTOM: "mood meme relatable funny",
+  COMPETING: "competition tournament meme funny",
+};
+
+/**
+ * Google image search through SerpAPI. Falls back to a mock client when no API key is set.
+ */
+export class SerpApiProvider implements ContentProvider {
+  readonly id = "serpapi";
+  readonly displayName = "Google Images (SerpAPI)";
+  readonly activityTypes: ActivityType[] = [
+    "GAME",
+    "MUSIC",
+    "STREAMING",
+    "WATCHING",
+    "CUSTOM",
+    "COMPETING",
+  ];
+  readonly capabilities: ContentProviderCapabilities = {
+    mediaTypes: ["image", "gif"],
+    supportsSearch: true,
+    safeSearch: true,
+    requiresNetwork: true,
+  };
+  // SerpAPI free tier is 100 searches a month, so keep the hourly budget small
+  readonly rateBudget = { requests: 20, windowMs: 60 * 60 * 1000 };
+
+  private searchClient: any;
+  private usingMockClient = false;
+
+  constructor(private readonly apiKey: string | undefined = process.env.SERP_API_KEY) {
+    this.setupSearchClient();
+  }
+
+  private setupSearchClient() {
+    try {
+      if (this.apiKey) {
+        try {
+          // Dynamically import SerpApi
+          const SerpApi = require("google-search-results-nodejs");
+
+          if (SerpApi && SerpApi.GoogleSearch) {
+            this.searchClient = new SerpApi.GoogleSearch(this.apiKey);
+            logger.info("SerpAPI client initialized successfully");
+          } else {
+            logger.warn("SerpApi library loaded but GoogleSearch not found");
+            this.setupMockSearchClient();
+          }
+        } catch (error) {
+          logger.error("Failed to load SerpApi library:", error);
+          this.setupMockSearchClient();
+        }
+      } else {
+        logger.warn("SERP_API_KEY not set, using mock search client");
+        this.setupMockSearchClient();
+      }
+    } catch (error) {
+      logger.error("Error in setupSearchClient:", error);
+      this.setupMockSearchClient();
+    }
+  }
+
+  private setupMockSearchClient() {
+    logger.info("Setting up mock search client");
+    this.usingMockClient = true;
+    this.searchClient = {
+      json: (params: any, callback: any) => {
+        logger.debug("Mock SerpAPI search called with params:", params);
+        callback({
+          images_results: [
+            {
+              original: "https://example.com/mock-image.jpg",
+              title: "Mock Image Result",
+              source: "mock-source",
+              width: 500,
+              height: 500,
+              thumbnail: "https://example.com/mock-thumbnail.jpg",
+            },
+          ],
+        });
+      },
+    };
+  }
+
+  search(query: ContentQuery): Promise<ContentItem[]> {
+    let searchQuery = `${query.query} ${QUERY_SUFFIXES[query.type]}`;
+
+    // Apply filters if provided
+    if (query.filters?.includeKeywords?.length) {
+      searchQuery += ` ${query.filters.includeKeywords.join(" ")}`;
+    }
+
+    const serpParams = {
+      q: searchQuery,
+      tbm: "isch", // Image search
+      ijn: "0", // Page number
+      safe: "active", // Safe search
+      num: query.count * 2, // Get more results than needed to have options
+    };
+
+    return new Promise<ContentItem[]>((resolve, reject) => {
+      this.searchClient.json(serpParams, (data: any) => {
+        try {
+          if (!data?.images_results?.length) {
+            logger.warn(`No content found for query: ${searchQuery}`);
+            return resolve([]);
+          }
+
+          resolve(
+            data.images_results.slice(0, query.count * 2).map((result: any) => ({
+              url: result.original,
+              title: result.title || `Content for ${query.query}`,
+              source: result.source,
+              type: "image/jpeg",
+              metadata: {
+                width: result.width,
+                height: result.height,
+                thumbnail: result.thumbnail,
+              },
+            })),
+          );
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  healthCheck(): Promise<ContentProviderHealth> {
+    return Promise.resolve({
+      healthy: !this.usingMockClient,
+      configured: !!this.apiKey,
+      message: this.usingMockClient ? "Using mock search client" : undefined,
+      checkedAt: new Date(),
+    });
+  }
+}
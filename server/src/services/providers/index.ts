@@ -0,0 +1,33 @@
+import config from "../../config";
+import { ContentProviderRegistry } from "../ContentProviderRegistry";
+import { SerpApiProvider } from "./SerpApiProvider";
+import { LocalLibraryProvider } from "./LocalLibraryProvider";
+import { RedditFeedProvider } from "./RedditFeedProvider";
+import { GifApiProvider } from "./GifApiProvider";
+import { CuratedCatalogProvider } from "./CuratedCatalogProvider";
+
+export { SerpApiProvider } from "./SerpApiProvider";
+export { LocalLibraryProvider } from "./LocalLibraryProvider";
+export { RedditFeedProvider } from "./RedditFeedProvider";
+export { GifApiProvider } from "./GifApiProvider";
+export { CuratedCatalogProvider } from "./CuratedCatalogProvider";
+
+/**
+ * Register the providers that ship with the server, configured from `config.content`
+ */
+export function registerBuiltInProviders(registry: ContentProviderRegistry): void {
+  const { content } = config;
+
+  registry.register(new SerpApiProvider());
+  registry.register(new LocalLibraryProvider(content.localLibrary));
+  registry.register(new CuratedCatalogProvider({ path: content.catalog.path || undefined }));
+  registry.register(
+    new RedditFeedProvider({ ...content.reddit, timeoutMs: content.requestTimeoutMs }),
+  );
+  registry.register(
+    new GifApiProvider({ flavor: "tenor", ...content.tenor, timeoutMs: content.requestTimeoutMs }),
+  );
+  registry.register(
+    new GifApiProvider({ flavor: "giphy", ...content.giphy, timeoutMs: content.requestTimeoutMs }),
+  );
+}
@@ -0,0 +1,40 @@
+import path from "path";
+import { ContentMediaType } from "../../types/content";
+
+const MEDIA_EXTENSIONS: Record<string, { mediaType: ContentMediaType; mimeType: string }> = {
+  ".jpg": { mediaType: "image", mimeType: "image/jpeg" },
+  ".jpeg": { mediaType: "image", mimeType: "image/jpeg" },
+  ".png": { mediaType: "image", mimeType: "image/png" },
+  ".webp": { mediaType: "image", mimeType: "image/webp" },
+  ".gif": { mediaType: "gif", mimeType: "image/gif" },
+  ".mp4": { mediaType: "video", mimeType: "video/mp4" },
+  ".webm": { mediaType: "video", mimeType: "video/webm" },
+};
+
+/**
+ * Split free text into lowercase search tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+/**
+ * Count how many query tokens appear in the candidate tokens
+ */
+export function scoreTokens(queryTokens: string[], candidateTokens: string[]): number {
+  const candidates = new Set(candidateTokens);
+  return queryTokens.filter(token => candidates.has(token)).length;
+}
+
+/**
+ * Guess media type and MIME type from a URL or file path extension
+ */
+export function detectMediaType(
+  urlOrPath: string,
+): { mediaType: ContentMediaType; mimeType: string } | null {
+  const cleanPath = urlOrPath.split(/[?#]/)[0];
+  return MEDIA_EXTENSIONS[path.extname(cleanPath).toLowerCase()] || null;
+}
@@ -0,0 +1,115 @@
+import { FeatureVector } from "./features";
+import { applyDeltas, gradientStep, predict, TrainingOptions, Weights } from "./logisticModel";
+
+export interface ReplaySample {
+  accountId: string;
+  friendId: string;
+  features: FeatureVector;
+  label: number;
+  weight: number;
+}
+
+export interface RankerMetrics {
+  /** Probability that a liked item scores above a disliked one (0.5 = random) */
+  auc: number;
+  logLoss: number;
+  accuracy: number;
+}
+
+export interface ReplayReport {
+  samples: number;
+  positives: number;
+  negatives: number;
+  learned: RankerMetrics;
+  heuristic: Pick<RankerMetrics, "auc">;
+}
+
+const EPSILON = 1e-7;
+
+/**
+ * Area under the ROC curve, using average ranks so ties count as half
+ */
+export function areaUnderCurve(scores: number[], labels: boolean[]): number {
+  const positives = labels.filter(Boolean).length;
+  const negatives = labels.length - positives;
+  if (!positives || !negatives) return 0.5;
+
+  const order = scores.map((score, index) => ({ score, index })).sort((a, b) => a.score - b.score);
+  const ranks: number[] = new Array(scores.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = averageRank;
+    start = end + 1;
+  }
+
+  const positiveRankSum = labels.reduce((sum, label, index) => sum + (label ? ranks[index] : 0), 0);
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/**
+ * Replay feedback in chronological order, scoring each sample with the model trained on
+ * everything before it (prequential evaluation), and compare against the keyword heuristic.
+ * Neutral labels (0.5) are trained on but left out of AUC and accuracy.
+ */
+export function replayFeedback(samples: ReplaySample[], options: TrainingOptions): ReplayReport {
+  const weights = {
+    global: {} as Weights,
+    account: new Map<string, Weights>(),
+    friend: new Map<string, Weights>(),
+  };
+  const scoped = (map: Map<string, Weights>, id: string): Weights => {
+    if (!map.has(id)) map.set(id, {});
+    return map.get(id)!;
+  };
+
+  const learnedScores: number[] = [];
+  const heuristicScores: number[] = [];
+  const labels: boolean[] = [];
+  let lossSum = 0;
+  let weightSum = 0;
+  let correct = 0;
+
+  for (const sample of samples) {
+    const weightSets = [
+      weights.global,
+      scoped(weights.account, sample.accountId),
+      scoped(weights.friend, sample.friendId),
+    ];
+    const score = predict(weightSets, sample.features);
+    const clamped = Math.min(1 - EPSILON, Math.max(EPSILON, score));
+
+    lossSum -=
+      sample.weight *
+      (sample.label * Math.log(clamped) + (1 - sample.label) * Math.log(1 - clamped));
+    weightSum += sample.weight;
+
+    if (sample.label !== 0.5) {
+      const liked = sample.label > 0.5;
+      learnedScores.push(score);
+      heuristicScores.push(sample.features.heuristic || 0);
+      labels.push(liked);
+      if (score > 0.5 === liked) correct++;
+    }
+
+    gradientStep(weightSets, sample.features, sample.label, sample.weight, options).forEach(
+      (deltas, index) => applyDeltas(weightSets[index], deltas),
+    );
+  }
+
+  const positives = labels.filter(Boolean).length;
+  return {
+    samples: samples.length,
+    positives,
+    negatives: labels.length - positives,
+    learned: {
+      auc: areaUnderCurve(learnedScores, labels),
+      logLoss: weightSum ? lossSum / weightSum : 0,
+      accuracy: labels.length ? correct / labels.length : 0,
+    },
+    heuristic: {
+      auc: areaUnderCurve(heuristicScores, labels),
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { ActivityType } from "../../types/worker";
+import { ContentItem } from "../../types/content";
+import { tokenize } from "../providers/providerUtils";
+
+/**
+ * Sparse feature vector: feature name -> value. Names never contain "." or "$" so they can
+ * be used as keys of a MongoDB map.
+ */
+export type FeatureVector = Record<string, number>;
+
+const MAX_TITLE_WORDS = 8;
+
+const featureKey = (name: string): string => name.toLowerCase().replace(/[.$\s]+/g, "_");
+
+const mediaTypeOf = (item: ContentItem): string => {
+  if (item.metadata?.mediaType) return item.metadata.mediaType;
+  if (item.type.includes("gif")) return "gif";
+  return item.type.startsWith("video/") ? "video" : "image";
+};
+
+/**
+ * Describe a search result for the ranker. The current keyword heuristic
+ * (`metadata.relevanceScore`) is included as a feature so the model starts from it.
+ */
+export function extractFeatures(item: ContentItem, activityType: ActivityType): FeatureVector {
+  const features: FeatureVector = {
+    bias: 1,
+    heuristic: (item.metadata?.relevanceScore || 0) / 10,
+  };
+  const add = (name: string, value = 1) => (features[featureKey(name)] = value);
+
+  const provider = item.metadata?.provider;
+  if (provider) {
+    add(`provider:${provider}`);
+    add(`activity:${activityType}|provider:${provider}`);
+  }
+
+  const mediaType = mediaTypeOf(item);
+  add(`media:${mediaType}`);
+  add(`activity:${activityType}|media:${mediaType}`);
+
+  if (item.source) {
+    add(`source:${item.source.replace(/^www\./, "")}`);
+  }
+
+  const { width, height } = item.metadata || {};
+  if (width > 400 && height > 400) add("size:large");
+  if (width && width === height) add("shape:square");
+
+  // Scale title words so long titles do not dominate the score
+  const words = Array.from(new Set(tokenize(item.title))).slice(0, MAX_TITLE_WORDS);
+  words.forEach(word => add(`word:${word}`, 1 / Math.sqrt(words.length)));
+
+  return features;
+}
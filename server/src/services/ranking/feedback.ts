@@ -0,0 +1,53 @@
+import { FeatureVector } from "./features";
+
+export type FeedbackSignal =
+  | { type: "rating"; rating: number }
+  | { type: "reaction"; positive: boolean }
+  | { type: "delivery"; delivered: boolean };
+
+export interface FeedbackLabel {
+  /** Target probability that the friend liked the content */
+  label: number;
+  /** How much the signal counts compared to an explicit rating */
+  weight: number;
+}
+
+/**
+ * Turn a feedback signal into a training label. Explicit ratings count the most; a failed
+ * delivery says little about the content itself, and a successful one says nothing.
+ * @returns null for signals that should not be learned from
+ */
+export function labelFeedback(signal: FeedbackSignal): FeedbackLabel | null {
+  switch (signal.type) {
+    case "rating":
+      // 1 star -> 0, 3 stars -> 0.5, 5 stars -> 1
+      return { label: (Math.min(5, Math.max(1, signal.rating)) - 1) / 4, weight: 1 };
+    case "reaction":
+      return { label: signal.positive ? 1 : 0, weight: 0.6 };
+    case "delivery":
+      return signal.delivered ? null : { label: 0, weight: 0.2 };
+  }
+}
+
+/**
+ * Labeled examples stored on a ContentHistory entry, oldest signal first
+ */
+export function historyExamples(history: {
+  ranking?: { features?: FeatureVector };
+  status?: string;
+  userFeedback?: { rating?: number };
+  friendFeedback?: { sentiment?: string; learnedAt?: Date };
+}): FeedbackLabel[] {
+  if (!history.ranking?.features) return [];
+
+  const signals: FeedbackSignal[] = [];
+  if (history.status === "FAILED") signals.push({ type: "delivery", delivered: false });
+  if (history.friendFeedback?.learnedAt && history.friendFeedback.sentiment !== "neutral") {
+    signals.push({ type: "reaction", positive: history.friendFeedback.sentiment === "positive" });
+  }
+  if (history.userFeedback?.rating) {
+    signals.push({ type: "rating", rating: history.userFeedback.rating });
+  }
+
+  return signals.map(labelFeedback).filter((example): example is FeedbackLabel => example !== null);
+}
@@ -0,0 +1,4 @@
+export * from "./features";
+export * from "./feedback";
+export * from "./logisticModel";
+export * from "./evaluation";
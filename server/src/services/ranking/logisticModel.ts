@@ -0,0 +1,59 @@
+import { FeatureVector } from "./features";
+
+export type Weights = Record<string, number>;
+
+export interface TrainingOptions {
+  /** Learning rate for each weight set, in the same order as the weight sets */
+  learningRates: number[];
+  /** L2 regularization strength, applied to the weights of the active features */
+  l2: number;
+}
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+/**
+ * Online logistic regression where the effective weight of a feature is the sum of several
+ * weight sets (global + account + friend). Narrower sets learn faster, so a friend's own
+ * taste can override the global model once there is enough feedback.
+ */
+export function predict(weightSets: Weights[], features: FeatureVector): number {
+  let z = 0;
+  for (const [name, value] of Object.entries(features)) {
+    for (const weights of weightSets) {
+      z += (weights[name] || 0) * value;
+    }
+  }
+  return sigmoid(z);
+}
+
+/**
+ * One stochastic gradient step towards `label` (0..1, soft labels allowed)
+ * @returns Per weight set, the change to apply to each touched feature weight
+ */
+export function gradientStep(
+  weightSets: Weights[],
+  features: FeatureVector,
+  label: number,
+  sampleWeight: number,
+  options: TrainingOptions,
+): Weights[] {
+  const error = (label - predict(weightSets, features)) * sampleWeight;
+
+  return weightSets.map((weights, index) => {
+    const rate = options.learningRates[index] ?? options.learningRates[0];
+    const deltas: Weights = {};
+    for (const [name, value] of Object.entries(features)) {
+      deltas[name] = rate * (error * value - options.l2 * (weights[name] || 0));
+    }
+    return deltas;
+  });
+}
+
+/**
+ * Apply deltas returned by `gradientStep` to in-memory weights
+ */
+export function applyDeltas(weights: Weights, deltas: Weights): void {
+  for (const [name, delta] of Object.entries(deltas)) {
+    weights[name] = (weights[name] || 0) + delta;
+  }
+}
@@ -0,0 +1,131 @@
+import { ActivityType } from "./worker";
+import { CircuitBreakerSnapshot } from "../utils/circuitBreaker";
+
+/**
+ * Media kinds a content provider can return
+ */
+export type ContentMediaType = "image" | "gif" | "video";
+
+export interface ContentFilters {
+  excludeKeywords?: string[];
+  includeKeywords?: string[];
+  minRating?: number;
+  maxRating?: number;
+}
+
+export interface ContentItem {
+  url: string;
+  title: string;
+  source: string;
+  type: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ContentQuery {
+  type: ActivityType;
+  query: string;
+  count: number;
+  filters?: ContentFilters;
+}
+
+export interface ContentProviderCapabilities {
+  mediaTypes: ContentMediaType[];
+  supportsSearch: boolean;
+  safeSearch: boolean;
+  requiresNetwork: boolean;
+}
+
+/**
+ * Maximum number of searches a provider may serve inside a sliding window
+ */
+export interface ContentProviderRateBudget {
+  requests: number;
+  windowMs: number;
+}
+
+export interface ContentProviderHealth {
+  healthy: boolean;
+  configured: boolean;
+  latencyMs?: number;
+  message?: string;
+  checkedAt: Date;
+}
+
+export interface ContentProvider {
+  readonly id: string;
+  readonly displayName: string;
+  readonly activityTypes: ActivityType[];
+  readonly capabilities: ContentProviderCapabilities;
+  readonly rateBudget: ContentProviderRateBudget;
+  search(query: ContentQuery): Promise<ContentItem[]>;
+  healthCheck(): Promise<ContentProviderHealth>;
+}
+
+export interface ContentProviderInfo {
+  id: string;
+  displayName: string;
+  activityTypes: ActivityType[];
+  capabilities: ContentProviderCapabilities;
+  rateBudget: ContentProviderRateBudget & { used: number; remaining: number };
+  circuit: CircuitBreakerSnapshot;
+}
+
+/**
+ * What happened when a provider in the fallback chain was asked for content
+ */
+export type ContentProviderAttemptOutcome =
+  | "success"
+  | "empty"
+  | "error"
+  | "timeout"
+  | "circuit-open"
+  | "rate-limited";
+
+export interface ContentProviderAttempt {
+  provider: string;
+  outcome: ContentProviderAttemptOutcome;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface ContentSearchParams {
+  type: ActivityType;
+  query: string;
+  count?: number;
+  filters?: ContentFilters;
+  providers?: string[];
+  mediaTypes?: ContentMediaType[];
+  /** "bypass" skips the search cache, "refresh" searches and overwrites the cached entry */
+  cacheMode?: "default" | "bypass" | "refresh";
+}
+
+export interface ContentSearchResult {
+  content: ContentItem[];
+  /** Provider that served the content, null when the whole chain came up empty */
+  provider: string | null;
+  attempts: ContentProviderAttempt[];
+  /** Set when the result came from the in-memory (l1) or MongoDB (l2) search cache */
+  cacheHit?: "l1" | "l2";
+}
+
+/**
+ * Identifies a piece of media independent of the URL it was found under
+ */
+export interface ContentFingerprint {
+  /** SHA-1 of the normalized media URL */
+  urlHash: string;
+  /** 64-bit difference hash of the image, as hex; missing when the media could not be decoded */
+  perceptualHash?: string;
+}
+
+export interface ContentSearchCacheStats {
+  enabled: boolean;
+  since: Date;
+  l1Hits: number;
+  l2Hits: number;
+  misses: number;
+  coalesced: number;
+  writes: number;
+  hitRate: number;
+  entries: number;
+}
@@ -0,0 +1,32 @@
+import { ActivityType } from "./worker";
+
+/**
+ * Minutes a friend waits after content before the next, 0 for no cooldown. Any level may be
+ * left out to use the one of the next broader scope.
+ */
+export interface CooldownSettings {
+  minutes?: number;
+  activityTypes?: Partial<Record<ActivityType, number>>;
+  /** Per game, artist or show, matched ignoring case */
+  activities?: Array<{ name: string; minutes: number }>;
+}
+
+export type CooldownScope = "friend" | "account" | "server";
+
+/** activity: a per-game override, activityType: a per-type one, default: the plain minutes */
+export type CooldownLevel = "activity" | "activityType" | "default";
+
+/**
+ * How the frequency a friend asked for by DM changes their cooldowns: `factor` times as long,
+ * and at least `minimumMinutes` even when the settings ask for none
+ */
+export interface FrequencyCooldown {
+  factor: number;
+  minimumMinutes: number;
+}
+
+export interface ResolvedCooldown {
+  durationMs: number;
+  scope: CooldownScope;
+  level: CooldownLevel;
+}
@@ -0,0 +1,33 @@
+import { ActivityType } from "./worker";
+
+/**
+ * - longSession: one session went on for a number of hours
+ * - weeklySessions: the Nth session of the same activity in the last 7 days
+ * - firstTime: the friend was never seen doing it before
+ * - comeback: back to it after a number of days away
+ * - allDay: hours of the same activity, e.g. one artist, since midnight
+ */
+export type MilestoneKind = "longSession" | "weeklySessions" | "firstTime" | "comeback" | "allDay";
+
+export interface MilestoneSettings {
+  enabled: boolean;
+  /** Hours of one session, 0 to not celebrate long sessions */
+  longSessionHours: number;
+  /** Sessions in the last 7 days, 0 to not count them */
+  weeklySessions: number;
+  firstTime: boolean;
+  /** Days away before a session counts as a comeback, 0 to ignore comebacks */
+  comebackDays: number;
+  /** Hours since midnight, 0 to not look at whole days */
+  allDayHours: number;
+}
+
+export interface ActivityMilestone {
+  kind: MilestoneKind;
+  activityType: ActivityType;
+  activityName: string;
+  /** Hours for long sessions and whole days, sessions for weekly counts, days for comebacks */
+  value: number;
+  /** e.g. "3 hours of Minecraft" */
+  description: string;
+}
@@ -0,0 +1,77 @@
+import { ActivityType } from "./worker";
+
+/**
+ * What has to be true for a rule to apply. Conditions left out always match, a rule without
+ * conditions matches everything.
+ */
+export interface TriggerRuleConditions {
+  /** Any of these activity types */
+  activityTypes?: ActivityType[];
+  /** The friend is also doing all of these at the same time, e.g. MUSIC next to a GAME */
+  alongside?: ActivityType[];
+  /** Case-insensitive regular expression on the game, artist, show... name */
+  namePattern?: string;
+  /** How long the friend has been at the activity, by Discord's start time */
+  minSessionMinutes?: number;
+  maxSessionMinutes?: number;
+  /** Hour window in the friend's time zone; start after end spans midnight */
+  hours?: { start: number; end: number };
+  /** 0 = Sunday */
+  daysOfWeek?: number[];
+  /** The friend has any of these tags */
+  friendTags?: string[];
+}
+
+export type TriggerRuleActionType = "send" | "skip" | "delay";
+
+export interface TriggerRuleAction {
+  type: TriggerRuleActionType;
+  /** For "delay": how long to wait before the delivery */
+  delayMinutes?: number;
+  /** Search this content provider instead of the account's provider order */
+  provider?: string;
+  /** Use this message template instead of the most specific one */
+  templateId?: string;
+}
+
+export interface TriggerRuleDefinition {
+  id?: string;
+  name: string;
+  /** Friend rules come before account rules, then lower priorities first */
+  friendId?: string | null;
+  priority: number;
+  conditions: TriggerRuleConditions;
+  action: TriggerRuleAction;
+}
+
+export interface TriggerRuleContext {
+  activityType: ActivityType;
+  activityName: string;
+  /** Types of the friend's other activities at the same time */
+  alongside: ActivityType[];
+  sessionMs: number;
+  friendTags: string[];
+  now: Date;
+  /** IANA time zone hours and days are read in, the server's when unset */
+  timeZone?: string;
+}
+
+export interface TriggerRuleTrace {
+  ruleId?: string;
+  name: string;
+  matched: boolean;
+  /** First condition the rule failed on */
+  failed?: keyof TriggerRuleConditions;
+}
+
+export interface TriggerRuleDecision {
+  action: TriggerRuleActionType;
+  delayMs: number;
+  provider?: string;
+  templateId?: string;
+  /** The rule that decided, none when no rule matched and content is sent as usual */
+  rule?: { id?: string; name: string };
+  /** Activity types the deciding rule asked for next to the driving one */
+  alongside?: ActivityType[];
+  trace: TriggerRuleTrace[];
+}
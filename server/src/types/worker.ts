@@ -1,11 +1,15 @@
 import { IDiscordAccountSettings } from "@/models/DiscordAccount";
+import { MilestoneKind } from "./milestones";
 
 /**
  * Activity types for Discord presence
  */
 export type ActivityType = "GAME" | "MUSIC" | "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING";
 
-export interface ActivityState {
+/**
+ * One recognizable activity of a Discord presence
+ */
+export interface ActivityEntry {
   type: ActivityType;
   details: {
     gameName?: string;
@@ -35,6 +39,57 @@ export interface ActivityState {
   };
 }
 
+/**
+ * What a friend is doing: the activity that drives content, picked by the account's activity
+ * priority, and every activity of the presence when there is more than one
+ */
+export interface ActivityState extends ActivityEntry {
+  /** All activities in Discord's order, the driving one included; unset for a single one */
+  activities?: ActivityEntry[];
+}
+
+/**
+ * Current activity of a friend as tracked by a worker
+ */
+export interface FriendPresence {
+  /** Discord user id of the friend */
+  userId: string;
+  activity: ActivityState;
+}
+
+/**
+ * Where the account knows a friend from: its friend list, an open DM or a shared server
+ */
+export type FriendSource = "friend" | "dm" | "guild";
+
+export type FriendSyncTrigger = "ready" | "relationship" | "manual";
+
+export interface SyncedFriend {
+  /** Discord user id */
+  userId: string;
+  username: string;
+  sources: FriendSource[];
+}
+
+export type FeedbackSentiment = "positive" | "negative" | "neutral";
+
+/**
+ * A friend reacting to, or replying to, a DM the account sent
+ */
+export type DeliveryFeedback =
+  | { kind: "reaction"; messageId: string; userId: string; emoji: string; removed: boolean }
+  | { kind: "reply"; messageId: string; userId: string; replyId: string; text: string };
+
+/** How often a friend wants content */
+export type FriendFrequency = "less" | "normal" | "more";
+
+/**
+ * Command a friend sent the account by DM to control what they receive
+ */
+export type DmCommand =
+  | { type: "stop" | "resume" | "less" | "more" | "everything" | "help" }
+  | { type: "only"; activityType: ActivityType };
+
 export interface WorkerPresenceEvent {
   friendId: string;
   accountId: string;
@@ -49,11 +104,30 @@ export type WorkerMessageType =
   | "worker:error"
   | "worker:presence"
   | "worker:metrics"
+  | "worker:delivery"
+  | "worker:rateLimit"
+  | "worker:heartbeat"
   | "worker:exit"
+  | "worker:drained"
+  | "worker:friendSync"
   | "START"
   | "STOP"
   | "UPDATE_SETTINGS"
   | "CONTENT_DELIVERY"
+  | "DELIVERY_RESULT"
+  | "METRICS"
+  | "RATE_LIMITED"
+  | "HEARTBEAT"
+  | "ADD_ACCOUNT"
+  | "ACCOUNT_EXITED"
+  | "DRAIN"
+  | "DRAINED"
+  | "RESTORE_PRESENCE"
+  | "SYNC_FRIENDS"
+  | "FRIEND_SYNC"
+  | "DM_COMMAND"
+  | "DM_REPLY"
+  | "DELIVERY_FEEDBACK"
   | "STATUS"
   | "ERROR"
   | "PRESENCE_UPDATE";
@@ -69,11 +143,47 @@ export type WorkerMessage =
         oldActivity: ActivityState | null;
         newActivity: ActivityState | null;
         timestamp: string;
+        /** Seen during the warm-up after connecting, to be recorded but not acted on */
+        warmup?: boolean;
       };
     }
   | { type: "UPDATE_SETTINGS"; data: { accountId: string; settings: IDiscordAccountSettings } }
   | ContentDeliveryCommand
-  | { type: "START" | "STOP"; data: { accountId: string } };
+  | { type: "DELIVERY_RESULT"; data: { accountId: string; delivery: DeliveryResult } }
+  | { type: "METRICS"; data: { accountId: string; metrics: WorkerMetrics } }
+  | { type: "RATE_LIMITED"; data: { accountId: string; rateLimit: RateLimitEvent } }
+  | { type: "HEARTBEAT"; data: { accountId: string; metrics: WorkerMetrics } }
+  | { type: "START" | "STOP" | "DRAIN" | "SYNC_FRIENDS"; data: { accountId: string } }
+  // Everyone the account knows on Discord, sent on connect, on relationship changes and on request
+  | {
+      type: "FRIEND_SYNC";
+      data: { accountId: string; trigger: FriendSyncTrigger; friends: SyncedFriend[] };
+    }
+  // A friend controlling their content by DM, and the reply once the change is saved
+  | {
+      type: "DM_COMMAND";
+      data: { accountId: string; userId: string; username: string; command: DmCommand };
+    }
+  | { type: "DM_REPLY"; data: { accountId: string; userId: string; text: string } }
+  | { type: "DELIVERY_FEEDBACK"; data: { accountId: string; feedback: DeliveryFeedback } }
+  // Sent once a draining worker finished its deliveries, with the presence it last saw
+  | { type: "DRAINED"; data: { accountId: string; activities: FriendPresence[] } }
+  // Presence saved before the worker (re)started, so friends' ongoing activities are not new
+  | { type: "RESTORE_PRESENCE"; data: { accountId: string; activities: FriendPresence[] } }
+  // Pooled threads are told which accounts to host and report when one of them is gone
+  | {
+      type: "ADD_ACCOUNT";
+      data: { accountId: string; token: string; settings: IDiscordAccountSettings };
+    }
+  | { type: "ACCOUNT_EXITED"; data: { accountId: string; code: number } };
+
+/**
+ * Message to a pooled thread, addressed to one of the accounts it hosts
+ */
+export interface PoolEnvelope {
+  accountId: string;
+  message: WorkerMessage;
+}
 
 export interface WorkerStatus {
   isConnected: boolean;
@@ -121,16 +231,115 @@ export interface WorkerMetrics {
   threadCount?: number;
   requestsPerMinute?: number;
   errorRate?: number;
+  pacing?: PacingUsage;
+  rateLimits?: RateLimitUsage;
+  /** Mean delay of the worker's event loop since the last heartbeat */
+  eventLoopLagMs?: number;
+  /** Discord gateway heartbeat round trip, absent before the client connected */
+  gatewayPingMs?: number;
+}
+
+/**
+ * Heap of the worker threads, in bytes, and its share per hosted account
+ */
+export interface WorkerMemoryUsage {
+  mode: "dedicated" | "pooled";
+  threads: number;
+  accounts: number;
+  heapUsed: number;
+  perAccount: number;
+}
+
+/**
+ * Liveness of a worker as streamed to admin clients
+ */
+export interface WorkerHeartbeatState {
+  accountId: string;
+  /** False once the worker missed heartbeats for longer than the liveness timeout */
+  responsive: boolean;
+  isConnected: boolean;
+  lastHeartbeatAt?: string;
+  memoryUsage?: number;
+  uptime?: number;
+  eventLoopLagMs?: number;
+  gatewayPingMs?: number;
+}
+
+/**
+ * A Discord 429 seen by the worker's client
+ */
+export interface RateLimitEvent {
+  /** Discord route, e.g. "/channels/123/messages" */
+  route: string;
+  method: string;
+  global: boolean;
+  limit: number;
+  retryAfterMs: number;
+  resetAt: string;
+}
+
+/**
+ * Rate limit pressure on a worker's Discord requests
+ */
+export interface RateLimitUsage {
+  /** 429 responses in the last hour */
+  hitsLastHour: number;
+  /** Routes whose bucket is used up until it resets */
+  limitedRoutes: number;
+  globalLimited: boolean;
+  /** Requests waiting for a bucket to reset */
+  queued: number;
+  /** When the last bucket in use resets */
+  resetAt?: string;
+  lastLimitedAt?: string;
+}
+
+/**
+ * Send budgets of an account and how much of them is used
+ */
+export interface PacingUsage {
+  enabled: boolean;
+  hourly: { used: number; limit: number };
+  daily: { used: number; limit: number };
+  inQuietHours: boolean;
+  /** When the next DM may be sent, if pacing currently holds deliveries back */
+  nextAvailableAt?: string;
 }
 
 export interface WorkerResponse {
-  type: "STATUS" | "ERROR" | "PRESENCE_UPDATE" | "METRICS";
+  type:
+    | "STATUS"
+    | "ERROR"
+    | "PRESENCE_UPDATE"
+    | "METRICS"
+    | "HEARTBEAT"
+    | "DELIVERY_RESULT"
+    | "RATE_LIMITED"
+    | "ACCOUNT_EXITED"
+    | "DRAINED"
+    | "FRIEND_SYNC"
+    | "DM_COMMAND"
+    | "DELIVERY_FEEDBACK";
   data: {
     accountId: string;
     status?: WorkerStatus;
     error?: WorkerError;
     presence?: WorkerPresenceData;
     metrics?: WorkerMetrics;
+    delivery?: DeliveryResult;
+    rateLimit?: RateLimitEvent;
+    code?: number;
+    activities?: FriendPresence[];
+    userId?: string;
+    oldActivity?: ActivityState | null;
+    newActivity?: ActivityState | null;
+    timestamp?: string;
+    warmup?: boolean;
+    trigger?: FriendSyncTrigger;
+    friends?: SyncedFriend[];
+    username?: string;
+    command?: DmCommand;
+    feedback?: DeliveryFeedback;
   };
 }
 
@@ -147,7 +356,53 @@ export interface ContentDeliveryCommand {
     context: {
       type: "STREAMING" | "WATCHING" | "CUSTOM" | "COMPETING" | "GAME" | "MUSIC";
       trigger: string;
+      /** Set when the content celebrates a milestone rather than an activity change */
+      milestone?: { kind: MilestoneKind; description: string };
+    };
+    /** Rendered message template; older servers leave it out */
+    message?: {
+      text: string;
+      mode: "embed" | "link";
     };
     historyId: string;
   };
 }
+
+/**
+ * Why a delivery failed, as far as the worker can tell from the Discord error
+ */
+export type DeliveryErrorType =
+  // Held back by the account's pacing (budgets or quiet hours), not an actual failure
+  | "PACED"
+  // The friend opted out by DM
+  | "OPTED_OUT"
+  | "FRIEND_NOT_FOUND"
+  | "DM_BLOCKED"
+  | "RATE_LIMITED"
+  | "NETWORK"
+  | "UNKNOWN";
+
+export interface DeliveryError {
+  type: DeliveryErrorType;
+  message: string;
+  /** Discord API error code or Node.js network error code */
+  code?: number | string;
+  /** Whether sending again later may succeed */
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+/**
+ * Outcome of a CONTENT_DELIVERY command, reported back by the worker
+ */
+export interface DeliveryResult {
+  historyId: string;
+  friendId: string;
+  success: boolean;
+  /** Id of the sent Discord message and its DM channel */
+  messageId?: string;
+  channelId?: string;
+  startedAt: string;
+  completedAt: string;
+  error?: DeliveryError;
+}
@@ -0,0 +1,179 @@
+import { ActivityMilestone, MilestoneKind, MilestoneSettings } from "../types/milestones";
+import { ActivityType } from "../types/worker";
+import { ActivitySession, sessionDuration } from "./activitySessions";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+export const MILESTONE_KINDS: MilestoneKind[] = [
+  "longSession",
+  "weeklySessions",
+  "firstTime",
+  "comeback",
+  "allDay",
+];
+
+/**
+ * What is known about a friend's earlier sessions when a new one starts
+ */
+export interface MilestoneHistory {
+  /** When the friend's first session of anything started, null if this is the first */
+  trackedSince: Date | null;
+  /** When the last session of the same activity ended, null if there was none */
+  lastEndedAt: Date | null;
+  /** Sessions of the same activity in the last 7 days, the new one included */
+  sessionsThisWeek: number;
+}
+
+const VERBS: Record<ActivityType, string> = {
+  GAME: "playing",
+  MUSIC: "listening to",
+  STREAMING: "streaming",
+  WATCHING: "watching",
+  CUSTOM: "",
+  COMPETING: "competing in",
+};
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+const ordinal = (n: number) => {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const tens = n % 100;
+  return `${n}${suffixes[(tens - 20) % 10] || suffixes[tens] || suffixes[0]}`;
+};
+
+/**
+ * Account settings over the server defaults, ignoring unset fields
+ */
+export function resolveMilestoneSettings(
+  defaults: MilestoneSettings,
+  overrides?: Partial<MilestoneSettings>,
+): MilestoneSettings {
+  const defined = Object.fromEntries(
+    Object.entries(overrides || {}).filter(([, value]) => value !== undefined),
+  );
+  return { ...defaults, ...defined };
+}
+
+/**
+ * Milestone as friends would say it, e.g. "3 hours of Minecraft"
+ */
+export function describeMilestone(
+  kind: MilestoneKind,
+  type: ActivityType,
+  name: string,
+  value: number,
+): string {
+  switch (kind) {
+    case "longSession":
+      return `${plural(value, "hour")} of ${name}`;
+    case "weeklySessions":
+      return `${ordinal(value)} ${name} session this week`;
+    case "firstTime":
+      return `first time ${VERBS[type] ? `${VERBS[type]} ` : ""}${name}`;
+    case "comeback":
+      return `back to ${name} after ${plural(value, "day")}`;
+    case "allDay":
+      return `${plural(value, "hour")} of ${name} today`;
+  }
+}
+
+const milestone = (
+  kind: MilestoneKind,
+  type: ActivityType,
+  name: string,
+  value: number,
+): ActivityMilestone => ({
+  kind,
+  activityType: type,
+  activityName: name,
+  value,
+  description: describeMilestone(kind, type, name, value),
+});
+
+/**
+ * Start of the local day the date is in
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Time spent in the sessions since a moment, counting open ones up to now
+ */
+export function timeSpentSince(sessions: ActivitySession[], since: Date, now = new Date()): number {
+  return sessions.reduce((total, session) => {
+    const end = session.startedAt.getTime() + sessionDuration(session, now);
+    return total + Math.max(0, end - Math.max(session.startedAt.getTime(), since.getTime()));
+  }, 0);
+}
+
+/**
+ * Milestones reached by starting a session: the first one ever, a comeback or the Nth this week
+ */
+export function startMilestones(
+  settings: MilestoneSettings,
+  session: Pick<ActivitySession, "type" | "name" | "startedAt">,
+  history: MilestoneHistory,
+): ActivityMilestone[] {
+  const { type, name, startedAt } = session;
+  if (!settings.enabled || !name) return [];
+
+  const milestones: ActivityMilestone[] = [];
+  if (!history.lastEndedAt) {
+    // Everything is new to a friend who is only just being watched
+    if (
+      settings.firstTime &&
+      history.trackedSince &&
+      startedAt.getTime() - history.trackedSince.getTime() >= WEEK_MS
+    ) {
+      milestones.push(milestone("firstTime", type, name, 1));
+    }
+  } else if (settings.comebackDays > 0) {
+    const daysAway = Math.floor((startedAt.getTime() - history.lastEndedAt.getTime()) / DAY_MS);
+    if (daysAway >= settings.comebackDays) {
+      milestones.push(milestone("comeback", type, name, daysAway));
+    }
+  }
+
+  if (settings.weeklySessions > 0 && history.sessionsThisWeek === settings.weeklySessions) {
+    milestones.push(milestone("weeklySessions", type, name, settings.weeklySessions));
+  }
+  return milestones;
+}
+
+/**
+ * Milestones reached while a session goes on: a long session or most of the day on the same
+ * activity, each at most once per session and once per day
+ * @param today Sessions of the same activity since midnight, the open one included
+ * @param reached Milestones already celebrated for the session, and whether today's whole day
+ *   milestone was
+ */
+export function ongoingMilestones(
+  settings: MilestoneSettings,
+  session: ActivitySession,
+  today: ActivitySession[],
+  reached: { session: MilestoneKind[]; allDay: boolean },
+  now = new Date(),
+): ActivityMilestone[] {
+  const { type, name } = session;
+  if (!settings.enabled || !name) return [];
+
+  const milestones: ActivityMilestone[] = [];
+  if (
+    settings.longSessionHours > 0 &&
+    !reached.session.includes("longSession") &&
+    sessionDuration(session, now) >= settings.longSessionHours * HOUR_MS
+  ) {
+    milestones.push(milestone("longSession", type, name, settings.longSessionHours));
+  }
+  if (
+    settings.allDayHours > 0 &&
+    !reached.allDay &&
+    timeSpentSince(today, startOfDay(now), now) >= settings.allDayHours * HOUR_MS
+  ) {
+    milestones.push(milestone("allDay", type, name, settings.allDayHours));
+  }
+  return milestones;
+}
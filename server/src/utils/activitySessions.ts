@@ -0,0 +1,207 @@
+import { ActivityState, ActivityType } from "../types/worker";
+import { zonedTime } from "./timeWindows";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Sessions left open longer than this are taken as lost track of, e.g. a worker that went
+ * away while a friend was playing, and end this long after they started
+ */
+export const MAX_SESSION_MS = 12 * HOUR_MS;
+
+export interface ActivitySession {
+  type: ActivityType;
+  name: string;
+  startedAt: Date;
+  /** Null while the friend is still at it */
+  endedAt: Date | null;
+}
+
+export interface ActivityAggregate {
+  type: ActivityType;
+  name: string;
+  totalMs: number;
+  sessions: number;
+  longestMs: number;
+  lastSeenAt: Date;
+}
+
+export interface ActivitySummary {
+  totalMs: number;
+  sessions: number;
+  activities: ActivityAggregate[];
+  longestSession: (ActivitySession & { durationMs: number }) | null;
+  streaks: {
+    /** Days in a row up to today, or yesterday if nothing happened today yet */
+    currentDays: number;
+    longestDays: number;
+  };
+  /** Minutes of activity by weekday and hour, in the time zone summarized in */
+  heatmap: Array<{ dayOfWeek: number; hourOfDay: number; minutes: number }>;
+}
+
+/**
+ * What the activity is about, e.g. the game or the artist. Sessions of the same type and name
+ * are the same session.
+ */
+export function activityName(activity: ActivityState): string {
+  switch (activity.type) {
+    case "GAME":
+      return activity.details.gameName || "";
+    case "MUSIC":
+      return activity.details.musicDetails?.artist || "";
+    case "STREAMING":
+      return activity.details.streamingDetails?.title || "";
+    case "WATCHING":
+      return activity.details.watchingDetails?.title || "";
+    case "CUSTOM":
+      return activity.details.customDetails?.name || "";
+    case "COMPETING":
+      return activity.details.competingDetails?.name || "";
+    default:
+      return "";
+  }
+}
+
+/**
+ * How long a session lasted, up to now for open ones and at most MAX_SESSION_MS
+ */
+export function sessionDuration(session: ActivitySession, now = new Date()): number {
+  const end = session.endedAt || now;
+  return Math.min(Math.max(0, end.getTime() - session.startedAt.getTime()), MAX_SESSION_MS);
+}
+
+/**
+ * When a new session started: when Discord says the activity started, but never after it was
+ * seen nor before the previous session ended
+ */
+export function sessionStart(
+  reported: Date | string | undefined,
+  seenAt: Date,
+  after?: Date,
+): Date {
+  const start = reported ? new Date(reported) : seenAt;
+  if (isNaN(start.getTime()) || start > seenAt) return seenAt;
+  if (after && start < after) return after;
+  return start;
+}
+
+function dayKey(date: Date, timeZone?: string): number {
+  const { year, month, day } = zonedTime(date, timeZone);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function streaks(
+  sessions: ActivitySession[],
+  now: Date,
+  timeZone?: string,
+): ActivitySummary["streaks"] {
+  const days = new Set<number>();
+  for (const session of sessions) {
+    const end = new Date(session.startedAt.getTime() + sessionDuration(session, now));
+    const last = dayKey(end, timeZone);
+    for (let day = dayKey(session.startedAt, timeZone); day <= last; day++) days.add(day);
+  }
+
+  let longestDays = 0;
+  for (const day of days) {
+    if (days.has(day - 1)) continue;
+    let length = 1;
+    while (days.has(day + length)) length++;
+    longestDays = Math.max(longestDays, length);
+  }
+
+  const today = dayKey(now, timeZone);
+  let day = days.has(today) ? today : today - 1;
+  let currentDays = 0;
+  while (days.has(day)) {
+    currentDays++;
+    day--;
+  }
+
+  return { currentDays, longestDays };
+}
+
+function heatmap(
+  sessions: ActivitySession[],
+  now: Date,
+  timeZone?: string,
+): ActivitySummary["heatmap"] {
+  const minutes = new Map<number, number>();
+  for (const session of sessions) {
+    let cursor = session.startedAt.getTime();
+    const end = cursor + sessionDuration(session, now);
+    while (cursor < end) {
+      const at = zonedTime(new Date(cursor), timeZone);
+      // Zones are offset by whole minutes, so the hour ends where the zone's minutes run out
+      const hourEnd = cursor - (cursor % MINUTE_MS) + (60 - at.minute) * MINUTE_MS;
+      const sliceEnd = Math.min(end, hourEnd);
+      const key = at.weekday * 24 + at.hour;
+      minutes.set(key, (minutes.get(key) || 0) + (sliceEnd - cursor) / 60000);
+      cursor = sliceEnd;
+    }
+  }
+
+  return Array.from(minutes.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, total]) => ({
+      dayOfWeek: Math.floor(key / 24),
+      hourOfDay: key % 24,
+      minutes: Math.round(total),
+    }));
+}
+
+/**
+ * Totals per activity, the longest session, day streaks and when the friend is usually active
+ * @param timeZone Zone whose days and hours the streaks and the heatmap count in, the server's
+ * when not given
+ * @param limit Number of activities to keep, most time spent first
+ */
+export function summarizeSessions(
+  sessions: ActivitySession[],
+  now = new Date(),
+  timeZone?: string,
+  limit = 20,
+): ActivitySummary {
+  const byActivity = new Map<string, ActivityAggregate>();
+  let totalMs = 0;
+  let longestSession: ActivitySummary["longestSession"] = null;
+
+  for (const session of sessions) {
+    const durationMs = sessionDuration(session, now);
+    totalMs += durationMs;
+
+    const key = `${session.type}:${session.name}`;
+    const aggregate = byActivity.get(key) || {
+      type: session.type,
+      name: session.name,
+      totalMs: 0,
+      sessions: 0,
+      longestMs: 0,
+      lastSeenAt: session.startedAt,
+    };
+    aggregate.totalMs += durationMs;
+    aggregate.sessions++;
+    aggregate.longestMs = Math.max(aggregate.longestMs, durationMs);
+    const seenAt = session.endedAt || now;
+    if (seenAt > aggregate.lastSeenAt) aggregate.lastSeenAt = seenAt;
+    byActivity.set(key, aggregate);
+
+    if (!longestSession || durationMs > longestSession.durationMs) {
+      longestSession = { ...session, durationMs };
+    }
+  }
+
+  return {
+    totalMs,
+    sessions: sessions.length,
+    activities: Array.from(byActivity.values())
+      .sort((a, b) => b.totalMs - a.totalMs)
+      .slice(0, limit),
+    longestSession,
+    streaks: streaks(sessions, now, timeZone),
+    heatmap: heatmap(sessions, now, timeZone),
+  };
+}
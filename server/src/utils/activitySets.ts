@@ -0,0 +1,92 @@
+import { ActivityEntry, ActivityState, ActivityType } from "../types/worker";
+
+// What tells two activities of the same type apart; albums, URLs or start times do not
+const identity = ({ type, details }: ActivityEntry): Array<string | undefined> => {
+  switch (type) {
+    case "GAME":
+      return [details.gameName];
+    case "MUSIC":
+      return [details.musicDetails?.artist, details.musicDetails?.song];
+    case "STREAMING":
+      return [details.streamingDetails?.platform, details.streamingDetails?.title];
+    case "WATCHING":
+      return [details.watchingDetails?.title, details.watchingDetails?.platform];
+    case "CUSTOM":
+      return [details.customDetails?.name, details.customDetails?.state];
+    case "COMPETING":
+      return [details.competingDetails?.name, details.competingDetails?.venue];
+    default:
+      return [];
+  }
+};
+
+const activityKey = (activity: ActivityEntry): string =>
+  JSON.stringify([activity.type, ...identity(activity)]);
+
+/**
+ * Whether two activities are the same game, song, stream... whatever their other details
+ */
+export function isSameActivity(a: ActivityEntry | null, b: ActivityEntry | null): boolean {
+  if (!a || !b) return a === b;
+  return activityKey(a) === activityKey(b);
+}
+
+/**
+ * Every activity of a state, the driving one alone when the presence had a single one
+ */
+export function activitiesOf(state: ActivityState | null): ActivityEntry[] {
+  if (!state) return [];
+  return state.activities?.length ? state.activities : [state];
+}
+
+/**
+ * Whether two states have the same activities, in any order, driven by the same one
+ */
+export function isSameActivitySet(a: ActivityState | null, b: ActivityState | null): boolean {
+  if (!isSameActivity(a, b)) return false;
+
+  const keys = (state: ActivityState | null) => activitiesOf(state).map(activityKey).sort();
+  const [aKeys, bKeys] = [keys(a), keys(b)];
+  return aKeys.length === bKeys.length && aKeys.every((key, index) => key === bKeys[index]);
+}
+
+/**
+ * The activity that drives content: the first of the highest priority type, types missing from
+ * the priority after the listed ones. No priority keeps Discord's order.
+ */
+export function selectPrimaryActivity(
+  activities: ActivityEntry[],
+  priority: ActivityType[],
+): ActivityEntry | null {
+  const rank = (type: ActivityType) => {
+    const index = priority.indexOf(type);
+    return index === -1 ? priority.length : index;
+  };
+  return activities.reduce<ActivityEntry | null>(
+    (best, activity) => (!best || rank(activity.type) < rank(best.type) ? activity : best),
+    null,
+  );
+}
+
+/**
+ * State of a presence's activities, null when none was recognized
+ */
+export function toActivityState(
+  activities: ActivityEntry[],
+  priority: ActivityType[],
+): ActivityState | null {
+  const primary = selectPrimaryActivity(activities, priority);
+  if (!primary) return null;
+
+  const { type, details } = primary;
+  return activities.length > 1 ? { type, details, activities } : { type, details };
+}
+
+/**
+ * Types of the activities a friend is doing next to the one that drives content, e.g. MUSIC
+ * for a friend listening to Spotify while playing
+ */
+export function alongsideTypes(state: ActivityState | null): ActivityType[] {
+  const others = activitiesOf(state).filter(activity => !isSameActivity(activity, state));
+  return Array.from(new Set(others.map(activity => activity.type)));
+}
@@ -0,0 +1,101 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  nextProbeAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * Classic three state circuit breaker.
+ *
+ * - closed: calls go through, consecutive failures are counted
+ * - open: calls are rejected until `resetTimeoutMs` has passed since the breaker opened
+ * - half-open: a single probe call is let through; success closes the breaker, failure re-opens it
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Ask permission to make a call. In half-open state only one caller gets through
+   * until it reports back with `recordSuccess` or `recordFailure`.
+   */
+  tryAcquire(): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = "half-open";
+      this.probeInFlight = false;
+    }
+
+    if (this.state === "closed") {
+      return true;
+    }
+
+    if (this.state === "half-open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+    this.lastError = null;
+  }
+
+  recordFailure(error?: unknown): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+    if (error !== undefined) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (this.state === "half-open" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  reset(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = 0;
+    this.probeInFlight = false;
+    this.lastError = null;
+  }
+
+  getState(): CircuitState {
+    // Surface the half-open transition to observers without consuming the probe
+    if (this.state === "open" && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return "half-open";
+    }
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === "closed" ? null : new Date(this.openedAt),
+      nextProbeAt:
+        this.state === "open" ? new Date(this.openedAt + this.options.resetTimeoutMs) : null,
+      lastError: this.lastError,
+    };
+  }
+}
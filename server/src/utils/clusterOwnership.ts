@@ -0,0 +1,48 @@
+export interface OwnershipInput {
+  /** Accounts that should be running somewhere */
+  activeAccountIds: string[];
+  /** Accounts this node holds a lease for */
+  ownedAccountIds: string[];
+  /** Accounts any live node holds a lease for, this one included */
+  leasedAccountIds: string[];
+  /** Live nodes, this one included */
+  liveNodes: number;
+}
+
+export interface OwnershipPlan {
+  /** Unowned accounts this node should try to take */
+  claim: string[];
+  /** An account to give up so a node below its share can take it */
+  shed: string | null;
+}
+
+/**
+ * Each node's fair share of the accounts, rounded up so the shares always cover every account
+ */
+export function fairShare(accounts: number, liveNodes: number): number {
+  return Math.ceil(accounts / Math.max(1, liveNodes));
+}
+
+/**
+ * What a node should do to move towards its fair share. Unowned accounts are taken up to
+ * the share; a node above its share gives up one account at a time, and only once nothing
+ * is left unowned, so nodes joining the cluster take over accounts gradually.
+ */
+export function planOwnership({
+  activeAccountIds,
+  ownedAccountIds,
+  leasedAccountIds,
+  liveNodes,
+}: OwnershipInput): OwnershipPlan {
+  const share = fairShare(activeAccountIds.length, liveNodes);
+  const leased = new Set(leasedAccountIds);
+  const unowned = activeAccountIds.filter(accountId => !leased.has(accountId));
+
+  const claim = unowned.slice(0, Math.max(0, share - ownedAccountIds.length));
+  const shed =
+    unowned.length === 0 && ownedAccountIds.length > share
+      ? ownedAccountIds[ownedAccountIds.length - 1]
+      : null;
+
+  return { claim, shed };
+}
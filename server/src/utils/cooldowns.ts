@@ -0,0 +1,56 @@
+import {
+  CooldownLevel,
+  CooldownScope,
+  CooldownSettings,
+  FrequencyCooldown,
+  ResolvedCooldown,
+} from "../types/cooldowns";
+import { ActivityType } from "../types/worker";
+
+const MINUTE_MS = 60 * 1000;
+
+const SCOPES: CooldownScope[] = ["friend", "account", "server"];
+const LEVELS: CooldownLevel[] = ["activity", "activityType", "default"];
+
+const minutesAt = (
+  settings: CooldownSettings | undefined,
+  level: CooldownLevel,
+  activity: { type: ActivityType; name: string },
+): number | undefined => {
+  switch (level) {
+    case "activity": {
+      const name = activity.name.trim().toLowerCase();
+      if (!name) return undefined;
+      return settings?.activities?.find(entry => entry.name.trim().toLowerCase() === name)?.minutes;
+    }
+    case "activityType":
+      return settings?.activityTypes?.[activity.type];
+    case "default":
+      return settings?.minutes;
+  }
+};
+
+/**
+ * How long content about an activity puts a friend on cooldown. The most specific level wins,
+ * a game over its activity type over the plain minutes, and for the same level the friend's
+ * settings win over the account's over the server's.
+ * @param frequency How the frequency the friend asked for by DM stretches and floors it
+ */
+export function resolveCooldown(
+  settings: Record<CooldownScope, CooldownSettings | undefined>,
+  activity: { type: ActivityType; name: string },
+  frequency: FrequencyCooldown = { factor: 1, minimumMinutes: 0 },
+): ResolvedCooldown {
+  const durationMs = (minutes: number) =>
+    Math.max(minutes * frequency.factor, frequency.minimumMinutes, 0) * MINUTE_MS;
+
+  for (const level of LEVELS) {
+    for (const scope of SCOPES) {
+      const minutes = minutesAt(settings[scope], level, activity);
+      if (typeof minutes === "number") {
+        return { durationMs: durationMs(minutes), scope, level };
+      }
+    }
+  }
+  return { durationMs: durationMs(0), scope: "server", level: "default" };
+}
@@ -0,0 +1,21 @@
+/**
+ * Wait for a promise for at most `timeoutMs`. The promise keeps running when time runs out,
+ * and its errors are passed on when it settles first.
+ * @returns false when time ran out first
+ */
+export async function settlesWithin(
+  promise: Promise<unknown>,
+  timeoutMs: number,
+): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise.then(() => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
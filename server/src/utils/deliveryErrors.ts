@@ -0,0 +1,83 @@
+import { DeliveryError } from "../types/worker";
+
+// Discord API error codes, see https://discord.com/developers/docs/topics/opcodes-and-status-codes
+const UNKNOWN_USER_CODES = [10013];
+const DM_BLOCKED_CODES = [50007, 50278];
+const RATE_LIMIT_CODES = [20016, 40003];
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+];
+
+interface DiscordLikeError {
+  name?: string;
+  message?: string;
+  code?: number | string;
+  httpStatus?: number;
+  status?: number;
+  /** Milliseconds until the rate limit resets (discord.js RateLimitError) */
+  timeout?: number;
+  retryAfter?: number;
+}
+
+/**
+ * Classify an error thrown while sending a DM, so the server can tell failures worth
+ * retrying from ones that will never succeed
+ */
+export function classifyDeliveryError(error: unknown): DeliveryError {
+  const err: DiscordLikeError =
+    error && typeof error === "object" ? (error as DiscordLikeError) : {};
+  const message = err.message || String(error);
+  const code = err.code;
+  const httpStatus = err.httpStatus ?? err.status;
+
+  if (typeof code === "number" && UNKNOWN_USER_CODES.includes(code)) {
+    return { type: "FRIEND_NOT_FOUND", message, code, retryable: false };
+  }
+
+  if (typeof code === "number" && DM_BLOCKED_CODES.includes(code)) {
+    return { type: "DM_BLOCKED", message, code, retryable: false };
+  }
+
+  if (
+    err.name === "RateLimitError" ||
+    httpStatus === 429 ||
+    (typeof code === "number" && RATE_LIMIT_CODES.includes(code))
+  ) {
+    return {
+      type: "RATE_LIMITED",
+      message,
+      code,
+      retryable: true,
+      retryAfterMs: err.timeout ?? err.retryAfter,
+    };
+  }
+
+  if (
+    (typeof code === "string" && NETWORK_ERROR_CODES.includes(code)) ||
+    err.name === "AbortError" ||
+    (httpStatus !== undefined && httpStatus >= 500)
+  ) {
+    return { type: "NETWORK", message, code, retryable: true };
+  }
+
+  return { type: "UNKNOWN", message, code, retryable: true };
+}
+
+/**
+ * Whether an error thrown while sending a DM means the account lost its connection, rather than
+ * Discord refusing the message, e.g. to a friend with closed DMs
+ */
+export function isConnectionError(error: unknown): boolean {
+  const err: DiscordLikeError =
+    error && typeof error === "object" ? (error as DiscordLikeError) : {};
+  return (
+    (typeof err.code === "string" && NETWORK_ERROR_CODES.includes(err.code)) ||
+    err.name === "AbortError"
+  );
+}
@@ -0,0 +1,95 @@
+import { FeedbackSentiment } from "../types/worker";
+
+const POSITIVE_EMOJIS = new Set([
+  "😂",
+  "🤣",
+  "😆",
+  "😄",
+  "😁",
+  "😀",
+  "😊",
+  "😍",
+  "🥰",
+  "🤩",
+  "😎",
+  "😭",
+  "💀",
+  "❤",
+  "💯",
+  "🔥",
+  "👍",
+  "👏",
+  "🙌",
+  "⭐",
+  "✅",
+]);
+
+const NEGATIVE_EMOJIS = new Set([
+  "👎",
+  "😐",
+  "😑",
+  "🙄",
+  "😒",
+  "😕",
+  "🙁",
+  "☹",
+  "😠",
+  "😡",
+  "🤢",
+  "🤮",
+  "😴",
+  "💤",
+  "❌",
+]);
+
+// Negative phrases are matched first and taken out, so "not funny" does not count as "funny"
+const NEGATIVE_WORDS =
+  /\b(not funny|unfunny|cringe|boring|lame|meh|ugh|bad|hate|dislike|seen (it|this)|old one)\b/g;
+const POSITIVE_WORDS =
+  /\b(lol+|lmao+|lmfao|rofl|ha(ha)+|he(he)+|xd|kek|kekw|lul|pog|poggers|nice|love|loved|funny|hilarious|great|good one|dead|based)\b/g;
+
+const EMOJI = /\p{Extended_Pictographic}/gu;
+const IS_EMOJI = /\p{Extended_Pictographic}/u;
+
+/**
+ * Emoji as found in the lists, without variation selectors and skin tones
+ */
+function normalizeEmoji(emoji: string): string {
+  return emoji.replace(/\u{FE0F}|\p{Emoji_Modifier}/gu, "");
+}
+
+function score(positive: number, negative: number): FeedbackSentiment {
+  if (positive > negative) return "positive";
+  if (negative > positive) return "negative";
+  return "neutral";
+}
+
+/**
+ * How a reaction reads. Custom server emojis are judged by their name, e.g. "KEKW".
+ */
+export function emojiSentiment(emoji: string): FeedbackSentiment {
+  const normalized = normalizeEmoji(emoji);
+  if (POSITIVE_EMOJIS.has(normalized)) return "positive";
+  if (NEGATIVE_EMOJIS.has(normalized)) return "negative";
+  if (IS_EMOJI.test(normalized)) return "neutral";
+  return replySentiment(normalized);
+}
+
+/**
+ * How a reply reads, from the emojis and the usual words friends react to memes with
+ */
+export function replySentiment(text: string): FeedbackSentiment {
+  const lower = text.toLowerCase();
+  const negativeWords = lower.match(NEGATIVE_WORDS) || [];
+  const positiveWords = lower.replace(NEGATIVE_WORDS, " ").match(POSITIVE_WORDS) || [];
+
+  let positive = positiveWords.length;
+  let negative = negativeWords.length;
+  for (const emoji of text.match(EMOJI) || []) {
+    const normalized = normalizeEmoji(emoji);
+    if (POSITIVE_EMOJIS.has(normalized)) positive++;
+    if (NEGATIVE_EMOJIS.has(normalized)) negative++;
+  }
+
+  return score(positive, negative);
+}
@@ -0,0 +1,175 @@
+import { ActivityType, DmCommand, FriendFrequency } from "../types/worker";
+
+/**
+ * The part of a friend's content preferences they control by DM
+ */
+export interface FriendPreferences {
+  optedOut: boolean;
+  frequency: FriendFrequency;
+  /** Activities the friend wants content about */
+  enabledTypes: string[];
+}
+
+export interface DmCommandResult {
+  /** Preferences to save; empty when the command changes nothing */
+  changes: Partial<FriendPreferences>;
+  reply: string;
+}
+
+// Words a friend may use after "only"
+const ONLY_KEYWORDS: Record<string, ActivityType> = {
+  game: "GAME",
+  games: "GAME",
+  gaming: "GAME",
+  music: "MUSIC",
+  songs: "MUSIC",
+  stream: "STREAMING",
+  streams: "STREAMING",
+  streaming: "STREAMING",
+  shows: "WATCHING",
+  movies: "WATCHING",
+  watching: "WATCHING",
+};
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  GAME: "games",
+  MUSIC: "music",
+  STREAMING: "streams",
+  WATCHING: "shows and movies",
+  CUSTOM: "statuses",
+  COMPETING: "competitions",
+};
+
+const ACTIVITY_TYPES = Object.keys(ACTIVITY_LABELS) as ActivityType[];
+
+const FREQUENCIES: FriendFrequency[] = ["less", "normal", "more"];
+
+const HELP_REPLY = [
+  "You can control what I send you:",
+  '"stop" to get nothing, "resume" to start again',
+  '"less" or "more" to change how often',
+  '"only games", "only music", "only streams" or "only shows" to narrow it down',
+  '"everything" to get it all again',
+].join("\n");
+
+/**
+ * Read a DM as a command. Only messages that are exactly a command count, so regular
+ * conversation is left alone.
+ * @returns null when the message is not a command
+ */
+export function parseDmCommand(text: string): DmCommand | null {
+  const words = text
+    .trim()
+    .toLowerCase()
+    .replace(/^[!/]/, "")
+    .replace(/[.!]+$/, "")
+    .split(/\s+/);
+
+  switch (words.join(" ")) {
+    case "stop":
+    case "unsubscribe":
+    case "opt out":
+      return { type: "stop" };
+    case "resume":
+    case "start":
+    case "opt in":
+      return { type: "resume" };
+    case "less":
+      return { type: "less" };
+    case "more":
+      return { type: "more" };
+    case "everything":
+      return { type: "everything" };
+    case "help":
+      return { type: "help" };
+  }
+
+  const activityType = words.length === 2 && words[0] === "only" && ONLY_KEYWORDS[words[1]];
+  return activityType ? { type: "only", activityType } : null;
+}
+
+/**
+ * Work out what a command changes in a friend's preferences and how to confirm it
+ */
+export function applyDmCommand(
+  preferences: FriendPreferences,
+  command: DmCommand,
+): DmCommandResult {
+  const step = FREQUENCIES.indexOf(preferences.frequency);
+
+  switch (command.type) {
+    case "stop":
+      return preferences.optedOut
+        ? { changes: {}, reply: 'You already get nothing from me. Send "resume" to start again.' }
+        : {
+            changes: { optedOut: true },
+            reply:
+              'Got it, I won\'t send you anything anymore. Send "resume" if you change your mind.',
+          };
+
+    case "resume":
+      return preferences.optedOut
+        ? { changes: { optedOut: false }, reply: "Welcome back! I'll send you things again." }
+        : { changes: {}, reply: "You're already getting things from me." };
+
+    case "less":
+      return step > 0
+        ? {
+            changes: { frequency: FREQUENCIES[step - 1] },
+            reply: "Okay, I'll send you things less often.",
+          }
+        : {
+            changes: {},
+            reply: 'That\'s already as rarely as I send. Send "stop" to get nothing at all.',
+          };
+
+    case "more":
+      return step < FREQUENCIES.length - 1
+        ? {
+            changes: { frequency: FREQUENCIES[step + 1] },
+            reply: "Okay, I'll send you things more often.",
+          }
+        : { changes: {}, reply: "That's already as often as I send." };
+
+    case "only":
+      return {
+        changes: { enabledTypes: [command.activityType] },
+        reply: `Okay, from now on I'll only send you things about ${ACTIVITY_LABELS[command.activityType]}. Send "everything" to get it all again.`,
+      };
+
+    case "everything":
+      return wantedActivityTypes(preferences.enabledTypes).length > 0
+        ? { changes: { enabledTypes: ACTIVITY_TYPES }, reply: "Okay, you'll get everything again." }
+        : { changes: {}, reply: "You're already getting everything." };
+
+    case "help":
+      return { changes: {}, reply: HELP_REPLY };
+  }
+}
+
+/**
+ * Activities a friend narrowed their content down to, empty when they want all of them. Lists
+ * naming no activity, like the former "meme" and "gif" default, narrow nothing.
+ */
+export function wantedActivityTypes(enabledTypes: string[] | undefined): ActivityType[] {
+  const wanted = ACTIVITY_TYPES.filter(type => enabledTypes?.includes(type));
+  return wanted.length < ACTIVITY_TYPES.length ? wanted : [];
+}
+
+/**
+ * Why a friend should not get content about an activity. How often they get it is up to
+ * their cooldowns.
+ * @returns null when content may be sent
+ */
+export function friendBlockReason(
+  preferences: Partial<FriendPreferences> | undefined,
+  activityType: ActivityType,
+): string | null {
+  if (preferences?.optedOut) return "Friend opted out";
+
+  const wanted = wantedActivityTypes(preferences?.enabledTypes);
+  if (wanted.length > 0 && !wanted.includes(activityType)) {
+    return `Friend only wants content about ${wanted.join(", ")}`;
+  }
+  return null;
+}
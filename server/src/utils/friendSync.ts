@@ -0,0 +1,42 @@
+import { SyncedFriend } from "../types/worker";
+
+export interface KnownFriend {
+  userId: string;
+  username: string;
+  /** Set once the friend was no longer found on Discord */
+  removedAt?: Date | null;
+}
+
+export interface FriendDiff {
+  /** Friends seen for the first time, or again after they were removed */
+  added: Array<{ userId: string; username: string }>;
+  /** Friends no longer found on Discord */
+  removed: Array<{ userId: string; username: string }>;
+  renamed: Array<{ userId: string; from: string; to: string }>;
+}
+
+/**
+ * Compare the friends stored for an account with the ones its worker found on Discord
+ */
+export function diffFriends(known: KnownFriend[], synced: SyncedFriend[]): FriendDiff {
+  const knownById = new Map(known.map(friend => [friend.userId, friend]));
+  const syncedIds = new Set(synced.map(friend => friend.userId));
+  const diff: FriendDiff = { added: [], removed: [], renamed: [] };
+
+  for (const { userId, username } of synced) {
+    const friend = knownById.get(userId);
+    if (!friend || friend.removedAt) {
+      diff.added.push({ userId, username });
+    } else if (friend.username !== username) {
+      diff.renamed.push({ userId, from: friend.username, to: username });
+    }
+  }
+
+  for (const { userId, username, removedAt } of known) {
+    if (!removedAt && !syncedIds.has(userId)) {
+      diff.removed.push({ userId, username });
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,168 @@
+import crypto from "crypto";
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import { GifReader } from "omggif";
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** RGBA pixels, 4 bytes per pixel */
+  data: Uint8Array;
+}
+
+// Query parameters that only change how a CDN renders the same media
+const IGNORED_QUERY_PARAMS = new Set([
+  "width",
+  "height",
+  "w",
+  "h",
+  "format",
+  "auto",
+  "crop",
+  "fit",
+  "quality",
+  "q",
+  "s",
+  "cid",
+  "rid",
+  "ct",
+  "ep",
+]);
+
+// CDN host aliases that serve the same files
+const HOST_ALIASES: Array<[RegExp, string]> = [
+  [/^preview\.redd\.it$/, "i.redd.it"],
+  [/^external-preview\.redd\.it$/, "i.redd.it"],
+  [/^media\d*\.giphy\.com$/, "media.giphy.com"],
+  [/^i\.giphy\.com$/, "media.giphy.com"],
+  [/^c\.tenor\.com$/, "media.tenor.com"],
+];
+
+/**
+ * Canonical form of a media URL so CDN variants of the same file compare equal
+ */
+export function normalizeMediaUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl.trim();
+  }
+
+  let host = url.hostname.toLowerCase().replace(/^www\./, "");
+  for (const [pattern, alias] of HOST_ALIASES) {
+    if (pattern.test(host)) {
+      host = alias;
+      break;
+    }
+  }
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !IGNORED_QUERY_PARAMS.has(key.toLowerCase()) && !key.startsWith("utm_"))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : "";
+
+  return `${url.protocol === "http:" ? "https:" : url.protocol}//${host}${url.pathname}${query}`;
+}
+
+export function hashMediaUrl(url: string): string {
+  return crypto.createHash("sha1").update(normalizeMediaUrl(url)).digest("hex");
+}
+
+/**
+ * Decode a PNG, JPEG or GIF (first frame) from its bytes
+ * @returns null for formats that cannot be decoded
+ */
+export function decodeImage(buffer: Buffer): DecodedImage | null {
+  if (buffer.length < 8) return null;
+
+  // PNG signature
+  if (buffer[0] === 0x89 && buffer.toString("ascii", 1, 4) === "PNG") {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+
+  // JPEG start of image marker
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    const image = jpeg.decode(buffer, {
+      useTArray: true,
+      maxMemoryUsageInMB: 256,
+      maxResolutionInMP: 50,
+    });
+    return { width: image.width, height: image.height, data: image.data };
+  }
+
+  if (buffer.toString("ascii", 0, 4) === "GIF8") {
+    const reader = new GifReader(buffer);
+    const data = new Uint8Array(reader.width * reader.height * 4);
+    reader.decodeAndBlitFrameRGBA(0, data);
+    return { width: reader.width, height: reader.height, data };
+  }
+
+  return null;
+}
+
+/**
+ * 64-bit difference hash (dHash): the image is shrunk to 9x8 grayscale cells and each bit
+ * records whether a cell is brighter than its right neighbour. Re-encoded, resized or
+ * lightly recompressed copies of an image end up within a few bits of each other.
+ * @returns 16 character hex string
+ */
+export function differenceHash(image: DecodedImage): string {
+  const columns = 9;
+  const rows = 8;
+  const cells: number[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const y0 = Math.floor((row * image.height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * image.height) / rows));
+
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.floor((column * image.width) / columns);
+      const x1 = Math.max(x0 + 1, Math.floor(((column + 1) * image.width) / columns));
+
+      let total = 0;
+      let count = 0;
+      for (let y = y0; y < Math.min(y1, image.height); y++) {
+        for (let x = x0; x < Math.min(x1, image.width); x++) {
+          const offset = (y * image.width + x) * 4;
+          total +=
+            0.299 * image.data[offset] +
+            0.587 * image.data[offset + 1] +
+            0.114 * image.data[offset + 2];
+          count++;
+        }
+      }
+      cells.push(count ? total / count : 0);
+    }
+  }
+
+  let hash = "";
+  for (let row = 0; row < rows; row++) {
+    let byte = 0;
+    for (let column = 0; column < columns - 1; column++) {
+      const left = cells[row * columns + column];
+      const right = cells[row * columns + column + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, "0");
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
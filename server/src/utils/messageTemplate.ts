@@ -0,0 +1,168 @@
+import { ActivityState, ActivityType } from "../types/worker";
+
+/**
+ * Variables available in message templates as `{{name}}`. A fallback can follow a pipe,
+ * e.g. `{{game|that game}}`, and is used when the variable is empty.
+ */
+export const TEMPLATE_VARIABLES = {
+  friend: "Friend's Discord username",
+  activity: "What the friend is doing, e.g. playing Minecraft",
+  activityType: "Activity type in lowercase: game, music, streaming...",
+  trigger: "Game, artist, stream or show the content was found for",
+  game: "Game name",
+  artist: "Music artist",
+  song: "Song title",
+  album: "Album name",
+  show: "Show or video being watched",
+  stream: "Stream title",
+  platform: "Streaming or watching platform",
+  status: "Custom status text",
+  event: "Competition name",
+  timePlayed: "How long the activity has been going on, e.g. 1h 20m",
+  timeOfDay: "morning, afternoon, evening or night",
+  milestone: "Milestone the content celebrates, e.g. 3 hours of Minecraft",
+  title: "Content title",
+  source: "Content source",
+  url: "Content URL",
+  mediaType: "gif, video or image",
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+export type TemplateVariables = Partial<Record<TemplateVariable, string>>;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Variables used in a template that do not exist
+ */
+export function findUnknownVariables(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, name] of template.matchAll(VARIABLE_PATTERN)) {
+    if (!(name in TEMPLATE_VARIABLES)) unknown.add(name);
+  }
+  return Array.from(unknown);
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template
+    .replace(
+      VARIABLE_PATTERN,
+      (_, name: string, fallback?: string) =>
+        variables[name as TemplateVariable] || fallback?.trim() || "",
+    )
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * Human readable duration, e.g. "45m" or "2h 5m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return "a moment";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
+const timeOfDay = (date: Date): string => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+};
+
+const describeActivity = (activity: ActivityState): string => {
+  const { details } = activity;
+  switch (activity.type) {
+    case "GAME":
+      return details.gameName ? `playing ${details.gameName}` : "gaming";
+    case "MUSIC":
+      return details.musicDetails ? `listening to ${details.musicDetails.artist}` : "listening";
+    case "STREAMING":
+      return details.streamingDetails ? `streaming ${details.streamingDetails.title}` : "live";
+    case "WATCHING":
+      return details.watchingDetails ? `watching ${details.watchingDetails.title}` : "watching";
+    case "COMPETING":
+      return details.competingDetails ? `competing in ${details.competingDetails.name}` : "";
+    case "CUSTOM":
+      return details.customDetails?.state || details.customDetails?.name || "";
+  }
+};
+
+/**
+ * Minimal activity for a trigger when the full presence is not known
+ */
+export function activityFromTrigger(type: ActivityType, trigger: string): ActivityState {
+  const details: ActivityState["details"] = { startedAt: new Date() };
+  switch (type) {
+    case "GAME":
+      details.gameName = trigger;
+      break;
+    case "MUSIC":
+      details.musicDetails = { artist: trigger, song: "" };
+      break;
+    case "STREAMING":
+      details.streamingDetails = { platform: "", title: trigger };
+      break;
+    case "WATCHING":
+      details.watchingDetails = { title: trigger };
+      break;
+    case "COMPETING":
+      details.competingDetails = { name: trigger };
+      break;
+    case "CUSTOM":
+      details.customDetails = { name: trigger };
+      break;
+  }
+  return { type, details };
+}
+
+export function buildTemplateVariables(context: {
+  friendName: string;
+  activity: ActivityState;
+  trigger: string;
+  content?: { url: string; title: string; source?: string; type?: string };
+  milestone?: { description: string };
+  now?: Date;
+}): TemplateVariables {
+  const { activity, content } = context;
+  const { details } = activity;
+  const now = context.now || new Date();
+  const startedAt = details.startedAt ? new Date(details.startedAt) : null;
+  const contentType = content?.type || "";
+
+  return {
+    friend: context.friendName,
+    activity: describeActivity(activity),
+    activityType: activity.type.toLowerCase(),
+    trigger: context.trigger,
+    game: details.gameName || details.competingDetails?.venue,
+    artist: details.musicDetails?.artist,
+    song: details.musicDetails?.song,
+    album: details.musicDetails?.album,
+    show: details.watchingDetails?.title,
+    stream: details.streamingDetails?.title,
+    platform: details.streamingDetails?.platform || details.watchingDetails?.platform,
+    status: details.customDetails?.state || details.customDetails?.name,
+    event: details.competingDetails?.name,
+    // A start time of "now" means it is unknown
+    timePlayed:
+      startedAt && now.getTime() - startedAt.getTime() >= 60000
+        ? formatDuration(now.getTime() - startedAt.getTime())
+        : undefined,
+    timeOfDay: timeOfDay(now),
+    milestone: context.milestone?.description,
+    title: content?.title,
+    source: content?.source,
+    url: content?.url,
+    mediaType: contentType.includes("gif")
+      ? "gif"
+      : contentType.startsWith("video/")
+        ? "video"
+        : content
+          ? "image"
+          : undefined,
+  };
+}
@@ -0,0 +1,234 @@
+export interface TimeWindow {
+  /** "HH:mm" in the time zone the window is evaluated in */
+  start: string;
+  end: string;
+  /** Days of the week the window starts on, 0 for Sunday; every day when unset or empty */
+  days?: number[];
+}
+
+/** Wall clock time of an instant in a time zone */
+export interface ZonedTime {
+  year: number;
+  /** 1 to 12 */
+  month: number;
+  day: number;
+  /** 0 for Sunday */
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+interface ParsedWindow {
+  start: number;
+  end: number;
+  days: number[] | null;
+}
+
+const MINUTE_MS = 60000;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const parseTime = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() || "");
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+const parseDays = (days: number[] | undefined): number[] | null => {
+  const valid = (days || []).filter(day => Number.isInteger(day) && day >= 0 && day <= 6);
+  return valid.length ? valid : null;
+};
+
+// Valid, non-empty windows in minutes of the day
+const parseWindows = (windows: TimeWindow[] | undefined): ParsedWindow[] =>
+  (windows || [])
+    .map(window => ({
+      start: parseTime(window.start),
+      end: parseTime(window.end),
+      days: parseDays(window.days),
+    }))
+    .filter((window): window is ParsedWindow => {
+      return window.start !== null && window.end !== null && window.start !== window.end;
+    });
+
+// Formatting is the only way to read a zone's wall clock, and formatters are costly to create
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Whether `timeZone` is an IANA time zone this runtime knows, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first of the time zones that is set and known, undefined for the server's own
+ */
+export function resolveTimeZone(
+  ...timeZones: Array<string | null | undefined>
+): string | undefined {
+  return timeZones.find((timeZone): timeZone is string => !!timeZone && isValidTimeZone(timeZone));
+}
+
+/**
+ * Wall clock time of `date` in `timeZone`, or in the server's time zone when none is given
+ */
+export function zonedTime(date: Date, timeZone?: string): ZonedTime {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map(part => [part.type, part.value]),
+  );
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+  };
+}
+
+// Difference between the zone's wall clock and UTC at an instant, to the minute
+const offsetAt = (instant: number, timeZone: string): number => {
+  const local = zonedTime(new Date(instant), timeZone);
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return wall - (instant - (((instant % MINUTE_MS) + MINUTE_MS) % MINUTE_MS));
+};
+
+/**
+ * Instant at which the wall clock of `timeZone` shows the given day and minute of the day.
+ * Times skipped when clocks go forward map to the moment they do, times repeated when clocks go
+ * back to their first occurrence.
+ */
+const fromZonedTime = (
+  year: number,
+  month: number,
+  day: number,
+  minute: number,
+  timeZone?: string,
+): Date => {
+  if (!timeZone) return new Date(year, month - 1, day, 0, minute);
+
+  const wall = Date.UTC(year, month - 1, day, 0, minute);
+  const guess = wall - offsetAt(wall, timeZone);
+  const instant = wall - offsetAt(guess, timeZone);
+  if (offsetAt(instant, timeZone) === wall - instant) return new Date(instant);
+
+  // Skipped wall time: the change is between both readings, find the first minute past it
+  let before = Math.min(guess, instant);
+  let after = Math.max(guess, instant);
+  while (after - before > MINUTE_MS) {
+    const middle = before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (middle + offsetAt(middle, timeZone) >= wall) after = middle;
+    else before = middle;
+  }
+  return new Date(after);
+};
+
+const inWindow = ({ start, end, days }: ParsedWindow, local: ZonedTime): boolean => {
+  const minute = local.hour * 60 + local.minute;
+  const startsOn = (weekday: number) => !days || days.includes(weekday);
+
+  if (start < end) return minute >= start && minute < end && startsOn(local.weekday);
+  // Spans midnight, the part after midnight belongs to the previous day's window
+  return (
+    (minute >= start && startsOn(local.weekday)) ||
+    (minute < end && startsOn((local.weekday + 6) % 7))
+  );
+};
+
+/**
+ * Whether `date` falls inside any of the windows, read in `timeZone` (the server's when unset).
+ * Windows whose end is before their start span midnight. No (valid) windows means any time is
+ * allowed.
+ */
+export function isWithinTimeWindows(
+  windows: TimeWindow[] | undefined,
+  date = new Date(),
+  timeZone?: string,
+): boolean {
+  const parsed = parseWindows(windows);
+  if (!parsed.length) return true;
+
+  const local = zonedTime(date, timeZone);
+  return parsed.some(window => inWindow(window, local));
+}
+
+/**
+ * Earliest time at or after `from` that falls inside one of the windows, read in `timeZone`
+ */
+export function nextAllowedTime(
+  windows: TimeWindow[] | undefined,
+  from = new Date(),
+  timeZone?: string,
+): Date {
+  if (isWithinTimeWindows(windows, from, timeZone)) return from;
+
+  // Window starts over the next week, in wall clock days so DST changes do not shift them
+  const today = zonedTime(from, timeZone);
+  let next: Date | null = null;
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    for (const window of parseWindows(windows)) {
+      if (window.days && !window.days.includes(date.getUTCDay())) continue;
+
+      const start = fromZonedTime(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + 1,
+        date.getUTCDate(),
+        window.start,
+        timeZone,
+      );
+      if (start <= from || (next && start >= next)) continue;
+      // A window inside the hour skipped by DST does not open that day
+      if (isWithinTimeWindows(windows, start, timeZone)) next = start;
+    }
+    if (next) return next;
+  }
+  return from;
+}
+
+/**
+ * Hour based restrictions ("from 9 to 22") as a time window
+ */
+export function hoursToTimeWindows(hours?: { startHour: number; endHour: number }): TimeWindow[] {
+  if (!hours) return [];
+  const format = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+  return [{ start: format(hours.startHour), end: format(hours.endHour) }];
+}
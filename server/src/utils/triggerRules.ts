@@ -0,0 +1,107 @@
+import {
+  TriggerRuleConditions,
+  TriggerRuleContext,
+  TriggerRuleDecision,
+  TriggerRuleDefinition,
+  TriggerRuleTrace,
+} from "../types/rules";
+import { zonedTime } from "./timeWindows";
+
+/**
+ * Whether a name pattern compiles, so broken rules are refused when saved
+ */
+export function isValidNamePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function inHours(hours: { start: number; end: number }, hour: number): boolean {
+  if (hours.start <= hours.end) return hour >= hours.start && hour < hours.end;
+  // The window spans midnight
+  return hour >= hours.start || hour < hours.end;
+}
+
+/**
+ * First condition the context does not meet
+ * @returns null when the rule applies
+ */
+export function failedCondition(
+  conditions: TriggerRuleConditions,
+  context: TriggerRuleContext,
+): keyof TriggerRuleConditions | null {
+  const { activityTypes, alongside, namePattern, hours, daysOfWeek, friendTags } = conditions;
+
+  if (activityTypes?.length && !activityTypes.includes(context.activityType)) {
+    return "activityTypes";
+  }
+  if (alongside?.length && !alongside.every(type => context.alongside.includes(type))) {
+    return "alongside";
+  }
+  if (namePattern && !new RegExp(namePattern, "i").test(context.activityName)) {
+    return "namePattern";
+  }
+  const sessionMinutes = context.sessionMs / 60000;
+  if (conditions.minSessionMinutes !== undefined && sessionMinutes < conditions.minSessionMinutes) {
+    return "minSessionMinutes";
+  }
+  if (conditions.maxSessionMinutes !== undefined && sessionMinutes > conditions.maxSessionMinutes) {
+    return "maxSessionMinutes";
+  }
+  const local = zonedTime(context.now, context.timeZone);
+  if (hours && !inHours(hours, local.hour)) return "hours";
+  if (daysOfWeek?.length && !daysOfWeek.includes(local.weekday)) return "daysOfWeek";
+  if (friendTags?.length && !friendTags.some(tag => context.friendTags.includes(tag))) {
+    return "friendTags";
+  }
+  return null;
+}
+
+/**
+ * Order rules are tried in: the friend's own rules first, then the account's, each by priority
+ */
+export function sortRules<T extends Pick<TriggerRuleDefinition, "friendId" | "priority">>(
+  rules: T[],
+): T[] {
+  return [...rules].sort(
+    (a, b) => Number(!!b.friendId) - Number(!!a.friendId) || a.priority - b.priority,
+  );
+}
+
+/**
+ * Decide what to do about an activity: the first matching rule wins, and content is sent as
+ * usual when none matches. Every rule tried is traced so dry runs can show why.
+ */
+export function evaluateRules(
+  rules: TriggerRuleDefinition[],
+  context: TriggerRuleContext,
+): TriggerRuleDecision {
+  const trace: TriggerRuleTrace[] = [];
+
+  for (const rule of sortRules(rules)) {
+    const failed = failedCondition(rule.conditions, context);
+    trace.push({
+      ruleId: rule.id,
+      name: rule.name,
+      matched: !failed,
+      ...(failed && { failed }),
+    });
+    if (failed) continue;
+
+    const { type, delayMinutes, provider, templateId } = rule.action;
+    return {
+      action: type,
+      delayMs: type === "delay" ? (delayMinutes || 0) * 60000 : 0,
+      provider,
+      templateId,
+      rule: { id: rule.id, name: rule.name },
+      ...(rule.conditions.alongside?.length && { alongside: rule.conditions.alongside }),
+      trace,
+    };
+  }
+
+  return { action: "send", delayMs: 0, trace };
+}
@@ -0,0 +1,161 @@
+import config from "../config";
+import { DeliveryPacingSettings, IDiscordAccountSettings } from "../models/DiscordAccount";
+import { PacingUsage } from "../types/worker";
+import {
+  isWithinTimeWindows,
+  nextAllowedTime,
+  resolveTimeZone,
+  TimeWindow,
+} from "../utils/timeWindows";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type PacerAccountSettings = Pick<IDiscordAccountSettings, "pacing" | "timeZone">;
+
+export type PacingDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string; retryAfterMs: number };
+
+/**
+ * Account settings over the server defaults, ignoring unset fields
+ */
+export function resolvePacingSettings(
+  overrides: IDiscordAccountSettings["pacing"],
+): DeliveryPacingSettings {
+  const defined = Object.fromEntries(
+    Object.entries(overrides || {}).filter(([, value]) => value !== undefined),
+  );
+  return { ...config.pacing, ...defined };
+}
+
+/**
+ * Makes a self-bot send DMs like a person would: after a random pause, with a typing
+ * indicator, never during quiet hours and within hourly and daily budgets. Sends are
+ * counted in memory, so budgets restart with the worker.
+ */
+export class DeliveryPacer {
+  private settings: DeliveryPacingSettings;
+  // Quiet hours are read in the account's time zone
+  private timeZone: string | undefined;
+  // Timestamps of sends (and reservations for sends in progress) in the last day
+  private sends: number[] = [];
+
+  constructor(
+    settings: PacerAccountSettings,
+    private readonly now: () => number = Date.now,
+    private readonly random: () => number = Math.random,
+  ) {
+    this.settings = resolvePacingSettings(settings.pacing);
+    this.timeZone = resolveTimeZone(settings.timeZone, config.timeZone);
+  }
+
+  updateSettings(settings: PacerAccountSettings): void {
+    this.settings = resolvePacingSettings(settings.pacing);
+    this.timeZone = resolveTimeZone(settings.timeZone, config.timeZone);
+  }
+
+  /**
+   * Whether a DM may be sent now, and if not how long to wait
+   */
+  check(): PacingDecision {
+    if (!this.settings.enabled) return { allowed: true };
+
+    const now = this.now();
+    const allowedWindows = this.allowedWindows();
+    if (!isWithinTimeWindows(allowedWindows, new Date(now), this.timeZone)) {
+      const allowedAt = nextAllowedTime(allowedWindows, new Date(now), this.timeZone);
+      return {
+        allowed: false,
+        reason: `Quiet hours until ${this.settings.quietHours?.end}`,
+        retryAfterMs: Math.max(allowedAt.getTime() - now, 60000),
+      };
+    }
+
+    this.prune(now);
+    const hourly = this.budgetWait(HOUR_MS, this.settings.hourlyBudget, now);
+    if (hourly !== null) {
+      return { allowed: false, reason: "Hourly send budget used up", retryAfterMs: hourly };
+    }
+    const daily = this.budgetWait(DAY_MS, this.settings.dailyBudget, now);
+    if (daily !== null) {
+      return { allowed: false, reason: "Daily send budget used up", retryAfterMs: daily };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Count a send against the budgets before it happens, so concurrent deliveries cannot
+   * overshoot them
+   * @returns Function that gives the reservation back if the send fails
+   */
+  reserve(): () => void {
+    const timestamp = this.now();
+    this.sends.push(timestamp);
+    return () => {
+      const index = this.sends.indexOf(timestamp);
+      if (index !== -1) this.sends.splice(index, 1);
+    };
+  }
+
+  /**
+   * Random pause before starting to type
+   */
+  startDelay(): number {
+    if (!this.settings.enabled) return 0;
+    const { minDelayMs, maxDelayMs } = this.settings;
+    const max = Math.max(minDelayMs, maxDelayMs);
+    return Math.round(minDelayMs + this.random() * (max - minDelayMs));
+  }
+
+  /**
+   * How long to show the typing indicator, proportional to the message length with some jitter
+   */
+  typingDuration(text: string): number {
+    if (!this.settings.enabled || !text) return 0;
+    const jitter = 0.75 + this.random() * 0.5;
+    return Math.round(
+      Math.min(this.settings.maxTypingMs, text.length * this.settings.typingMsPerChar * jitter),
+    );
+  }
+
+  getUsage(): PacingUsage {
+    const now = this.now();
+    this.prune(now);
+
+    const decision = this.check();
+    return {
+      enabled: this.settings.enabled,
+      hourly: { used: this.countSince(now - HOUR_MS), limit: this.settings.hourlyBudget },
+      daily: { used: this.sends.length, limit: this.settings.dailyBudget },
+      inQuietHours: !isWithinTimeWindows(this.allowedWindows(), new Date(now), this.timeZone),
+      ...(!decision.allowed && {
+        nextAvailableAt: new Date(now + decision.retryAfterMs).toISOString(),
+      }),
+    };
+  }
+
+  // Sending is allowed outside the quiet hours. Invalid or empty quiet hours leave no
+  // valid window, which allows any time.
+  private allowedWindows(): TimeWindow[] {
+    const { quietHours } = this.settings;
+    return quietHours ? [{ start: quietHours.end, end: quietHours.start }] : [];
+  }
+
+  // Time until a send drops out of the window, or null when the budget has room
+  private budgetWait(windowMs: number, budget: number, now: number): number | null {
+    if (!budget) return null;
+    const inWindow = this.sends.filter(timestamp => timestamp > now - windowMs);
+    if (inWindow.length < budget) return null;
+    return inWindow[inWindow.length - budget] + windowMs - now;
+  }
+
+  private countSince(since: number): number {
+    return this.sends.filter(timestamp => timestamp > since).length;
+  }
+
+  private prune(now: number): void {
+    this.sends = this.sends.filter(timestamp => timestamp > now - DAY_MS);
+  }
+}
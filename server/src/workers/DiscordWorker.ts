@@ -1,12 +1,38 @@
 import { parentPort, workerData } from "worker_threads";
-import { Client, ClientOptions, Presence } from "discord.js-selfbot-v13";
+import { fileURLToPath } from "url";
+import { monitorEventLoopDelay, IntervalHistogram } from "perf_hooks";
+import { getHeapStatistics } from "v8";
+import {
+  Client,
+  ClientOptions,
+  DMChannel,
+  Message,
+  MessageOptions,
+  MessageReaction,
+  PartialMessageReaction,
+  PartialUser,
+  Presence,
+  User,
+} from "discord.js-selfbot-v13";
+import config from "../config";
 import logger from "../utils/logger";
+import { classifyDeliveryError, isConnectionError } from "../utils/deliveryErrors";
+import { parseDmCommand } from "../utils/friendPreferences";
+import { isSameActivitySet, toActivityState } from "../utils/activitySets";
+import { DeliveryPacer } from "./DeliveryPacer";
+import { RequestScheduler } from "./RequestScheduler";
 import { IDiscordAccountSettings } from "../models/DiscordAccount";
 import {
+  ActivityEntry,
   ActivityState,
+  FriendPresence,
+  FriendSource,
+  FriendSyncTrigger,
+  SyncedFriend,
   WorkerMessage,
   WorkerMetrics,
   ContentDeliveryCommand,
+  DeliveryResult,
 } from "../types/worker";
 
 export class DiscordWorker {
@@ -15,10 +41,31 @@ export class DiscordWorker {
   private token: string;
   private settings: IDiscordAccountSettings;
   private isShuttingDown: boolean = false;
+  // Set once the server is shutting down; presence changes no longer trigger content
+  private draining: boolean = false;
+  // Presence changes before this time are recorded but not acted on
+  private warmupUntil: number = 0;
   private reconnectAttempts: number = 0;
   private readonly MAX_RECONNECT_ATTEMPTS = 5;
   private readonly RECONNECT_DELAY = 5000; // 5 seconds
   private lastActivities: Map<string, ActivityState> = new Map();
+  // Messages of recent deliveries by history id, so a job dispatched twice is only sent once
+  private deliveredHistoryIds: Map<string, Pick<DeliveryResult, "messageId" | "channelId">> =
+    new Map();
+  private readonly MAX_DELIVERED_HISTORY_IDS = 1000;
+  // Friends who opted out by DM since the worker started, refused even before the server
+  // saved it
+  private optedOut: Set<string> = new Set();
+  private pacer: DeliveryPacer;
+  private scheduler: RequestScheduler = new RequestScheduler();
+  // Deliveries run one after another, like a person sending DMs
+  private deliveryChain: Promise<void> = Promise.resolve();
+  private readonly TYPING_REFRESH_MS = 9000; // Discord shows typing for about 10 seconds
+  private readonly startedAt = Date.now();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private friendSyncTimer: NodeJS.Timeout | null = null;
+  private readonly FRIEND_SYNC_DEBOUNCE_MS = 5000; // Relationship events tend to come in bursts
+  private eventLoopDelay: IntervalHistogram | null = null;
   private metrics: WorkerMetrics = {
     activitiesDetected: 0,
     activitiesProcessed: 0,
@@ -33,15 +80,27 @@ export class DiscordWorker {
     errorRate: 0,
   };
 
-  constructor(accountId: string, token: string, settings: IDiscordAccountSettings) {
+  constructor(
+    accountId: string,
+    token: string,
+    settings: IDiscordAccountSettings,
+    // Called when reconnecting failed for good; a dedicated thread ends so the supervisor starts
+    // a fresh worker after its backoff
+    private readonly onGiveUp: () => void = () => {
+      if (parentPort) process.exit(1);
+    },
+  ) {
     this.accountId = accountId;
     this.token = token;
     this.settings = settings;
+    this.pacer = new DeliveryPacer(settings);
     this.client = new Client({
       checkUpdate: false,
       presence: {
         status: "invisible",
       },
+      // Reactions to deliveries sent before a restart concern messages that are not cached
+      partials: ["CHANNEL", "MESSAGE", "REACTION"],
       ws: {
         properties: {
           $browser: "Discord iOS",
@@ -59,6 +118,9 @@ export class DiscordWorker {
         accountId: this.accountId,
         username: this.client.user?.tag,
       });
+      // The gateway replays every friend's presence on connect
+      this.warmupUntil = Date.now() + config.discord.presenceWarmupMs;
+      this.syncFriends("ready");
 
       this.sendToParent({
         type: "STATUS",
@@ -106,6 +168,26 @@ export class DiscordWorker {
       });
     });
 
+    this.client.on("rateLimit", data => {
+      const rateLimit = this.scheduler.recordRateLimit(data);
+      logger.warn({
+        message: "Discord rate limit hit",
+        accountId: this.accountId,
+        rateLimit,
+      });
+
+      this.sendToParent({
+        type: "RATE_LIMITED",
+        data: { accountId: this.accountId, rateLimit },
+      });
+      this.reportMetrics();
+    });
+
+    // Learn route buckets before they run out
+    this.client.on("apiResponse", (request, response) => {
+      this.scheduler.recordResponse(request.route, response.headers);
+    });
+
     this.client.on("warn", info => {
       logger.warn({
         message: "Discord client warning",
@@ -114,6 +196,20 @@ export class DiscordWorker {
       });
     });
 
+    // Keep the server's friend list in line with the account's relationships
+    this.client.on("relationshipAdd", () => this.scheduleFriendSync());
+    this.client.on("relationshipRemove", () => this.scheduleFriendSync());
+    this.client.on("relationshipUpdate", () => this.scheduleFriendSync());
+
+    // Friends control what they receive by DMing a command, and reply to what they got
+    this.client.on("messageCreate", message => this.handleDirectMessage(message));
+    this.client.on("messageReactionAdd", (reaction, user) =>
+      this.handleReaction(reaction, user, false),
+    );
+    this.client.on("messageReactionRemove", (reaction, user) =>
+      this.handleReaction(reaction, user, true),
+    );
+
     // Handle presence updates
     this.client.on(
       "presenceUpdate",
@@ -151,6 +247,8 @@ export class DiscordWorker {
         this.lastActivities.delete(friendId);
       }
 
+      if (this.draining) return;
+
       // Send activity event to parent thread
       this.sendToParent({
         type: "PRESENCE_UPDATE",
@@ -160,6 +258,7 @@ export class DiscordWorker {
           oldActivity: lastActivity,
           newActivity: currentActivity,
           timestamp: new Date().toISOString(),
+          warmup: Date.now() < this.warmupUntil,
         },
       });
 
@@ -172,145 +271,115 @@ export class DiscordWorker {
     }
   }
 
+  /**
+   * The presence's activities, driven by the first of the account's priority
+   */
   private extractActivity(presence: Presence): ActivityState | null {
-    const activities = presence.activities;
-    if (!activities.length) return null;
-
-    for (const activity of activities) {
-      const startedAt = activity.createdAt || new Date();
-
-      switch (activity.type) {
-        case "PLAYING": {
-          const game = activity.name;
-          return {
-            type: "GAME",
-            details: {
-              gameName: game,
-              startedAt,
-            },
-          };
-        }
-        case "LISTENING": {
-          const artist = activity.details;
-          const song = activity.name;
-
-          return {
-            type: "MUSIC",
-            details: {
-              musicDetails: {
-                artist: artist || "",
-                song: song,
-                album: activity.assets?.largeText || undefined,
-              },
-              startedAt,
+    const activities = presence.activities
+      .map(activity => this.toActivityEntry(activity))
+      .filter((activity): activity is ActivityEntry => activity !== null);
+
+    const priority = this.settings.activityPriority?.length
+      ? this.settings.activityPriority
+      : config.discord.activityPriority;
+    return toActivityState(activities, priority);
+  }
+
+  private toActivityEntry(activity: Presence["activities"][number]): ActivityEntry | null {
+    const startedAt = activity.createdAt || new Date();
+
+    switch (activity.type) {
+      case "PLAYING": {
+        const game = activity.name;
+        return {
+          type: "GAME",
+          details: {
+            gameName: game,
+            startedAt,
+          },
+        };
+      }
+      case "LISTENING": {
+        const artist = activity.details;
+        const song = activity.name;
+
+        return {
+          type: "MUSIC",
+          details: {
+            musicDetails: {
+              artist: artist || "",
+              song: song,
+              album: activity.assets?.largeText || undefined,
             },
-          };
-        }
-        case "STREAMING": {
-          const platform = activity.name;
-          const details = activity.details;
-          return {
-            type: "STREAMING",
-            details: {
-              streamingDetails: {
-                platform: platform,
-                title: details || platform,
-                url: activity.url || undefined,
-              },
-              startedAt,
+            startedAt,
+          },
+        };
+      }
+      case "STREAMING": {
+        const platform = activity.name;
+        const details = activity.details;
+        return {
+          type: "STREAMING",
+          details: {
+            streamingDetails: {
+              platform: platform,
+              title: details || platform,
+              url: activity.url || undefined,
             },
-          };
-        }
-        case "WATCHING": {
-          const content = activity.name;
-          const details = activity.details;
-          return {
-            type: "WATCHING",
-            details: {
-              watchingDetails: {
-                title: content,
-                platform: details || undefined,
-              },
-              startedAt,
+            startedAt,
+          },
+        };
+      }
+      case "WATCHING": {
+        const content = activity.name;
+        const details = activity.details;
+        return {
+          type: "WATCHING",
+          details: {
+            watchingDetails: {
+              title: content,
+              platform: details || undefined,
             },
-          };
-        }
-        case "CUSTOM":
-          return {
-            type: "CUSTOM",
-            details: {
-              customDetails: {
-                name: activity.name,
-                state: activity.state || undefined,
-              },
-              startedAt,
+            startedAt,
+          },
+        };
+      }
+      case "CUSTOM":
+        return {
+          type: "CUSTOM",
+          details: {
+            customDetails: {
+              name: activity.name,
+              state: activity.state || undefined,
             },
-          };
-        case "COMPETING": {
-          const competition = activity.name;
-          const details = activity.details;
-          return {
-            type: "COMPETING",
-            details: {
-              competingDetails: {
-                name: competition,
-                venue: details || undefined,
-              },
-              startedAt,
+            startedAt,
+          },
+        };
+      case "COMPETING": {
+        const competition = activity.name;
+        const details = activity.details;
+        return {
+          type: "COMPETING",
+          details: {
+            competingDetails: {
+              name: competition,
+              venue: details || undefined,
             },
-          };
-        }
-        default:
-          break;
+            startedAt,
+          },
+        };
       }
+      default:
+        return null;
     }
-
-    return null;
   }
 
+  // Any change to the set of activities counts, so activities started alongside are reported
   private isSameActivity(
     oldActivity: ActivityState | null,
     newActivity: ActivityState | null,
   ): boolean {
-    if (!oldActivity && !newActivity) return true;
-    if (!oldActivity || !newActivity) return false;
-
-    if (oldActivity.type !== newActivity.type) return false;
-
-    switch (oldActivity.type) {
-      case "GAME":
-        return oldActivity.details.gameName === newActivity.details.gameName;
-
-      case "MUSIC": {
-        const oldMusic = oldActivity.details.musicDetails;
-        const newMusic = newActivity.details.musicDetails;
-        return oldMusic?.artist === newMusic?.artist && oldMusic?.song === newMusic?.song;
-      }
-
-      case "STREAMING": {
-        const oldStream = oldActivity.details.streamingDetails;
-        const newStream = newActivity.details.streamingDetails;
-        return oldStream?.platform === newStream?.platform && oldStream?.title === newStream?.title;
-      }
-
-      case "WATCHING": {
-        const oldWatch = oldActivity.details.watchingDetails;
-        const newWatch = newActivity.details.watchingDetails;
-        return oldWatch?.title === newWatch?.title && oldWatch?.platform === newWatch?.platform;
-      }
-
-      case "CUSTOM": {
-        const oldCustom = oldActivity.details.customDetails;
-        const newCustom = newActivity.details.customDetails;
-        return oldCustom?.name === newCustom?.name && oldCustom?.state === newCustom?.state;
-      }
-
-      case "COMPETING": {
-        const oldCompete = oldActivity.details.competingDetails;
-        const newCompete = newActivity.details.competingDetails;
-        return oldCompete?.name === newCompete?.name && oldCompete?.venue === newCompete?.venue;
-      }
-    }
+    return isSameActivitySet(oldActivity, newActivity);
   }
 
   private updateProcessingTime(processingTime: number) {
@@ -356,6 +425,8 @@ export class DiscordWorker {
           },
         },
       });
+
+      this.onGiveUp();
       return;
     }
 
@@ -413,6 +484,34 @@ export class DiscordWorker {
     }
   }
 
+  /**
+   * Report metrics to the parent on a schedule, so a worker that stops doing so can be told
+   * apart from an idle one
+   */
+  public startHeartbeat(intervalMs: number = config.supervisor.heartbeatIntervalMs) {
+    if (this.heartbeatTimer) return;
+
+    this.eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+    this.eventLoopDelay.enable();
+    this.heartbeatTimer = setInterval(() => {
+      this.sendToParent({
+        type: "HEARTBEAT",
+        data: { accountId: this.accountId, metrics: this.getMetrics() },
+      });
+      this.eventLoopDelay?.reset();
+    }, intervalMs);
+    this.heartbeatTimer.unref();
+  }
+
+  public stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.eventLoopDelay?.disable();
+    this.eventLoopDelay = null;
+  }
+
   public async connect() {
     try {
       logger.info({
@@ -440,6 +539,8 @@ export class DiscordWorker {
 
   public async disconnect() {
     this.isShuttingDown = true;
+    this.stopHeartbeat();
+    if (this.friendSyncTimer) clearTimeout(this.friendSyncTimer);
     logger.info({
       message: "Disconnecting Discord client",
       accountId: this.accountId,
@@ -477,45 +578,371 @@ export class DiscordWorker {
     });
 
     this.settings = newSettings;
+    this.pacer.updateSettings(newSettings);
   }
 
-  public async handleCommand(command: ContentDeliveryCommand) {
-    try {
-      const friend = await this.client.users.fetch(command.data.friendId);
+  /**
+   * Stop reporting presence changes, finish the deliveries already handed over and report
+   * the presence last seen for each friend, so nothing is lost when the worker is stopped
+   */
+  public async drain() {
+    this.draining = true;
+    await this.deliveryChain;
+
+    this.sendToParent({
+      type: "DRAINED",
+      data: {
+        accountId: this.accountId,
+        activities: Array.from(this.lastActivities, ([userId, activity]) => ({
+          userId,
+          activity,
+        })),
+      },
+    });
+  }
+
+  /**
+   * Take over the presence saved before the worker started, so activities friends were
+   * already doing are not reported as new. Activities seen since connecting are newer and kept.
+   */
+  public restorePresence(activities: FriendPresence[]) {
+    activities.forEach(({ userId, activity }) => {
+      if (!this.lastActivities.has(userId)) {
+        this.lastActivities.set(userId, activity);
+      }
+    });
+    logger.info({
+      message: "Restored friends presence",
+      accountId: this.accountId,
+      friends: activities.length,
+    });
+  }
+
+  /**
+   * Report everyone the account knows on Discord: friends, people with an open DM and,
+   * unless disabled, members of shared servers
+   */
+  public syncFriends(trigger: FriendSyncTrigger) {
+    const friends = new Map<string, SyncedFriend>();
+    const add = (user: User, source: FriendSource) => {
+      if (user.bot || user.id === this.client.user?.id) return;
+
+      const friend = friends.get(user.id);
       if (!friend) {
-        throw new Error(`Friend ${command.data.friendId} not found`);
+        friends.set(user.id, { userId: user.id, username: user.username, sources: [source] });
+      } else if (!friend.sources.includes(source)) {
+        friend.sources.push(source);
       }
+    };
 
-      await friend.send({
-        content: `Found this ${command.data.content.type} related to ${command.data.context.trigger}:`,
-        embeds: [
-          {
-            title: command.data.content.title,
-            url: command.data.content.url,
-            footer: {
-              text: `Source: ${command.data.content.source}`,
+    this.client.relationships.friendCache.forEach(user => add(user, "friend"));
+    this.client.channels.cache.forEach(channel => {
+      if (channel.type === "DM" && channel.recipient) add(channel.recipient, "dm");
+    });
+    if (config.discord.friendSyncGuildMembers) {
+      this.client.guilds.cache.forEach(guild =>
+        guild.members.cache.forEach(member => add(member.user, "guild")),
+      );
+    }
+
+    this.sendToParent({
+      type: "FRIEND_SYNC",
+      data: { accountId: this.accountId, trigger, friends: Array.from(friends.values()) },
+    });
+  }
+
+  private scheduleFriendSync() {
+    if (this.friendSyncTimer) clearTimeout(this.friendSyncTimer);
+    this.friendSyncTimer = setTimeout(() => {
+      this.friendSyncTimer = null;
+      this.syncFriends("relationship");
+    }, this.FRIEND_SYNC_DEBOUNCE_MS);
+  }
+
+  private handleDirectMessage(message: Message) {
+    if (message.channel.type !== "DM") return;
+    if (message.author.bot || message.author.id === this.client.user?.id) return;
+
+    const command = config.discord.dmCommandsEnabled ? parseDmCommand(message.content) : null;
+    if (!command) {
+      // The server tells replies to deliveries apart from replies to anything else
+      const repliedTo = message.reference?.messageId;
+      if (repliedTo && message.content) {
+        this.sendToParent({
+          type: "DELIVERY_FEEDBACK",
+          data: {
+            accountId: this.accountId,
+            feedback: {
+              kind: "reply",
+              messageId: repliedTo,
+              userId: message.author.id,
+              replyId: message.id,
+              text: message.content,
             },
           },
-        ],
+        });
+      }
+      return;
+    }
+
+    if (command.type === "stop") {
+      this.optedOut.add(message.author.id);
+    } else if (command.type === "resume") {
+      this.optedOut.delete(message.author.id);
+    }
+
+    this.sendToParent({
+      type: "DM_COMMAND",
+      data: {
+        accountId: this.accountId,
+        userId: message.author.id,
+        username: message.author.username,
+        command,
+      },
+    });
+  }
+
+  private handleReaction(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser,
+    removed: boolean,
+  ) {
+    const { message, emoji } = reaction;
+    if (message.channel.type !== "DM" || user.id === this.client.user?.id || !emoji.name) return;
+    // Partial messages come without an author; the server only matches deliveries anyway
+    if (message.author && message.author.id !== this.client.user?.id) return;
+
+    this.sendToParent({
+      type: "DELIVERY_FEEDBACK",
+      data: {
+        accountId: this.accountId,
+        feedback: {
+          kind: "reaction",
+          messageId: message.id,
+          userId: user.id,
+          emoji: emoji.name,
+          removed,
+        },
+      },
+    });
+  }
+
+  /**
+   * Answer a friend's DM command once the server saved it
+   */
+  public async reply(userId: string, text: string) {
+    const user = await this.scheduler.schedule("/users/:id", () => this.client.users.fetch(userId));
+    const channel = await this.scheduler.schedule("/users/@me/channels", () => user.createDM());
+    await this.simulateTyping(channel, this.pacer.typingDuration(text));
+    await this.scheduler.schedule(`/channels/${channel.id}/messages`, () => channel.send(text));
+  }
+
+  public handleCommand(command: ContentDeliveryCommand): Promise<void> {
+    const delivery = this.deliveryChain.then(() => this.deliver(command));
+    this.deliveryChain = delivery.catch(() => undefined);
+    return delivery;
+  }
+
+  private async deliver(command: ContentDeliveryCommand) {
+    const startedAt = new Date();
+    const delivered = this.deliveredHistoryIds.get(command.data.historyId);
+    if (delivered) {
+      // Dispatched again because the first result got lost, so the queue still waits for one
+      logger.warn(`Skipping duplicate delivery ${command.data.historyId}`);
+      this.reportDelivery(command, startedAt, { success: true, ...delivered });
+      return;
+    }
+
+    if (this.optedOut.has(command.data.friendId)) {
+      this.reportDelivery(command, startedAt, {
+        success: false,
+        error: { type: "OPTED_OUT", message: "Friend opted out", retryable: false },
       });
+      return;
+    }
+
+    const decision = this.pacer.check();
+    if (!decision.allowed) {
+      // Hand the delivery back to the server queue instead of sending outside the budget
+      logger.info(`Deferring delivery ${command.data.historyId}: ${decision.reason}`);
+      this.reportDelivery(command, startedAt, {
+        success: false,
+        error: {
+          type: "PACED",
+          message: decision.reason,
+          retryable: true,
+          retryAfterMs: decision.retryAfterMs,
+        },
+      });
+      this.reportMetrics();
+      return;
+    }
+
+    const releaseBudget = this.pacer.reserve();
+    try {
+      const friend = await this.scheduler.schedule("/users/:id", () =>
+        this.client.users.fetch(command.data.friendId),
+      );
+      if (!friend) {
+        throw new Error(`Friend ${command.data.friendId} not found`);
+      }
+
+      const { content, context } = command.data;
+      const message = command.data.message || {
+        text: `Found this ${content.type} related to ${context.trigger}:`,
+        mode: "embed",
+      };
+
+      await new Promise(resolve => setTimeout(resolve, this.pacer.startDelay()));
+      const channel = await this.scheduler.schedule("/users/@me/channels", () => friend.createDM());
+      await this.simulateTyping(channel, this.pacer.typingDuration(message.text));
+
+      const send = (options: MessageOptions) =>
+        this.scheduler.schedule(`/channels/${channel.id}/messages`, () => channel.send(options));
+
+      let sent: Message;
+      // Local library files are uploaded as attachments instead of embedded by URL
+      if (content.url.startsWith("file://")) {
+        sent = await send({
+          content: message.text,
+          files: [fileURLToPath(content.url)],
+        });
+      } else if (message.mode === "link") {
+        // Discord unfurls the bare link like a person pasting it would
+        sent = await send({
+          content: message.text.includes(content.url)
+            ? message.text
+            : `${message.text}\n${content.url}`.trim(),
+        });
+      } else {
+        sent = await send({
+          content: message.text,
+          embeds: [
+            {
+              title: content.title,
+              url: content.url,
+              footer: {
+                text: `Source: ${content.source}`,
+              },
+            },
+          ],
+        });
+      }
 
       this.metrics.contentDelivered++;
+      this.rememberDelivery(command.data.historyId, {
+        messageId: sent.id,
+        channelId: sent.channelId,
+      });
+      this.reportDelivery(command, startedAt, {
+        success: true,
+        messageId: sent.id,
+        channelId: sent.channelId,
+      });
     } catch (error) {
+      releaseBudget();
       logger.error("Error sending content:", error);
-      this.handleError(error as Error);
-      throw error;
+      // The queue retries from the result, so a refused message is not a worker error
+      this.reportDelivery(command, startedAt, {
+        success: false,
+        error: classifyDeliveryError(error),
+      });
+      if (isConnectionError(error)) {
+        this.handleError(error instanceof Error ? error : new Error(String(error)));
+      }
+    } finally {
+      this.reportMetrics();
+    }
+  }
+
+  /**
+   * Show the typing indicator for about `durationMs`. Typing is cosmetic, so failures to
+   * send it do not stop the delivery.
+   */
+  private async simulateTyping(channel: DMChannel, durationMs: number) {
+    const end = Date.now() + durationMs;
+    try {
+      while (Date.now() < end) {
+        await this.scheduler.schedule(`/channels/${channel.id}/typing`, () => channel.sendTyping());
+        await new Promise(resolve =>
+          setTimeout(resolve, Math.min(this.TYPING_REFRESH_MS, end - Date.now())),
+        );
+      }
+    } catch (error) {
+      logger.debug({
+        message: "Failed to send typing indicator",
+        accountId: this.accountId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private reportMetrics() {
+    this.sendToParent({
+      type: "METRICS",
+      data: { accountId: this.accountId, metrics: this.getMetrics() },
+    });
+  }
+
+  /**
+   * Tell the server how a delivery went so it can update the history and delivery queue
+   */
+  private reportDelivery(
+    command: ContentDeliveryCommand,
+    startedAt: Date,
+    outcome: Pick<DeliveryResult, "success" | "messageId" | "channelId" | "error">,
+  ) {
+    this.sendToParent({
+      type: "DELIVERY_RESULT",
+      data: {
+        accountId: this.accountId,
+        delivery: {
+          historyId: command.data.historyId,
+          friendId: command.data.friendId,
+          startedAt: startedAt.toISOString(),
+          completedAt: new Date().toISOString(),
+          ...outcome,
+        },
+      },
+    });
+  }
+
+  private rememberDelivery(
+    historyId: string,
+    message: Pick<DeliveryResult, "messageId" | "channelId">,
+  ) {
+    this.deliveredHistoryIds.set(historyId, message);
+    if (this.deliveredHistoryIds.size > this.MAX_DELIVERED_HISTORY_IDS) {
+      // Maps iterate in insertion order, so this drops the oldest id
+      const [oldest] = this.deliveredHistoryIds.keys();
+      this.deliveredHistoryIds.delete(oldest);
     }
   }
 
   public getMetrics(): WorkerMetrics {
-    return { ...this.metrics };
+    // The histogram reports nanoseconds, and NaN before it recorded anything
+    const lagNs = this.eventLoopDelay?.mean;
+    // The websocket ping is -1 until the first gateway heartbeat was acknowledged
+    const ping = this.client.ws.ping;
+
+    return {
+      ...this.metrics,
+      // Heap of this thread only, process.memoryUsage() would count every worker
+      memoryUsage: getHeapStatistics().used_heap_size,
+      uptime: Math.round((Date.now() - this.startedAt) / 1000),
+      eventLoopLagMs: lagNs && !isNaN(lagNs) ? Math.round(lagNs / 1e6) : undefined,
+      gatewayPingMs: ping >= 0 ? Math.round(ping) : undefined,
+      pacing: this.pacer.getUsage(),
+      rateLimits: this.scheduler.getUsage(),
+    };
   }
 }
 
-// Worker thread entry point
-if (parentPort) {
+// Worker thread entry point, pooled threads host their workers through PoolWorker instead
+if (parentPort && !workerData?.pooled) {
   const { accountId, token, settings } = workerData;
   const worker = new DiscordWorker(accountId, token, settings);
+  worker.startHeartbeat();
 
   parentPort.on("message", async (message: WorkerMessage) => {
     logger.debug({
@@ -535,6 +962,22 @@ if (parentPort) {
           if (parentPort) parentPort.close();
           break;
 
+        case "DRAIN":
+          await worker.drain();
+          break;
+
+        case "RESTORE_PRESENCE":
+          worker.restorePresence(message.data.activities);
+          break;
+
+        case "SYNC_FRIENDS":
+          worker.syncFriends("manual");
+          break;
+
+        case "DM_REPLY":
+          await worker.reply(message.data.userId, message.data.text);
+          break;
+
         case "UPDATE_SETTINGS":
           worker.updateSettings(message.data.settings);
           break;
@@ -0,0 +1,102 @@
+export interface PoolMove {
+  accountId: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Keeps track of which pool thread hosts which account. New accounts go to a new thread while
+ * the pool is not full and to the least loaded thread after that, so threads never differ by
+ * more than one account unless accounts leave; `nextMove` then evens them out again.
+ */
+export class PoolBalancer {
+  private threads: Map<number, Set<string>> = new Map();
+  private placements: Map<string, number> = new Map();
+
+  constructor(private readonly size: number) {}
+
+  /**
+   * Thread the next account should go to, or null when a new thread should be started for it
+   */
+  pick(): number | null {
+    const least = this.leastLoaded();
+    if (least === null) return null;
+    if (this.threads.size < this.size && this.threads.get(least)!.size > 0) return null;
+    return least;
+  }
+
+  addThread(threadId: number): void {
+    if (!this.threads.has(threadId)) this.threads.set(threadId, new Set());
+  }
+
+  /**
+   * Forget a thread and return the accounts it hosted
+   */
+  removeThread(threadId: number): string[] {
+    const accounts = Array.from(this.threads.get(threadId) || []);
+    accounts.forEach(accountId => this.placements.delete(accountId));
+    this.threads.delete(threadId);
+    return accounts;
+  }
+
+  assign(accountId: string, threadId: number): void {
+    this.release(accountId);
+    this.addThread(threadId);
+    this.threads.get(threadId)!.add(accountId);
+    this.placements.set(accountId, threadId);
+  }
+
+  /**
+   * Remove an account from its thread and return the thread, if it was placed
+   */
+  release(accountId: string): number | undefined {
+    const threadId = this.placements.get(accountId);
+    if (threadId === undefined) return undefined;
+
+    this.threads.get(threadId)?.delete(accountId);
+    this.placements.delete(accountId);
+    return threadId;
+  }
+
+  threadOf(accountId: string): number | undefined {
+    return this.placements.get(accountId);
+  }
+
+  accountsOf(threadId: number): string[] {
+    return Array.from(this.threads.get(threadId) || []);
+  }
+
+  /**
+   * Threads without accounts, which can be shut down
+   */
+  idleThreads(): number[] {
+    return Array.from(this.threads.entries())
+      .filter(([, accounts]) => accounts.size === 0)
+      .map(([threadId]) => threadId);
+  }
+
+  /**
+   * The move that evens out the pool the most, or null when no two threads differ by more
+   * than one account. Idle threads are left out, they are shut down instead of refilled.
+   */
+  nextMove(): PoolMove | null {
+    const busy = Array.from(this.threads.entries()).filter(([, accounts]) => accounts.size > 0);
+    if (busy.length < 2) return null;
+
+    busy.sort(([, a], [, b]) => a.size - b.size);
+    const [to, lightest] = busy[0];
+    const [from, heaviest] = busy[busy.length - 1];
+    if (heaviest.size - lightest.size <= 1) return null;
+
+    const [accountId] = heaviest;
+    return { accountId, from, to };
+  }
+
+  private leastLoaded(): number | null {
+    let least: number | null = null;
+    this.threads.forEach((accounts, threadId) => {
+      if (least === null || accounts.size < this.threads.get(least)!.size) least = threadId;
+    });
+    return least;
+  }
+}
@@ -0,0 +1,132 @@
+import { parentPort, workerData } from "worker_threads";
+import logger from "../utils/logger";
+import { DiscordWorker } from "./DiscordWorker";
+import { IDiscordAccountSettings } from "../models/DiscordAccount";
+import { PoolEnvelope, WorkerMessage } from "../types/worker";
+
+/**
+ * Hosts the Discord clients of several accounts in one worker thread. Messages from the
+ * manager arrive in envelopes addressed to an account and are routed to its worker; the
+ * workers talk to the manager directly, their messages already carry the account.
+ */
+export class PoolWorker {
+  private workers: Map<string, DiscordWorker> = new Map();
+
+  add(accountId: string, token: string, settings: IDiscordAccountSettings): void {
+    if (this.workers.has(accountId)) {
+      logger.warn(`Account ${accountId} is already hosted by this pool thread`);
+      return;
+    }
+
+    const worker = new DiscordWorker(accountId, token, settings, () =>
+      this.remove(accountId, 1).catch(error =>
+        logger.error(`Failed to remove account ${accountId} from pool thread:`, error),
+      ),
+    );
+    worker.startHeartbeat();
+    this.workers.set(accountId, worker);
+  }
+
+  /**
+   * Disconnect an account and tell the manager it is gone, with the exit code a dedicated
+   * thread would have ended with
+   */
+  async remove(accountId: string, code: number): Promise<void> {
+    const worker = this.workers.get(accountId);
+    if (!worker) return;
+
+    this.workers.delete(accountId);
+    try {
+      await worker.disconnect();
+    } finally {
+      this.reply({ type: "ACCOUNT_EXITED", data: { accountId, code } });
+    }
+  }
+
+  async handleMessage({ accountId, message }: PoolEnvelope): Promise<void> {
+    if (message.type === "ADD_ACCOUNT") {
+      const { token, settings } = message.data;
+      this.add(accountId, token, settings);
+      return;
+    }
+
+    const worker = this.workers.get(accountId);
+    if (!worker) {
+      logger.warn({
+        message: "Message for an account not hosted by this pool thread",
+        accountId,
+        messageType: message.type,
+      });
+      return;
+    }
+
+    try {
+      switch (message.type) {
+        case "START":
+          await worker.connect();
+          break;
+
+        case "STOP":
+          await this.remove(accountId, 0);
+          break;
+
+        case "DRAIN":
+          await worker.drain();
+          break;
+
+        case "RESTORE_PRESENCE":
+          worker.restorePresence(message.data.activities);
+          break;
+
+        case "SYNC_FRIENDS":
+          worker.syncFriends("manual");
+          break;
+
+        case "DM_REPLY":
+          await worker.reply(message.data.userId, message.data.text);
+          break;
+
+        case "UPDATE_SETTINGS":
+          worker.updateSettings(message.data.settings);
+          break;
+
+        case "CONTENT_DELIVERY":
+          await worker.handleCommand(message);
+          break;
+
+        default:
+          logger.warn({
+            message: "Unknown message type received",
+            accountId,
+            messageType: message.type,
+          });
+      }
+    } catch (error) {
+      logger.error({
+        message: "Error handling worker message",
+        accountId,
+        messageType: message.type,
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+      });
+
+      worker.handleError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private reply(message: WorkerMessage) {
+    parentPort?.postMessage(message);
+  }
+}
+
+// Worker thread entry point for pooled threads
+if (parentPort && workerData?.pooled) {
+  const pool = new PoolWorker();
+  parentPort.on("message", (envelope: PoolEnvelope) => pool.handleMessage(envelope));
+}
@@ -0,0 +1,136 @@
+import { RateLimitEvent, RateLimitUsage } from "../types/worker";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Bucket {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/** What the Discord client reports when a request hits a 429 */
+export interface RateLimitInfo {
+  route: string;
+  method: string;
+  timeout: number;
+  limit: number;
+  global: boolean;
+}
+
+interface ResponseHeaders {
+  get(name: string): string | null;
+}
+
+/**
+ * Holds Discord requests back while their route bucket or the global limit is used up, so
+ * the worker waits on its own terms instead of running into 429s. Buckets are learned from
+ * the rate limit headers of responses and from the client's rate limit events.
+ */
+export class RequestScheduler {
+  private buckets: Map<string, Bucket> = new Map();
+  private globalResetAt = 0;
+  private queued = 0;
+  // Timestamps of 429s in the last hour
+  private hits: number[] = [];
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly sleep: (ms: number) => Promise<unknown> = ms =>
+      new Promise(resolve => setTimeout(resolve, ms)),
+  ) {}
+
+  /**
+   * Run a request once its route may be called
+   * @param route Discord route of the request, e.g. "/channels/123/messages"
+   */
+  async schedule<T>(route: string, request: () => Promise<T>): Promise<T> {
+    this.queued++;
+    try {
+      let wait = this.waitTime(route);
+      while (wait > 0) {
+        await this.sleep(wait);
+        wait = this.waitTime(route);
+      }
+    } finally {
+      this.queued--;
+    }
+
+    // Count the request before the response headers arrive, so a burst cannot overshoot
+    this.prune(this.now());
+    const bucket = this.buckets.get(route);
+    if (bucket) bucket.remaining--;
+    return request();
+  }
+
+  /**
+   * How long a request to the route has to wait, 0 when it may go now
+   */
+  waitTime(route: string): number {
+    const now = this.now();
+    const bucket = this.buckets.get(route);
+    const bucketWait = bucket && bucket.remaining <= 0 ? bucket.resetAt - now : 0;
+    return Math.max(0, this.globalResetAt - now, bucketWait);
+  }
+
+  /**
+   * Learn a route's bucket from the rate limit headers of a response
+   */
+  recordResponse(route: string, headers: ResponseHeaders): void {
+    const limit = Number(headers.get("x-ratelimit-limit"));
+    const remaining = Number(headers.get("x-ratelimit-remaining"));
+    const resetAfter = Number(headers.get("x-ratelimit-reset-after"));
+    if (!headers.get("x-ratelimit-limit") || [limit, remaining, resetAfter].some(isNaN)) return;
+
+    this.buckets.set(route, { limit, remaining, resetAt: this.now() + resetAfter * 1000 });
+  }
+
+  /**
+   * Block the route (or every route for a global limit) until the limit resets
+   */
+  recordRateLimit(info: RateLimitInfo): RateLimitEvent {
+    const now = this.now();
+    const resetAt = now + info.timeout;
+
+    this.hits.push(now);
+    if (info.global) {
+      this.globalResetAt = Math.max(this.globalResetAt, resetAt);
+    } else {
+      this.buckets.set(info.route, { limit: info.limit, remaining: 0, resetAt });
+    }
+
+    return {
+      route: info.route,
+      method: info.method,
+      global: info.global,
+      limit: info.limit,
+      retryAfterMs: info.timeout,
+      resetAt: new Date(resetAt).toISOString(),
+    };
+  }
+
+  getUsage(): RateLimitUsage {
+    const now = this.now();
+    this.prune(now);
+
+    const limited = Array.from(this.buckets.values()).filter(bucket => bucket.remaining <= 0);
+    const resetAt = Math.max(this.globalResetAt, ...limited.map(bucket => bucket.resetAt));
+    const lastHit = this.hits[this.hits.length - 1];
+
+    return {
+      hitsLastHour: this.hits.length,
+      limitedRoutes: limited.length,
+      globalLimited: this.globalResetAt > now,
+      queued: this.queued,
+      ...(resetAt > now && { resetAt: new Date(resetAt).toISOString() }),
+      ...(lastHit && { lastLimitedAt: new Date(lastHit).toISOString() }),
+    };
+  }
+
+  // Forget buckets that have reset and 429s older than an hour
+  private prune(now: number): void {
+    this.buckets.forEach((bucket, route) => {
+      if (bucket.resetAt <= now) this.buckets.delete(route);
+    });
+    this.hits = this.hits.filter(timestamp => timestamp > now - HOUR_MS);
+  }
+}
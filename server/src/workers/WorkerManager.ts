@@ -2,16 +2,44 @@ import { Worker } from "worker_threads";
 import path from "path";
 import { EventEmitter } from "events";
 import logger from "../utils/logger";
-import { WorkerMessage, WorkerResponse } from "../types/worker";
-import { IDiscordAccount } from "../models";
-import { Document } from "mongoose";
+import {
+  ActivityState,
+  DeliveryFeedback,
+  DeliveryResult,
+  DmCommand,
+  FriendPresence,
+  FriendSyncTrigger,
+  PacingUsage,
+  RateLimitEvent,
+  RateLimitUsage,
+  SyncedFriend,
+  WorkerHeartbeatState,
+  WorkerMemoryUsage,
+  WorkerMessage,
+  WorkerResponse,
+} from "../types/worker";
+import { DiscordAccount, IDiscordAccount } from "../models";
+import { WorkerRestart, WorkerRestartReason } from "../models/WorkerRestart";
+import { Document, Types } from "mongoose";
 import { decryptToken } from "../utils/encryption";
+import { ContentService } from "../services/ContentService";
+import { DeliveryQueueService } from "../services/DeliveryQueueService";
+import { AlertService } from "../services/AlertService";
+import { ActivityService } from "../services/ActivityService";
+import { FriendSyncService } from "../services/FriendSyncService";
+import { FriendPreferenceService } from "../services/FriendPreferenceService";
+import socketService from "../services/SocketService";
+import config from "../config";
+import { WorkerSupervisor } from "./WorkerSupervisor";
+import { PoolBalancer } from "./PoolBalancer";
 
 interface WorkerMetrics {
   threadCount: number;
   requestsPerMinute: number;
   errorRate: number;
   presenceUpdatesPerMinute: number;
+  deliveriesPerMinute: number;
+  deliveryFailuresPerMinute: number;
   memoryUsage: number;
   uptime: number;
   requestCount: number;
@@ -27,6 +55,35 @@ interface WorkerStatus {
   memoryUsage: number;
   reconnectAttempts?: number;
   lastActivity?: Date;
+  pacing?: PacingUsage;
+  rateLimits?: RateLimitUsage;
+  /** Last 429 the worker ran into */
+  rateLimit?: RateLimitEvent;
+  /** Supervisor view of the worker: up, waiting to be restarted or parked after a crash loop */
+  state?: "running" | "restarting" | "degraded";
+  startedAt?: Date;
+  /** Last heartbeat received from the worker thread */
+  lastHeartbeatAt?: Date;
+  /** False while the worker misses heartbeats */
+  responsive?: boolean;
+  eventLoopLagMs?: number;
+  gatewayPingMs?: number;
+  /** Thread hosting the account, shared with other accounts in pooled mode */
+  threadId?: number;
+}
+
+export type SupervisorState = NonNullable<WorkerStatus["state"]> | "stopped";
+
+/**
+ * Decides which server process runs an account's worker when several share the database
+ */
+export interface WorkerRouter {
+  /** Take ownership of the account, false when another node owns it */
+  claim(accountId: string): Promise<boolean>;
+  /** Hand a message for an account running elsewhere to the node that runs it */
+  forward(accountId: string, message: WorkerMessage): Promise<void>;
+  /** Accounts other nodes currently own */
+  getRemoteAccountIds(): string[];
 }
 
 interface ManagerWorkerStatus extends Omit<WorkerStatus, "uptime" | "memoryUsage"> {
@@ -44,20 +101,50 @@ export class WorkerManager extends EventEmitter {
     requests: number;
     errors: number;
     presenceUpdates: number;
+    deliveries: number;
+    deliveryFailures: number;
     lastReset: Date;
   } = {
     requests: 0,
     errors: 0,
     presenceUpdates: 0,
+    deliveries: 0,
+    deliveryFailures: 0,
     lastReset: new Date(),
   };
 
+  private supervisor = new WorkerSupervisor();
+  private restartTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Workers being stopped on purpose, which must not be restarted
+  private stopping: Set<string> = new Set();
+  // Why the manager terminated a worker, for the restart history
+  private terminationReasons: Map<string, WorkerRestartReason> = new Map();
+
+  // Pooled mode hosts many accounts per thread; `workers` then maps accounts to shared threads
+  private pooled = config.workerPool.enabled;
+  private balancer = new PoolBalancer(config.workerPool.size);
+  private poolThreads: Map<number, Worker> = new Map();
+  // Accounts being moved to another pool thread, relaunched instead of supervised on exit
+  private migrating: Set<string> = new Set();
+
+  // Set while this process is one of several nodes sharing the accounts
+  private router: WorkerRouter | null = null;
+
+  // Set once shutting down: no workers are started or restarted anymore
+  private draining = false;
+  // Delivery results still being recorded, waited for before the workers are stopped
+  private pendingResults: Set<Promise<void>> = new Set();
+
   private constructor() {
     super();
     this.workers = new Map();
     this.workerStatus = new Map();
     // Reset metrics every minute
     setInterval(() => this.resetMetrics(), 60000);
+    setInterval(() => {
+      this.restartStalledWorkers();
+      this.checkWorkerLiveness();
+    }, config.supervisor.checkIntervalMs);
   }
 
   public static getInstance(): WorkerManager {
@@ -67,7 +154,36 @@ export class WorkerManager extends EventEmitter {
     return WorkerManager.instance;
   }
 
-  public startWorker(
+  public setRouter(router: WorkerRouter | null): void {
+    this.router = router;
+  }
+
+  public async startWorker(
+    account: Document<unknown, Record<string, never>, IDiscordAccount> & IDiscordAccount,
+  ): Promise<void> {
+    const accountId = account._id.toString();
+
+    if (this.draining) {
+      logger.warn(`Not starting worker for account ${accountId} while draining`);
+      return;
+    }
+
+    // Another node owns the account, so it starts the worker there
+    if (this.router && !this.workers.has(accountId) && !(await this.router.claim(accountId))) {
+      await this.router.forward(accountId, { type: "START", data: { accountId } });
+      return;
+    }
+
+    // Starting by hand gives a crash looping account a fresh set of restarts
+    if (!this.workers.has(accountId)) {
+      this.cancelRestart(accountId);
+      this.supervisor.reset(accountId);
+      this.clearDegraded(accountId);
+    }
+    this.launchWorker(account);
+  }
+
+  private launchWorker(
     account: Document<unknown, Record<string, never>, IDiscordAccount> & IDiscordAccount,
   ): void {
     const accountId = account._id.toString();
@@ -89,24 +205,23 @@ export class WorkerManager extends EventEmitter {
         memoryUsage: 0,
         reconnectAttempts: 0,
         lastActivity: new Date(),
+        state: "running",
+        startedAt: new Date(),
+        responsive: true,
       });
 
       // Extract only serializable settings from account settings
       const serializableSettings = this.getSerializableSettings(account.settings);
 
-      const worker = new Worker(path.join(__dirname, "../../dist/workers/DiscordWorker.js"), {
-        workerData: {
-          accountId,
-          token,
-          settings: serializableSettings,
-        },
-      });
-
-      this.setupWorkerEventHandlers(worker, accountId);
+      const worker = this.pooled
+        ? this.placeOnPool(accountId, token, serializableSettings)
+        : this.spawnWorker(accountId, token, serializableSettings);
       this.workers.set(accountId, worker);
+      this.workerStatus.get(accountId)!.threadId = worker.threadId;
 
-      // Send START message to worker
-      worker.postMessage({ type: "START" });
+      // Send START message to worker, followed by the presence it saw before
+      this.post(accountId, { type: "START", data: { accountId } });
+      this.restorePresence(accountId);
 
       logger.info(`Started worker for account ${accountId}`);
     } catch (error) {
@@ -115,6 +230,112 @@ export class WorkerManager extends EventEmitter {
     }
   }
 
+  private spawnWorker(accountId: string, token: string, settings: Record<string, any>): Worker {
+    const worker = new Worker(path.join(__dirname, "../../dist/workers/DiscordWorker.js"), {
+      workerData: {
+        accountId,
+        token,
+        settings,
+      },
+    });
+
+    this.setupWorkerEventHandlers(worker, accountId);
+    return worker;
+  }
+
+  /**
+   * Hand the account to the least loaded pool thread, starting a new thread while the pool
+   * is not full
+   */
+  private placeOnPool(accountId: string, token: string, settings: Record<string, any>): Worker {
+    const threadId = this.balancer.pick();
+    const worker = threadId === null ? this.spawnPoolThread() : this.poolThreads.get(threadId)!;
+
+    this.balancer.assign(accountId, worker.threadId);
+    worker.postMessage({
+      accountId,
+      message: { type: "ADD_ACCOUNT", data: { accountId, token, settings } },
+    });
+    return worker;
+  }
+
+  private spawnPoolThread(): Worker {
+    const worker = new Worker(path.join(__dirname, "../../dist/workers/PoolWorker.js"), {
+      workerData: { pooled: true },
+    });
+    // The thread id is gone once the thread exited, so keep it for the exit handler
+    const { threadId } = worker;
+
+    this.poolThreads.set(threadId, worker);
+    this.balancer.addThread(threadId);
+
+    worker.on("message", (response: WorkerResponse) =>
+      this.handleWorkerMessage(response.data.accountId, response),
+    );
+    worker.on("error", error => {
+      logger.error(`Pool thread ${threadId} error:`, error);
+      this.balancer
+        .accountsOf(threadId)
+        .forEach(accountId => this.handleWorkerError(accountId, error));
+    });
+    worker.on("exit", code => {
+      this.poolThreads.delete(threadId);
+      // Every account of a thread that went down went down with it
+      this.balancer
+        .removeThread(threadId)
+        .forEach(accountId => this.handleAccountExit(accountId, code));
+    });
+
+    logger.info(`Started pool thread ${threadId}`);
+    return worker;
+  }
+
+  /**
+   * Take an account off its pool thread, shut down threads left without accounts and even out
+   * the remaining ones
+   */
+  private releaseFromPool(accountId: string): void {
+    if (this.balancer.release(accountId) === undefined) return;
+
+    this.balancer.idleThreads().forEach(threadId => {
+      const thread = this.poolThreads.get(threadId);
+      this.poolThreads.delete(threadId);
+      this.balancer.removeThread(threadId);
+      thread?.terminate();
+      logger.info(`Stopped idle pool thread ${threadId}`);
+    });
+    this.rebalance();
+  }
+
+  /**
+   * Move one account from the busiest pool thread when threads drifted apart. The move
+   * finishing triggers the next one, so accounts reconnect one at a time.
+   */
+  private rebalance(): void {
+    if (!this.pooled || this.draining || this.migrating.size > 0) return;
+
+    const move = this.balancer.nextMove();
+    if (!move) return;
+
+    logger.info(
+      `Moving account ${move.accountId} off pool thread ${move.from} to even out the pool`,
+    );
+    this.migrating.add(move.accountId);
+    this.post(move.accountId, { type: "STOP", data: { accountId: move.accountId } });
+  }
+
+  /**
+   * Send a message to the account's worker, addressed to the account on pooled threads
+   */
+  private post(accountId: string, message: WorkerMessage): void {
+    const worker = this.workers.get(accountId);
+    if (!worker) {
+      throw new Error(`No worker found for account ${accountId}`);
+    }
+
+    worker.postMessage(this.pooled ? { accountId, message } : message);
+  }
+
   // Helper method to ensure settings are serializable
   private getSerializableSettings(settings: IDiscordAccount["settings"]): Record<string, any> {
     // Create a new object with only primitive values that can be serialized
@@ -139,6 +360,7 @@ export class WorkerManager extends EventEmitter {
         quotes: settings.contentPreferences.quotes,
         news: settings.contentPreferences.news,
         jokes: settings.contentPreferences.jokes,
+        providers: [...(settings.contentPreferences.providers || [])],
       };
     }
 
@@ -150,40 +372,77 @@ export class WorkerManager extends EventEmitter {
           settings.deliveryPreferences.timeWindows?.map(window => ({
             start: window.start,
             end: window.end,
+            ...(window.days?.length && { days: [...window.days] }),
           })) || [],
       };
     }
 
+    // Handle pacing overrides (unset fields fall back to the server defaults in the worker)
+    if (settings.pacing) {
+      const { pacing } = settings;
+      serializableSettings.pacing = {
+        enabled: pacing.enabled,
+        minDelayMs: pacing.minDelayMs,
+        maxDelayMs: pacing.maxDelayMs,
+        typingMsPerChar: pacing.typingMsPerChar,
+        maxTypingMs: pacing.maxTypingMs,
+        hourlyBudget: pacing.hourlyBudget,
+        dailyBudget: pacing.dailyBudget,
+        quietHours: pacing.quietHours
+          ? { start: pacing.quietHours.start, end: pacing.quietHours.end }
+          : pacing.quietHours,
+      };
+    }
+
+    if (settings.timeZone) {
+      serializableSettings.timeZone = settings.timeZone;
+    }
+
+    if (settings.activityPriority) {
+      serializableSettings.activityPriority = [...settings.activityPriority];
+    }
+
     // Add any other settings properties here that are safe for serialization
 
     return serializableSettings;
   }
 
   public async stopWorker(accountId: string): Promise<void> {
-    const worker = this.workers.get(accountId);
-    if (!worker) {
+    this.cancelRestart(accountId);
+    this.supervisor.reset(accountId);
+    this.clearDegraded(accountId);
+
+    if (this.router && !this.workerStatus.has(accountId)) {
+      await this.router.forward(accountId, { type: "STOP", data: { accountId } });
+      return;
+    }
+
+    if (!this.workers.has(accountId)) {
+      // A worker waiting to be restarted or parked as degraded has no thread to stop
+      this.workerStatus.delete(accountId);
       logger.warn(`No worker found for account ${accountId}`);
       return;
     }
 
+    this.stopping.add(accountId);
     try {
-      const message: WorkerMessage = {
-        type: "STOP",
-        data: { accountId },
-      };
-      worker.postMessage(message);
-
-      // Wait for worker to terminate
-      await new Promise<void>((resolve, reject) => {
-        worker.once("exit", code => {
+      // Wait for the account's worker to exit, a pooled thread keeps running for other accounts
+      const exited = new Promise<void>((resolve, reject) => {
+        const onExit = ({ accountId: exitedId, code }: { accountId: string; code: number }) => {
+          if (exitedId !== accountId) return;
+          this.off("worker:exit", onExit);
           if (code === 0) {
             resolve();
           } else {
             reject(new Error(`Worker stopped with exit code ${code}`));
           }
-        });
+        };
+        this.on("worker:exit", onExit);
       });
 
+      this.post(accountId, { type: "STOP", data: { accountId } });
+      await exited;
+
       this.workers.delete(accountId);
       this.workerStatus.delete(accountId);
       logger.info(`Stopped worker for account ${accountId}`);
@@ -198,19 +457,18 @@ export class WorkerManager extends EventEmitter {
     settings: IDiscordAccount["settings"],
   ): void {
     const accountId = account._id.toString();
-    const worker = this.workers.get(accountId);
 
-    if (!worker) {
+    if (!this.workers.has(accountId)) {
+      if (this.router) {
+        this.forward(accountId, { type: "UPDATE_SETTINGS", data: { accountId, settings } });
+        return;
+      }
       logger.warn(`No worker found for account ${accountId}`);
       return;
     }
 
     try {
-      const message: WorkerMessage = {
-        type: "UPDATE_SETTINGS",
-        data: { accountId, settings },
-      };
-      worker.postMessage(message);
+      this.post(accountId, { type: "UPDATE_SETTINGS", data: { accountId, settings } });
       logger.info(`Updated settings for worker ${accountId}`);
     } catch (error) {
       logger.error(`Failed to update settings for worker ${accountId}:`, error);
@@ -219,95 +477,661 @@ export class WorkerManager extends EventEmitter {
   }
 
   private setupWorkerEventHandlers(worker: Worker, accountId: string): void {
-    worker.on("message", (response: WorkerResponse) => {
-      this.metrics.requests++;
-      this.emit("worker:message", response);
+    worker.on("message", (response: WorkerResponse) =>
+      this.handleWorkerMessage(accountId, response),
+    );
+    worker.on("error", error => this.handleWorkerError(accountId, error));
+    worker.on("exit", code => this.handleAccountExit(accountId, code));
+  }
 
-      // Update last activity timestamp
-      const status = this.workerStatus.get(accountId);
-      if (status) {
-        status.lastActivity = new Date();
-      }
+  private handleWorkerMessage(accountId: string, response: WorkerResponse): void {
+    this.metrics.requests++;
+    this.emit("worker:message", response);
 
-      // Handle different response types
-      switch (response.type) {
-        case "STATUS":
-          if (response.data.status) {
-            const newStatus: ManagerWorkerStatus = {
-              ...response.data.status,
-              accountId,
-              lastActivity: new Date(),
-              hasError: false,
-            };
-            this.workerStatus.set(accountId, newStatus);
-          }
-          this.emit("worker:status", response.data);
-          break;
-
-        case "ERROR":
-          this.metrics.errors++;
-          if (response.data.error) {
-            const errorStatus = this.workerStatus.get(accountId);
-            if (errorStatus) {
-              errorStatus.hasError = true;
-              errorStatus.lastError = response.data.error.message;
-              this.workerStatus.set(accountId, errorStatus);
-            }
+    // Update last activity timestamp
+    const status = this.workerStatus.get(accountId);
+    if (status) {
+      status.lastActivity = new Date();
+    }
+
+    // Handle different response types
+    switch (response.type) {
+      case "STATUS":
+        if (response.data.status) {
+          const newStatus: ManagerWorkerStatus = {
+            ...this.workerStatus.get(accountId),
+            ...response.data.status,
+            accountId,
+            lastActivity: new Date(),
+            hasError: false,
+          };
+          this.workerStatus.set(accountId, newStatus);
+          if (newStatus.isConnected) this.supervisor.recordHealthy(accountId);
+        }
+        this.emit("worker:status", response.data);
+        break;
+
+      case "ERROR":
+        this.metrics.errors++;
+        if (response.data.error) {
+          const errorStatus = this.workerStatus.get(accountId);
+          if (errorStatus) {
+            errorStatus.hasError = true;
+            errorStatus.lastError = response.data.error.message;
+            this.workerStatus.set(accountId, errorStatus);
           }
-          logger.error(`Worker ${accountId} error:`, response.data.error);
-          this.emit("worker:error", response.data);
-          break;
-
-        case "PRESENCE_UPDATE":
-          this.metrics.presenceUpdates++;
-          this.emit("worker:presence", response.data);
-          break;
-
-        case "METRICS":
-          if (response.data.metrics) {
-            const metricsStatus = this.workerStatus.get(accountId);
-            if (metricsStatus) {
-              metricsStatus.memoryUsage = response.data.metrics.memoryUsage;
-              metricsStatus.uptime = response.data.metrics.uptime;
-              this.workerStatus.set(accountId, metricsStatus);
-            }
+        }
+        logger.error(`Worker ${accountId} error:`, response.data.error);
+        this.emit("worker:error", response.data);
+        break;
+
+      case "PRESENCE_UPDATE": {
+        const { userId } = response.data;
+        const saved = userId
+          ? this.savePresence(
+              accountId,
+              userId,
+              response.data.newActivity ?? null,
+              !!response.data.warmup,
+            )
+          : Promise.resolve();
+        // Changes seen right after connecting are mostly friends' ongoing activities
+        if (response.data.warmup) break;
+        this.metrics.presenceUpdates++;
+        this.emit("worker:presence", response.data);
+        // Content goes with the session the presence opened, so it is saved first
+        if (userId) {
+          this.trackResult(saved.then(() => this.triggerContent(accountId, userId, response)));
+        }
+        break;
+      }
+
+      case "METRICS":
+      case "HEARTBEAT":
+        if (response.data.metrics) {
+          const metricsStatus = this.workerStatus.get(accountId);
+          if (metricsStatus) {
+            metricsStatus.memoryUsage = response.data.metrics.memoryUsage;
+            metricsStatus.uptime = response.data.metrics.uptime;
+            metricsStatus.pacing = response.data.metrics.pacing;
+            metricsStatus.rateLimits = response.data.metrics.rateLimits;
+            metricsStatus.eventLoopLagMs = response.data.metrics.eventLoopLagMs;
+            metricsStatus.gatewayPingMs = response.data.metrics.gatewayPingMs;
+            this.workerStatus.set(accountId, metricsStatus);
           }
+        }
+        if (response.type === "HEARTBEAT") {
+          this.handleHeartbeat(accountId);
+          this.emit("worker:heartbeat", response.data);
+        } else {
           this.emit("worker:metrics", response.data);
-          break;
-      }
+        }
+        break;
+
+      case "DELIVERY_RESULT":
+        if (response.data.delivery) {
+          if (response.data.delivery.success) {
+            this.metrics.deliveries++;
+          } else if (response.data.delivery.error?.type !== "PACED") {
+            this.metrics.deliveryFailures++;
+          }
+          this.trackResult(this.handleDeliveryResult(accountId, response.data.delivery));
+        }
+        this.emit("worker:delivery", response.data);
+        break;
+
+      case "RATE_LIMITED":
+        if (response.data.rateLimit) {
+          this.handleRateLimit(accountId, response.data.rateLimit);
+        }
+        this.emit("worker:rateLimit", response.data);
+        break;
+
+      case "ACCOUNT_EXITED":
+        this.handleAccountExit(accountId, response.data.code ?? 1);
+        break;
+
+      case "DRAINED":
+        this.handleDrained(accountId, response.data.activities || []);
+        break;
+
+      case "FRIEND_SYNC":
+        this.handleFriendSync(
+          accountId,
+          response.data.trigger || "manual",
+          response.data.friends || [],
+        );
+        break;
+
+      case "DELIVERY_FEEDBACK":
+        if (response.data.feedback) {
+          this.handleDeliveryFeedback(accountId, response.data.feedback);
+        }
+        break;
+
+      case "DM_COMMAND":
+        if (response.data.userId && response.data.command) {
+          this.handleDmCommand(
+            accountId,
+            response.data.userId,
+            response.data.username || response.data.userId,
+            response.data.command,
+          );
+        }
+        break;
+    }
+  }
+
+  private handleWorkerError(accountId: string, error: Error): void {
+    this.metrics.errors++;
+    const status = this.workerStatus.get(accountId);
+    if (status) {
+      status.hasError = true;
+      status.lastError = error.message;
+      this.workerStatus.set(accountId, status);
+    }
+
+    logger.error(`Worker ${accountId} error:`, error);
+    this.emit("worker:error", {
+      accountId,
+      error: {
+        message: error.message,
+        stack: error.stack,
+      },
     });
+  }
 
-    worker.on("error", error => {
+  /**
+   * An account's worker is gone: its dedicated thread exited, its pooled thread went down or
+   * the pool thread let it go
+   */
+  private handleAccountExit(accountId: string, code: number): void {
+    if (code !== 0) {
+      logger.error(`Worker ${accountId} stopped with exit code ${code}`);
       this.metrics.errors++;
-      const status = this.workerStatus.get(accountId);
-      if (status) {
-        status.hasError = true;
-        status.lastError = error.message;
-        this.workerStatus.set(accountId, status);
-      }
+    }
+    const lastError = this.workerStatus.get(accountId)?.lastError;
+    this.workers.delete(accountId);
+    this.workerStatus.delete(accountId);
+    if (this.pooled) this.releaseFromPool(accountId);
+    this.emit("worker:exit", { accountId, code });
+
+    // Deliveries the worker never reported on go to whichever worker runs the account next
+    DeliveryQueueService.getInstance()
+      .requeueDispatched([accountId], "Worker stopped before reporting the delivery")
+      .then(requeued => {
+        if (requeued > 0) logger.warn(`Queued ${requeued} deliveries of ${accountId} again`);
+      })
+      .catch(error => logger.error(`Failed to queue deliveries of ${accountId} again:`, error));
+
+    if (this.stopping.delete(accountId)) {
+      // Stopping wins over a move to another pool thread that was under way
+      if (this.migrating.delete(accountId)) this.rebalance();
+      return;
+    }
+    // Nothing is restarted while draining, the next process starts the account again
+    if (this.draining) {
+      this.migrating.delete(accountId);
+      return;
+    }
+    if (this.migrating.has(accountId)) {
+      this.restartWorker(accountId).finally(() => {
+        this.migrating.delete(accountId);
+        this.rebalance();
+      });
+      return;
+    }
+    const reason = this.terminationReasons.get(accountId) || (code === 0 ? "exited" : "crashed");
+    this.terminationReasons.delete(accountId);
+    this.superviseExit(accountId, reason, code, lastError);
+  }
 
-      logger.error(`Worker ${accountId} error:`, error);
-      this.emit("worker:error", {
+  /**
+   * Restart a worker that went down without being stopped, or park the account as degraded
+   * when it keeps crashing
+   */
+  private async superviseExit(
+    accountId: string,
+    reason: WorkerRestartReason,
+    exitCode?: number,
+    error?: string,
+  ): Promise<void> {
+    const decision = this.supervisor.recordFailure(accountId);
+
+    if (decision.action === "degrade") {
+      logger.error(
+        `Worker ${accountId} restarted ${decision.restarts} times within ${Math.round(config.supervisor.crashLoopWindowMs / 60000)} minutes, parking account as degraded`,
+      );
+      this.workerStatus.set(accountId, {
+        accountId,
+        isConnected: false,
+        hasError: true,
+        lastError: error,
+        state: "degraded",
+      });
+    } else {
+      logger.warn(
+        `Worker ${accountId} ${reason}, restarting in ${Math.round(decision.delayMs / 1000)}s (attempt ${decision.attempt})`,
+      );
+      this.workerStatus.set(accountId, {
         accountId,
-        error: {
-          message: error.message,
-          stack: error.stack,
-        },
+        isConnected: false,
+        hasError: !!error,
+        lastError: error,
+        state: "restarting",
       });
+      this.restartTimers.set(
+        accountId,
+        setTimeout(() => this.restartWorker(accountId), decision.delayMs),
+      );
+    }
+
+    try {
+      await WorkerRestart.create({
+        discordAccountId: new Types.ObjectId(accountId),
+        reason,
+        exitCode,
+        error,
+        attempt: decision.attempt,
+        delayMs: decision.action === "restart" ? decision.delayMs : 0,
+        action: decision.action,
+      });
+      if (decision.action === "degrade") {
+        await DiscordAccount.updateOne(
+          { _id: accountId },
+          {
+            $set: {
+              "status.degraded": true,
+              "status.degradedAt": new Date(),
+              "status.degradedReason": error || `Worker ${reason} repeatedly`,
+            },
+          },
+        );
+      }
+    } catch (recordError) {
+      logger.error(`Failed to record restart of worker ${accountId}:`, recordError);
+    }
+  }
+
+  private async restartWorker(accountId: string): Promise<void> {
+    this.restartTimers.delete(accountId);
+    try {
+      const account = await DiscordAccount.findById(accountId);
+      // The account may have been deleted, deactivated or taken over by another node while waiting
+      if (!account || !account.isActive || (this.router && !(await this.router.claim(accountId)))) {
+        this.workerStatus.delete(accountId);
+        this.supervisor.reset(accountId);
+        return;
+      }
+      this.launchWorker(account);
+    } catch (error) {
+      logger.error(`Failed to restart worker for account ${accountId}:`, error);
+      this.superviseExit(
+        accountId,
+        "crashed",
+        undefined,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Terminate workers that never connected after starting, so they are restarted
+   */
+  private restartStalledWorkers(): void {
+    const now = Date.now();
+    Array.from(this.workers.keys()).forEach(accountId => {
+      const status = this.workerStatus.get(accountId);
+      if (
+        !status?.startedAt ||
+        status.isConnected ||
+        now - status.startedAt.getTime() < config.supervisor.startupTimeoutMs ||
+        this.terminationReasons.has(accountId) ||
+        this.stopping.has(accountId)
+      ) {
+        return;
+      }
+
+      logger.warn(`Worker ${accountId} has not connected since ${status.startedAt.toISOString()}`);
+      this.terminateWorker(accountId, "stalled");
     });
+  }
 
-    worker.on("exit", code => {
-      if (code !== 0) {
-        logger.error(`Worker ${accountId} stopped with exit code ${code}`);
-        this.metrics.errors++;
+  private handleHeartbeat(accountId: string): void {
+    const status = this.workerStatus.get(accountId);
+    if (!status) return;
+
+    if (status.responsive === false) {
+      logger.info(`Worker ${accountId} is responsive again`);
+    }
+    status.lastHeartbeatAt = new Date();
+    status.responsive = true;
+    socketService.emitWorkerHeartbeat(this.getHeartbeatState(status));
+  }
+
+  /**
+   * Flag workers that stopped sending heartbeats, and terminate the ones that stay silent so
+   * the supervisor restarts them
+   */
+  private checkWorkerLiveness(): void {
+    Array.from(this.workers.keys()).forEach(accountId => {
+      const status = this.workerStatus.get(accountId);
+      const lastSeenAt = status?.lastHeartbeatAt || status?.startedAt;
+      if (
+        !status ||
+        !lastSeenAt ||
+        this.terminationReasons.has(accountId) ||
+        this.stopping.has(accountId)
+      ) {
+        return;
+      }
+
+      const liveness = this.supervisor.checkLiveness(lastSeenAt);
+      if (liveness === "responsive") return;
+
+      if (status.responsive !== false) {
+        logger.warn(
+          `Worker ${accountId} has not sent a heartbeat since ${lastSeenAt.toISOString()}`,
+        );
+        status.responsive = false;
+        socketService.emitWorkerHeartbeat(this.getHeartbeatState(status));
+      }
+
+      if (liveness === "restart") {
+        logger.warn(`Terminating unresponsive worker ${accountId}`);
+        this.terminateWorker(accountId, "unresponsive");
+      }
+    });
+  }
+
+  /**
+   * Take down an account's worker so the supervisor restarts it. A pooled account is let go
+   * by its thread, unless the whole thread stopped responding.
+   */
+  private terminateWorker(accountId: string, reason: WorkerRestartReason): void {
+    const worker = this.workers.get(accountId);
+    if (!worker) return;
+
+    const threadId = this.balancer.threadOf(accountId);
+    if (!this.pooled || threadId === undefined) {
+      this.terminationReasons.set(accountId, reason);
+      worker.terminate();
+      return;
+    }
+
+    const accounts = this.balancer.accountsOf(threadId);
+    const hung = accounts.every(id => this.workerStatus.get(id)?.responsive === false);
+    if (reason === "unresponsive" && hung) {
+      logger.warn(`Pool thread ${threadId} stopped responding, terminating it`);
+      accounts.forEach(id => this.terminationReasons.set(id, reason));
+      worker.terminate();
+      return;
+    }
+
+    this.terminationReasons.set(accountId, reason);
+    this.post(accountId, { type: "STOP", data: { accountId } });
+  }
+
+  /**
+   * Heap used by the worker threads and what that comes down to per account. Accounts on the
+   * same pooled thread all report that thread's heap, so it is counted once per thread.
+   */
+  public getMemoryUsage(): WorkerMemoryUsage {
+    const threadHeaps = new Map<number, number>();
+    this.workerStatus.forEach(status => {
+      if (status.threadId === undefined || !this.workers.has(status.accountId)) return;
+      threadHeaps.set(
+        status.threadId,
+        Math.max(threadHeaps.get(status.threadId) || 0, status.memoryUsage || 0),
+      );
+    });
+
+    const accounts = this.workers.size;
+    const heapUsed = Array.from(threadHeaps.values()).reduce((total, heap) => total + heap, 0);
+    return {
+      mode: this.pooled ? "pooled" : "dedicated",
+      threads: new Set(this.workers.values()).size,
+      accounts,
+      heapUsed,
+      perAccount: accounts > 0 ? Math.round(heapUsed / accounts) : 0,
+    };
+  }
+
+  private getHeartbeatState(status: ManagerWorkerStatus): WorkerHeartbeatState {
+    return {
+      accountId: status.accountId,
+      responsive: status.responsive !== false,
+      isConnected: status.isConnected,
+      lastHeartbeatAt: status.lastHeartbeatAt?.toISOString(),
+      memoryUsage: status.memoryUsage,
+      uptime: status.uptime,
+      eventLoopLagMs: status.eventLoopLagMs,
+      gatewayPingMs: status.gatewayPingMs,
+    };
+  }
+
+  private cancelRestart(accountId: string): void {
+    const timer = this.restartTimers.get(accountId);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(accountId);
+    }
+  }
+
+  private clearDegraded(accountId: string): void {
+    DiscordAccount.updateOne(
+      { _id: accountId, "status.degraded": true },
+      {
+        $set: { "status.degraded": false, "status.degradedAt": null },
+        $unset: { "status.degradedReason": 1 },
+      },
+    ).catch(error => logger.error(`Failed to clear degraded state of ${accountId}:`, error));
+  }
+
+  /**
+   * Settle the delivery job, then record the final outcome on the content history and
+   * notify connected clients
+   */
+  private async handleDeliveryResult(accountId: string, delivery: DeliveryResult): Promise<void> {
+    try {
+      const outcome = await DeliveryQueueService.getInstance().recordResult(delivery);
+
+      if (outcome !== "retrying") {
+        await ContentService.getInstance().updateDeliveryStatus(
+          new Types.ObjectId(delivery.historyId),
+          delivery.success ? "SUCCESS" : "FAILED",
+          delivery.error?.message,
+          delivery,
+        );
+      }
+
+      socketService.emitDeliveryResult({ ...delivery, accountId, outcome });
+    } catch (error) {
+      logger.error(`Failed to record delivery result for ${delivery.historyId}:`, error);
+    }
+  }
+
+  /**
+   * Remember the rate limit for the account's health and alert its owner. While an earlier
+   * limit is still in effect the alert for it is still open, so it is not raised again.
+   */
+  private async handleRateLimit(accountId: string, rateLimit: RateLimitEvent): Promise<void> {
+    const status = this.workerStatus.get(accountId);
+    const previous = status?.rateLimit;
+    if (status) status.rateLimit = rateLimit;
+    if (previous && new Date(previous.resetAt) > new Date()) return;
+
+    try {
+      await AlertService.getInstance().reportRateLimit(accountId, rateLimit);
+    } catch (error) {
+      logger.error(`Failed to alert rate limit for account ${accountId}:`, error);
+    }
+  }
+
+  /**
+   * Get every worker ready for shutdown: stop starting and restarting workers, have the
+   * workers finish the deliveries they were handed and stop reporting presence, record the
+   * results and persist the presence they last saw. The workers keep running until stopped.
+   */
+  public async drainWorkers(): Promise<void> {
+    this.draining = true;
+    Array.from(this.restartTimers.keys()).forEach(accountId => this.cancelRestart(accountId));
+
+    await Promise.all(
+      Array.from(this.workers.keys()).map(accountId => this.drainWorker(accountId)),
+    );
+    await Promise.all(this.pendingResults);
+    logger.info("All workers drained");
+  }
+
+  public isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Resolves once the worker reported it is drained and its presence was saved, or it exited
+   */
+  private drainWorker(accountId: string): Promise<void> {
+    return new Promise<void>(resolve => {
+      const onDone = ({ accountId: doneId }: { accountId: string }) => {
+        if (doneId !== accountId) return;
+        this.off("worker:drained", onDone);
+        this.off("worker:exit", onDone);
+        resolve();
+      };
+      this.on("worker:drained", onDone);
+      this.on("worker:exit", onDone);
+
+      try {
+        this.post(accountId, { type: "DRAIN", data: { accountId } });
+      } catch (error) {
+        logger.error(`Failed to drain worker for account ${accountId}:`, error);
+        onDone({ accountId });
       }
-      this.workers.delete(accountId);
-      this.workerStatus.delete(accountId);
-      this.emit("worker:exit", { accountId, code });
     });
   }
 
+  private async savePresence(
+    accountId: string,
+    userId: string,
+    activity: ActivityState | null,
+    warmup: boolean,
+  ): Promise<void> {
+    try {
+      const activityService = ActivityService.getInstance();
+      await activityService.savePresence(accountId, userId, activity);
+      await activityService.trackSession(accountId, userId, activity, { warmup });
+    } catch (error) {
+      logger.error(`Failed to save presence of ${userId} for account ${accountId}:`, error);
+    }
+  }
+
+  /**
+   * Have a friend's new activity trigger content, as the account's rules decide
+   */
+  private async triggerContent(
+    accountId: string,
+    userId: string,
+    { data }: WorkerResponse,
+  ): Promise<void> {
+    try {
+      const result = await ActivityService.getInstance().processActivity({
+        accountId,
+        friendId: userId,
+        oldActivity: data.oldActivity ?? null,
+        newActivity: data.newActivity ?? null,
+        timestamp: data.timestamp || new Date().toISOString(),
+      });
+      if (result.shouldSendContent) {
+        logger.info(`Queued content about ${result.trigger} for ${userId} of account ${accountId}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to trigger content for ${userId} of account ${accountId}:`, error);
+    }
+  }
+
+  /**
+   * Hand a starting worker the presence saved for the account's friends. The worker is
+   * connecting meanwhile, and its warm-up covers changes seen before this arrives.
+   */
+  private async restorePresence(accountId: string): Promise<void> {
+    try {
+      const activities = await ActivityService.getInstance().loadLastActivities(accountId);
+      if (activities.length === 0 || !this.workers.has(accountId)) return;
+
+      this.post(accountId, { type: "RESTORE_PRESENCE", data: { accountId, activities } });
+    } catch (error) {
+      logger.error(`Failed to restore presence for account ${accountId}:`, error);
+    }
+  }
+
+  private async handleDrained(accountId: string, activities: FriendPresence[]): Promise<void> {
+    try {
+      const saved = await ActivityService.getInstance().saveLastActivities(accountId, activities);
+      logger.info(`Worker ${accountId} drained, saved the presence of ${saved} friends`);
+    } catch (error) {
+      logger.error(`Failed to save the presence seen by worker ${accountId}:`, error);
+    } finally {
+      this.emit("worker:drained", { accountId });
+    }
+  }
+
+  private async handleFriendSync(
+    accountId: string,
+    trigger: FriendSyncTrigger,
+    friends: SyncedFriend[],
+  ): Promise<void> {
+    try {
+      const sync = await FriendSyncService.getInstance().apply(accountId, trigger, friends);
+      if (sync) this.emit("worker:friendSync", { accountId, syncId: sync._id, trigger });
+    } catch (error) {
+      logger.error(`Failed to sync friends for account ${accountId}:`, error);
+    }
+  }
+
+  private async handleDeliveryFeedback(
+    accountId: string,
+    feedback: DeliveryFeedback,
+  ): Promise<void> {
+    try {
+      await ContentService.getInstance().recordFriendFeedback(accountId, feedback);
+    } catch (error) {
+      logger.error(`Failed to record ${feedback.kind} on message ${feedback.messageId}:`, error);
+    }
+  }
+
+  /**
+   * Save a friend's DM command and have the worker confirm it. Nothing is replied when saving
+   * failed, so the friend is never told about a change that did not happen.
+   */
+  private async handleDmCommand(
+    accountId: string,
+    userId: string,
+    username: string,
+    command: DmCommand,
+  ): Promise<void> {
+    try {
+      const reply = await FriendPreferenceService.getInstance().handleDmCommand(
+        accountId,
+        userId,
+        username,
+        command,
+      );
+      if (reply && this.workers.has(accountId)) {
+        this.post(accountId, { type: "DM_REPLY", data: { accountId, userId, text: reply } });
+      }
+    } catch (error) {
+      logger.error(`Failed to apply DM command from ${userId} for account ${accountId}:`, error);
+    }
+  }
+
+  private trackResult(result: Promise<void>): void {
+    this.pendingResults.add(result);
+    result.finally(() => this.pendingResults.delete(result));
+  }
+
   public async stopAllWorkers(): Promise<void> {
+    Array.from(this.restartTimers.keys()).forEach(accountId => this.cancelRestart(accountId));
     const stopPromises = Array.from(this.workers.keys()).map(accountId =>
       this.stopWorker(accountId),
     );
@@ -338,6 +1162,13 @@ export class WorkerManager extends EventEmitter {
     return this.workerStatus.get(accountId) || null;
   }
 
+  /**
+   * Whether the account's worker is running, waiting to be restarted or parked as degraded
+   */
+  getSupervisorState(accountId: string): SupervisorState {
+    return this.workerStatus.get(accountId)?.state || "stopped";
+  }
+
   /**
    * Get all workers status
    */
@@ -352,14 +1183,13 @@ export class WorkerManager extends EventEmitter {
     const minutesSinceReset = (Date.now() - this.metrics.lastReset.getTime()) / 1000 / 60;
 
     return {
-      threadCount: this.workers.size,
+      threadCount: new Set(this.workers.values()).size,
       requestsPerMinute: Math.round(this.metrics.requests / minutesSinceReset),
       errorRate: Math.round(this.metrics.errors / minutesSinceReset),
       presenceUpdatesPerMinute: Math.round(this.metrics.presenceUpdates / minutesSinceReset),
-      memoryUsage: Array.from(this.workerStatus.values()).reduce(
-        (total, status) => total + (status.memoryUsage || 0),
-        0,
-      ),
+      deliveriesPerMinute: Math.round(this.metrics.deliveries / minutesSinceReset),
+      deliveryFailuresPerMinute: Math.round(this.metrics.deliveryFailures / minutesSinceReset),
+      memoryUsage: this.getMemoryUsage().heapUsed,
       uptime: process.uptime(),
       requestCount: this.metrics.requests,
       errorCount: this.metrics.errors,
@@ -374,17 +1204,41 @@ export class WorkerManager extends EventEmitter {
       requests: 0,
       errors: 0,
       presenceUpdates: 0,
+      deliveries: 0,
+      deliveryFailures: 0,
       lastReset: new Date(),
     };
   }
 
   public sendToWorker(accountId: string, message: WorkerMessage): void {
-    const worker = this.workers.get(accountId);
-    if (!worker) {
-      throw new Error(`No worker found for account ${accountId}`);
+    if (this.router && !this.workers.has(accountId)) {
+      this.forward(accountId, message);
+      return;
     }
 
-    worker.postMessage(message);
+    this.post(accountId, message);
+  }
+
+  private forward(accountId: string, message: WorkerMessage): void {
+    this.router
+      ?.forward(accountId, message)
+      .catch(error =>
+        logger.error(`Failed to forward ${message.type} for account ${accountId}:`, error),
+      );
+  }
+
+  /**
+   * Accounts with a worker in this process
+   */
+  public getAccountIds(): string[] {
+    return Array.from(this.workers.keys());
+  }
+
+  /**
+   * Accounts whose workers run on other nodes, empty unless clustered
+   */
+  public getRemoteAccountIds(): string[] {
+    return this.router?.getRemoteAccountIds() || [];
   }
 
   /**
@@ -0,0 +1,103 @@
+import config from "../config";
+
+export type Liveness = "responsive" | "unresponsive" | "restart";
+
+export type SupervisorDecision =
+  | { action: "restart"; attempt: number; delayMs: number }
+  | { action: "degrade"; attempt: number; restarts: number };
+
+interface AccountHistory {
+  /** Restarts since the worker last connected */
+  attempt: number;
+  /** Times of recent restarts, for crash loop detection */
+  restarts: number[];
+  degraded: boolean;
+}
+
+/**
+ * Decides what happens when a worker goes down: restart it after an exponentially growing
+ * delay, or park the account as degraded when it keeps crashing. A worker that connects
+ * resets the backoff, but its restarts still count towards crash loop detection until they
+ * fall out of the window.
+ */
+export class WorkerSupervisor {
+  private accounts: Map<string, AccountHistory> = new Map();
+
+  constructor(
+    private readonly options: typeof config.supervisor = config.supervisor,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Record a worker going down and decide how to handle it
+   */
+  recordFailure(accountId: string): SupervisorDecision {
+    const now = this.now();
+    const history = this.getHistory(accountId);
+    history.attempt++;
+    history.restarts = history.restarts.filter(
+      timestamp => timestamp > now - this.options.crashLoopWindowMs,
+    );
+
+    if (history.restarts.length >= this.options.crashLoopThreshold) {
+      history.degraded = true;
+      return { action: "degrade", attempt: history.attempt, restarts: history.restarts.length };
+    }
+
+    history.restarts.push(now);
+    return {
+      action: "restart",
+      attempt: history.attempt,
+      delayMs: this.getBackoffDelay(history.attempt),
+    };
+  }
+
+  /**
+   * The worker connected, so the next failure starts the backoff over
+   */
+  recordHealthy(accountId: string): void {
+    const history = this.accounts.get(accountId);
+    if (history) history.attempt = 0;
+  }
+
+  /**
+   * Judge a worker by its last sign of life: unresponsive once it missed heartbeats for the
+   * liveness timeout, and due a restart after the restart timeout unless that is disabled
+   */
+  checkLiveness(lastSeenAt: Date): Liveness {
+    const silentMs = this.now() - lastSeenAt.getTime();
+    const { livenessTimeoutMs, unresponsiveRestartMs } = this.options;
+
+    if (unresponsiveRestartMs > 0 && silentMs >= unresponsiveRestartMs) return "restart";
+    if (silentMs >= livenessTimeoutMs) return "unresponsive";
+    return "responsive";
+  }
+
+  isDegraded(accountId: string): boolean {
+    return !!this.accounts.get(accountId)?.degraded;
+  }
+
+  /**
+   * Forget an account's history, e.g. when it is started or stopped by hand
+   */
+  reset(accountId: string): void {
+    this.accounts.delete(accountId);
+  }
+
+  /**
+   * Delay before a restart: the base delay doubled for every consecutive restart
+   */
+  getBackoffDelay(attempt: number): number {
+    const { backoffBaseMs, backoffMaxMs } = this.options;
+    return Math.min(backoffMaxMs, backoffBaseMs * 2 ** Math.max(0, attempt - 1));
+  }
+
+  private getHistory(accountId: string): AccountHistory {
+    let history = this.accounts.get(accountId);
+    if (!history) {
+      history = { attempt: 0, restarts: [], degraded: false };
+      this.accounts.set(accountId, history);
+    }
+    return history;
+  }
+}